@@ -9,7 +9,12 @@ import { NavigationContainer } from '@react-navigation/native';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { ThemeProvider, useTheme } from './src/context/ThemeContext';
 import { AuthProvider } from './src/context/AuthContext';
+import { ScriptProvider } from './src/context/ScriptContext';
 import { OfflineIndicator } from './src/components/OfflineIndicator';
+import { apiConfig } from './src/config/api';
+import { apiService } from './src/services/api';
+import { mockBackend } from './src/services/mockBackend';
+import { contentPacks } from './src/services/contentPacks';
 
 // Suppress InteractionManager deprecation warning from dependencies
 // This warning comes from react-native-reanimated/react-native-worklets
@@ -18,6 +23,14 @@ LogBox.ignoreLogs([
   'InteractionManager has been deprecated',
 ]);
 
+// Offline development: answer every API call from the in-memory mock backend
+if (apiConfig.useMockBackend) {
+  apiService.setTransport(mockBackend.transport, { local: true });
+}
+
+// Downloaded books answer shloka lookups before the network
+apiService.setOfflineShlokaSource(contentPacks);
+
 function AppContent() {
   const { theme, themeMode } = useTheme();
 
@@ -38,11 +51,13 @@ function App() {
   return (
     <SafeAreaProvider>
       <ThemeProvider>
-        <AuthProvider>
-          <NavigationContainer>
-            <AppContent />
-          </NavigationContainer>
-        </AuthProvider>
+        <ScriptProvider>
+          <AuthProvider>
+            <NavigationContainer>
+              <AppContent />
+            </NavigationContainer>
+          </AuthProvider>
+        </ScriptProvider>
       </ThemeProvider>
     </SafeAreaProvider>
   );
@@ -0,0 +1,378 @@
+/**
+ * Trash view for the chat history drawer - soft-deleted conversations with their
+ * deletion date, restore / permanent delete / empty trash actions, and the retention
+ * period after which they are purged automatically
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { apiService, AuthError, Conversation, TrashedConversation } from '../services/api';
+import { AlertConfig } from '../hooks/useCustomAlert';
+import { getConversationTitle } from '../utils/conversationExport';
+import {
+  TRASH_RETENTION_OPTIONS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getDaysUntilPurge,
+  purgeExpiredConversations,
+} from '../utils/conversationTrash';
+
+interface ConversationTrashProps {
+  /** Called once a conversation is back in the conversation list */
+  onRestored: (conversation: Conversation) => void;
+  showAlert: (config: AlertConfig) => void;
+}
+
+const formatDeletedDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const ConversationTrash: React.FC<ConversationTrashProps> = ({ onRestored, showAlert }) => {
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+
+  const [trash, setTrash] = useState<TrashedConversation[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const showError = useCallback(
+    (err: unknown, fallbackMessage: string) => {
+      // Token refresh already failed - AuthContext signs out and the login screen explains why
+      if (err instanceof AuthError) return;
+      showAlert({
+        title: 'Error',
+        message: (err instanceof Error && err.message) || fallbackMessage,
+        buttons: [{ text: 'OK' }],
+      });
+    },
+    [showAlert]
+  );
+
+  const loadTrash = useCallback(
+    async (days: number) => {
+      setIsLoading(true);
+      try {
+        const trashed = await apiService.getTrashedConversations();
+        setTrash(await purgeExpiredConversations(trashed, days));
+      } catch (err) {
+        console.error('Error loading trash:', err);
+        showError(err, 'Failed to load deleted conversations. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [showError]
+  );
+
+  useEffect(() => {
+    getTrashRetentionDays().then(days => {
+      setRetentionDays(days);
+      loadTrash(days);
+    });
+  }, [loadTrash]);
+
+  const applyRetention = (days: number) => {
+    setRetentionDays(days);
+    setTrashRetentionDays(days);
+    // A shorter period may make some conversations due now
+    if (days < retentionDays) {
+      loadTrash(days);
+    }
+  };
+
+  const changeRetention = (days: number) => {
+    if (days === retentionDays) return;
+    const due = trash.filter(conversation => getDaysUntilPurge(conversation, days) === 0).length;
+    if (due === 0) {
+      applyRetention(days);
+      return;
+    }
+    showAlert({
+      title: `Keep for ${days} Days`,
+      message: `${due} ${due === 1 ? 'conversation has' : 'conversations have'} been in the trash longer than ${days} days and will be permanently deleted. This cannot be undone.`,
+      buttons: [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => applyRetention(days) },
+      ],
+    });
+  };
+
+  const handleRestore = async (conversation: TrashedConversation) => {
+    setBusyId(conversation.id);
+    try {
+      const restored = await apiService.restoreConversation(conversation.id);
+      setTrash(prev => prev.filter(item => item.id !== conversation.id));
+      onRestored(restored);
+    } catch (err) {
+      console.error('Error restoring conversation:', err);
+      showError(err, 'Failed to restore conversation. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = (conversation: TrashedConversation) => {
+    showAlert({
+      title: 'Delete Forever',
+      message: `"${getConversationTitle(conversation)}" will be permanently deleted. This cannot be undone.`,
+      buttons: [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(conversation.id);
+            try {
+              await apiService.deleteConversation(conversation.id, true);
+              setTrash(prev => prev.filter(item => item.id !== conversation.id));
+            } catch (err) {
+              console.error('Error deleting conversation:', err);
+              showError(err, 'Failed to delete conversation. Please try again.');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  const handleEmptyTrash = () => {
+    showAlert({
+      title: 'Empty Trash',
+      message: `Permanently delete all ${trash.length} ${trash.length === 1 ? 'conversation' : 'conversations'} in the trash? This cannot be undone.`,
+      buttons: [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            setIsLoading(true);
+            try {
+              await apiService.emptyTrash();
+              setTrash([]);
+            } catch (err) {
+              console.error('Error emptying trash:', err);
+              showError(err, 'Failed to empty trash. Please try again.');
+            } finally {
+              setIsLoading(false);
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  return (
+    <View style={dynamicStyles.container}>
+      <View style={dynamicStyles.retention}>
+        <Text style={dynamicStyles.retentionLabel}>Delete forever after</Text>
+        <View style={dynamicStyles.retentionOptions}>
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[dynamicStyles.retentionOption, days === retentionDays && dynamicStyles.retentionOptionSelected]}
+              onPress={() => changeRetention(days)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={`Keep deleted conversations for ${days} days`}
+              accessibilityState={{ selected: days === retentionDays }}
+            >
+              <Text
+                style={[
+                  dynamicStyles.retentionOptionText,
+                  days === retentionDays && dynamicStyles.retentionOptionTextSelected,
+                ]}
+              >
+                {days} days
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={dynamicStyles.loadingContainer}>
+          <ActivityIndicator size="small" color={theme.primary} />
+        </View>
+      ) : trash.length === 0 ? (
+        <View style={dynamicStyles.emptyContainer}>
+          <Text style={dynamicStyles.emptyText}>Trash is empty</Text>
+          <Text style={dynamicStyles.emptySubtext}>
+            Deleted conversations stay here for {retentionDays} days before they are removed for good
+          </Text>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={trash}
+            keyExtractor={item => item.id}
+            style={dynamicStyles.list}
+            renderItem={({ item }) => {
+              const daysLeft = getDaysUntilPurge(item, retentionDays);
+              const isBusy = busyId === item.id;
+              return (
+                <View style={dynamicStyles.item}>
+                  <Text style={dynamicStyles.itemTitle} numberOfLines={2}>
+                    {getConversationTitle(item)}
+                  </Text>
+                  <Text style={dynamicStyles.itemDate}>
+                    Deleted {formatDeletedDate(item.deleted_at)} · {daysLeft === 1 ? '1 day' : `${daysLeft} days`} left
+                  </Text>
+                  <View style={dynamicStyles.itemActions}>
+                    <TouchableOpacity
+                      style={dynamicStyles.itemAction}
+                      onPress={() => handleRestore(item)}
+                      disabled={isBusy}
+                      activeOpacity={0.7}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Restore ${getConversationTitle(item)}`}
+                    >
+                      <Text style={dynamicStyles.restoreText}>↩ Restore</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={dynamicStyles.itemAction}
+                      onPress={() => handleDeleteForever(item)}
+                      disabled={isBusy}
+                      activeOpacity={0.7}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Delete ${getConversationTitle(item)} forever`}
+                    >
+                      <Text style={dynamicStyles.deleteText}>Delete Forever</Text>
+                    </TouchableOpacity>
+                    {isBusy && <ActivityIndicator size="small" color={theme.primary} />}
+                  </View>
+                </View>
+              );
+            }}
+          />
+          <TouchableOpacity
+            style={dynamicStyles.emptyTrashButton}
+            onPress={handleEmptyTrash}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Empty trash"
+          >
+            <Text style={dynamicStyles.emptyTrashText}>Empty Trash</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  retention: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+    gap: 8,
+  },
+  retentionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  retentionOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.border,
+    alignItems: 'center',
+  },
+  retentionOptionSelected: {
+    backgroundColor: theme.primary,
+    borderColor: theme.primary,
+  },
+  retentionOptionText: {
+    fontSize: 14,
+    color: theme.text,
+  },
+  retentionOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    padding: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  item: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: theme.text,
+    marginBottom: 4,
+    fontWeight: '500',
+  },
+  itemDate: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 16,
+  },
+  itemAction: {
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  restoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  deleteText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF4444',
+  },
+  emptyTrashButton: {
+    margin: 16,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FF4444',
+    alignItems: 'center',
+  },
+  emptyTrashText: {
+    color: '#FF4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
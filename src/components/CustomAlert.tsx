@@ -100,12 +100,11 @@ export const CustomAlert: React.FC<CustomAlertProps> = ({
                         dynamicStyles.buttonFullWidth,
                       ]}
                       onPress={() => {
+                        // Dismiss first, so a button can open a follow-up alert
+                        handleDismiss();
                         if (button.onPress) {
                           button.onPress();
                         }
-                        if (!isCancel) {
-                          handleDismiss();
-                        }
                       }}
                       activeOpacity={0.7}
                       accessibilityRole="button"
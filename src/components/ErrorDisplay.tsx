@@ -11,6 +11,8 @@ import {
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
 import { getUserFriendlyError } from '../utils/errorHandler';
+import { ApiRequestError } from '../services/api';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
 
 interface ErrorDisplayProps {
   error: any;
@@ -18,6 +20,8 @@ interface ErrorDisplayProps {
   style?: ViewStyle;
   showRetry?: boolean;
   compact?: boolean;
+  /** Call `onRetry` by itself when a Retry-After countdown runs out (default true) */
+  autoRetry?: boolean;
 }
 
 export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
@@ -26,16 +30,29 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
   style,
   showRetry = true,
   compact = false,
+  autoRetry = true,
 }) => {
   const { theme } = useTheme();
   const dynamicStyles = createStyles(theme);
   const errorInfo = getUserFriendlyError(error);
 
+  // Rate limited or circuit open: the server (or breaker) said when to come back
+  const willAutoRetry = autoRetry && showRetry && !!onRetry;
+  const secondsLeft = useRetryCountdown(
+    error instanceof ApiRequestError ? error.retryAt : undefined,
+    willAutoRetry ? onRetry : undefined
+  );
+  const isCountingDown = secondsLeft > 0;
+  const message = isCountingDown
+    ? `Service temporarily unavailable, ${willAutoRetry ? 'retrying' : 'try again'} in ${secondsLeft}s`
+    : errorInfo.userFriendlyMessage;
+  const canRetryNow = showRetry && onRetry && errorInfo.canRetry && !isCountingDown;
+
   if (compact) {
     return (
       <View style={[dynamicStyles.compactContainer, style]}>
-        <Text style={dynamicStyles.compactText}>{errorInfo.userFriendlyMessage}</Text>
-        {showRetry && onRetry && errorInfo.canRetry && (
+        <Text style={dynamicStyles.compactText}>{message}</Text>
+        {canRetryNow && (
           <TouchableOpacity
             style={dynamicStyles.compactRetryButton}
             onPress={onRetry}
@@ -53,18 +70,20 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
 
   return (
     <View style={[dynamicStyles.container, style]} accessibilityRole="alert">
-      <Text style={dynamicStyles.icon} accessibilityLabel={errorInfo.isOffline ? 'No internet connection icon' : errorInfo.isNetworkError ? 'Connection error icon' : 'Error icon'}>
-        {errorInfo.isOffline ? '📡' : errorInfo.isNetworkError ? '🌐' : '⚠️'}
+      <Text style={dynamicStyles.icon} accessibilityLabel={isCountingDown ? 'Waiting icon' : errorInfo.isOffline ? 'No internet connection icon' : errorInfo.isNetworkError ? 'Connection error icon' : 'Error icon'}>
+        {isCountingDown ? '⏳' : errorInfo.isOffline ? '📡' : errorInfo.isNetworkError ? '🌐' : '⚠️'}
       </Text>
       <Text style={dynamicStyles.title} accessibilityRole="header">
-        {errorInfo.isOffline 
+        {isCountingDown
+          ? 'Service Unavailable'
+          : errorInfo.isOffline 
           ? 'No Internet Connection' 
           : errorInfo.isNetworkError 
           ? 'Connection Error' 
           : 'Something Went Wrong'}
       </Text>
-      <Text style={dynamicStyles.message} accessibilityLabel={errorInfo.userFriendlyMessage}>{errorInfo.userFriendlyMessage}</Text>
-      {showRetry && onRetry && errorInfo.canRetry && (
+      <Text style={dynamicStyles.message} accessibilityLabel={message}>{message}</Text>
+      {canRetryNow && (
         <TouchableOpacity
           style={dynamicStyles.retryButton}
           onPress={onRetry}
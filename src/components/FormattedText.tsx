@@ -1,156 +1,157 @@
 /**
- * FormattedText - Component to render text with basic markdown formatting
- * Supports: **bold**, *italic*, and line breaks
+ * FormattedText - Component to render markdown as native text
+ * Supports: headings, paragraphs, bulleted and numbered lists, blockquotes, code,
+ * horizontal rules, **bold**, *italic*, `inline code` and [links](url)
+ *
+ * Plain text runs can be rendered by the caller through `renderText` - ShlokaLinkedText
+ * uses it to make verse references tappable inside any block.
  */
-import React, { useRef } from 'react';
-import { Text, StyleSheet, TextStyle } from 'react-native';
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TextStyle, StyleProp, Linking, Platform } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { parseMarkdown, BlockNode, InlineNode, ListNode } from '../utils/markdown';
 
 interface FormattedTextProps {
   text: string;
-  style?: TextStyle;
-  baseStyle?: TextStyle;
-  boldStyle?: TextStyle;
-  italicStyle?: TextStyle;
+  style?: StyleProp<TextStyle>;
+  baseStyle?: StyleProp<TextStyle>;
+  boldStyle?: StyleProp<TextStyle>;
+  italicStyle?: StyleProp<TextStyle>;
+  linkStyle?: StyleProp<TextStyle>;
+  /** Render a run of plain text, e.g. to link references in it */
+  renderText?: (text: string, key: string) => React.ReactNode;
 }
 
+const DEFAULT_FONT_SIZE = 15;
+
+// Heading sizes relative to the body text, h1 to h3 (h4-h6 look like h3)
+const HEADING_SCALE = [1.4, 1.25, 1.1];
+
+// Links that can be opened safely from a reply
+const OPENABLE_LINK = /^(https?:|mailto:)/i;
+
 export const FormattedText: React.FC<FormattedTextProps> = ({
   text,
   style,
   baseStyle,
   boldStyle,
   italicStyle,
+  linkStyle,
+  renderText,
 }) => {
-  // Generate a unique ID for this component instance
-  const instanceIdRef = useRef(Math.random().toString(36).substr(2, 9));
-  const instanceId = instanceIdRef.current;
-
-  // Parse markdown and create nested Text components
-  const parseMarkdown = (input: string, lineIndex: number, keyPrefix: string): React.ReactNode[] => {
-    const parts: React.ReactNode[] = [];
-    let currentIndex = 0;
-    let partKey = 0;
-
-    // Regex to match **bold**, *italic*, and combinations
-    // Order matters: bold+italic first, then bold, then italic
-    const patterns = [
-      { regex: /\*\*\*([^*]+?)\*\*\*/g, type: 'boldItalic' }, // ***bold italic***
-      { regex: /\*\*([^*]+?)\*\*/g, type: 'bold' }, // **bold**
-      { regex: /\*([^*]+?)\*/g, type: 'italic' }, // *italic*
-    ];
-
-    // Find all matches with their positions
-    const matches: Array<{
-      start: number;
-      end: number;
-      text: string;
-      type: 'bold' | 'italic' | 'boldItalic';
-    }> = [];
-
-    patterns.forEach(({ regex, type }) => {
-      let match;
-      regex.lastIndex = 0; // Reset regex
-      while ((match = regex.exec(input)) !== null) {
-        // Check if this match overlaps with an existing match
-        const overlaps = matches.some(
-          (m) =>
-            (match!.index >= m.start && match!.index < m.end) ||
-            (match!.index + match![0].length > m.start &&
-              match!.index + match![0].length <= m.end) ||
-            (match!.index < m.start &&
-              match!.index + match![0].length > m.end)
-        );
-
-        if (!overlaps) {
-          matches.push({
-            start: match.index,
-            end: match.index + match[0].length,
-            text: match[1],
-            type: type as 'bold' | 'italic' | 'boldItalic',
-          });
-        }
-      }
-    });
-
-    // Sort matches by position
-    matches.sort((a, b) => a.start - b.start);
-
-    // Build the text parts (nested Text components)
-    matches.forEach((match) => {
-      // Add text before the match
-      if (match.start > currentIndex) {
-        const beforeText = input.substring(currentIndex, match.start);
-        if (beforeText) {
-          // Create a unique key for plain text parts
-          parts.push(
-            <Text key={`${keyPrefix}-${lineIndex}-${partKey++}`}>
-              {beforeText}
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  const textStyle = [baseStyle, style];
+  const fontSize = StyleSheet.flatten(textStyle).fontSize ?? DEFAULT_FONT_SIZE;
+
+  const renderInline = (nodes: InlineNode[], keyPrefix: string): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      const key = `${keyPrefix}-${index}`;
+      switch (node.type) {
+        case 'text':
+          return renderText ? renderText(node.text, key) : <Text key={key}>{node.text}</Text>;
+        case 'break':
+          return <Text key={key}>{'\n'}</Text>;
+        case 'strong':
+          return (
+            <Text key={key} style={[styles.bold, boldStyle]}>
+              {renderInline(node.children, key)}
+            </Text>
+          );
+        case 'emphasis':
+          return (
+            <Text key={key} style={[styles.italic, italicStyle]}>
+              {renderInline(node.children, key)}
+            </Text>
+          );
+        case 'code':
+          return (
+            <Text key={key} style={dynamicStyles.inlineCode}>
+              {node.text}
+            </Text>
+          );
+        case 'link': {
+          const openable = OPENABLE_LINK.test(node.href);
+          return (
+            <Text
+              key={key}
+              style={[dynamicStyles.link, linkStyle]}
+              onPress={openable ? () => Linking.openURL(node.href).catch(err => console.error('Error opening link:', err)) : undefined}
+              accessibilityRole="link"
+            >
+              {renderInline(node.children, key)}
             </Text>
           );
         }
       }
-
-      // Add the formatted text as a nested Text component
-      const textStyle: TextStyle[] = [];
-      if (baseStyle) textStyle.push(baseStyle);
-      if (style) textStyle.push(style);
-      if (match.type === 'bold' || match.type === 'boldItalic') {
-        textStyle.push(styles.bold);
-        if (boldStyle) textStyle.push(boldStyle);
-      }
-      if (match.type === 'italic' || match.type === 'boldItalic') {
-        textStyle.push(styles.italic);
-        if (italicStyle) textStyle.push(italicStyle);
-      }
-
-      parts.push(
-        <Text key={`${keyPrefix}-${lineIndex}-${partKey++}`} style={textStyle}>
-          {match.text}
-        </Text>
-      );
-
-      currentIndex = match.end;
     });
 
-    // Add remaining text after the last match
-    if (currentIndex < input.length) {
-      const remainingText = input.substring(currentIndex);
-      if (remainingText) {
-        parts.push(
-          <Text key={`${keyPrefix}-${lineIndex}-${partKey++}`}>
-            {remainingText}
+  const renderList = (list: ListNode, key: string, depth: number): React.ReactNode => (
+    <View key={key} style={[dynamicStyles.list, depth > 0 && dynamicStyles.nestedList]}>
+      {list.items.map((item, index) => (
+        <View key={`${key}-${index}`}>
+          <View style={dynamicStyles.listItem}>
+            <Text style={[textStyle, dynamicStyles.listMarker]}>
+              {list.ordered ? `${list.start + index}.` : depth % 2 === 0 ? '•' : '◦'}
+            </Text>
+            <Text style={[textStyle, dynamicStyles.listItemText]}>{renderInline(item.children, `${key}-${index}`)}</Text>
+          </View>
+          {item.sublist && renderList(item.sublist, `${key}-${index}-sub`, depth + 1)}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderBlock = (block: BlockNode, key: string): React.ReactNode => {
+    switch (block.type) {
+      case 'heading':
+        return (
+          <Text
+            key={key}
+            style={[
+              textStyle,
+              dynamicStyles.heading,
+              { fontSize: Math.round(fontSize * HEADING_SCALE[Math.min(block.level, 3) - 1]) },
+            ]}
+            accessibilityRole="header"
+          >
+            {renderInline(block.children, key)}
           </Text>
         );
-      }
+      case 'paragraph':
+        return (
+          <Text key={key} style={textStyle}>
+            {renderInline(block.children, key)}
+          </Text>
+        );
+      case 'list':
+        return renderList(block, key, 0);
+      case 'blockquote':
+        return (
+          <View key={key} style={dynamicStyles.blockquote}>
+            {block.children.map((child, index) => renderBlock(child, `${key}-${index}`))}
+          </View>
+        );
+      case 'code_block':
+        return (
+          <View key={key} style={dynamicStyles.codeBlock}>
+            <Text style={dynamicStyles.codeBlockText}>{block.text}</Text>
+          </View>
+        );
+      case 'divider':
+        return <View key={key} style={dynamicStyles.divider} />;
     }
-
-    return parts;
   };
 
-  // Handle line breaks - split by newlines and process each line
-  const lines = text.split('\n');
-  const result: React.ReactNode[] = [];
-
-  lines.forEach((line, lineIndex) => {
-    const parsedLine = parseMarkdown(line, lineIndex, instanceId);
-    result.push(...parsedLine);
-    if (lineIndex < lines.length - 1) {
-      result.push(
-        <Text key={`${instanceId}-newline-${lineIndex}`}>
-          {'\n'}
-        </Text>
-      );
-    }
-  });
-
-  // If no formatting found, return plain text
-  if (result.length === 1 && typeof result[0] === 'string') {
-    return <Text style={[baseStyle, style]}>{result[0]}</Text>;
-  }
-
-  // Return nested Text components
-  return <Text style={[baseStyle, style]}>{result}</Text>;
+  return (
+    <View style={dynamicStyles.container}>{blocks.map((block, index) => renderBlock(block, `block-${index}`))}</View>
+  );
 };
 
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
 const styles = StyleSheet.create({
   bold: {
     fontWeight: '600',
@@ -160,3 +161,65 @@ const styles = StyleSheet.create({
   },
 });
 
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  heading: {
+    fontWeight: '700',
+    color: theme.heading,
+    marginTop: 4,
+  },
+  list: {
+    gap: 4,
+  },
+  nestedList: {
+    marginTop: 4,
+    marginLeft: 16,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 22,
+    paddingRight: 6,
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  listItemText: {
+    flex: 1,
+  },
+  blockquote: {
+    borderLeftWidth: 3,
+    borderLeftColor: theme.primary,
+    paddingLeft: 12,
+    paddingVertical: 2,
+    gap: 8,
+    opacity: 0.85,
+  },
+  inlineCode: {
+    fontFamily: MONOSPACE,
+    backgroundColor: theme.primary + '15',
+    color: theme.secondary,
+  },
+  codeBlock: {
+    backgroundColor: theme.primary + '10',
+    borderRadius: 8,
+    padding: 10,
+  },
+  codeBlockText: {
+    fontFamily: MONOSPACE,
+    fontSize: 13,
+    lineHeight: 18,
+    color: theme.text,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: theme.divider,
+    marginVertical: 4,
+  },
+  link: {
+    color: theme.primary,
+    textDecorationLine: 'underline',
+  },
+});
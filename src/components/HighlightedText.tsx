@@ -0,0 +1,67 @@
+/**
+ * Component to render a search snippet with its matches highlighted
+ */
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { Snippet } from '../utils/textSearch';
+
+interface HighlightedTextProps {
+  snippet: Snippet;
+  textStyle?: any;
+  highlightStyle?: any;
+  numberOfLines?: number;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  snippet,
+  textStyle,
+  highlightStyle,
+  numberOfLines,
+}) => {
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  snippet.highlights.forEach(({ start, end }) => {
+    if (start < position) {
+      return; // overlapping match
+    }
+    if (start > position) {
+      segments.push({ text: snippet.text.slice(position, start), highlighted: false });
+    }
+    segments.push({ text: snippet.text.slice(start, end), highlighted: true });
+    position = end;
+  });
+  if (position < snippet.text.length) {
+    segments.push({ text: snippet.text.slice(position), highlighted: false });
+  }
+
+  return (
+    <Text style={[dynamicStyles.baseText, textStyle]} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <Text key={index} style={[dynamicStyles.highlight, highlightStyle]}>
+            {segment.text}
+          </Text>
+        ) : (
+          <Text key={index}>{segment.text}</Text>
+        )
+      )}
+    </Text>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  baseText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: theme.textSecondary,
+  },
+  highlight: {
+    color: theme.text,
+    fontWeight: '700',
+    backgroundColor: theme.primary + '30',
+  },
+});
@@ -5,7 +5,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
-import { apiService } from '../services/api';
+import { apiService, CancelledError } from '../services/api';
 import { JourneyTimeline } from './JourneyTimeline';
 import { ActivityCalendar } from './ActivityCalendar';
 import { MilestoneShowcase } from './MilestoneShowcase';
@@ -37,24 +37,30 @@ export const Journey: React.FC<JourneyProps> = ({ stats }) => {
   } | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const loadStreakData = useCallback(async () => {
+  const loadStreakData = useCallback(async (signal?: AbortSignal) => {
     try {
-      const streakHistory = await apiService.getStreakHistory();
+      const streakHistory = await apiService.getStreakHistory({ signal });
       setStreakData({
         awardedMilestones: streakHistory.milestones_reached?.map((m) => m.days) || [],
         recentActivity: streakHistory.recent_activity || [],
       });
     } catch (error) {
+      if (error instanceof CancelledError) {
+        return;
+      }
       console.error('Error loading streak data:', error);
       // Fallback to empty milestones if API fails
       // Try to get milestones from streak endpoint as fallback
       try {
-        const streakInfo = await apiService.getUserStreak();
+        const streakInfo = await apiService.getUserStreak({ signal });
         setStreakData({
           awardedMilestones: streakInfo.awarded_milestones || [],
           recentActivity: [], // No recent activity available from fallback endpoint
         });
       } catch (fallbackError) {
+        if (fallbackError instanceof CancelledError) {
+          return;
+        }
         console.error('Error loading streak fallback data:', fallbackError);
         setStreakData({ 
           awardedMilestones: [],
@@ -67,7 +73,9 @@ export const Journey: React.FC<JourneyProps> = ({ stats }) => {
   }, []);
 
   useEffect(() => {
-    loadStreakData();
+    const controller = new AbortController();
+    loadStreakData(controller.signal);
+    return () => controller.abort();
   }, [loadStreakData]);
 
   if (loading) {
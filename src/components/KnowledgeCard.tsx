@@ -11,12 +11,18 @@ import {
 } from 'react-native';
 import { KnowledgeItem } from '../data/mockKnowledge';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { FormattedText } from './FormattedText';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { useScript } from '../context/ScriptContext';
+import { apiService, CancelledError } from '../services/api';
 import { hasSeenCollapsibleHint, markCollapsibleHintAsSeen } from '../utils/onboardingStorage';
 import { ttsService } from '../services/ttsService';
+import { buildShlokaChatContext, getStarterQuestions } from '../utils/shlokaChat';
+import { transliterate, isRomanScript } from '../utils/transliteration';
+import { RootStackParamList } from '../navigation/AppNavigator';
 
 const FLOATING_TAB_BAR_HEIGHT = 20; // Height of the floating tab bar
 const FLOATING_TAB_BAR_MARGIN = 16; // Bottom margin of the floating tab bar
@@ -117,6 +123,8 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
   const insets = useSafeAreaInsets();
   const { theme } = useTheme();
   const { isAuthenticated } = useAuth();
+  const { script } = useScript();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const dynamicStyles = createStyles(theme);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -157,6 +165,9 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
   // Extract shloka-specific data
   const sanskritText = item.sanskritText || item.source || '';
   const transliteration = item.transliteration || item.author || '';
+  // Shown in the reader's chosen script; a romanized verse makes the transliteration redundant
+  const displayedSanskrit = transliterate(sanskritText, script);
+  const showTransliteration = !!transliteration && !isRomanScript(script);
   const bookName = item.bookName || item.category || '';
   const chapterNumber = item.chapterNumber;
   const verseNumber = item.verseNumber;
@@ -172,12 +183,16 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
   const themes = item.themes || [];
   const reflectionPrompt = item.reflectionPrompt;
   
-  const checkFavoriteStatus = useCallback(async () => {
+  const checkFavoriteStatus = useCallback(async (signal?: AbortSignal) => {
     try {
-      const favorites = await apiService.getFavorites();
+      const favorites = await apiService.getFavorites({ signal });
       const isFav = favorites.some(fav => fav.shloka.id === item.id);
       setIsFavorite(isFav);
     } catch (err) {
+      // Swiped away before the favorites arrived
+      if (err instanceof CancelledError) {
+        return;
+      }
       console.warn('Failed to check favorite status:', err);
       setIsFavorite(false);
     }
@@ -186,13 +201,9 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
   // Check if shloka is favorited (only when item.id or auth status changes)
   useEffect(() => {
     if (isAuthenticated && item.id) {
-      let isMounted = true;
-      checkFavoriteStatus().then(() => {
-        if (!isMounted) return;
-      });
-      return () => {
-        isMounted = false;
-      };
+      const controller = new AbortController();
+      checkFavoriteStatus(controller.signal);
+      return () => controller.abort();
     } else {
       setIsFavorite(false);
     }
@@ -217,6 +228,19 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
     }
   };
   
+  const shlokaContext = buildShlokaChatContext(item);
+
+  const handleAskAboutShloka = () => {
+    if (!shlokaContext) return;
+    navigation.navigate('MainTabs', {
+      screen: 'Chatbot',
+      params: {
+        shlokaContext,
+        starterQuestions: getStarterQuestions(themes, reflectionPrompt),
+      },
+    });
+  };
+
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections(prev => ({
       ...prev,
@@ -232,7 +256,7 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
                           detailedExplanation || 
                           whyThisMatters || 
                           '';
-      const shareText = `${bookName}${chapterNumber && verseNumber ? ` • Chapter ${chapterNumber}, Verse ${verseNumber}` : ''}\n\n${sanskritText}\n\n${shareContent}`;
+      const shareText = `${bookName}${chapterNumber && verseNumber ? ` • Chapter ${chapterNumber}, Verse ${verseNumber}` : ''}\n\n${displayedSanskrit}\n\n${shareContent}`;
       await Share.share({
         message: shareText,
         title: item.title || 'Shloka',
@@ -367,7 +391,7 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
         {/* Sanskrit Text - Prominent, centered */}
         {sanskritText ? (
           <View style={dynamicStyles.sanskritContainer}>
-            <Text style={dynamicStyles.sanskritText}>{sanskritText}</Text>
+            <Text style={dynamicStyles.sanskritText}>{displayedSanskrit}</Text>
             <TouchableOpacity
               style={dynamicStyles.ttsButton}
               onPress={handleTextToSpeech}
@@ -387,7 +411,7 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
         ) : null}
 
         {/* Transliteration - Below Sanskrit, italic */}
-        {transliteration ? (
+        {showTransliteration ? (
           <View style={dynamicStyles.transliterationContainer}>
             <Text style={dynamicStyles.transliterationText}>{transliteration}</Text>
           </View>
@@ -520,8 +544,8 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
             >
               <View style={dynamicStyles.wordByWordContainer}>
                 {wordByWord.map((word, index) => {
-                  const sanskritDisplay = word.sanskrit || word.transliteration || '';
-                  const transliterationDisplay = word.transliteration && word.transliteration.trim() && word.transliteration !== word.sanskrit 
+                  const sanskritDisplay = word.sanskrit ? transliterate(word.sanskrit, script) : word.transliteration || '';
+                  const transliterationDisplay = !isRomanScript(script) && word.transliteration && word.transliteration.trim() && word.transliteration !== word.sanskrit 
                     ? ` (${word.transliteration})` 
                     : '';
                   
@@ -591,6 +615,19 @@ export const KnowledgeCard: React.FC<KnowledgeCardProps> = ({ item }) => {
         </View>
 
         {/* Footer Actions */}
+        {isAuthenticated && shlokaContext && (
+          <TouchableOpacity
+            style={dynamicStyles.askButton}
+            onPress={handleAskAboutShloka}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Ask about this shloka"
+            accessibilityHint="Double tap to start a conversation with Krishna about this shloka"
+          >
+            <Text style={dynamicStyles.askIcon}>💬</Text>
+            <Text style={dynamicStyles.askText}>Ask about this shloka</Text>
+          </TouchableOpacity>
+        )}
         <View style={dynamicStyles.footerContainer}>
           <TouchableOpacity
             style={dynamicStyles.shareButton}
@@ -996,6 +1033,26 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderTopColor: theme.divider,
     marginTop: 8,
   },
+  askButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 24,
+    backgroundColor: theme.primary,
+    minHeight: 44,
+    gap: 8,
+  },
+  askIcon: {
+    fontSize: 16,
+  },
+  askText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   shareButton: {
     flexDirection: 'row',
     alignItems: 'center',
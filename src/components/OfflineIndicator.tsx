@@ -1,5 +1,6 @@
 /**
  * Offline indicator component - shows when device is offline
+ * or when queued writes are still waiting to sync
  */
 import React, { useState, useEffect } from 'react';
 import {
@@ -11,60 +12,64 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import NetInfo from '@react-native-community/netinfo';
 import { useTheme } from '../context/ThemeContext';
+import { usePendingMutations } from '../hooks/usePendingMutations';
 
 export const OfflineIndicator: React.FC = () => {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
   const [isOffline, setIsOffline] = useState(false);
+  const pendingCount = usePendingMutations();
   const slideAnim = React.useRef(new Animated.Value(-100)).current;
+  const isVisible = isOffline || pendingCount > 0;
 
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
-      const offline = !state.isConnected;
-      setIsOffline(offline);
-
-      // Animate in/out
-      Animated.spring(slideAnim, {
-        toValue: offline ? 0 : -100,
-        useNativeDriver: true,
-        tension: 50,
-        friction: 8,
-      }).start();
+      setIsOffline(!state.isConnected);
     });
 
     // Check initial state
     NetInfo.fetch().then(state => {
       setIsOffline(!state.isConnected);
-      if (!state.isConnected) {
-        Animated.spring(slideAnim, {
-          toValue: 0,
-          useNativeDriver: true,
-          tension: 50,
-          friction: 8,
-        }).start();
-      }
     });
 
     return () => {
       unsubscribe();
     };
-  }, [slideAnim]);
+  }, []);
+
+  useEffect(() => {
+    // Animate in/out
+    Animated.spring(slideAnim, {
+      toValue: isVisible ? 0 : -100,
+      useNativeDriver: true,
+      tension: 50,
+      friction: 8,
+    }).start();
+  }, [isVisible, slideAnim]);
 
-  if (!isOffline) {
+  if (!isVisible) {
     return null;
   }
 
+  const pendingLabel = `${pendingCount} change${pendingCount === 1 ? '' : 's'}`;
+  const message = isOffline
+    ? pendingCount > 0
+      ? `No Internet Connection · ${pendingLabel} waiting to sync`
+      : 'No Internet Connection'
+    : `Syncing ${pendingLabel}…`;
+
   return (
     <Animated.View
       style={[
         createStyles(theme, insets).container,
+        !isOffline && createStyles(theme, insets).syncing,
         {
           transform: [{ translateY: slideAnim }],
         },
       ]}
     >
-      <Text style={createStyles(theme, insets).icon}>📡</Text>
-      <Text style={createStyles(theme, insets).text}>No Internet Connection</Text>
+      <Text style={createStyles(theme, insets).icon}>{isOffline ? '📡' : '🔄'}</Text>
+      <Text style={createStyles(theme, insets).text}>{message}</Text>
     </Animated.View>
   );
 };
@@ -88,6 +93,9 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  syncing: {
+    backgroundColor: theme.primary,
+  },
   icon: {
     fontSize: 16,
     marginRight: 8,
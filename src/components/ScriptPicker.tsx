@@ -0,0 +1,74 @@
+/**
+ * Horizontal row of chips for switching the script Sanskrit text is shown in
+ */
+import React from 'react';
+import { Text, StyleSheet, ScrollView, TouchableOpacity, ViewStyle } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { useScript } from '../context/ScriptContext';
+import { SANSKRIT_SCRIPTS } from '../utils/transliteration';
+
+interface ScriptPickerProps {
+  style?: ViewStyle;
+}
+
+export const ScriptPicker: React.FC<ScriptPickerProps> = ({ style }) => {
+  const { theme } = useTheme();
+  const { script, setScript } = useScript();
+  const dynamicStyles = createStyles(theme);
+
+  return (
+    <ScrollView
+      horizontal={true}
+      showsHorizontalScrollIndicator={false}
+      style={style}
+      contentContainerStyle={dynamicStyles.options}
+    >
+      {SANSKRIT_SCRIPTS.map(option => {
+        const isSelected = option.id === script;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[dynamicStyles.chip, isSelected && dynamicStyles.chipSelected]}
+            onPress={() => setScript(option.id)}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={`Show Sanskrit in ${option.label}`}
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text style={[dynamicStyles.chipText, isSelected && dynamicStyles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  options: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.cardBackground,
+  },
+  chipSelected: {
+    backgroundColor: theme.primary + '15',
+    borderColor: theme.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.text,
+  },
+  chipTextSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+});
@@ -1,22 +1,24 @@
 /**
  * Component to render text with clickable shloka references
+ *
+ * Tapping a reference previews the verse in a popover; `showSources` adds a
+ * "Sources cited" footer listing every verse the text mentions. With `markdown` the
+ * text is rendered by FormattedText, with references linked inside every block.
  */
 import React, { useState } from 'react';
-import { Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
-import { StackNavigationProp } from '@react-navigation/stack';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
-import { splitTextWithReferences } from '../utils/shlokaReferenceParser';
-import { apiService } from '../services/api';
-import { RootStackParamList } from '../navigation/AppNavigator';
-
-type ShlokaLinkedTextNavigationProp = StackNavigationProp<RootStackParamList>;
+import { splitTextWithReferences, getCitedVerses } from '../utils/shlokaReferenceParser';
+import { ShlokaPreviewPopover, CitedShloka } from './ShlokaPreviewPopover';
+import { FormattedText } from './FormattedText';
 
 interface ShlokaLinkedTextProps {
   text: string;
   textStyle?: any;
   linkStyle?: any;
   bookName?: string; // Default: 'Bhagavad Gita'
+  showSources?: boolean;
+  markdown?: boolean;
 }
 
 export const ShlokaLinkedText: React.FC<ShlokaLinkedTextProps> = ({
@@ -24,73 +26,77 @@ export const ShlokaLinkedText: React.FC<ShlokaLinkedTextProps> = ({
   textStyle,
   linkStyle,
   bookName = 'Bhagavad Gita',
+  showSources = false,
+  markdown = false,
 }) => {
   const { theme } = useTheme();
-  const navigation = useNavigation<ShlokaLinkedTextNavigationProp>();
-  const [loadingRef, setLoadingRef] = useState<{ chapter: number; verse: number } | null>(null);
+  const [citation, setCitation] = useState<CitedShloka | null>(null);
   
-  const segments = splitTextWithReferences(text);
+  const sources = showSources ? getCitedVerses(text) : [];
   const dynamicStyles = createStyles(theme);
   
-  const handleShlokaPress = async (chapter: number, verse: number) => {
-    try {
-      setLoadingRef({ chapter, verse });
-      
-      // Fetch the shloka by chapter/verse to get its ID
-      const shlokaData = await apiService.getShlokaByChapterVerse(
-        bookName,
-        chapter,
-        verse
-      );
-      
-      // Navigate directly to shloka detail screen
-      navigation.navigate('ShlokaDetail', {
-        shlokaId: shlokaData.shloka.id,
-      });
-    } catch (error) {
-      console.error('Error fetching shloka:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load shloka';
-      Alert.alert(
-        'Shloka Not Found',
-        `Could not find ${bookName} Chapter ${chapter}, Verse ${verse}. ${errorMessage}`,
-        [{ text: 'OK' }]
-      );
-    } finally {
-      setLoadingRef(null);
-    }
+  const handleShlokaPress = (chapter: number, verse: number) => {
+    setCitation({ bookName, chapter, verse });
   };
   
+  const renderLinkedText = (input: string, keyPrefix: string) =>
+    splitTextWithReferences(input).map((segment, index) => {
+      const key = `${keyPrefix}-${index}`;
+      if (segment.isReference && segment.chapter && segment.verse) {
+        return (
+          <Text
+            key={key}
+            style={[dynamicStyles.linkText, linkStyle]}
+            onPress={() => handleShlokaPress(segment.chapter!, segment.verse!)}
+            accessibilityRole="link"
+            accessibilityHint="Double tap to preview this verse"
+          >
+            {segment.text}
+          </Text>
+        );
+      }
+
+      return <Text key={key}>{segment.text}</Text>;
+    });
+  
   return (
-    <Text style={[dynamicStyles.baseText, textStyle]}>
-      {segments.map((segment, index) => {
-        if (segment.isReference && segment.chapter && segment.verse) {
-          const isLoading = loadingRef?.chapter === segment.chapter && 
-                           loadingRef?.verse === segment.verse;
-          
-          return (
-            <TouchableOpacity
-              key={index}
-              onPress={() => handleShlokaPress(segment.chapter!, segment.verse!)}
-              activeOpacity={0.7}
-              disabled={isLoading}
-            >
-              <Text style={[dynamicStyles.linkText, linkStyle]}>
-                {isLoading ? (
-                  <>
-                    {segment.text}
-                    <ActivityIndicator size="small" color={theme.primary} style={dynamicStyles.loader} />
-                  </>
-                ) : (
-                  segment.text
-                )}
-              </Text>
-            </TouchableOpacity>
-          );
-        }
-        
-        return <Text key={index}>{segment.text}</Text>;
-      })}
-    </Text>
+    <>
+      {markdown ? (
+        <FormattedText
+          text={text}
+          style={[dynamicStyles.baseText, textStyle]}
+          linkStyle={linkStyle}
+          renderText={(part, key) => <Text key={key}>{renderLinkedText(part, key)}</Text>}
+        />
+      ) : (
+        <Text style={[dynamicStyles.baseText, textStyle]}>{renderLinkedText(text, 'segment')}</Text>
+      )}
+
+      {sources.length > 0 && (
+        <View style={dynamicStyles.sources}>
+          <Text style={dynamicStyles.sourcesTitle}>Sources cited</Text>
+          <View style={dynamicStyles.sourceList}>
+            {sources.map(({ chapter, verse }) => (
+              <TouchableOpacity
+                key={`${chapter}.${verse}`}
+                style={dynamicStyles.sourceChip}
+                onPress={() => handleShlokaPress(chapter, verse)}
+                activeOpacity={0.7}
+                accessibilityRole="button"
+                accessibilityLabel={`${bookName} chapter ${chapter}, verse ${verse}`}
+                accessibilityHint="Double tap to preview this verse"
+              >
+                <Text style={dynamicStyles.sourceChipText}>
+                  {bookName} {chapter}.{verse}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <ShlokaPreviewPopover citation={citation} onClose={() => setCitation(null)} />
+    </>
   );
 };
 
@@ -105,8 +111,35 @@ const createStyles = (theme: any) => StyleSheet.create({
     textDecorationLine: 'underline',
     fontWeight: '500',
   },
-  loader: {
-    marginLeft: 4,
+  sources: {
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.divider,
+  },
+  sourcesTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  sourceList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  sourceChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: theme.primary + '15',
+  },
+  sourceChipText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: theme.primary,
   },
 });
 
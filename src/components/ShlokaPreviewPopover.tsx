@@ -0,0 +1,317 @@
+/**
+ * Popover previewing a cited shloka (Sanskrit, transliteration, summary) without
+ * leaving the current screen, with open / favorite / listen actions
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { apiService, CancelledError, ShlokaWithExplanation } from '../services/api';
+import { ttsService } from '../services/ttsService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+export interface CitedShloka {
+  bookName: string;
+  chapter: number;
+  verse: number;
+}
+
+interface ShlokaPreviewPopoverProps {
+  /** The shloka to preview; the popover is hidden while null */
+  citation: CitedShloka | null;
+  onClose: () => void;
+}
+
+export const ShlokaPreviewPopover: React.FC<ShlokaPreviewPopoverProps> = ({ citation, onClose }) => {
+  const { theme } = useTheme();
+  const { isAuthenticated } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const dynamicStyles = createStyles(theme);
+
+  const [shloka, setShloka] = useState<ShlokaWithExplanation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isFavorite, setIsFavorite] = useState(false);
+  const [isTogglingFavorite, setIsTogglingFavorite] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+
+  useEffect(() => {
+    setShloka(null);
+    setError(null);
+    setIsFavorite(false);
+    if (!citation) return;
+
+    const controller = new AbortController();
+    const load = async () => {
+      try {
+        const data = await apiService.getShlokaByChapterVerse(citation.bookName, citation.chapter, citation.verse, {
+          signal: controller.signal,
+        });
+        setShloka(data);
+        if (isAuthenticated) {
+          const favorites = await apiService.getFavorites({ signal: controller.signal });
+          setIsFavorite(favorites.some(favorite => favorite.shloka.id === data.shloka.id));
+        }
+      } catch (err) {
+        if (err instanceof CancelledError) return;
+        console.error('Error loading cited shloka:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load shloka');
+      }
+    };
+    load();
+    return () => controller.abort();
+  }, [citation, isAuthenticated]);
+
+  // Stop reading aloud when the popover closes or shows another verse
+  useEffect(() => {
+    return () => {
+      ttsService.stop();
+      setIsListening(false);
+    };
+  }, [citation]);
+
+  const handleOpen = () => {
+    if (!shloka) return;
+    onClose();
+    navigation.navigate('ShlokaDetail', { shlokaId: shloka.shloka.id });
+  };
+
+  const toggleFavorite = async () => {
+    if (!shloka || isTogglingFavorite) return;
+    try {
+      setIsTogglingFavorite(true);
+      if (isFavorite) {
+        await apiService.removeFavorite(shloka.shloka.id);
+        setIsFavorite(false);
+      } else {
+        await apiService.addFavorite(shloka.shloka.id);
+        setIsFavorite(true);
+      }
+    } catch (err) {
+      console.error('Failed to toggle favorite:', err);
+    } finally {
+      setIsTogglingFavorite(false);
+    }
+  };
+
+  const toggleListen = async () => {
+    if (!shloka) return;
+    if (isListening) {
+      await ttsService.stop();
+      setIsListening(false);
+      return;
+    }
+
+    const text = shloka.shloka.transliteration?.trim() || shloka.shloka.sanskrit_text.trim();
+    try {
+      setIsListening(true);
+      await ttsService.speak(text, {
+        language: 'hi-IN',
+        rate: 0.45,
+        shloka_id: shloka.shloka.id,
+        onEnd: () => setIsListening(false),
+      });
+    } catch (err) {
+      console.error('TTS: Error reading cited shloka:', err);
+      setIsListening(false);
+      Alert.alert('Text-to-Speech Error', 'Unable to read the shloka. Please try again.', [{ text: 'OK' }]);
+    }
+  };
+
+  return (
+    <Modal visible={citation !== null} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={dynamicStyles.overlay}>
+          <TouchableWithoutFeedback>
+            <View style={dynamicStyles.popover}>
+              <View style={dynamicStyles.header}>
+                <Text style={dynamicStyles.title}>
+                  {citation ? `${citation.bookName} ${citation.chapter}.${citation.verse}` : ''}
+                </Text>
+                <TouchableOpacity
+                  style={dynamicStyles.closeButton}
+                  onPress={onClose}
+                  accessibilityRole="button"
+                  accessibilityLabel="Close preview"
+                >
+                  <Text style={dynamicStyles.closeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              {error ? (
+                <Text style={dynamicStyles.errorText}>{error}</Text>
+              ) : !shloka ? (
+                <View style={dynamicStyles.loadingContainer}>
+                  <ActivityIndicator size="small" color={theme.primary} />
+                </View>
+              ) : (
+                <>
+                  <ScrollView style={dynamicStyles.body} contentContainerStyle={dynamicStyles.bodyContent}>
+                    <Text style={dynamicStyles.sanskritText}>{shloka.shloka.sanskrit_text}</Text>
+                    {shloka.shloka.transliteration ? (
+                      <Text style={dynamicStyles.transliteration}>{shloka.shloka.transliteration}</Text>
+                    ) : null}
+                    {shloka.explanation?.summary ? (
+                      <Text style={dynamicStyles.summary}>{shloka.explanation.summary}</Text>
+                    ) : null}
+                  </ScrollView>
+
+                  <View style={dynamicStyles.actions}>
+                    <TouchableOpacity
+                      style={dynamicStyles.actionButton}
+                      onPress={handleOpen}
+                      accessibilityRole="button"
+                      accessibilityLabel="Open shloka"
+                    >
+                      <Text style={dynamicStyles.actionIcon}>📖</Text>
+                      <Text style={dynamicStyles.actionText}>Open</Text>
+                    </TouchableOpacity>
+                    {isAuthenticated && (
+                      <TouchableOpacity
+                        style={dynamicStyles.actionButton}
+                        onPress={toggleFavorite}
+                        disabled={isTogglingFavorite}
+                        accessibilityRole="button"
+                        accessibilityLabel={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                        accessibilityState={{ selected: isFavorite, disabled: isTogglingFavorite }}
+                      >
+                        <Text style={dynamicStyles.actionIcon}>{isFavorite ? '⭐' : '☆'}</Text>
+                        <Text style={dynamicStyles.actionText}>{isFavorite ? 'Saved' : 'Favorite'}</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      style={dynamicStyles.actionButton}
+                      onPress={toggleListen}
+                      accessibilityRole="button"
+                      accessibilityLabel={isListening ? 'Stop listening' : 'Listen to shloka'}
+                    >
+                      <Text style={dynamicStyles.actionIcon}>{isListening ? '⏹️' : '🔊'}</Text>
+                      <Text style={dynamicStyles.actionText}>{isListening ? 'Stop' : 'Listen'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  popover: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 16,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    shadowColor: theme.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.heading,
+    flex: 1,
+    paddingRight: 12,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 16,
+    backgroundColor: theme.background,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: theme.textSecondary,
+    fontWeight: '300',
+  },
+  loadingContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  errorText: {
+    padding: 20,
+    fontSize: 15,
+    color: '#FF4444',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+    gap: 12,
+  },
+  sanskritText: {
+    fontSize: 18,
+    lineHeight: 28,
+    color: theme.sanskritText,
+    textAlign: 'center',
+  },
+  transliteration: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontStyle: 'italic',
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+  summary: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: theme.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    minHeight: 44,
+  },
+  actionIcon: {
+    fontSize: 20,
+    marginBottom: 2,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+});
@@ -16,7 +16,7 @@ import {
 import { KnowledgeCard } from './KnowledgeCard';
 import { KnowledgeItem } from '../data/mockKnowledge';
 import { useTheme } from '../context/ThemeContext';
-import { apiService } from '../services/api';
+import { offlineQueue } from '../services/offlineQueue';
 import { useAuth } from '../context/AuthContext';
 import { hasSeenSwipeHint, markSwipeHintAsSeen } from '../utils/onboardingStorage';
 import { ErrorDisplay } from './ErrorDisplay';
@@ -188,7 +188,12 @@ export const SwipeableCardStack: React.FC<SwipeableCardStackProps> = ({
       const currentShloka = data[currentIndex];
       // Log as 'summary' by default (we can enhance this later to detect if user viewed detailed)
       if (currentShloka.id) {
-        apiService.logReading(currentShloka.id, 'summary').catch((err) => {
+        // Queued for later if offline, so streaks and XP aren't lost
+        offlineQueue.submit({
+          type: 'logReading',
+          shlokaId: currentShloka.id,
+          readingType: 'summary',
+        }).catch((err) => {
           // Silently fail - don't interrupt user experience
           console.warn('Failed to log reading:', err);
         });
@@ -275,9 +280,9 @@ export const SwipeableCardStack: React.FC<SwipeableCardStackProps> = ({
       if (direction === 'right') {
         // Swipe right = mark as read
         if (isAuthenticated) {
-          apiService.markShlokaAsRead(shlokaId, true)
+          offlineQueue.submit({ type: 'markShlokaAsRead', shlokaId, marked: true })
             .then((result) => {
-              console.log('[SwipeableCardStack] ✅ Successfully marked shloka as read:', result);
+              console.log('[SwipeableCardStack] ✅ Mark as read', result);
             })
             .catch((err) => {
               // Log error but don't interrupt user experience
@@ -287,13 +292,13 @@ export const SwipeableCardStack: React.FC<SwipeableCardStackProps> = ({
       } else {
         // Swipe left = add to favorites
         if (isAuthenticated) {
-          apiService.addFavorite(shlokaId)
+          offlineQueue.submit({ type: 'addFavorite', shlokaId })
             .then((result) => {
-              console.log('[SwipeableCardStack] ✅ Successfully added shloka to favorites:', result);
+              console.log('[SwipeableCardStack] ✅ Add to favorites', result);
               // Show success feedback (non-intrusive - just log, user can see the "Saving to Favorites" indicator)
             })
             .catch((err) => {
-              // Show error alert if favorite addition fails
+              // Show error alert if favorite addition fails (offline failures are queued, not thrown)
               console.error('[SwipeableCardStack] ❌ Failed to add shloka to favorites:', err);
               const errorMessage = err instanceof Error ? err.message : 'Failed to add to favorites';
               Alert.alert(
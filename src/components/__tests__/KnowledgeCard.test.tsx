@@ -53,6 +53,22 @@ jest.mock('../../context/AuthContext', () => ({
   AuthProvider: ({ children }: { children: React.ReactNode }) => children,
 }));
 
+// Mock script preference
+const mockScriptContext = {
+  script: 'devanagari',
+  setScript: jest.fn(),
+};
+
+jest.mock('../../context/ScriptContext', () => ({
+  useScript: () => mockScriptContext,
+}));
+
+// Mock navigation
+const mockNavigate = jest.fn();
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ navigate: mockNavigate }),
+}));
+
 // Mock safe area insets
 jest.mock('react-native-safe-area-context', () => ({
   useSafeAreaInsets: () => ({ top: 0, bottom: 0, left: 0, right: 0 }),
@@ -74,6 +90,7 @@ describe('KnowledgeCard', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockScriptContext.script = 'devanagari';
     (apiService.getFavorites as jest.Mock).mockResolvedValue([]);
   });
 
@@ -91,6 +108,35 @@ describe('KnowledgeCard', () => {
     expect(getByText('धृतराष्ट्र उवाच')).toBeTruthy();
   });
 
+  it('should show the Sanskrit text in the preferred script', () => {
+    mockScriptContext.script = 'telugu';
+    const { getByText, queryByText } = render(
+      <ThemeProvider>
+        <AuthProvider>
+          <KnowledgeCard item={mockItem} />
+        </AuthProvider>
+      </ThemeProvider>
+    );
+
+    expect(getByText('ధృతరాష్ట్ర ఉవాచ')).toBeTruthy();
+    expect(queryByText('धृतराष्ट्र उवाच')).toBeNull();
+    expect(getByText('dhritarashtra uvacha')).toBeTruthy();
+  });
+
+  it('should drop the separate transliteration for a romanized script', () => {
+    mockScriptContext.script = 'iast';
+    const { getByText, queryByText } = render(
+      <ThemeProvider>
+        <AuthProvider>
+          <KnowledgeCard item={mockItem} />
+        </AuthProvider>
+      </ThemeProvider>
+    );
+
+    expect(getByText('dhṛtarāṣṭra uvāca')).toBeTruthy();
+    expect(queryByText('dhritarashtra uvacha')).toBeNull();
+  });
+
   it('should display summary explanation by default', () => {
     const { getByText } = render(
       <ThemeProvider>
@@ -170,6 +216,36 @@ describe('KnowledgeCard', () => {
     // });
   });
 
+  it('should open the chat about this shloka with starter questions', () => {
+    const { getByText } = render(
+      <ThemeProvider>
+        <AuthProvider>
+          <KnowledgeCard item={{ ...mockItem, themes: ['Duty'], reflectionPrompt: 'Where am I holding back?' }} />
+        </AuthProvider>
+      </ThemeProvider>
+    );
+
+    fireEvent.press(getByText('Ask about this shloka'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('MainTabs', {
+      screen: 'Chatbot',
+      params: {
+        shlokaContext: {
+          shloka_id: 'shloka-1',
+          book_name: 'Bhagavad Gita',
+          chapter_number: 1,
+          verse_number: 1,
+          text: 'धृतराष्ट्र उवाच',
+        },
+        starterQuestions: [
+          'What does this verse mean in simple words?',
+          'Where am I holding back?',
+          'What does this verse teach about duty?',
+        ],
+      },
+    });
+  });
+
   it('should not show toggle button when detailed explanation is not available', () => {
     const itemWithoutDetailed: KnowledgeItem = {
       ...mockItem,
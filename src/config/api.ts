@@ -5,6 +5,9 @@
  * - iOS Simulator: Use 'http://localhost:8000'
  * - Android Emulator: Use 'http://10.0.2.2:8000' (Android emulator's special alias for host machine)
  * - Physical Device: Use your computer's IP address (e.g., 'http://192.168.1.100:8000')
+ *
+ * The backend can be switched at runtime without editing this file:
+ * Profile → Developer Settings (or "Developer settings" on the login screen) in debug builds.
  * 
  * To find your IP address:
  * - macOS/Linux: `ifconfig | grep "inet " | grep -v 127.0.0.1`
@@ -13,8 +16,9 @@
 
 import { Platform } from 'react-native';
 
-// Set to true to force using production API even in development mode (useful for testing)
-const FORCE_PRODUCTION_API = false;
+// Set to true to serve every API call from the in-memory mock backend in development mode,
+// so the app runs fully offline without a local server (see src/services/mockBackend.ts)
+const USE_MOCK_BACKEND = false;
 
 // Get the appropriate development URL based on platform
 const getDevelopmentUrl = (): string => {
@@ -26,6 +30,11 @@ const getDevelopmentUrl = (): string => {
   return 'http://localhost:8000';
 };
 
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
 // Default API configuration
 const API_CONFIG = {
   // Development API URL - automatically detects platform
@@ -40,6 +49,9 @@ const API_CONFIG = {
   // Note: Currently using HTTP as SSL certificates are not yet configured on the server
   // TODO: Change to HTTPS once SSL certificates are set up
   production: 'https://api.dharmasaar.gibberishtech.com',
+
+  // Staging API URL (pre-release builds and QA)
+  staging: 'https://staging-api.dharmasaar.gibberishtech.com',
   
   // Timeout for API requests (in milliseconds)
   timeout: 30000, // 30 seconds
@@ -48,16 +60,93 @@ const API_CONFIG = {
   retry: {
     maxAttempts: 3,
     delay: 1000, // 1 second
+    // Wait out a 429/503 Retry-After up to this long; beyond it, fail and show a countdown
+    maxRetryAfter: 10000, // 10 seconds
+  },
+
+  // Stop sending requests to a failing backend for a while, then probe /health
+  circuitBreaker: {
+    failureThreshold: 3, // consecutive failed requests
+    cooldown: 15000, // 15 seconds, doubled after each failed probe
+    maxCooldown: 120000, // 2 minutes
+  },
+
+  // Response cache for GET endpoints (first matching pattern wins).
+  // Within `ttl` the cached copy is used as-is; within `staleWhileRevalidate` after that
+  // it is returned immediately while a conditional request refreshes it in the background.
+  cache: {
+    maxEntries: 200,
+    policies: [
+      // Shloka text and explanations rarely change
+      { pattern: /^\/api\/shlokas\/by-chapter-verse\?/, ttl: 24 * HOUR, staleWhileRevalidate: 7 * DAY },
+      { pattern: /^\/api\/shlokas\/(?!random$|mark-read$|catalog$)[^/?]+$/, ttl: 24 * HOUR, staleWhileRevalidate: 7 * DAY },
+      // Read markers change as the user reads, so the library is revalidated often
+      { pattern: /^\/api\/shlokas\/catalog$/, ttl: MINUTE, staleWhileRevalidate: 7 * DAY },
+      { pattern: /^\/api\/favorites$/, ttl: 5 * MINUTE, staleWhileRevalidate: DAY },
+      { pattern: /^\/api\/achievements$/, ttl: 10 * MINUTE, staleWhileRevalidate: DAY },
+      { pattern: /^\/api\/user\/stats$/, ttl: MINUTE, staleWhileRevalidate: DAY },
+      { pattern: /^\/api\/user\/streak(\/history)?$/, ttl: MINUTE, staleWhileRevalidate: DAY },
+      { pattern: /^\/api\/chat\/conversations$/, ttl: 30 * SECOND, staleWhileRevalidate: DAY },
+    ],
   },
 };
 
-// Get the appropriate API URL based on environment
-export const getApiBaseUrl = (): string => {
-  // Force production API if flag is set (useful for testing production API in dev mode)
-  if (FORCE_PRODUCTION_API) {
-    return API_CONFIG.production;
+/**
+ * Named backends that can be picked at runtime from Developer Settings
+ * (see src/services/apiEnvironment.ts). `custom` takes a user-entered URL,
+ * e.g. your laptop's IP when testing on a physical device.
+ */
+export type ApiEnvironmentId = 'local' | 'emulator' | 'staging' | 'production' | 'custom';
+
+export interface ApiEnvironment {
+  id: ApiEnvironmentId;
+  label: string;
+  description: string;
+  baseUrl?: string;
+}
+
+export const API_ENVIRONMENTS: ApiEnvironment[] = [
+  {
+    id: 'local',
+    label: 'Local',
+    description: 'Backend on this machine (iOS Simulator)',
+    baseUrl: 'http://localhost:8000',
+  },
+  {
+    id: 'emulator',
+    label: 'Android Emulator',
+    description: "Host machine's localhost as seen from the Android emulator",
+    baseUrl: 'http://10.0.2.2:8000',
+  },
+  {
+    id: 'staging',
+    label: 'Staging',
+    description: 'Shared pre-release backend',
+    baseUrl: API_CONFIG.staging,
+  },
+  {
+    id: 'production',
+    label: 'Production',
+    description: 'Live backend used by release builds',
+    baseUrl: API_CONFIG.production,
+  },
+  {
+    id: 'custom',
+    label: 'Custom URL',
+    description: 'Any other server, e.g. http://192.168.1.100:8000',
+  },
+];
+
+// Environment used until one is chosen in Developer Settings
+export const getDefaultEnvironmentId = (): ApiEnvironmentId => {
+  if (!__DEV__) {
+    return 'production';
   }
-  
+  return Platform.OS === 'android' ? 'emulator' : 'local';
+};
+
+// Get the API URL for the default environment
+export const getApiBaseUrl = (): string => {
   if (__DEV__) {
     return API_CONFIG.development;
   }
@@ -66,12 +155,15 @@ export const getApiBaseUrl = (): string => {
 
 // Export configuration
 const baseUrl = getApiBaseUrl();
-console.log(`[API Config] Using API base URL: ${baseUrl}`);
+console.log(`[API Config] Using default API base URL: ${baseUrl}`);
 
 export const apiConfig = {
   baseUrl: baseUrl,
   timeout: API_CONFIG.timeout,
   retry: API_CONFIG.retry,
+  circuitBreaker: API_CONFIG.circuitBreaker,
+  cache: API_CONFIG.cache,
+  useMockBackend: __DEV__ && USE_MOCK_BACKEND,
 };
 
 // Helper to check if we're in development mode
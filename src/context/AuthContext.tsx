@@ -3,7 +3,11 @@
  */
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { apiService } from '../services/api';
+import { apiService, AuthError, ValidationError, isTransientError } from '../services/api';
+import { offlineQueue } from '../services/offlineQueue';
+import { chatOutbox } from '../services/chatOutbox';
+import { apiEnvironment } from '../services/apiEnvironment';
+import { sessionRefresh } from '../services/sessionRefresh';
 
 export interface User {
   id: string;
@@ -23,6 +27,8 @@ interface AuthContextType {
   tokens: AuthTokens | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** True after the session ended because the refresh token was rejected, until the next sign-in */
+  sessionExpired: boolean;
   login: (email: string, password: string) => Promise<void>;
   signup: (name: string, email: string, password: string, passwordConfirm: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -39,6 +45,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [user, setUser] = useState<User | null>(null);
   const [tokens, setTokens] = useState<AuthTokens | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   // Clear auth state function - defined early so it can be used in useEffect
   const clearAuthState = useCallback(async () => {
@@ -50,48 +57,44 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setUser(null);
       setTokens(null);
       apiService.setAccessToken(null);
+      // Cached responses are per-user
+      await apiService.clearCache();
     } catch (error) {
       console.error('Error clearing auth state:', error);
     }
   }, []);
 
-  // Load auth state from storage on mount and validate/refresh tokens
+  // The one way a session ends involuntarily: sign out and let the login screen say why
+  const expireSession = useCallback(async () => {
+    // Pending offline writes belong to this account - don't replay them for whoever signs in next
+    await Promise.all([offlineQueue.clear(), chatOutbox.clear()]);
+    await clearAuthState();
+    setSessionExpired(true);
+  }, [clearAuthState]);
+
+  // Load auth state from storage on mount. Stale access tokens are refreshed by
+  // sessionRefresh (and before the first request) once the session is restored.
   useEffect(() => {
     const loadAuthState = async () => {
       try {
+        // Point ApiService at the chosen backend before touching the stored session
+        await apiEnvironment.load();
+
         const [storedTokens, storedUser] = await Promise.all([
           AsyncStorage.getItem(TOKEN_STORAGE_KEY),
           AsyncStorage.getItem(USER_STORAGE_KEY),
         ]);
 
         if (storedTokens && storedUser) {
-          const parsedTokens = JSON.parse(storedTokens);
+          const parsedTokens: AuthTokens = JSON.parse(storedTokens);
           const parsedUser = JSON.parse(storedUser);
-          
-          // Set tokens and user temporarily
-          setTokens(parsedTokens);
-          setUser(parsedUser);
-          apiService.setAccessToken(parsedTokens.access);
-          
-          // Validate and refresh token if refresh token exists
+
           if (parsedTokens.refresh) {
-            try {
-              // Attempt to refresh the access token to validate it's still valid
-              const tokenResponse = await apiService.refreshToken(parsedTokens.refresh);
-              const updatedTokens: AuthTokens = {
-                access: tokenResponse.access,
-                refresh: tokenResponse.refresh || parsedTokens.refresh,
-              };
-              await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(updatedTokens));
-              setTokens(updatedTokens);
-              apiService.setAccessToken(tokenResponse.access);
-            } catch {
-              // If refresh fails, clear auth state (token expired or invalid)
-              console.log('Token refresh failed on app start, clearing auth state');
-              await clearAuthState();
-            }
+            setTokens(parsedTokens);
+            setUser(parsedUser);
+            apiService.setAccessToken(parsedTokens.access);
           } else {
-            // No refresh token, clear auth state
+            // No way to renew the session
             await clearAuthState();
           }
         }
@@ -132,25 +135,22 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const response = await apiService.login(email, password);
       await saveAuthState(response.user, response.tokens);
-    } catch (error: any) {
-      // Only log unexpected errors, not authentication failures
-      const errorMessage = error?.message || String(error);
-      const isAuthError = errorMessage.toLowerCase().includes('invalid') || 
-                         errorMessage.toLowerCase().includes('login failed') ||
-                         errorMessage.toLowerCase().includes('email') ||
-                         errorMessage.toLowerCase().includes('password') ||
-                         errorMessage.toLowerCase().includes('credentials');
-      
-      if (!isAuthError) {
-        // Log unexpected errors (network issues, server errors, etc.)
+      setSessionExpired(false);
+    } catch (error) {
+      // Wrong credentials: the generic 401 message talks about expired sessions, which is misleading here
+      if (error instanceof AuthError) {
+        throw new AuthError('Invalid email or password. Please try again.', {
+          statusCode: error.statusCode,
+          errors: error.errors,
+          requestId: error.requestId,
+        });
+      }
+
+      // Only log unexpected errors (network issues, server errors, etc.), not bad input
+      if (!(error instanceof ValidationError)) {
         console.error('Login error:', error);
       }
-      
-      // Re-throw with user-friendly message
-      const userFriendlyMessage = isAuthError 
-        ? 'Invalid email or password. Please try again.'
-        : errorMessage;
-      throw new Error(userFriendlyMessage);
+      throw error;
     }
   };
 
@@ -158,29 +158,25 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const response = await apiService.signup(name, email, password, passwordConfirm);
       await saveAuthState(response.user, response.tokens);
-    } catch (error: any) {
+      setSessionExpired(false);
+    } catch (error) {
       // Only log unexpected errors, not validation failures
-      const errorMessage = error?.message || String(error);
-      const isValidationError = errorMessage.toLowerCase().includes('invalid') || 
-                                errorMessage.toLowerCase().includes('already exists') ||
-                                errorMessage.toLowerCase().includes('email') ||
-                                errorMessage.toLowerCase().includes('password') ||
-                                errorMessage.toLowerCase().includes('validation');
-      
-      if (!isValidationError) {
-        // Log unexpected errors (network issues, server errors, etc.)
+      if (!(error instanceof ValidationError)) {
         console.error('Signup error:', error);
       }
-      
-      // Re-throw with user-friendly message
-      throw new Error(errorMessage);
+      // Re-throw as-is so screens can show field errors
+      throw error;
     }
   };
 
   const logout = async () => {
+    // Pending offline writes belong to this account - don't replay them for the next one
+    await Promise.all([offlineQueue.clear(), chatOutbox.clear()]);
     await clearAuthState();
+    setSessionExpired(false);
   };
 
+  // Called through apiService.refreshSession(), which keeps it single-flight
   const refreshAccessToken = useCallback(async () => {
     // Get the latest tokens from storage to ensure we have the most up-to-date refresh token
     try {
@@ -204,12 +200,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setTokens(updatedTokens);
       apiService.setAccessToken(tokenResponse.access);
     } catch (error) {
+      // Offline or server trouble: keep the session and try again later
+      if (isTransientError(error)) {
+        console.log('Token refresh deferred:', error instanceof Error ? error.message : error);
+        throw error;
+      }
       console.error('Token refresh error:', error);
-      // If refresh fails, logout user
-      await clearAuthState();
+      await expireSession();
       throw error;
     }
-  }, [clearAuthState]); // Include clearAuthState in deps
+  }, [expireSession]);
 
   const refreshUser = useCallback(async () => {
     // Refresh user data from storage (after profile update, etc.)
@@ -235,11 +235,42 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
   }, [refreshAccessToken]);
 
+  // Refresh ahead of expiry and when returning to the foreground
+  useEffect(() => sessionRefresh.start(), []);
+
+  useEffect(() => {
+    sessionRefresh.schedule();
+  }, [tokens]);
+
+  // Replay offline writes on reconnect, and as soon as a session is available
+  useEffect(() => offlineQueue.start(), []);
+
+  useEffect(() => chatOutbox.start(), []);
+
+  // A session (and its pending writes) belongs to the backend that issued it
+  useEffect(
+    () =>
+      apiEnvironment.subscribe(() => {
+        Promise.all([offlineQueue.clear(), chatOutbox.clear()]).then(clearAuthState);
+      }),
+    [clearAuthState]
+  );
+
+  const isAuthenticated = !!user && !!tokens;
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      offlineQueue.flush();
+      chatOutbox.flush();
+    }
+  }, [isAuthenticated]);
+
   const value: AuthContextType = {
     user,
     tokens,
-    isAuthenticated: !!user && !!tokens,
+    isAuthenticated,
     isLoading,
+    sessionExpired,
     login,
     signup,
     logout,
@@ -0,0 +1,71 @@
+/**
+ * Script Context - Manages which script Sanskrit text is shown in
+ *
+ * Shlokas arrive in Devanagari; anywhere they're displayed they go through
+ * `transliterate` with the script chosen here (see utils/transliteration).
+ */
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SanskritScript, SANSKRIT_SCRIPTS } from '../utils/transliteration';
+
+interface ScriptContextType {
+  script: SanskritScript;
+  setScript: (script: SanskritScript) => void;
+}
+
+const ScriptContext = createContext<ScriptContextType | undefined>(undefined);
+
+const SCRIPT_STORAGE_KEY = '@dharmasaar_sanskrit_script';
+
+export const ScriptProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [script, setScriptState] = useState<SanskritScript>('devanagari');
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load script preference from storage
+  useEffect(() => {
+    const loadScript = async () => {
+      try {
+        const savedScript = await AsyncStorage.getItem(SCRIPT_STORAGE_KEY);
+        const known = SANSKRIT_SCRIPTS.find(option => option.id === savedScript);
+        if (known) {
+          setScriptState(known.id);
+        }
+      } catch (error) {
+        console.error('Error loading script preference:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadScript();
+  }, []);
+
+  // Save script preference to storage
+  const setScript = async (next: SanskritScript) => {
+    setScriptState(next);
+    try {
+      await AsyncStorage.setItem(SCRIPT_STORAGE_KEY, next);
+    } catch (error) {
+      console.error('Error saving script preference:', error);
+    }
+  };
+
+  // Don't render children until the preference is loaded, so verses don't switch script
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <ScriptContext.Provider value={{ script, setScript }}>
+      {children}
+    </ScriptContext.Provider>
+  );
+};
+
+export const useScript = (): ScriptContextType => {
+  const context = useContext(ScriptContext);
+  if (context === undefined) {
+    throw new Error('useScript must be used within a ScriptProvider');
+  }
+  return context;
+};
@@ -1,3 +1,9 @@
+/**
+ * Knowledge card types and sample Bhagavad Gita content for development and tests
+ */
+import { ShlokaWithExplanation } from '../services/api';
+import { convertShlokaToKnowledgeItem } from '../utils/shlokaConverter';
+
 export interface WordByWordItem {
   sanskrit: string;
   transliteration: string;
@@ -41,68 +47,353 @@ export interface KnowledgeItem {
   reflectionPrompt?: string;
 }
 
-export const mockKnowledgeData: KnowledgeItem[] = [
-  {
-    id: '1',
-    title: "Now Google's Bard AI Chatbot can talk & respond to visual prompts!",
-    content: 'Google is adding some new features to its Bard AI chatbot, including the ability for Bard to speak its answers to you and for it to respond to prompts that also include images.',
-    detailed_content: 'Google is adding some new features to its Bard AI chatbot, including the ability for Bard to speak its answers to you and for it to respond to prompts that also include images.',
-    category: 'Technology',
-    imageUrl: 'https://placehold.co/375x266',
-    author: 'Kyle Barr',
-    source: 'The Verge',
-    date: 'Jul 13, 2023, 12:31 PM GMT+5:30',
-    readTime: '2 min read',
-    bodyText: 'Google is adding some new features to its Bard AI chatbot, including the ability for Bard to speak its answers to you and for it to respond to prompts that also include images. The chatbot is also now available in much of the world, including the EU.\n\nIn a blog post, Google is positioning Bard\'s spoken responses as a helpful way to "correct pronunciation of a word or listen to a poem or script." You\'ll be able to hear spoken responses by entering a prompt and selecting the sound icon. Spoken responses will be available in more than 40 languages and are live now, according to Google.\n\nThe feature that lets you add images to prompts is something that Google first showed off at its I/O conference in May. In one example, Google suggested you could use this to ask for help writing a funny caption about a picture of two dogs. Google says the feature is now available in English and is expanding to new languages "soon."\n\nGoogle is introducing a few other new features, too, including the ability to pin and rename conversations, share responses with your friends, and change the tone and style of the responses you get back from Bard.\n\nGoogle first opened up access to Bard in March, but at the time, it was available only in the US and the UK. The company has been rolling out the chatbot to many more countries since then, and that now includes "all countries in the EEA [European Economic Area] and Brazil," Google spokesperson Jennifer Rodstrom tells The Verge. That expansion in Europe is a notable milestone; the company\'s planned Bard launch in the EU was delayed due to privacy concerns.',
-  },
-  {
-    id: '2',
-    title: 'The Power of Compound Interest',
-    content: 'Compound interest is when you earn interest on both your original investment and the interest you\'ve already earned. Over time, this creates exponential growth. Starting early gives your money more time to compound, making a huge difference in the long run.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel.Compound interest is when you earn interest on both your original investment and the interest you\'ve already earned. Over time, this creates exponential growth. Starting early gives your money more time to compound, making a huge difference in the long run.',
-    category: 'Finance',
-  },
-  {
-    id: '3',
-    title: 'Why We Sleep',
-    content: 'Sleep is essential for memory consolidation, where your brain transfers information from short-term to long-term storage. During deep sleep, your brain clears out toxins and repairs cells. Adults need 7-9 hours of quality sleep for optimal health and cognitive function.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel.Sleep is essential for memory consolidation, where your brain transfers information from short-term to long-term storage. During deep sleep, your brain clears out toxins and repairs cells. Adults need 7-9 hours of quality sleep for optimal health and cognitive function.',
-    category: 'Health',
-  },
-  {
-    id: '4',
-    title: 'The 80/20 Principle',
-    content: 'The Pareto Principle states that roughly 80% of effects come from 20% of causes. In business, this often means 80% of sales come from 20% of customers. Focus your efforts on the vital few rather than the trivial many to maximize results.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel.The Pareto Principle states that roughly 80% of effects come from 20% of causes. In business, this often means 80% of sales come from 20% of customers. Focus your efforts on the vital few rather than the trivial many to maximize results.',
-    category: 'Business',
-  },
-  {
-    id: '5',
-    title: 'How Photosynthesis Works',
-    content: 'Plants convert sunlight, water, and carbon dioxide into glucose (sugar) and oxygen through photosynthesis. This process occurs in chloroplasts, which contain chlorophyll - the green pigment that captures light energy. Without photosynthesis, life on Earth as we know it wouldn\'t exist.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel.Plants convert sunlight, water, and carbon dioxide into glucose (sugar) and oxygen through photosynthesis. This process occurs in chloroplasts, which contain chlorophyll - the green pigment that captures light energy. Without photosynthesis, life on Earth as we know it wouldn\'t exist.',
-    category: 'Science',
-  },
-  {
-    id: '6',
-    title: 'The Science of Habits',
-    content: 'Habits form through a three-step loop: cue, routine, and reward. Your brain creates neural pathways that make the behavior automatic. To change a habit, keep the same cue and reward but change the routine. Consistency is key - it takes about 66 days on average to form a new habit.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel. Habits form through a three-step loop: cue, routine, and reward. Your brain creates neural pathways that make the behavior automatic. To change a habit, keep the same cue and reward but change the routine. Consistency is key - it takes about 66 days on average to form a new habit.',
-    category: 'Psychology',
+const FIXTURE_DATE = '2024-01-01T00:00:00Z';
+
+const fixture = (
+  id: string,
+  chapter: number,
+  verse: number,
+  shloka: {
+    sanskrit_text: string;
+    transliteration: string;
+    word_by_word?: WordByWordItem[];
   },
-  {
-    id: '7',
-    title: 'Understanding Blockchain',
-    content: 'Blockchain is a distributed ledger technology where transactions are recorded in blocks that are linked together in a chain. Each block contains a cryptographic hash of the previous block, making it nearly impossible to alter past records. This creates trust without needing a central authority.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel. Blockchain is a distributed ledger technology where transactions are recorded in blocks that are linked together in a chain. Each block contains a cryptographic hash of the previous block, making it nearly impossible to alter past records. This creates trust without needing a central authority.',
-    category: 'Technology',
+  explanation: {
+    summary: string;
+    detailed_meaning: string;
+    detailed_explanation: string;
+    context: string;
+    why_this_matters: string;
+    modern_examples: ModernExample[];
+    themes: string[];
+    reflection_prompt: string;
+  }
+): ShlokaWithExplanation => ({
+  shloka: {
+    id,
+    book_name: 'Bhagavad Gita',
+    chapter_number: chapter,
+    verse_number: verse,
+    ...shloka,
+    created_at: FIXTURE_DATE,
+    updated_at: FIXTURE_DATE,
   },
-  {
-    id: '8',
-    title: 'The Benefits of Meditation',
-    content: 'Regular meditation can reduce stress, improve focus, and increase emotional well-being. Studies show it can physically change your brain structure, increasing gray matter in areas associated with memory and learning. Just 10 minutes a day can make a significant difference.',
-    detailed_content: 'Quantum computers use quantum bits or "qubits" that can exist in multiple states simultaneously, unlike classical bits that are either 0 or 1. This property, called superposition, allows quantum computers to process vast amounts of information in parallel. Regular meditation can reduce stress, improve focus, and increase emotional well-being. Studies show it can physically change your brain structure, increasing gray matter in areas associated with memory and learning. Just 10 minutes a day can make a significant difference.',
-    category: 'Health',
+  explanation: {
+    id: `${id}-explanation`,
+    shloka_id: id,
+    ...explanation,
+    explanation_text: explanation.summary,
+    created_at: FIXTURE_DATE,
+    updated_at: FIXTURE_DATE,
   },
+});
+
+/**
+ * Real verses with explanations, shaped exactly like `/api/shlokas/*` responses.
+ * Seeds the mock backend and serves as test data.
+ */
+export const mockShlokas: ShlokaWithExplanation[] = [
+  fixture(
+    'bg-2-14',
+    2,
+    14,
+    {
+      sanskrit_text:
+        'मात्रास्पर्शास्तु कौन्तेय शीतोष्णसुखदुःखदाः।\nआगमापायिनोऽनित्यास्तांस्तितिक्षस्व भारत॥',
+      transliteration:
+        "mātrā-sparśās tu kaunteya śītoṣṇa-sukha-duḥkha-dāḥ |\nāgamāpāyino 'nityās tāṁs titikṣasva bhārata ||",
+    },
+    {
+      summary:
+        'Heat and cold, pleasure and pain come from the contact of the senses with their objects. They come and go and do not last, so learn to endure them patiently.',
+      detailed_meaning:
+        'Krishna tells Arjuna that every sensation is produced by the meeting of the senses with the world. Because these contacts arise and pass away, none of them is permanent, and none of them should shake a steady mind.',
+      detailed_explanation:
+        'The verse introduces titikṣā, the quiet endurance of opposites. It does not ask us to stop feeling heat or sorrow, only to remember that each experience is temporary. Seeing the changing nature of sensation loosens its hold on us and keeps our actions from being driven by every passing mood.',
+      context:
+        'Arjuna is overwhelmed by grief on the battlefield. Krishna begins his teaching by separating the eternal self from the passing experiences of the body.',
+      why_this_matters:
+        'Most of our stress comes from reacting to conditions as if they were permanent. Remembering that they pass lets us respond with patience instead of panic.',
+      modern_examples: [
+        {
+          category: 'Work',
+          description: 'A harsh review feels crushing today; a week later it is just feedback you acted on.',
+        },
+        {
+          category: 'Health',
+          description: 'Staying with the discomfort of a new exercise routine until it becomes easy.',
+        },
+      ],
+      themes: ['Equanimity', 'Impermanence', 'Endurance'],
+      reflection_prompt: 'Which passing discomfort am I treating as if it will last forever?',
+    }
+  ),
+  fixture(
+    'bg-2-20',
+    2,
+    20,
+    {
+      sanskrit_text:
+        'न जायते म्रियते वा कदाचिन्नायं भूत्वा भविता वा न भूयः।\nअजो नित्यः शाश्वतोऽयं पुराणो न हन्यते हन्यमाने शरीरे॥',
+      transliteration:
+        "na jāyate mriyate vā kadācin nāyaṁ bhūtvā bhavitā vā na bhūyaḥ |\najo nityaḥ śāśvato 'yaṁ purāṇo na hanyate hanyamāne śarīre ||",
+    },
+    {
+      summary:
+        'The self is never born and never dies. It is unborn, eternal and ancient, and it is not destroyed when the body is destroyed.',
+      detailed_meaning:
+        'The ātman did not come into being at some moment and will not cease to be. Birth and death belong to the body; the self that lives in it is untouched by them.',
+      detailed_explanation:
+        'This is one of the central statements of the Gita on the nature of the self. By describing the ātman as aja (unborn), nitya (eternal) and purāṇa (ancient), Krishna shows Arjuna that his grief rests on mistaking the body for the person.',
+      context:
+        'Arjuna fears killing his teachers and relatives. Krishna answers that the true self of every being cannot be slain.',
+      why_this_matters:
+        'Understanding ourselves as more than our roles and bodies gives a steadier footing when facing loss, ageing and change.',
+      modern_examples: [
+        {
+          category: 'Grief',
+          description: 'Finding that the love for someone who has passed continues to shape who we are.',
+        },
+      ],
+      themes: ['Self', 'Immortality of the soul', 'Grief'],
+      reflection_prompt: 'What in me has stayed the same through every change in my life?',
+    }
+  ),
+  fixture(
+    'bg-2-47',
+    2,
+    47,
+    {
+      sanskrit_text:
+        'कर्मण्येवाधिकारस्ते मा फलेषु कदाचन।\nमा कर्मफलहेतुर्भूर्मा ते सङ्गोऽस्त्वकर्मणि॥',
+      transliteration:
+        "karmaṇy evādhikāras te mā phaleṣu kadācana |\nmā karma-phala-hetur bhūr mā te saṅgo 'stv akarmaṇi ||",
+      word_by_word: [
+        { sanskrit: 'कर्मणि', transliteration: 'karmaṇi', meaning: 'in action' },
+        { sanskrit: 'एव', transliteration: 'eva', meaning: 'only' },
+        { sanskrit: 'अधिकारः', transliteration: 'adhikāraḥ', meaning: 'right' },
+        { sanskrit: 'ते', transliteration: 'te', meaning: 'your' },
+        { sanskrit: 'मा', transliteration: 'mā', meaning: 'never' },
+        { sanskrit: 'फलेषु', transliteration: 'phaleṣu', meaning: 'in the fruits' },
+        { sanskrit: 'कदाचन', transliteration: 'kadācana', meaning: 'at any time' },
+        { sanskrit: 'कर्मफलहेतुः', transliteration: 'karma-phala-hetuḥ', meaning: 'the cause of the results of action' },
+        { sanskrit: 'भूः', transliteration: 'bhūḥ', meaning: 'become' },
+        { sanskrit: 'सङ्गः', transliteration: 'saṅgaḥ', meaning: 'attachment' },
+        { sanskrit: 'अकर्मणि', transliteration: 'akarmaṇi', meaning: 'to inaction' },
+      ],
+    },
+    {
+      summary:
+        'You have a right to your actions, but never to their fruits. Do not act for the sake of results, and do not become attached to inaction either.',
+      detailed_meaning:
+        'Our responsibility lies in doing our duty well. The outcome depends on many factors beyond our control, so clinging to it only brings anxiety; giving up action altogether is no answer either.',
+      detailed_explanation:
+        'This verse is the foundation of karma yoga. It separates effort from reward: we give our full attention to the work in front of us and let go of the demand that it turn out a particular way. Freed from that demand, action becomes cleaner and the mind stays calm in success and failure.',
+      context:
+        'Having explained the eternal self, Krishna turns to how Arjuna should act. He must fight as his duty requires, without being driven by desire for victory or fear of defeat.',
+      why_this_matters:
+        'Anxiety about outcomes is one of the biggest obstacles to doing good work. Focusing on effort makes us both more effective and more at peace.',
+      modern_examples: [
+        {
+          category: 'Career',
+          description: 'Preparing thoroughly for an interview and then letting go of the decision, which is not yours to make.',
+        },
+        {
+          category: 'Study',
+          description: 'Studying to understand the subject rather than only to chase a grade.',
+        },
+      ],
+      themes: ['Karma Yoga', 'Duty', 'Detachment'],
+      reflection_prompt: 'Where am I so focused on the result that I neglect the work itself?',
+    }
+  ),
+  fixture(
+    'bg-2-48',
+    2,
+    48,
+    {
+      sanskrit_text:
+        'योगस्थः कुरु कर्माणि सङ्गं त्यक्त्वा धनञ्जय।\nसिद्ध्यसिद्ध्योः समो भूत्वा समत्वं योग उच्यते॥',
+      transliteration:
+        'yoga-sthaḥ kuru karmāṇi saṅgaṁ tyaktvā dhanañjaya |\nsiddhy-asiddhyoḥ samo bhūtvā samatvaṁ yoga ucyate ||',
+    },
+    {
+      summary:
+        'Perform your actions established in yoga, giving up attachment and staying even-minded in success and failure. This evenness of mind is called yoga.',
+      detailed_meaning:
+        'Krishna defines yoga itself as samatva, balance. Acting from that balance means doing the work fully while remaining the same whether it succeeds or fails.',
+      detailed_explanation:
+        'Following the previous verse, Krishna gives the positive form of the teaching. Detachment is not indifference; it is a steadiness that lets us act wholeheartedly because we are not thrown about by the result.',
+      context: 'A continuation of the teaching on karma yoga given to Arjuna before the battle.',
+      why_this_matters:
+        'Balance under pressure is what lets people perform well and recover quickly from setbacks.',
+      modern_examples: [
+        {
+          category: 'Sports',
+          description: 'An athlete who plays each point with the same focus whether winning or losing.',
+        },
+      ],
+      themes: ['Equanimity', 'Karma Yoga', 'Balance'],
+      reflection_prompt: 'How would I act today if success and failure felt the same?',
+    }
+  ),
+  fixture(
+    'bg-3-30',
+    3,
+    30,
+    {
+      sanskrit_text:
+        'मयि सर्वाणि कर्माणि संन्यस्याध्यात्मचेतसा।\nनिराशीर्निर्ममो भूत्वा युध्यस्व विगतज्वरः॥',
+      transliteration:
+        'mayi sarvāṇi karmāṇi sannyasyādhyātma-cetasā |\nnirāśīr nirmamo bhūtvā yudhyasva vigata-jvaraḥ ||',
+    },
+    {
+      summary:
+        'Offer all your actions to me with your mind fixed on the self. Free from desire and the sense of "mine", fight without the fever of anxiety.',
+      detailed_meaning:
+        'Krishna asks Arjuna to dedicate every action to the Divine. When work is an offering rather than a personal project, desire and possessiveness fall away, and so does the anxious heat that comes with them.',
+      detailed_explanation:
+        'This verse joins karma yoga with devotion. Renouncing actions "in me" does not mean stopping them but changing the one they are done for. Without hope for personal gain (nirāśīḥ) and without possessiveness (nirmamaḥ), Arjuna can face his duty with a clear mind.',
+      context:
+        'Chapter 3 explains why action is unavoidable and how it can be done without bondage. This verse summarises that teaching.',
+      why_this_matters:
+        'Doing our work as service to something larger than ourselves relieves much of the pressure we put on it.',
+      modern_examples: [
+        {
+          category: 'Service',
+          description: 'Volunteering without needing recognition for the hours you give.',
+        },
+      ],
+      themes: ['Surrender', 'Devotion', 'Karma Yoga'],
+      reflection_prompt: 'What would change if I offered today\'s work instead of owning it?',
+    }
+  ),
+  fixture(
+    'bg-4-7',
+    4,
+    7,
+    {
+      sanskrit_text:
+        'यदा यदा हि धर्मस्य ग्लानिर्भवति भारत।\nअभ्युत्थानमधर्मस्य तदात्मानं सृजाम्यहम्॥',
+      transliteration:
+        'yadā yadā hi dharmasya glānir bhavati bhārata |\nabhyutthānam adharmasya tadātmānaṁ sṛjāmy aham ||',
+    },
+    {
+      summary:
+        'Whenever righteousness declines and unrighteousness rises, O Bharata, I manifest myself.',
+      detailed_meaning:
+        'Krishna reveals that the Divine takes form in the world whenever dharma weakens and adharma gains strength.',
+      detailed_explanation:
+        'This is the Gita\'s teaching on avatāra. The Divine is not distant from history but enters it to restore balance. The verse also reassures the seeker that dharma is never finally lost.',
+      context:
+        'In chapter 4 Krishna explains that he taught this yoga long ago and has been born many times, though unlike Arjuna he remembers all those births.',
+      why_this_matters:
+        'It offers hope in dark times: decline is not the end, and renewal is always possible.',
+      modern_examples: [
+        {
+          category: 'Society',
+          description: 'Ordinary people stepping up to rebuild their community after a disaster.',
+        },
+      ],
+      themes: ['Dharma', 'Avatar', 'Divine protection'],
+      reflection_prompt: 'Where in my own life is dharma declining, and what would restore it?',
+    }
+  ),
+  fixture(
+    'bg-4-8',
+    4,
+    8,
+    {
+      sanskrit_text:
+        'परित्राणाय साधूनां विनाशाय च दुष्कृताम्।\nधर्मसंस्थापनार्थाय सम्भवामि युगे युगे॥',
+      transliteration:
+        'paritrāṇāya sādhūnāṁ vināśāya ca duṣkṛtām |\ndharma-saṁsthāpanārthāya sambhavāmi yuge yuge ||',
+    },
+    {
+      summary:
+        'To protect the good, to destroy the wicked and to re-establish dharma, I appear in every age.',
+      detailed_meaning:
+        'The purpose of the avatāra is threefold: protecting those who live rightly, removing what destroys them, and setting dharma firmly in place again.',
+      detailed_explanation:
+        'This verse completes the previous one by giving the reasons for the Divine\'s descent. "Yuge yuge", age after age, shows this is a recurring pattern rather than a single event.',
+      context: 'Continues Krishna\'s explanation of his divine births in chapter 4.',
+      why_this_matters:
+        'It reminds us that protecting what is good and standing against harm is itself a sacred task.',
+      modern_examples: [
+        {
+          category: 'Leadership',
+          description: 'A manager who shields a team from unfair treatment while restoring fair processes.',
+        },
+      ],
+      themes: ['Dharma', 'Avatar', 'Justice'],
+      reflection_prompt: 'Whom can I protect, and what can I help set right, in my own circle?',
+    }
+  ),
+  fixture(
+    'bg-6-5',
+    6,
+    5,
+    {
+      sanskrit_text:
+        'उद्धरेदात्मनात्मानं नात्मानमवसादयेत्।\nआत्मैव ह्यात्मनो बन्धुरात्मैव रिपुरात्मनः॥',
+      transliteration:
+        'uddhared ātmanātmānaṁ nātmānam avasādayet |\nātmaiva hy ātmano bandhur ātmaiva ripur ātmanaḥ ||',
+    },
+    {
+      summary:
+        'Lift yourself up by your own mind and do not let yourself sink. The mind alone is your friend, and the mind alone is your enemy.',
+      detailed_meaning:
+        'Each person is responsible for their own upliftment. The same mind that can drag us down can, when trained, become our greatest ally.',
+      detailed_explanation:
+        'Chapter 6 deals with meditation and self-discipline. This verse places the work squarely with the practitioner: no one else can do it for us, and the mind becomes a friend when it is brought under control.',
+      context:
+        'Krishna begins the teaching on dhyāna yoga by explaining who is fit for meditation and why self-mastery matters.',
+      why_this_matters:
+        'Self-talk shapes our lives. Learning to make the mind an ally is the basis of every lasting change.',
+      modern_examples: [
+        {
+          category: 'Habits',
+          description: 'Replacing "I always fail at this" with "I am still learning this" when a new habit slips.',
+        },
+      ],
+      themes: ['Self-mastery', 'Mind', 'Meditation'],
+      reflection_prompt: 'Is my mind acting as my friend or my enemy today?',
+    }
+  ),
+  fixture(
+    'bg-18-66',
+    18,
+    66,
+    {
+      sanskrit_text:
+        'सर्वधर्मान्परित्यज्य मामेकं शरणं व्रज।\nअहं त्वा सर्वपापेभ्यो मोक्षयिष्यामि मा शुचः॥',
+      transliteration:
+        'sarva-dharmān parityajya mām ekaṁ śaraṇaṁ vraja |\nahaṁ tvā sarva-pāpebhyo mokṣayiṣyāmi mā śucaḥ ||',
+    },
+    {
+      summary:
+        'Abandon all varieties of dharma and take refuge in me alone. I will free you from all sins; do not grieve.',
+      detailed_meaning:
+        'In his final teaching Krishna asks Arjuna to surrender completely to the Divine, promising liberation and telling him to let go of sorrow.',
+      detailed_explanation:
+        'Often called the carama śloka, the culminating verse, this is where the Gita\'s paths meet in total surrender. Giving up "all dharmas" is read as giving up reliance on one\'s own efforts alone and trusting fully in divine grace.',
+      context:
+        'Near the close of the dialogue, after teaching knowledge, action and devotion, Krishna gives this as the most confidential instruction.',
+      why_this_matters:
+        'It speaks to the relief of letting go when we have done what we can and the burden is still too heavy.',
+      modern_examples: [
+        {
+          category: 'Anxiety',
+          description: 'Handing over a worry you cannot solve tonight and allowing yourself to rest.',
+        },
+      ],
+      themes: ['Surrender', 'Devotion', 'Liberation'],
+      reflection_prompt: 'What am I holding on to that I could entrust to something greater?',
+    }
+  ),
 ];
 
+/**
+ * The fixtures in the card format used by KnowledgeCard
+ */
+export const mockKnowledgeData: KnowledgeItem[] = mockShlokas.map(convertShlokaToKnowledgeItem);
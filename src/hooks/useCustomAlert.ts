@@ -1,7 +1,7 @@
 /**
  * Hook for managing custom alert state
  */
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { AlertButton } from '../components/CustomAlert';
 
 export interface AlertConfig {
@@ -14,8 +14,14 @@ export interface AlertConfig {
 export const useCustomAlert = () => {
   const [alertConfig, setAlertConfig] = useState<AlertConfig | null>(null);
   const [visible, setVisible] = useState(false);
+  const clearTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const showAlert = useCallback((config: AlertConfig) => {
+    // Keep a follow-up alert from being cleared by the previous one's hide
+    if (clearTimer.current) {
+      clearTimeout(clearTimer.current);
+      clearTimer.current = null;
+    }
     setAlertConfig(config);
     setVisible(true);
   }, []);
@@ -23,7 +29,8 @@ export const useCustomAlert = () => {
   const hideAlert = useCallback(() => {
     setVisible(false);
     // Clear config after animation
-    setTimeout(() => {
+    clearTimer.current = setTimeout(() => {
+      clearTimer.current = null;
       setAlertConfig(null);
     }, 300);
   }, []);
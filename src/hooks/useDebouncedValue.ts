@@ -0,0 +1,16 @@
+/**
+ * Hook returning `value` once it has stopped changing for `delay` ms,
+ * e.g. to search after the user pauses typing rather than on every keystroke
+ */
+import { useState, useEffect } from 'react';
+
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,37 @@
+/**
+ * Hook calling `onDwell(key)` once `key` has been on screen for `minDwell` ms.
+ * Time in the background doesn't count; a new key starts over, and a null key means
+ * nothing is being viewed.
+ */
+import { useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { DwellTimer } from '../utils/dwellTimer';
+
+export function useDwell(key: string | null, minDwell: number, onDwell: (key: string) => void): void {
+  // Latest callback without restarting the timer when the parent re-renders
+  const onDwellRef = useRef(onDwell);
+  onDwellRef.current = onDwell;
+
+  useEffect(() => {
+    if (key === null) {
+      return;
+    }
+
+    const timer = new DwellTimer(minDwell, () => onDwellRef.current(key));
+    if (AppState.currentState !== 'background') {
+      timer.resume();
+    }
+    const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        timer.resume();
+      } else {
+        timer.pause();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      timer.cancel();
+    };
+  }, [key, minDwell]);
+}
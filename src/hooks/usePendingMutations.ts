@@ -0,0 +1,17 @@
+/**
+ * Hook exposing how many offline writes are still waiting to sync
+ */
+import { useState, useEffect } from 'react';
+import { offlineQueue } from '../services/offlineQueue';
+
+export function usePendingMutations(): number {
+  const [pendingCount, setPendingCount] = useState<number>(offlineQueue.getPendingCount());
+
+  useEffect(() => {
+    // Pick up anything that changed between render and subscription
+    setPendingCount(offlineQueue.getPendingCount());
+    return offlineQueue.subscribe(setPendingCount);
+  }, []);
+
+  return pendingCount;
+}
@@ -0,0 +1,34 @@
+/**
+ * Hook counting down the seconds until a `retryAt` time (e.g. from Retry-After),
+ * optionally calling `onElapsed` once it reaches zero
+ */
+import { useState, useEffect, useRef } from 'react';
+
+const secondsUntil = (retryAt: number | undefined): number =>
+  retryAt === undefined ? 0 : Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+
+export function useRetryCountdown(retryAt: number | undefined, onElapsed?: () => void): number {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(retryAt));
+  // Latest callback without restarting the timer when the parent re-renders
+  const onElapsedRef = useRef(onElapsed);
+  onElapsedRef.current = onElapsed;
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(retryAt));
+    if (secondsUntil(retryAt) === 0) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(retryAt);
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        onElapsedRef.current?.();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return secondsLeft;
+}
@@ -1,8 +1,12 @@
 /**
  * Custom hook for fetching and managing shlokas
+ *
+ * When a book has been downloaded (see services/contentPacks), shlokas come from the
+ * device instead of the network.
  */
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { apiService } from '../services/api';
+import { contentPacks } from '../services/contentPacks';
 import { KnowledgeItem } from '../data/mockKnowledge';
 import { convertShlokaToKnowledgeItem } from '../utils/shlokaConverter';
 
@@ -42,7 +46,8 @@ export function useShlokas(initialCount: number = 5): UseShlokasReturn {
 
   const fetchShloka = useCallback(async (): Promise<KnowledgeItem | null> => {
     try {
-      const data = await apiService.getRandomShloka();
+      const stored = await contentPacks.getRandomShloka(loadedIdsRef.current);
+      const data = stored ?? (await apiService.getRandomShloka());
       
       // Check if we've already loaded this shloka
       if (loadedIdsRef.current.has(data.shloka.id)) {
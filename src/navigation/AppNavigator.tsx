@@ -5,13 +5,18 @@ import React, { useState, useEffect } from 'react';
 import { Text, View, ActivityIndicator, StyleSheet } from 'react-native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { createStackNavigator } from '@react-navigation/stack';
+import { NavigatorScreenParams } from '@react-navigation/native';
 import { HomeScreen } from '../screens/HomeScreen';
 import { ShlokasScreen } from '../screens/ShlokasScreen';
 import { ChatbotScreen } from '../screens/ChatbotScreen';
 import { ProfileStack } from './ProfileStack';
 import { ShlokaDetailScreen } from '../screens/ShlokaDetailScreen';
+import { LibraryScreen } from '../screens/LibraryScreen';
+import { ChapterReaderScreen } from '../screens/ChapterReaderScreen';
+import { SearchScreen } from '../screens/SearchScreen';
 import { LoginScreen } from '../screens/LoginScreen';
 import { SignupScreen } from '../screens/SignupScreen';
+import { DeveloperSettingsScreen } from '../screens/DeveloperSettingsScreen';
 import { FloatingTabBar } from '../components/FloatingTabBar';
 import { BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import { AuthWrapper } from '../components/AuthWrapper';
@@ -19,22 +24,40 @@ import { OnboardingFlow } from '../components/OnboardingFlow';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
 import { hasCompletedOnboarding } from '../utils/onboardingStorage';
+import { ChatShlokaContext } from '../services/api';
 
 export type RootTabParamList = {
   Home: undefined;
   Shlokas: undefined;
-  Chatbot: undefined;
+  Chatbot:
+    | {
+        /** Start a new conversation about this shloka ("Ask about this shloka") */
+        shlokaContext?: ChatShlokaContext;
+        starterQuestions?: string[];
+      }
+    | undefined;
   Profile: undefined;
 };
 
+/** A shloka is opened by id, or by its place in a book (from the library) */
+export type ShlokaDetailParams =
+  | { shlokaId: string }
+  | { bookName: string; chapterNumber: number; verseNumber: number };
+
 export type RootStackParamList = {
-  MainTabs: undefined;
-  ShlokaDetail: { shlokaId: string };
+  MainTabs: NavigatorScreenParams<RootTabParamList> | undefined;
+  ShlokaDetail: ShlokaDetailParams;
+  /** Books, the chapters of `bookName`, or the verses of `chapterNumber` */
+  Library: { bookName?: string; chapterNumber?: number } | undefined;
+  /** Read a chapter from `verseNumber`, or from where it was left off */
+  ChapterReader: { bookName: string; chapterNumber: number; verseNumber?: number };
+  Search: undefined;
 };
 
 export type AuthStackParamList = {
   Login: undefined;
   Signup: undefined;
+  DeveloperSettings: undefined;
 };
 
 const Tab = createBottomTabNavigator<RootTabParamList>();
@@ -122,6 +145,8 @@ const MainTabs: React.FC = () => {
 
 // Auth Stack Navigator (shown when not authenticated)
 const AuthNavigator: React.FC = () => {
+  const { theme } = useTheme();
+
   return (
     <AuthStack.Navigator
       screenOptions={{
@@ -130,6 +155,27 @@ const AuthNavigator: React.FC = () => {
     >
       <AuthStack.Screen name="Login" component={LoginScreen} />
       <AuthStack.Screen name="Signup" component={SignupScreen} />
+      <AuthStack.Screen
+        name="DeveloperSettings"
+        component={DeveloperSettingsScreen}
+        options={{
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: theme.background,
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.border,
+          },
+          headerTitleStyle: {
+            fontWeight: '600',
+            color: theme.text,
+            fontSize: 18,
+          },
+          headerTintColor: theme.primary,
+          title: 'Developer Settings',
+        }}
+      />
     </AuthStack.Navigator>
   );
 };
@@ -180,6 +226,69 @@ const RootStackNavigator: React.FC = () => {
           title: 'Shloka Details',
         }}
       />
+      <RootStack.Screen
+        name="Library"
+        component={LibraryScreen}
+        options={{
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: theme.background,
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.border,
+          },
+          headerTitleStyle: {
+            fontWeight: '600',
+            color: theme.text,
+            fontSize: 18,
+          },
+          headerTintColor: theme.primary,
+          title: 'Library',
+        }}
+      />
+      <RootStack.Screen
+        name="ChapterReader"
+        component={ChapterReaderScreen}
+        options={{
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: theme.background,
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.border,
+          },
+          headerTitleStyle: {
+            fontWeight: '600',
+            color: theme.text,
+            fontSize: 18,
+          },
+          headerTintColor: theme.primary,
+          title: 'Reader',
+        }}
+      />
+      <RootStack.Screen
+        name="Search"
+        component={SearchScreen}
+        options={{
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: theme.background,
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.border,
+          },
+          headerTitleStyle: {
+            fontWeight: '600',
+            color: theme.text,
+            fontSize: 18,
+          },
+          headerTintColor: theme.primary,
+          title: 'Search',
+        }}
+      />
     </RootStack.Navigator>
   );
 };
@@ -13,6 +13,10 @@ import { LearningStatsScreen } from '../screens/LearningStatsScreen';
 import { AchievementsScreen } from '../screens/AchievementsScreen';
 import { FavoritesScreen } from '../screens/FavoritesScreen';
 import { ShlokaDetailScreen } from '../screens/ShlokaDetailScreen';
+import { DeveloperSettingsScreen } from '../screens/DeveloperSettingsScreen';
+import { OfflinePacksScreen } from '../screens/OfflinePacksScreen';
+import { ScriptSettingsScreen } from '../screens/ScriptSettingsScreen';
+import type { ShlokaDetailParams } from './AppNavigator';
 
 export type ProfileStackParamList = {
   ProfileMain: undefined;
@@ -23,7 +27,10 @@ export type ProfileStackParamList = {
   LearningStats: undefined;
   Achievements: undefined;
   Favorites: undefined;
-  ShlokaDetail: { shlokaId: string };
+  OfflinePacks: undefined;
+  ScriptSettings: undefined;
+  ShlokaDetail: ShlokaDetailParams;
+  DeveloperSettings: undefined;
 };
 
 const Stack = createStackNavigator<ProfileStackParamList>();
@@ -106,6 +113,20 @@ export const ProfileStack: React.FC = () => {
           title: 'Favorites',
         }}
       />
+      <Stack.Screen
+        name="OfflinePacks"
+        component={OfflinePacksScreen}
+        options={{
+          title: 'Offline Packs',
+        }}
+      />
+      <Stack.Screen
+        name="ScriptSettings"
+        component={ScriptSettingsScreen}
+        options={{
+          title: 'Sanskrit Script',
+        }}
+      />
       <Stack.Screen
         name="ShlokaDetail"
         component={ShlokaDetailScreen}
@@ -113,6 +134,13 @@ export const ProfileStack: React.FC = () => {
           title: 'Shloka Details',
         }}
       />
+      <Stack.Screen
+        name="DeveloperSettings"
+        component={DeveloperSettingsScreen}
+        options={{
+          title: 'Developer Settings',
+        }}
+      />
     </Stack.Navigator>
   );
 };
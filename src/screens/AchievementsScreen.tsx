@@ -12,7 +12,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, CancelledError } from '../services/api';
 import { Skeleton, SkeletonCard } from '../components/Skeleton';
 
 interface Achievement {
@@ -108,16 +108,19 @@ export const AchievementsScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  const loadAchievements = useCallback(async () => {
+  const loadAchievements = useCallback(async (signal?: AbortSignal) => {
     if (!isAuthenticated) {
       setLoading(false);
       return;
     }
 
     try {
-      const data = await apiService.getAchievements();
+      const data = await apiService.getAchievements({ signal });
       setAchievements(data);
     } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
       console.error('Error loading achievements:', err);
     } finally {
       setLoading(false);
@@ -126,7 +129,9 @@ export const AchievementsScreen: React.FC = () => {
   }, [isAuthenticated]);
 
   useEffect(() => {
-    loadAchievements();
+    const controller = new AbortController();
+    loadAchievements(controller.signal);
+    return () => controller.abort();
   }, [loadAchievements]);
 
   const onRefresh = useCallback(async () => {
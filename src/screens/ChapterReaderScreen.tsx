@@ -0,0 +1,420 @@
+/**
+ * Chapter Reader Screen - Read a whole chapter, verse after verse
+ *
+ * Each verse is a page of a horizontal pager showing its KnowledgeCard, loaded as it
+ * comes near the screen. The verse being read is remembered per chapter, so opening the
+ * chapter again resumes there. A verse is logged as a `detailed` reading only once it
+ * has stayed on screen for MIN_DWELL_MS - paging past it doesn't count.
+ */
+import React, { useState, useEffect, useCallback, useLayoutEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  TouchableOpacity,
+  useWindowDimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { apiService, CancelledError, ShlokaCatalog, CatalogVerse } from '../services/api';
+import { offlineQueue } from '../services/offlineQueue';
+import { KnowledgeCard } from '../components/KnowledgeCard';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+import { KnowledgeItem } from '../data/mockKnowledge';
+import { convertShlokaToKnowledgeItem } from '../utils/shlokaConverter';
+import { getChapterVerses, getNextChapter } from '../utils/shlokaCatalog';
+import { getReadingPosition, saveReadingPosition } from '../utils/readingPosition';
+import { useDwell } from '../hooks/useDwell';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type ChapterReaderScreenRouteProp = RouteProp<RootStackParamList, 'ChapterReader'>;
+type ChapterReaderScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ChapterReader'>;
+
+// How long a verse has to stay on screen to count as read in detail
+const MIN_DWELL_MS = 20 * 1000;
+
+interface ReaderPageProps {
+  bookName: string;
+  chapterNumber: number;
+  verseNumber: number;
+  width: number;
+  onLoaded: (verseNumber: number) => void;
+}
+
+const ReaderPage: React.FC<ReaderPageProps> = ({ bookName, chapterNumber, verseNumber, width, onLoaded }) => {
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+  const [item, setItem] = useState<KnowledgeItem | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const loadVerse = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      const shlokaData = await apiService.getShlokaByChapterVerse(bookName, chapterNumber, verseNumber, { signal });
+      setItem(convertShlokaToKnowledgeItem(shlokaData));
+      onLoaded(verseNumber);
+    } catch (err) {
+      // Paged far enough away that the page was unmounted
+      if (err instanceof CancelledError) {
+        return;
+      }
+      console.error('Error loading verse:', err);
+      setError(err);
+    }
+  }, [bookName, chapterNumber, verseNumber, onLoaded]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadVerse(controller.signal);
+    return () => controller.abort();
+  }, [loadVerse]);
+
+  return (
+    <View style={[dynamicStyles.page, { width }]}>
+      {item ? (
+        <KnowledgeCard item={item} />
+      ) : error ? (
+        <View style={dynamicStyles.centered}>
+          <ErrorDisplay error={error} onRetry={() => loadVerse()} />
+        </View>
+      ) : (
+        <View style={dynamicStyles.centered}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const ChapterReaderScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { isAuthenticated } = useAuth();
+  const route = useRoute<ChapterReaderScreenRouteProp>();
+  const navigation = useNavigation<ChapterReaderScreenNavigationProp>();
+  const { width } = useWindowDimensions();
+  const dynamicStyles = createStyles(theme);
+
+  const { bookName, chapterNumber, verseNumber: requestedVerse } = route.params;
+
+  const [catalog, setCatalog] = useState<ShlokaCatalog | null>(null);
+  // Page being read; null until the starting verse is known
+  const [index, setIndex] = useState<number | null>(null);
+  const [loadedVerses, setLoadedVerses] = useState<Set<number>>(() => new Set());
+  const [error, setError] = useState<unknown>(null);
+  const listRef = useRef<FlatList<CatalogVerse>>(null);
+  // Verses already logged while this chapter is open, so paging back doesn't log them twice
+  const loggedIds = useRef(new Set<string>());
+
+  const verses = useMemo(
+    () => (catalog ? getChapterVerses(catalog, bookName, chapterNumber) : []),
+    [catalog, bookName, chapterNumber]
+  );
+  const nextChapter = useMemo(
+    () => (catalog ? getNextChapter(catalog, bookName, chapterNumber) : null),
+    [catalog, bookName, chapterNumber]
+  );
+  const current = index !== null ? verses[index] : undefined;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: `Chapter ${chapterNumber}` });
+  }, [navigation, chapterNumber]);
+
+  const loadChapter = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      const [data, position] = await Promise.all([
+        apiService.getShlokaCatalog({ signal }),
+        getReadingPosition(bookName, chapterNumber),
+      ]);
+      // Start at the verse asked for, else where reading was left off, else the beginning
+      const startVerse = requestedVerse ?? position?.verseNumber;
+      const start = getChapterVerses(data, bookName, chapterNumber).findIndex(verse => verse.verse_number === startVerse);
+      setCatalog(data);
+      setIndex(Math.max(0, start));
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
+      console.error('Error loading chapter:', err);
+      setError(err);
+    }
+  }, [bookName, chapterNumber, requestedVerse]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadChapter(controller.signal);
+    return () => controller.abort();
+  }, [loadChapter]);
+
+  useEffect(() => {
+    if (current) {
+      saveReadingPosition(bookName, chapterNumber, current.verse_number);
+    }
+  }, [bookName, chapterNumber, current]);
+
+  // Latest page shown, read when the width changes without re-running on every page turn
+  const shownPageRef = useRef<number | null>(null);
+  shownPageRef.current = verses.length > 0 ? index : null;
+
+  // Keep the page in view when the width changes (e.g. on rotation)
+  useEffect(() => {
+    const page = shownPageRef.current;
+    if (page !== null) {
+      listRef.current?.scrollToIndex({ index: page, animated: false });
+    }
+  }, [width]);
+
+  const handleLoaded = useCallback((verseNumber: number) => {
+    setLoadedVerses(previous => (previous.has(verseNumber) ? previous : new Set(previous).add(verseNumber)));
+  }, []);
+
+  const logDetailedReading = useCallback((shlokaId: string) => {
+    if (loggedIds.current.has(shlokaId)) return;
+    loggedIds.current.add(shlokaId);
+    // Queued for later if offline, so streaks and XP aren't lost
+    offlineQueue.submit({ type: 'logReading', shlokaId, readingType: 'detailed' }).catch(err => {
+      console.warn('Failed to log reading:', err);
+    });
+  }, []);
+
+  // The clock only starts once the verse is actually showing, not while it loads
+  useDwell(
+    isAuthenticated && current && loadedVerses.has(current.verse_number) ? current.id : null,
+    MIN_DWELL_MS,
+    logDetailedReading
+  );
+
+  const goTo = (page: number) => {
+    listRef.current?.scrollToIndex({ index: page, animated: true });
+    setIndex(page);
+  };
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const page = Math.round(event.nativeEvent.contentOffset.x / width);
+    if (page >= 0 && page < verses.length) {
+      setIndex(page);
+    }
+  };
+
+  if (error && !catalog) {
+    return (
+      <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+        <View style={dynamicStyles.centered}>
+          <ErrorDisplay error={error} onRetry={() => loadChapter()} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (index === null) {
+    return (
+      <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+        <View style={dynamicStyles.centered}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (verses.length === 0) {
+    return (
+      <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+        <View style={dynamicStyles.centered}>
+          <Text style={dynamicStyles.emptyIcon}>📚</Text>
+          <Text style={dynamicStyles.emptyText}>This chapter is not in the library.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const position = index + 1;
+  const isLast = index === verses.length - 1;
+
+  return (
+    <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+      <View
+        style={dynamicStyles.progressHeader}
+        accessible={true}
+        accessibilityRole="progressbar"
+        accessibilityLabel={`Verse ${current?.verse_number}, ${position} of ${verses.length} in chapter ${chapterNumber}`}
+        accessibilityValue={{ min: 0, max: verses.length, now: position }}
+      >
+        <View style={dynamicStyles.progressLabels}>
+          <Text style={dynamicStyles.progressTitle}>
+            {bookName} {chapterNumber}.{current?.verse_number}
+          </Text>
+          <Text style={dynamicStyles.progressCount}>
+            {position} / {verses.length}
+          </Text>
+        </View>
+        <View style={dynamicStyles.progressTrack}>
+          <View style={[dynamicStyles.progressFill, { width: `${(position / verses.length) * 100}%` }]} />
+        </View>
+      </View>
+
+      <FlatList
+        ref={listRef}
+        data={verses}
+        keyExtractor={verse => verse.id}
+        renderItem={({ item: verse }) => (
+          <ReaderPage
+            bookName={bookName}
+            chapterNumber={chapterNumber}
+            verseNumber={verse.verse_number}
+            width={width}
+            onLoaded={handleLoaded}
+          />
+        )}
+        horizontal={true}
+        pagingEnabled={true}
+        showsHorizontalScrollIndicator={false}
+        initialScrollIndex={index}
+        getItemLayout={(_, page) => ({ length: width, offset: width * page, index: page })}
+        onMomentumScrollEnd={handleScrollEnd}
+        // Only the neighbouring verses are kept mounted (and fetched)
+        initialNumToRender={1}
+        maxToRenderPerBatch={1}
+        windowSize={3}
+        style={dynamicStyles.pager}
+      />
+
+      <View style={dynamicStyles.navigation}>
+        <TouchableOpacity
+          style={dynamicStyles.navigationButton}
+          onPress={() => goTo(index - 1)}
+          disabled={index === 0}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Previous verse"
+          accessibilityState={{ disabled: index === 0 }}
+        >
+          <Text style={[dynamicStyles.navigationText, index === 0 && dynamicStyles.navigationTextDisabled]}>
+            ‹ Previous
+          </Text>
+        </TouchableOpacity>
+        {!isLast ? (
+          <TouchableOpacity
+            style={[dynamicStyles.navigationButton, dynamicStyles.nextButton]}
+            onPress={() => goTo(index + 1)}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Next verse"
+          >
+            <Text style={dynamicStyles.navigationText}>Next ›</Text>
+          </TouchableOpacity>
+        ) : nextChapter ? (
+          <TouchableOpacity
+            style={[dynamicStyles.navigationButton, dynamicStyles.nextButton]}
+            onPress={() => navigation.replace('ChapterReader', { bookName, chapterNumber: nextChapter.chapter_number })}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={`Continue to chapter ${nextChapter.chapter_number}`}
+          >
+            <Text style={dynamicStyles.navigationText}>Chapter {nextChapter.chapter_number} ›</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={dynamicStyles.endText}>End of {bookName}</Text>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  page: {
+    flex: 1,
+  },
+  pager: {
+    flex: 1,
+  },
+  progressHeader: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  progressLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  progressTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  progressCount: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.divider,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: theme.primary,
+  },
+  navigation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+    backgroundColor: theme.background,
+  },
+  navigationButton: {
+    minWidth: 96,
+    minHeight: 40,
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+  },
+  nextButton: {
+    alignItems: 'flex-end',
+  },
+  navigationText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  navigationTextDisabled: {
+    color: theme.textTertiary,
+  },
+  endText: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    paddingHorizontal: 12,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+});
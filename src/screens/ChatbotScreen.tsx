@@ -1,7 +1,7 @@
 /**
  * Chatbot Screen - AI assistant for DharmaSaar questions
  */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -16,20 +16,47 @@ import {
   FlatList,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, AuthError, CancelledError, ChatShlokaContext } from '../services/api';
 import { TAB_BAR_TOTAL_HEIGHT } from '../constants/layout';
 import { ShlokaLinkedText } from '../components/ShlokaLinkedText';
-import { ErrorDisplay } from '../components/ErrorDisplay';
 import { CustomAlert } from '../components/CustomAlert';
 import { useCustomAlert } from '../hooks/useCustomAlert';
+import { HighlightedText } from '../components/HighlightedText';
+import { ConversationSearchIndex, ConversationSearchHit } from '../utils/conversationSearch';
+import { ShlokaPreviewPopover, CitedShloka } from '../components/ShlokaPreviewPopover';
+import { ConversationTrash } from '../components/ConversationTrash';
+import { purgeExpiredTrash } from '../utils/conversationTrash';
+import { RootTabParamList } from '../navigation/AppNavigator';
+import {
+  exportConversation,
+  shareConversationExport,
+  saveConversationExport,
+  ExportFormat,
+} from '../utils/conversationExport';
+import { getActivePath, getSiblingsById, latestLeaf, resolveParents } from '../utils/conversationTree';
+import {
+  chatOutbox,
+  OutboxEntry,
+  NEW_CONVERSATION_DRAFT,
+  createLocalConversationKey,
+  isLocalConversationKey,
+} from '../services/chatOutbox';
+import { speechQueue, SpeechState, getAutoReadReplies, setAutoReadReplies } from '../services/speechQueue';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   created_at: string;
+  parent_id?: string | null;
+  /** The user stopped generation before the reply was complete */
+  stopped?: boolean;
+  /** Not saved yet - still in the outbox, pending or failed */
+  outbox?: OutboxEntry;
 }
 
 interface Conversation {
@@ -38,34 +65,204 @@ interface Conversation {
   created_at: string;
   updated_at: string;
   messages: Message[];
+  shloka_context?: ChatShlokaContext | null;
+  active_leaf_id?: string | null;
 }
 
+/** Messages only shown locally until the server confirms them can't be edited or branched from */
+const isSavedMessage = (message: Message): boolean =>
+  !message.id.startsWith('outbox-') && !message.id.startsWith('streaming-');
+
+// Save the input draft once typing pauses
+const DRAFT_SAVE_DELAY_MS = 400;
+
+/**
+ * Read aloud the reply a conversation's active branch ends with (for auto-read)
+ */
+const readLatestReply = (conversation: Conversation) => {
+  const reply = getActivePath(conversation.messages, conversation.active_leaf_id ?? null).slice(-1)[0];
+  if (reply?.role !== 'assistant') return;
+  speechQueue.play(reply.id, reply.content).catch(err => {
+    console.error('Error reading reply aloud:', err);
+  });
+};
+
 export const ChatbotScreen: React.FC = () => {
   const { theme } = useTheme();
   const { isAuthenticated } = useAuth();
+  const route = useRoute<RouteProp<RootTabParamList, 'Chatbot'>>();
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList, 'Chatbot'>>();
   const insets = useSafeAreaInsets();
   const dynamicStyles = createStyles(theme, insets);
   const { alertConfig, visible: alertVisible, showAlert, hideAlert } = useCustomAlert();
   
+  // Every message of the conversation; edits and regenerations branch it into a tree
   const [messages, setMessages] = useState<Message[]>([]);
+  // Last message of the branch being shown
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  // Question being edited - sending branches off before it
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [conversationId, setConversationId] = useState<string | undefined>();
-  const [error, setError] = useState<string | null>(null);
+  // Outbox key for a conversation that will be created by its first message
+  const [localConversationKey, setLocalConversationKey] = useState(createLocalConversationKey);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  // The reply being streamed for the message being sent
+  const [streamingReply, setStreamingReply] = useState<Message | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loadingConversations, setLoadingConversations] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [isRenaming, setIsRenaming] = useState(false);
   const [renameText, setRenameText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Shloka the conversation is about, pinned above the messages
+  const [shlokaContext, setShlokaContext] = useState<ChatShlokaContext | null>(null);
+  const [starterQuestions, setStarterQuestions] = useState<string[]>([]);
+  const [previewCitation, setPreviewCitation] = useState<CitedShloka | null>(null);
+  // Reply being read aloud, and whether new replies are read as they arrive
+  const [speech, setSpeech] = useState<SpeechState>(speechQueue.getState);
+  const [autoRead, setAutoRead] = useState(false);
+  const autoReadRef = useRef(autoRead);
+  autoReadRef.current = autoRead;
   const scrollViewRef = useRef<ScrollView>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // Message to scroll to once it has been laid out (from a search result)
+  const scrollTargetRef = useRef<string | null>(null);
+  const messageOffsetsRef = useRef(new Map<string, number>());
+
+  const conversationKey = conversationId ?? localConversationKey;
+  const draftKey = conversationId ?? NEW_CONVERSATION_DRAFT;
+  const conversationKeyRef = useRef(conversationKey);
+  conversationKeyRef.current = conversationKey;
+
+  // Unsent messages follow the branch being viewed, or the message they branch from
+  const outboxMessages = useMemo(() => {
+    let previous: string | null = getActivePath(messages, activeLeafId).slice(-1)[0]?.id ?? null;
+    return outboxEntries
+      .filter(entry => entry.conversationKey === conversationKey)
+      .map(entry => {
+        const message: Message = {
+          id: entry.id,
+          role: 'user',
+          content: entry.content,
+          created_at: entry.createdAt,
+          parent_id: entry.parentId !== undefined ? entry.parentId : previous,
+          outbox: entry,
+        };
+        previous = entry.id;
+        return message;
+      });
+  }, [outboxEntries, conversationKey, messages, activeLeafId]);
+
+  const visibleMessages = useMemo(
+    () =>
+      getActivePath(
+        [...messages, ...outboxMessages, ...(streamingReply ? [streamingReply] : [])],
+        streamingReply?.id ?? outboxMessages.slice(-1)[0]?.id ?? activeLeafId
+      ),
+    [messages, outboxMessages, streamingReply, activeLeafId]
+  );
+
+  const siblingsById = useMemo(() => getSiblingsById(messages), [messages]);
+
+  const searchIndex = useMemo(() => new ConversationSearchIndex(conversations), [conversations]);
+  const searchResults = useMemo(() => searchIndex.search(searchQuery), [searchIndex, searchQuery]);
+
+  // Stop generating when leaving the screen
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    getAutoReadReplies().then(setAutoRead);
+    const unsubscribe = speechQueue.subscribe(setSpeech);
+    return () => {
+      unsubscribe();
+      speechQueue.stop();
+    };
+  }, []);
+
+  /**
+   * Stop generating because another conversation is being shown - unlike the Stop
+   * button, the partial reply isn't kept in the conversation now on screen
+   */
+  const abandonStream = () => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+  };
+
+  // Show unsent messages, and the reply once one the outbox sent for us is saved
+  useEffect(() => {
+    chatOutbox.load().then(() => {
+      const entries = chatOutbox.getEntries();
+      setOutboxEntries(entries);
+      // Pick up a conversation whose first message never made it before the app closed
+      const unsent = entries.find(entry => isLocalConversationKey(entry.conversationKey));
+      if (unsent) {
+        setLocalConversationKey(unsent.conversationKey);
+        setShlokaContext(current => current ?? unsent.shlokaContext ?? null);
+      }
+      setInputText(current => current || chatOutbox.getDraft(NEW_CONVERSATION_DRAFT));
+    });
+    const unsubscribe = chatOutbox.subscribe(setOutboxEntries);
+    const unsubscribeSent = chatOutbox.onSent((entry, response) => {
+      if (entry.conversationKey !== conversationKeyRef.current) return;
+      setConversationId(response.conversation.id);
+      setMessages(response.conversation.messages);
+      setActiveLeafId(response.conversation.active_leaf_id ?? null);
+      setStreamingReply(current => (current?.parent_id === entry.id ? null : current));
+      if (autoReadRef.current) {
+        readLatestReply(response.conversation);
+      }
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeSent();
+    };
+  }, []);
+
+  // Keep what's being typed across restarts (edits of earlier questions aren't drafts)
+  useEffect(() => {
+    if (editingMessage) return;
+    const timer = setTimeout(() => chatOutbox.setDraft(draftKey, inputText), DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [inputText, draftKey, editingMessage]);
 
   useEffect(() => {
-    if (messages.length > 0) {
+    if (visibleMessages.length > 0 && !scrollTargetRef.current && !editingMessage) {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }
-  }, [messages]);
+  }, [visibleMessages, editingMessage]);
+
+  // "Ask about this shloka" opens a fresh conversation seeded with the shloka
+  const requestedContext = route.params?.shlokaContext;
+  const requestedQuestions = route.params?.starterQuestions;
+  useEffect(() => {
+    if (!requestedContext) return;
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+    speechQueue.stop();
+    setConversationId(undefined);
+    setLocalConversationKey(createLocalConversationKey());
+    setMessages([]);
+    setActiveLeafId(null);
+    setEditingMessage(null);
+    setInputText('');
+    setShlokaContext(requestedContext);
+    setStarterQuestions(requestedQuestions ?? []);
+    // Consume the params so returning to the tab doesn't reset the conversation again
+    navigation.setParams({ shlokaContext: undefined, starterQuestions: undefined });
+  }, [requestedContext, requestedQuestions, navigation]);
+
+  // Fade the search highlight after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   const loadConversations = async () => {
     if (!isAuthenticated) return;
@@ -79,25 +276,138 @@ export const ChatbotScreen: React.FC = () => {
     } finally {
       setLoadingConversations(false);
     }
+    purgeExpiredTrash().catch(err => console.error('Error purging trash:', err));
   };
 
   const openHistory = () => {
+    setShowTrash(false);
     setShowHistory(true);
     loadConversations();
   };
 
-  const loadConversation = (conversation: Conversation) => {
+  const handleConversationRestored = (conversation: Conversation) => {
+    setConversations(prev => [conversation, ...prev.filter(item => item.id !== conversation.id)]);
+    showAlert({
+      title: 'Restored',
+      message: 'The conversation is back in your conversation list.',
+      buttons: [
+        { text: 'OK' },
+        {
+          text: 'Open',
+          onPress: () => {
+            setShowTrash(false);
+            loadConversation(conversation);
+          },
+        },
+      ],
+    });
+  };
+
+  const loadConversation = (conversation: Conversation, leafId: string | null = conversation.active_leaf_id ?? null) => {
+    abandonStream();
+    speechQueue.stop();
     setConversationId(conversation.id);
     setMessages(conversation.messages);
+    setActiveLeafId(leafId);
+    setEditingMessage(null);
+    setInputText(chatOutbox.getDraft(conversation.id));
+    setShlokaContext(conversation.shloka_context ?? null);
+    setStarterQuestions([]);
     setShowHistory(false);
   };
 
+  const openSearchResult = (hit: ConversationSearchHit) => {
+    const conversation = conversations.find(item => item.id === hit.conversationId);
+    if (!conversation) return;
+    setHighlightedMessageId(hit.messageId);
+
+    const { messageId } = hit;
+    const offset = messageId ? messageOffsetsRef.current.get(messageId) : undefined;
+    const isShowing = visibleMessages.some(message => message.id === messageId);
+    if (conversation.id === conversationId && isShowing && offset !== undefined) {
+      // Already showing - nothing will be laid out again, so scroll now
+      setShowHistory(false);
+      scrollViewRef.current?.scrollTo({ y: Math.max(0, offset - 16), animated: true });
+      return;
+    }
+    scrollTargetRef.current = messageId;
+    // Show the branch the match is on
+    const leafId = messageId ? latestLeaf(conversation.messages, messageId) : conversation.active_leaf_id ?? null;
+    if (conversation.id === conversationId && messageId) {
+      setShowHistory(false);
+      switchBranch(messageId);
+      return;
+    }
+    loadConversation(conversation, leafId);
+  };
+
   const startNewConversation = () => {
+    abandonStream();
+    speechQueue.stop();
     setConversationId(undefined);
+    setLocalConversationKey(createLocalConversationKey());
     setMessages([]);
+    setActiveLeafId(null);
+    setEditingMessage(null);
+    setInputText(chatOutbox.getDraft(NEW_CONVERSATION_DRAFT));
+    setShlokaContext(null);
+    setStarterQuestions([]);
     setShowHistory(false);
   };
 
+  const handleExportConversation = (conversation: Conversation) => {
+    const chooseDestination = (format: ExportFormat) => {
+      const exported = exportConversation(conversation, format);
+      showAlert({
+        title: 'Export Conversation',
+        message: `Share ${exported.fileName} or save it to this device?`,
+        buttons: [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Share',
+            onPress: async () => {
+              try {
+                await shareConversationExport(exported);
+              } catch (err) {
+                console.error('Error sharing conversation:', err);
+              }
+            },
+          },
+          {
+            text: 'Save to Device',
+            onPress: async () => {
+              try {
+                const path = await saveConversationExport(exported);
+                showAlert({
+                  title: 'Saved',
+                  message: `Conversation saved to:\n${path}`,
+                  buttons: [{ text: 'OK' }],
+                });
+              } catch (err: any) {
+                showAlert({
+                  title: 'Error',
+                  message: err.message || 'Failed to save conversation. Please try again.',
+                  buttons: [{ text: 'OK' }],
+                });
+              }
+            },
+          },
+        ],
+      });
+    };
+
+    showAlert({
+      title: 'Export Conversation',
+      message: 'Choose a format:',
+      buttons: [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Markdown', onPress: () => chooseDestination('markdown') },
+        { text: 'Plain Text', onPress: () => chooseDestination('text') },
+        { text: 'JSON', onPress: () => chooseDestination('json') },
+      ],
+    });
+  };
+
   const handleDeleteConversation = (conversation: Conversation, hardDelete: boolean = false) => {
     if (hardDelete) {
       showAlert({
@@ -140,7 +450,7 @@ export const ChatbotScreen: React.FC = () => {
     } else {
       showAlert({
         title: 'Delete Conversation',
-        message: `Are you sure you want to delete this conversation?\n\n🗑️ SOFT DELETION:\n• This conversation will be hidden from your chat list\n• Your data will be kept on our servers for 30 days\n• You can contact support to restore it within this period\n• After 30 days, it will be permanently deleted\n\nThis is a reversible action. You can restore it later if needed.`,
+        message: `Are you sure you want to delete this conversation?\n\n🗑️ SOFT DELETION:\n• This conversation will be moved to the Trash\n• You can restore it from the Trash in the conversation list\n• It will be permanently deleted once it has been in the Trash for the period you choose there\n\nThis is a reversible action. You can restore it later if needed.`,
         buttons: [
           {
             text: 'Cancel',
@@ -161,7 +471,7 @@ export const ChatbotScreen: React.FC = () => {
                 await loadConversations();
                 showAlert({
                   title: 'Success',
-                  message: 'Conversation deleted successfully. You can restore it within 30 days by contacting support.',
+                  message: 'Conversation moved to the Trash. You can restore it from there.',
                   buttons: [{ text: 'OK' }],
                 });
               } catch (err: any) {
@@ -206,44 +516,362 @@ export const ChatbotScreen: React.FC = () => {
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
-  const sendMessage = async () => {
-    if (!inputText.trim() || isLoading || !isAuthenticated) return;
+  /**
+   * Send a message from the outbox, streaming the reply. If it fails it stays in the
+   * outbox marked failed, to retry by tapping it or automatically once back online.
+   */
+  const deliver = async (entry: OutboxEntry, displayParentId: string | null) => {
+    const replyId = `streaming-${Date.now()}`;
+    let streamed = '';
+    setStreamingReply({
+      id: replyId,
+      role: 'assistant',
+      content: '',
+      created_at: new Date().toISOString(),
+      parent_id: entry.id,
+    });
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setIsLoading(true);
+
+    try {
+      // The saved conversation is shown by the outbox's onSent listener
+      await chatOutbox.send(entry.id, {
+        signal: controller.signal,
+        onConversation: setConversationId,
+        onToken: token => {
+          streamed += token;
+          setStreamingReply(current => (current?.id === replyId ? { ...current, content: streamed } : current));
+        },
+      });
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        if (streamAbortRef.current !== controller) return;
+        // Stopped before the backend had it - the outbox shows it as failed
+        if (chatOutbox.getEntries().some(item => item.id === entry.id)) return;
+        // Stopped by the user - keep the question and whatever was generated so far
+        const question: Message = {
+          id: entry.id,
+          role: 'user',
+          content: entry.content,
+          created_at: entry.createdAt,
+          parent_id: displayParentId,
+        };
+        const reply: Message = {
+          id: replyId,
+          role: 'assistant',
+          content: streamed,
+          created_at: new Date().toISOString(),
+          parent_id: entry.id,
+          stopped: true,
+        };
+        setMessages(prev => [...prev, question, ...(streamed ? [reply] : [])]);
+        setActiveLeafId(streamed ? replyId : entry.id);
+        return;
+      }
+      // The message stays in the outbox, marked failed
+      console.error('Error sending message:', err);
+    } finally {
+      setStreamingReply(current => (current?.id === replyId ? null : current));
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+      }
+      setIsLoading(false);
+    }
+  };
+
+  const sendMessage = async (text: string = inputText) => {
+    if (!text.trim() || isLoading || !isAuthenticated) return;
 
-    const userMessage = inputText.trim();
+    const userMessage = text.trim();
+    const editing = editingMessage;
     setInputText('');
-    setError(null);
+    chatOutbox.setDraft(draftKey, '');
+    setEditingMessage(null);
 
-    // Add user message immediately
-    const tempUserMessage: Message = {
-      id: `temp-${Date.now()}`,
-      role: 'user',
+    // An edited question becomes a sibling of the original; otherwise the server
+    // continues the branch it last saw as active
+    const parentId = editing ? resolveParents(messages).get(editing.id) ?? null : undefined;
+    const displayParentId = parentId !== undefined ? parentId : visibleMessages[visibleMessages.length - 1]?.id ?? null;
+    const waitingAhead = outboxEntries.some(
+      entry => entry.conversationKey === conversationKey && (entry.status !== 'failed' || entry.retryOnReconnect)
+    );
+
+    const entry = await chatOutbox.enqueue({
+      conversationKey,
       content: userMessage,
+      parentId,
+      shlokaContext: !conversationId ? shlokaContext ?? undefined : undefined,
+    });
+
+    // Earlier unsent messages go first, in order
+    if (waitingAhead) {
+      chatOutbox.flush();
+      return;
+    }
+    await deliver(entry, displayParentId);
+  };
+
+  const retryMessage = (message: Message) => {
+    if (!message.outbox || isLoading) return;
+    if (message.outbox.status === 'sending') return;
+    deliver(message.outbox, message.parent_id ?? null);
+  };
+
+  const discardMessage = (message: Message) => {
+    if (!message.outbox || message.outbox.status === 'sending') return;
+    const entryId = message.outbox.id;
+    showAlert({
+      title: 'Delete Unsent Message',
+      message: 'This message has not been sent. Delete it?',
+      buttons: [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => chatOutbox.discard(entryId) },
+      ],
+    });
+  };
+
+  const stopGenerating = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessage(message);
+    setInputText(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setInputText('');
+  };
+
+  /**
+   * Ask for another reply to the same question, as a new branch
+   */
+  const regenerateReply = async (message: Message) => {
+    if (!conversationId || isLoading) return;
+
+    const previousLeafId = activeLeafId;
+    const placeholder: Message = {
+      id: `streaming-${Date.now()}`,
+      role: 'assistant',
+      content: '',
       created_at: new Date().toISOString(),
+      parent_id: resolveParents(messages).get(message.id) ?? null,
     };
-    setMessages(prev => [...prev, tempUserMessage]);
+    setMessages(prev => [...prev, placeholder]);
+    setActiveLeafId(placeholder.id);
 
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
     setIsLoading(true);
 
     try {
-      const response = await apiService.sendChatMessage(userMessage, conversationId);
-      
-      // Update conversation ID if it's a new conversation
-      if (!conversationId && response.conversation.id) {
-        setConversationId(response.conversation.id);
-      }
-
-      // Replace temp message and add assistant response
+      const response = await apiService.regenerateReply(conversationId, message.id, { signal: controller.signal });
       setMessages(response.conversation.messages);
+      setActiveLeafId(response.conversation.active_leaf_id ?? null);
+      if (autoReadRef.current) {
+        readLatestReply(response.conversation);
+      }
     } catch (err) {
-      console.error('Error sending message:', err);
-      setError(err instanceof Error ? err.message : 'Failed to send message');
-      // Remove temp message on error
-      setMessages(prev => prev.filter(msg => msg.id !== tempUserMessage.id));
+      setMessages(prev => prev.filter(msg => msg.id !== placeholder.id));
+      setActiveLeafId(previousLeafId);
+      if (err instanceof CancelledError || err instanceof AuthError) return;
+
+      console.error('Error regenerating reply:', err);
+      showAlert({
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to regenerate reply',
+        buttons: [{ text: 'OK' }],
+      });
     } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  /**
+   * Show the newest branch through `messageId`, and remember it for next time
+   */
+  const switchBranch = (messageId: string) => {
+    const leafId = latestLeaf(messages, messageId);
+    setActiveLeafId(leafId);
+    if (conversationId && leafId) {
+      apiService.setActiveBranch(conversationId, leafId).catch(err => {
+        console.error('Error saving active branch:', err);
+      });
+    }
+  };
+
+  const readAloud = (message: Message) => {
+    speechQueue.play(message.id, message.content).catch(err => {
+      if (err instanceof AuthError) return;
+      showAlert({
+        title: 'Error',
+        message: 'Could not read the reply aloud. Please try again.',
+        buttons: [{ text: 'OK' }],
+      });
+    });
+  };
+
+  const toggleAutoRead = () => {
+    const enabled = !autoRead;
+    setAutoRead(enabled);
+    setAutoReadReplies(enabled);
+    if (!enabled && speech.key) {
+      speechQueue.stop();
+    }
+  };
+
+  const renderSpeechControls = (message: Message) => {
+    if (speech.key !== message.id) {
+      return (
+        <TouchableOpacity
+          style={dynamicStyles.messageActionButton}
+          onPress={() => readAloud(message)}
+          accessibilityRole="button"
+          accessibilityLabel="Listen to reply"
+          accessibilityHint="Double tap to have the reply read aloud"
+        >
+          <Text style={dynamicStyles.messageActionText}>🔊 Listen</Text>
+        </TouchableOpacity>
+      );
+    }
+    return (
+      <View style={dynamicStyles.speechControls}>
+        {speech.isLoading ? (
+          <ActivityIndicator size="small" color={theme.primary} />
+        ) : (
+          <Text style={dynamicStyles.branchCount}>
+            🔊 {speech.index + 1}/{speech.total}
+          </Text>
+        )}
+        <TouchableOpacity
+          style={dynamicStyles.messageActionButton}
+          onPress={() => speechQueue.skip()}
+          disabled={speech.isLoading || speech.index + 1 >= speech.total}
+          accessibilityRole="button"
+          accessibilityLabel="Skip to next sentence"
+          accessibilityState={{ disabled: speech.isLoading || speech.index + 1 >= speech.total }}
+        >
+          <Text
+            style={[
+              dynamicStyles.messageActionText,
+              (speech.isLoading || speech.index + 1 >= speech.total) && dynamicStyles.messageActionDisabled,
+            ]}
+          >
+            ⏭ Skip
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={dynamicStyles.messageActionButton}
+          onPress={() => speechQueue.stop()}
+          accessibilityRole="button"
+          accessibilityLabel="Stop reading aloud"
+        >
+          <Text style={dynamicStyles.messageActionText}>⏹ Stop</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderOutboxStatus = (message: Message) => {
+    const entry = message.outbox;
+    if (!entry) return null;
+    if (entry.status !== 'failed') {
+      // The reply spinner shows it's being sent; otherwise it's waiting behind another
+      return streamingReply?.parent_id === entry.id ? null : (
+        <View style={dynamicStyles.outboxStatus}>
+          <Text style={dynamicStyles.outboxStatusText}>{entry.status === 'sending' ? 'Sending…' : 'Waiting to send…'}</Text>
+        </View>
+      );
+    }
+    return (
+      <TouchableOpacity
+        style={dynamicStyles.outboxStatus}
+        onPress={() => retryMessage(message)}
+        onLongPress={() => discardMessage(message)}
+        disabled={isLoading}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel="Message not sent"
+        accessibilityHint="Double tap to send it again. Long press to delete it."
+      >
+        <Text style={dynamicStyles.outboxFailedText}>⚠️ Not sent · Tap to retry</Text>
+        <Text style={dynamicStyles.outboxStatusText}>
+          {entry.retryOnReconnect ? 'It will be sent again automatically' : entry.error}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderBranchControls = (message: Message) => {
+    if (!isSavedMessage(message)) return null;
+    const isUser = message.role === 'user';
+    // While a reply is generated only the reading aloud can still be controlled
+    if (isLoading) {
+      return speech.key === message.id ? (
+        <View style={dynamicStyles.messageActions}>{renderSpeechControls(message)}</View>
+      ) : null;
+    }
+    const siblings = siblingsById.get(message.id) ?? { ids: [message.id], index: 0 };
+    return (
+      <View style={[dynamicStyles.messageActions, isUser && dynamicStyles.userMessageActions]}>
+        {siblings.ids.length > 1 && (
+          <View style={dynamicStyles.branchSwitcher}>
+            <TouchableOpacity
+              style={dynamicStyles.messageActionButton}
+              onPress={() => switchBranch(siblings.ids[siblings.index - 1])}
+              disabled={siblings.index === 0}
+              accessibilityRole="button"
+              accessibilityLabel="Previous version"
+              accessibilityState={{ disabled: siblings.index === 0 }}
+            >
+              <Text style={[dynamicStyles.messageActionText, siblings.index === 0 && dynamicStyles.messageActionDisabled]}>
+                ‹
+              </Text>
+            </TouchableOpacity>
+            <Text style={dynamicStyles.branchCount}>
+              {siblings.index + 1}/{siblings.ids.length}
+            </Text>
+            <TouchableOpacity
+              style={dynamicStyles.messageActionButton}
+              onPress={() => switchBranch(siblings.ids[siblings.index + 1])}
+              disabled={siblings.index === siblings.ids.length - 1}
+              accessibilityRole="button"
+              accessibilityLabel="Next version"
+              accessibilityState={{ disabled: siblings.index === siblings.ids.length - 1 }}
+            >
+              <Text
+                style={[
+                  dynamicStyles.messageActionText,
+                  siblings.index === siblings.ids.length - 1 && dynamicStyles.messageActionDisabled,
+                ]}
+              >
+                ›
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <TouchableOpacity
+          style={dynamicStyles.messageActionButton}
+          onPress={() => (isUser ? startEditing(message) : regenerateReply(message))}
+          accessibilityRole="button"
+          accessibilityLabel={isUser ? 'Edit question' : 'Regenerate reply'}
+          accessibilityHint={
+            isUser ? 'Double tap to ask an edited version as a new branch' : 'Double tap to get another reply as a new branch'
+          }
+        >
+          <Text style={dynamicStyles.messageActionText}>{isUser ? '✏️ Edit' : '↻ Regenerate'}</Text>
+        </TouchableOpacity>
+        {!isUser && renderSpeechControls(message)}
+      </View>
+    );
+  };
+
   if (!isAuthenticated) {
     return (
       <SafeAreaView style={dynamicStyles.container} edges={['top']}>
@@ -272,6 +900,18 @@ export const ChatbotScreen: React.FC = () => {
               <Text style={dynamicStyles.headerTitle}>🕉️ Lord Krishna</Text>
               <Text style={dynamicStyles.headerSubtitle}>Your friend, guide, and mentor</Text>
             </View>
+            <TouchableOpacity
+              style={dynamicStyles.menuButton}
+              onPress={toggleAutoRead}
+              activeOpacity={0.7}
+              accessibilityRole="switch"
+              accessibilityLabel="Read new replies aloud"
+              accessibilityState={{ checked: autoRead }}
+            >
+              <Text style={[dynamicStyles.menuIcon, !autoRead && dynamicStyles.autoReadOff]}>
+                {autoRead ? '🔊' : '🔈'}
+              </Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={dynamicStyles.menuButton}
               onPress={openHistory}
@@ -282,6 +922,49 @@ export const ChatbotScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Pinned shloka context */}
+        {shlokaContext && (
+          <View style={dynamicStyles.contextChip}>
+            <TouchableOpacity
+              style={dynamicStyles.contextChipContent}
+              onPress={() =>
+                setPreviewCitation({
+                  bookName: shlokaContext.book_name,
+                  chapter: shlokaContext.chapter_number,
+                  verse: shlokaContext.verse_number,
+                })
+              }
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={`Asking about ${shlokaContext.book_name} chapter ${shlokaContext.chapter_number}, verse ${shlokaContext.verse_number}`}
+              accessibilityHint="Double tap to preview the shloka"
+            >
+              <Text style={dynamicStyles.contextChipLabel}>
+                📜 {shlokaContext.book_name} {shlokaContext.chapter_number}.{shlokaContext.verse_number}
+              </Text>
+              {shlokaContext.text ? (
+                <Text style={dynamicStyles.contextChipText} numberOfLines={1}>
+                  {shlokaContext.text}
+                </Text>
+              ) : null}
+            </TouchableOpacity>
+            {/* Once the conversation exists the context belongs to it */}
+            {!conversationId && (
+              <TouchableOpacity
+                style={dynamicStyles.contextChipRemove}
+                onPress={() => {
+                  setShlokaContext(null);
+                  setStarterQuestions([]);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Remove shloka context"
+              >
+                <Text style={dynamicStyles.contextChipRemoveText}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Messages */}
         <ScrollView
           ref={scrollViewRef}
@@ -289,7 +972,30 @@ export const ChatbotScreen: React.FC = () => {
           contentContainerStyle={dynamicStyles.messagesContent}
           showsVerticalScrollIndicator={false}
         >
-          {messages.length === 0 ? (
+          {visibleMessages.length === 0 && shlokaContext ? (
+            <View style={dynamicStyles.emptyState}>
+              <Text style={dynamicStyles.emptyIcon}>🕉️</Text>
+              <Text style={dynamicStyles.emptyTitle}>What would you like to know?</Text>
+              <Text style={dynamicStyles.emptyText}>
+                Ask me anything about {shlokaContext.book_name}, Chapter {shlokaContext.chapter_number}, Verse{' '}
+                {shlokaContext.verse_number}, or start with one of these:
+              </Text>
+              <View style={dynamicStyles.starterQuestions}>
+                {starterQuestions.map(question => (
+                  <TouchableOpacity
+                    key={question}
+                    style={dynamicStyles.starterQuestion}
+                    onPress={() => sendMessage(question)}
+                    activeOpacity={0.7}
+                    accessibilityRole="button"
+                    accessibilityHint="Double tap to ask this question"
+                  >
+                    <Text style={dynamicStyles.starterQuestionText}>{question}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ) : visibleMessages.length === 0 ? (
             <View style={dynamicStyles.emptyState}>
               <Text style={dynamicStyles.emptyIcon}>🕉️</Text>
               <Text style={dynamicStyles.emptyTitle}>Namaste, dear friend</Text>
@@ -298,54 +1004,75 @@ export const ChatbotScreen: React.FC = () => {
               </Text>
             </View>
           ) : (
-            messages.map((message) => (
-              <View
-                key={message.id}
-                style={[
-                  dynamicStyles.messageContainer,
-                  message.role === 'user' ? dynamicStyles.userMessage : dynamicStyles.assistantMessage,
-                ]}
-              >
-                {message.role === 'assistant' ? (
-                  <ShlokaLinkedText
-                    text={message.content}
-                    textStyle={[
-                      dynamicStyles.messageText,
-                      dynamicStyles.assistantMessageText,
-                    ]}
-                    linkStyle={dynamicStyles.shlokaLink}
-                  />
-                ) : (
-                <Text
+            visibleMessages.map((message, index) => (
+              <React.Fragment key={message.id}>
+                <View
                   style={[
-                    dynamicStyles.messageText,
-                      dynamicStyles.userMessageText,
+                    dynamicStyles.messageContainer,
+                    message.role === 'user' ? dynamicStyles.userMessage : dynamicStyles.assistantMessage,
+                    highlightedMessageId === message.id && dynamicStyles.highlightedMessage,
+                    message.outbox && message.outbox.status !== 'failed' && dynamicStyles.pendingMessage,
+                    message.outbox?.status === 'failed' && dynamicStyles.failedMessage,
                   ]}
+                  onLayout={event => {
+                    const { y } = event.nativeEvent.layout;
+                    messageOffsetsRef.current.set(message.id, y);
+                    if (scrollTargetRef.current === message.id) {
+                      scrollTargetRef.current = null;
+                      scrollViewRef.current?.scrollTo({ y: Math.max(0, y - 16), animated: true });
+                    }
+                  }}
                 >
-                  {message.content}
-                </Text>
-                )}
-              </View>
+                  {message.role === 'assistant' && !message.content ? (
+                    <ActivityIndicator size="small" color={theme.primary} />
+                  ) : message.role === 'assistant' ? (
+                    <>
+                      <ShlokaLinkedText
+                        text={message.content}
+                        textStyle={[
+                          dynamicStyles.messageText,
+                          dynamicStyles.assistantMessageText,
+                        ]}
+                        linkStyle={dynamicStyles.shlokaLink}
+                        markdown
+                        // List sources once the reply is complete, not while references are half-written
+                        showSources={!(isLoading && index === visibleMessages.length - 1)}
+                      />
+                      {message.stopped && <Text style={dynamicStyles.stoppedText}>Stopped</Text>}
+                    </>
+                  ) : (
+                  <Text
+                    style={[
+                      dynamicStyles.messageText,
+                        dynamicStyles.userMessageText,
+                    ]}
+                  >
+                    {message.content}
+                  </Text>
+                  )}
+                </View>
+                {message.outbox ? renderOutboxStatus(message) : renderBranchControls(message)}
+              </React.Fragment>
             ))
           )}
-          
-          {isLoading && (
-            <View style={[dynamicStyles.messageContainer, dynamicStyles.assistantMessage]}>
-              <ActivityIndicator size="small" color={theme.primary} />
-            </View>
-          )}
 
-          {error && (
-            <View style={dynamicStyles.errorContainer}>
-              <ErrorDisplay
-                error={error}
-                onRetry={sendMessage}
-                compact={true}
-              />
-            </View>
-          )}
         </ScrollView>
 
+        {editingMessage && (
+          <View style={dynamicStyles.editingBanner}>
+            <Text style={dynamicStyles.editingBannerText} numberOfLines={1}>
+              ✏️ Editing: {editingMessage.content}
+            </Text>
+            <TouchableOpacity
+              onPress={cancelEditing}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel editing"
+            >
+              <Text style={dynamicStyles.editingBannerCancel}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Input */}
         <View style={dynamicStyles.inputContainer}>
           <TextInput
@@ -357,24 +1084,33 @@ export const ChatbotScreen: React.FC = () => {
             multiline
             maxLength={2000}
             editable={!isLoading}
-            onSubmitEditing={sendMessage}
+            onSubmitEditing={() => sendMessage()}
           />
-          <TouchableOpacity
-            style={[dynamicStyles.sendButton, (!inputText.trim() || isLoading) && dynamicStyles.sendButtonDisabled]}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || isLoading}
-            activeOpacity={0.7}
-            accessibilityRole="button"
-            accessibilityLabel="Send message"
-            accessibilityHint="Double tap to send your message to the chatbot"
-            accessibilityState={{ disabled: !inputText.trim() || isLoading }}
-          >
-            {isLoading ? (
-              <ActivityIndicator size="small" color="#FFFFFF" />
-            ) : (
+          {isLoading ? (
+            <TouchableOpacity
+              style={[dynamicStyles.sendButton, dynamicStyles.stopButton]}
+              onPress={stopGenerating}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel="Stop generating"
+              accessibilityHint="Double tap to stop the reply and keep what has been written so far"
+            >
+              <Text style={dynamicStyles.stopButtonText}>■ Stop</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[dynamicStyles.sendButton, !inputText.trim() && dynamicStyles.sendButtonDisabled]}
+              onPress={() => sendMessage()}
+              disabled={!inputText.trim()}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel="Send message"
+              accessibilityHint="Double tap to send your message to the chatbot"
+              accessibilityState={{ disabled: !inputText.trim() }}
+            >
               <Text style={dynamicStyles.sendButtonText}>Send</Text>
-            )}
-          </TouchableOpacity>
+            </TouchableOpacity>
+          )}
         </View>
       </KeyboardAvoidingView>
 
@@ -482,6 +1218,22 @@ export const ChatbotScreen: React.FC = () => {
                   <Text style={dynamicStyles.menuItemText}>Rename</Text>
                 </TouchableOpacity>
                 <View style={dynamicStyles.menuDivider} />
+                <TouchableOpacity
+                  style={dynamicStyles.menuItem}
+                  onPress={() => {
+                    setShowMenu(false);
+                    const currentConv = conversations.find(c => c.id === selectedConversationId);
+                    setSelectedConversationId(null);
+                    if (currentConv) {
+                      handleExportConversation(currentConv);
+                    }
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <Text style={dynamicStyles.menuItemIcon}>📤</Text>
+                  <Text style={dynamicStyles.menuItemText}>Export</Text>
+                </TouchableOpacity>
+                <View style={dynamicStyles.menuDivider} />
                 <TouchableOpacity
                   style={dynamicStyles.menuItem}
                   onPress={() => {
@@ -544,7 +1296,22 @@ export const ChatbotScreen: React.FC = () => {
           />
           <View style={dynamicStyles.drawerContent}>
             <View style={dynamicStyles.drawerHeader}>
-              <Text style={dynamicStyles.drawerTitle}>Conversations</Text>
+              {showTrash ? (
+                <TouchableOpacity
+                  style={dynamicStyles.drawerBackButton}
+                  onPress={() => {
+                    setShowTrash(false);
+                    loadConversations();
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Back to conversations"
+                >
+                  <Text style={dynamicStyles.drawerBackText}>‹</Text>
+                  <Text style={dynamicStyles.drawerTitle}>Trash</Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={dynamicStyles.drawerTitle}>Conversations</Text>
+              )}
               <TouchableOpacity
                 onPress={() => setShowHistory(false)}
                 style={dynamicStyles.closeButton}
@@ -553,79 +1320,149 @@ export const ChatbotScreen: React.FC = () => {
               </TouchableOpacity>
             </View>
 
-            {/* New Conversation Button - Always Visible */}
-            <TouchableOpacity
-              style={dynamicStyles.newConversationButton}
-              onPress={startNewConversation}
-              activeOpacity={0.7}
-            >
-              <Text style={dynamicStyles.newConversationText}>+ New Conversation</Text>
-            </TouchableOpacity>
-
-            {/* Conversation History List */}
-            {loadingConversations ? (
-              <View style={dynamicStyles.loadingContainer}>
-                <ActivityIndicator size="small" color={theme.primary} />
-              </View>
-            ) : conversations.length === 0 ? (
-              <View style={dynamicStyles.emptyHistoryContainer}>
-                <Text style={dynamicStyles.emptyHistoryText}>No past conversations</Text>
-                <Text style={dynamicStyles.emptyHistorySubtext}>
-                  Your conversation history will appear here
-                </Text>
-              </View>
+            {showTrash ? (
+              <ConversationTrash onRestored={handleConversationRestored} showAlert={showAlert} />
             ) : (
-              <View style={dynamicStyles.historySection}>
-                <Text style={dynamicStyles.historySectionTitle}>Past Conversations</Text>
-                <FlatList
-                  data={conversations}
-                  keyExtractor={(item) => item.id}
-                  renderItem={({ item }) => (
-                    <View
-                      style={[
-                        dynamicStyles.conversationItem,
-                        conversationId === item.id && dynamicStyles.conversationItemActive
-                      ]}
-                    >
-                      <TouchableOpacity
-                        style={dynamicStyles.conversationItemContent}
-                      onPress={() => loadConversation(item)}
-                      activeOpacity={0.7}
-                      accessibilityRole="button"
-                      accessibilityLabel={`Conversation ${item.title || 'Untitled'}`}
-                      accessibilityHint="Double tap to open this conversation"
-                      accessibilityState={{ selected: conversationId === item.id }}
-                    >
-                      <Text style={dynamicStyles.conversationPreview} numberOfLines={2}>
-                        {getConversationPreview(item)}
-                      </Text>
-                      <Text style={dynamicStyles.conversationDate}>
-                        {formatDate(item.updated_at)}
-                      </Text>
-                    </TouchableOpacity>
-                      <TouchableOpacity
-                        style={dynamicStyles.conversationMenuButton}
-                        onPress={() => {
-                          setSelectedConversationId(item.id);
-                          setRenameText(item.title || '');
-                          setShowMenu(true);
-                        }}
-                        activeOpacity={0.7}
-                        accessibilityRole="button"
-                        accessibilityLabel="Conversation options"
-                      >
-                        <Text style={dynamicStyles.conversationMenuIcon}>⋯</Text>
-                      </TouchableOpacity>
-                    </View>
-                  )}
-                  style={dynamicStyles.conversationsList}
-                />
-              </View>
+              <>
+                {/* Search */}
+                <View style={dynamicStyles.searchContainer}>
+                  <TextInput
+                    style={dynamicStyles.searchInput}
+                    placeholder="Search conversations..."
+                    placeholderTextColor={theme.textTertiary}
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    autoCorrect={false}
+                    returnKeyType="search"
+                    clearButtonMode="while-editing"
+                    accessibilityLabel="Search conversations"
+                  />
+                </View>
+
+                {/* New Conversation Button - Always Visible */}
+                <TouchableOpacity
+                  style={dynamicStyles.newConversationButton}
+                  onPress={startNewConversation}
+                  activeOpacity={0.7}
+                >
+                  <Text style={dynamicStyles.newConversationText}>+ New Conversation</Text>
+                </TouchableOpacity>
+
+                {/* Conversation History List */}
+                {searchQuery.trim() && !loadingConversations ? (
+                  <View style={dynamicStyles.historySection}>
+                    <Text style={dynamicStyles.historySectionTitle}>
+                      {searchResults.length === 0
+                        ? 'No matches'
+                        : `${searchResults.length} ${searchResults.length === 1 ? 'match' : 'matches'}`}
+                    </Text>
+                    <FlatList
+                      data={searchResults}
+                      keyExtractor={(hit) => `${hit.conversationId}:${hit.messageId ?? 'title'}`}
+                      keyboardShouldPersistTaps="handled"
+                      renderItem={({ item: hit }) => {
+                        const conversation = conversations.find(item => item.id === hit.conversationId);
+                        return (
+                          <TouchableOpacity
+                            style={dynamicStyles.searchResult}
+                            onPress={() => openSearchResult(hit)}
+                            activeOpacity={0.7}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Match in ${conversation ? getConversationPreview(conversation) : 'conversation'}`}
+                            accessibilityHint="Double tap to open the conversation at this message"
+                          >
+                            <Text style={dynamicStyles.searchResultTitle} numberOfLines={1}>
+                              {conversation ? getConversationPreview(conversation) : 'Untitled'}
+                            </Text>
+                            <HighlightedText snippet={hit.snippet} numberOfLines={3} />
+                            <Text style={dynamicStyles.conversationDate}>
+                              {hit.role === 'title' ? 'Title' : hit.role === 'user' ? 'You' : 'Krishna'}
+                              {conversation ? ` · ${formatDate(conversation.updated_at)}` : ''}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      }}
+                      style={dynamicStyles.conversationsList}
+                    />
+                  </View>
+                ) : loadingConversations ? (
+                  <View style={dynamicStyles.loadingContainer}>
+                    <ActivityIndicator size="small" color={theme.primary} />
+                  </View>
+                ) : conversations.length === 0 ? (
+                  <View style={dynamicStyles.emptyHistoryContainer}>
+                    <Text style={dynamicStyles.emptyHistoryText}>No past conversations</Text>
+                    <Text style={dynamicStyles.emptyHistorySubtext}>
+                      Your conversation history will appear here
+                    </Text>
+                  </View>
+                ) : (
+                  <View style={dynamicStyles.historySection}>
+                    <Text style={dynamicStyles.historySectionTitle}>Past Conversations</Text>
+                    <FlatList
+                      data={conversations}
+                      keyExtractor={(item) => item.id}
+                      renderItem={({ item }) => (
+                        <View
+                          style={[
+                            dynamicStyles.conversationItem,
+                            conversationId === item.id && dynamicStyles.conversationItemActive
+                          ]}
+                        >
+                          <TouchableOpacity
+                            style={dynamicStyles.conversationItemContent}
+                          onPress={() => loadConversation(item)}
+                          activeOpacity={0.7}
+                          accessibilityRole="button"
+                          accessibilityLabel={`Conversation ${item.title || 'Untitled'}`}
+                          accessibilityHint="Double tap to open this conversation"
+                          accessibilityState={{ selected: conversationId === item.id }}
+                        >
+                          <Text style={dynamicStyles.conversationPreview} numberOfLines={2}>
+                            {getConversationPreview(item)}
+                          </Text>
+                          <Text style={dynamicStyles.conversationDate}>
+                            {formatDate(item.updated_at)}
+                          </Text>
+                        </TouchableOpacity>
+                          <TouchableOpacity
+                            style={dynamicStyles.conversationMenuButton}
+                            onPress={() => {
+                              setSelectedConversationId(item.id);
+                              setRenameText(item.title || '');
+                              setShowMenu(true);
+                            }}
+                            activeOpacity={0.7}
+                            accessibilityRole="button"
+                            accessibilityLabel="Conversation options"
+                          >
+                            <Text style={dynamicStyles.conversationMenuIcon}>⋯</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                      style={dynamicStyles.conversationsList}
+                    />
+                  </View>
+                )}
+
+                <TouchableOpacity
+                  style={dynamicStyles.trashButton}
+                  onPress={() => setShowTrash(true)}
+                  activeOpacity={0.7}
+                  accessibilityRole="button"
+                  accessibilityLabel="Trash"
+                  accessibilityHint="Double tap to see deleted conversations"
+                >
+                  <Text style={dynamicStyles.trashButtonText}>🗑️ Trash</Text>
+                </TouchableOpacity>
+              </>
             )}
           </View>
         </View>
       </Modal>
 
+      <ShlokaPreviewPopover citation={previewCitation} onClose={() => setPreviewCitation(null)} />
+
       {/* Custom Alert */}
       {alertConfig && (
         <CustomAlert
@@ -689,6 +1526,9 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     color: theme.text,
     fontWeight: '600',
   },
+  autoReadOff: {
+    opacity: 0.5,
+  },
   messagesContainer: {
     flex: 1,
   },
@@ -718,6 +1558,55 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  contextChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.primary + '40',
+    backgroundColor: theme.primary + '15',
+  },
+  contextChipContent: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  contextChipLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  contextChipText: {
+    fontSize: 13,
+    color: theme.sanskritText,
+    marginTop: 2,
+  },
+  contextChipRemove: {
+    padding: 12,
+  },
+  contextChipRemoveText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  starterQuestions: {
+    marginTop: 16,
+    gap: 8,
+    alignSelf: 'stretch',
+  },
+  starterQuestion: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.cardBackground,
+  },
+  starterQuestionText: {
+    fontSize: 14,
+    color: theme.text,
+  },
   messageContainer: {
     maxWidth: '80%',
     padding: 12,
@@ -742,14 +1631,39 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
   assistantMessageText: {
     color: theme.text,
   },
+  highlightedMessage: {
+    borderWidth: 2,
+    borderColor: theme.secondary,
+  },
   shlokaLink: {
     color: theme.primary,
     textDecorationLine: 'underline',
     fontWeight: '500',
   },
-  errorContainer: {
-    marginTop: 8,
-    marginHorizontal: 16,
+  pendingMessage: {
+    opacity: 0.6,
+  },
+  failedMessage: {
+    borderWidth: 1,
+    borderColor: '#FF4444',
+  },
+  outboxStatus: {
+    alignSelf: 'flex-end',
+    marginTop: -8,
+    marginBottom: 12,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  outboxStatusText: {
+    fontSize: 12,
+    color: theme.textTertiary,
+    textAlign: 'right',
+  },
+  outboxFailedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF4444',
+    textAlign: 'right',
   },
   inputContainer: {
     flexDirection: 'row',
@@ -791,6 +1705,82 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  stopButton: {
+    backgroundColor: theme.background,
+    borderWidth: 1,
+    borderColor: theme.primary,
+  },
+  stopButtonText: {
+    color: theme.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  stoppedText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: theme.textTertiary,
+    marginTop: 4,
+  },
+  messageActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: -8,
+    marginBottom: 12,
+    gap: 4,
+  },
+  userMessageActions: {
+    alignSelf: 'flex-end',
+  },
+  messageActionButton: {
+    minHeight: 32,
+    minWidth: 32,
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  messageActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.textSecondary,
+  },
+  messageActionDisabled: {
+    color: theme.textTertiary,
+    opacity: 0.5,
+  },
+  branchSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  branchCount: {
+    fontSize: 12,
+    color: theme.textSecondary,
+  },
+  speechControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  editingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  editingBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  editingBannerCancel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.primary,
+  },
   icon: {
     fontSize: 64,
     marginBottom: 24,
@@ -843,6 +1833,16 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     fontWeight: '600',
     color: theme.text,
   },
+  drawerBackButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  drawerBackText: {
+    fontSize: 28,
+    lineHeight: 28,
+    color: theme.text,
+  },
   closeButton: {
     padding: 4,
     width: 32,
@@ -928,6 +1928,42 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     fontSize: 12,
     color: theme.textSecondary,
   },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  searchInput: {
+    backgroundColor: theme.background,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: theme.text,
+  },
+  searchResult: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+    gap: 4,
+  },
+  searchResultTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  trashButton: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+    paddingBottom: Math.max(insets.bottom, 16),
+  },
+  trashButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: theme.textSecondary,
+  },
   conversationMenuButton: {
     padding: 16,
     paddingLeft: 8,
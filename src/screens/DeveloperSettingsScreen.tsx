@@ -0,0 +1,394 @@
+/**
+ * Developer Settings Screen - Choose which backend the app talks to
+ */
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
+import { apiService } from '../services/api';
+import { apiEnvironment, EnvironmentSelection, normalizeBaseUrl } from '../services/apiEnvironment';
+import { ApiEnvironmentId } from '../config/api';
+import { CONTENT_BOTTOM_PADDING } from '../constants/layout';
+
+type ConnectionStatus = 'idle' | 'checking' | 'reachable' | 'unreachable';
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  idle: 'Not checked',
+  checking: 'Checking…',
+  reachable: '● Reachable',
+  unreachable: '● Unreachable',
+};
+
+export const DeveloperSettingsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { isAuthenticated } = useAuth();
+  const insets = useSafeAreaInsets();
+  const dynamicStyles = createStyles(theme, insets);
+
+  const current = apiEnvironment.getSelection();
+  const [selectedId, setSelectedId] = useState<ApiEnvironmentId>(current.id);
+  const [customUrl, setCustomUrl] = useState(current.customUrl ?? '');
+  const [customUrlError, setCustomUrlError] = useState<string | null>(null);
+  const [baseUrl, setBaseUrl] = useState(apiService.getBaseUrl());
+  const [status, setStatus] = useState<ConnectionStatus>('idle');
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const selection: EnvironmentSelection =
+    selectedId === 'custom' ? { id: 'custom', customUrl } : { id: selectedId };
+  const selectedUrl = apiEnvironment.resolveBaseUrl(selection);
+  const hasChanges = selectedUrl !== baseUrl;
+
+  const handleTestConnection = async () => {
+    setStatus('checking');
+    const reachable = await apiService.testConnection();
+    setStatus(reachable ? 'reachable' : 'unreachable');
+  };
+
+  const applySelection = async () => {
+    setIsSwitching(true);
+    setStatus('checking');
+    try {
+      const result = await apiEnvironment.switchTo(selection);
+      setBaseUrl(result.baseUrl);
+      setStatus(result.reachable ? 'reachable' : 'unreachable');
+      Alert.alert(
+        result.reachable ? 'Environment Switched' : 'Server Unreachable',
+        result.reachable
+          ? `Now using ${result.baseUrl}.`
+          : `Switched to ${result.baseUrl}, but it did not respond. Check that the server is running and reachable from this device.`
+      );
+    } catch (error) {
+      setStatus('idle');
+      setCustomUrlError(error instanceof Error ? error.message : 'Failed to switch environment');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (selectedId === 'custom' && !normalizeBaseUrl(customUrl)) {
+      setCustomUrlError('Enter a valid server URL starting with http:// or https://');
+      return;
+    }
+    if (!isAuthenticated) {
+      applySelection();
+      return;
+    }
+    Alert.alert(
+      'Switch Environment',
+      'Your session belongs to the current server, so you will be signed out.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', style: 'destructive', onPress: applySelection },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={dynamicStyles.container} edges={['top']}>
+      <ScrollView
+        style={dynamicStyles.scrollView}
+        contentContainerStyle={dynamicStyles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={dynamicStyles.headerSection}>
+          <Text style={dynamicStyles.headerTitle}>Developer Settings</Text>
+          <Text style={dynamicStyles.headerDescription}>
+            Choose which backend the app talks to. The choice is remembered across restarts.
+          </Text>
+        </View>
+
+        {/* Current server */}
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle}>Current Server</Text>
+          <View style={[dynamicStyles.sectionContent, dynamicStyles.currentServer]}>
+            <Text style={dynamicStyles.baseUrl} selectable>
+              {baseUrl}
+            </Text>
+            <View style={dynamicStyles.statusRow}>
+              <Text
+                style={[
+                  dynamicStyles.statusText,
+                  status === 'reachable' && dynamicStyles.statusReachable,
+                  status === 'unreachable' && dynamicStyles.statusUnreachable,
+                ]}
+              >
+                {STATUS_LABELS[status]}
+              </Text>
+              <TouchableOpacity
+                onPress={handleTestConnection}
+                disabled={status === 'checking'}
+                activeOpacity={0.7}
+              >
+                <Text style={dynamicStyles.testButtonText}>Test Connection</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        {/* Environments */}
+        <View style={dynamicStyles.section}>
+          <Text style={dynamicStyles.sectionTitle}>Environment</Text>
+          <View style={dynamicStyles.sectionContent}>
+            {apiEnvironment.getEnvironments().map((environment, index) => {
+              const isSelected = environment.id === selectedId;
+              return (
+                <View key={environment.id}>
+                  {index > 0 && <View style={dynamicStyles.divider} />}
+                  <TouchableOpacity
+                    style={dynamicStyles.environmentItem}
+                    onPress={() => {
+                      setSelectedId(environment.id);
+                      setCustomUrlError(null);
+                    }}
+                    activeOpacity={0.7}
+                    disabled={isSwitching}
+                  >
+                    <Text style={[dynamicStyles.radio, isSelected && dynamicStyles.radioSelected]}>
+                      {isSelected ? '◉' : '○'}
+                    </Text>
+                    <View style={dynamicStyles.environmentContent}>
+                      <Text style={dynamicStyles.environmentTitle}>{environment.label}</Text>
+                      <Text style={dynamicStyles.environmentDescription}>{environment.description}</Text>
+                      {environment.baseUrl && (
+                        <Text style={dynamicStyles.environmentUrl}>{environment.baseUrl}</Text>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                  {environment.id === 'custom' && isSelected && (
+                    <View style={dynamicStyles.customUrlGroup}>
+                      <TextInput
+                        style={[dynamicStyles.input, customUrlError && dynamicStyles.inputError]}
+                        value={customUrl}
+                        onChangeText={text => {
+                          setCustomUrl(text);
+                          setCustomUrlError(null);
+                        }}
+                        placeholder="http://192.168.1.100:8000"
+                        placeholderTextColor={theme.textTertiary}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        keyboardType="url"
+                        editable={!isSwitching}
+                      />
+                      {customUrlError && <Text style={dynamicStyles.errorText}>{customUrlError}</Text>}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={dynamicStyles.infoBox}>
+          <Text style={dynamicStyles.infoIcon}>💡</Text>
+          <Text style={dynamicStyles.infoText}>
+            Switching environments signs you out and discards changes waiting to sync, since
+            accounts and sessions don't carry over between servers.
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={[dynamicStyles.applyButton, (!hasChanges || isSwitching) && dynamicStyles.applyButtonDisabled]}
+          activeOpacity={0.7}
+          onPress={handleApply}
+          disabled={!hasChanges || isSwitching}
+        >
+          {isSwitching ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={dynamicStyles.applyButtonText}>Switch Environment</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any, insets: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: Math.max(insets.bottom, 20) + CONTENT_BOTTOM_PADDING,
+  },
+  headerSection: {
+    marginBottom: 32,
+    paddingTop: 8,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: theme.heading,
+    marginBottom: 8,
+  },
+  headerDescription: {
+    fontSize: 16,
+    color: theme.textSecondary,
+    lineHeight: 22,
+  },
+  section: {
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.heading,
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  sectionContent: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 12,
+    overflow: 'hidden',
+    shadowColor: theme.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  currentServer: {
+    padding: 16,
+  },
+  baseUrl: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: theme.text,
+    marginBottom: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 14,
+    color: theme.textTertiary,
+  },
+  statusReachable: {
+    color: '#2E7D32',
+  },
+  statusUnreachable: {
+    color: '#FF4444',
+  },
+  testButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: theme.border,
+    marginLeft: 48,
+  },
+  environmentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  radio: {
+    fontSize: 20,
+    marginRight: 16,
+    width: 32,
+    textAlign: 'center',
+    color: theme.textTertiary,
+  },
+  radioSelected: {
+    color: theme.primary,
+  },
+  environmentContent: {
+    flex: 1,
+  },
+  environmentTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: theme.text,
+    marginBottom: 2,
+  },
+  environmentDescription: {
+    fontSize: 14,
+    color: theme.textTertiary,
+    lineHeight: 18,
+  },
+  environmentUrl: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 4,
+  },
+  customUrlGroup: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    paddingLeft: 64,
+  },
+  input: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: theme.text,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  inputError: {
+    borderColor: '#FF4444',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF4444',
+    marginTop: 4,
+  },
+  infoBox: {
+    flexDirection: 'row',
+    backgroundColor: theme.cardBackground,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderLeftWidth: 4,
+    borderLeftColor: theme.primary,
+  },
+  infoIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.textSecondary,
+    lineHeight: 20,
+  },
+  applyButton: {
+    backgroundColor: theme.primary,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    shadowColor: theme.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  applyButtonDisabled: {
+    opacity: 0.6,
+  },
+  applyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
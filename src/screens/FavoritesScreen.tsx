@@ -16,7 +16,7 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService, Shloka } from '../services/api';
+import { apiService, CancelledError, Shloka } from '../services/api';
 import { Skeleton, SkeletonCard } from '../components/Skeleton';
 
 interface Favorite {
@@ -117,16 +117,19 @@ export const FavoritesScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [_removingId, setRemovingId] = useState<string | null>(null);
 
-  const loadFavorites = useCallback(async () => {
+  const loadFavorites = useCallback(async (signal?: AbortSignal) => {
     if (!isAuthenticated) {
       setLoading(false);
       return;
     }
 
     try {
-      const data = await apiService.getFavorites();
+      const data = await apiService.getFavorites({ signal });
       setFavorites(data);
     } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
       console.error('Error loading favorites:', err);
     } finally {
       setLoading(false);
@@ -135,7 +138,9 @@ export const FavoritesScreen: React.FC = () => {
   }, [isAuthenticated]);
 
   useEffect(() => {
-    loadFavorites();
+    const controller = new AbortController();
+    loadFavorites(controller.signal);
+    return () => controller.abort();
   }, [loadFavorites]);
 
   const onRefresh = useCallback(async () => {
@@ -13,13 +13,15 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, CancelledError } from '../services/api';
 import { Journey } from '../components/Journey';
 import { ErrorDisplay } from '../components/ErrorDisplay';
 import { Skeleton, SkeletonStatCard } from '../components/Skeleton';
+import { RootStackParamList } from '../navigation/AppNavigator';
 
 interface StatCardProps {
   title: string;
@@ -71,6 +73,7 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ label, current, max, color })
 export const HomeScreen: React.FC = () => {
   const { theme } = useTheme();
   const { isAuthenticated } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const dynamicStyles = createStyles(theme);
   
   const [stats, setStats] = useState({
@@ -91,7 +94,7 @@ export const HomeScreen: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [freezeLoading, setFreezeLoading] = useState(false);
 
-  const loadData = useCallback(async () => {
+  const loadData = useCallback(async (signal?: AbortSignal) => {
     if (!isAuthenticated) {
       setLoading(false);
       return;
@@ -99,7 +102,7 @@ export const HomeScreen: React.FC = () => {
 
     try {
       setError(null);
-      const statsData = await apiService.getUserStats();
+      const statsData = await apiService.getUserStats({ signal });
 
       setStats({
         totalShlokasRead: statsData.total_shlokas_read,
@@ -115,6 +118,9 @@ export const HomeScreen: React.FC = () => {
         readingsThisMonth: statsData.readings_this_month || 0,
       });
     } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
       console.error('Error loading home data:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to load data';
       setError(errorMessage);
@@ -124,12 +130,14 @@ export const HomeScreen: React.FC = () => {
     }
   }, [isAuthenticated]);
 
-  const loadDataCallback = useCallback(() => {
-    loadData();
+  const loadDataCallback = useCallback((signal?: AbortSignal) => {
+    loadData(signal);
   }, [loadData]);
 
   useEffect(() => {
-    loadDataCallback();
+    const controller = new AbortController();
+    loadDataCallback(controller.signal);
+    return () => controller.abort();
   }, [loadDataCallback]);
 
   // Refresh stats when screen comes into focus (e.g., after marking shlokas as read)
@@ -137,10 +145,15 @@ export const HomeScreen: React.FC = () => {
     useCallback(() => {
       if (isAuthenticated) {
         // Small delay to ensure backend has processed the mark-as-read request
+        const controller = new AbortController();
         const timer = setTimeout(() => {
-          loadData();
+          loadData(controller.signal);
         }, 500);
-        return () => clearTimeout(timer);
+        // Navigating away cancels a refresh that is still in flight
+        return () => {
+          clearTimeout(timer);
+          controller.abort();
+        };
       }
       // Always return a cleanup function (no-op if not authenticated)
       return () => {};
@@ -253,7 +266,7 @@ export const HomeScreen: React.FC = () => {
         <View style={dynamicStyles.errorContainer}>
           <ErrorDisplay
             error={error}
-            onRetry={loadData}
+            onRetry={() => loadData()}
             compact={true}
           />
         </View>
@@ -315,6 +328,36 @@ export const HomeScreen: React.FC = () => {
           />
         </View>
 
+        {/* Search */}
+        <TouchableOpacity
+          style={dynamicStyles.searchBar}
+          onPress={() => navigation.navigate('Search')}
+          activeOpacity={0.7}
+          accessibilityRole="search"
+          accessibilityLabel="Search shlokas"
+          accessibilityHint="Double tap to search shlokas, even offline"
+        >
+          <Text style={dynamicStyles.searchBarIcon}>🔍</Text>
+          <Text style={dynamicStyles.searchBarText}>Search shlokas and explanations</Text>
+        </TouchableOpacity>
+
+        {/* Library */}
+        <TouchableOpacity
+          style={dynamicStyles.libraryCard}
+          onPress={() => navigation.navigate('Library')}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Open the library"
+          accessibilityHint="Double tap to browse shlokas by book, chapter and verse"
+        >
+          <Text style={dynamicStyles.libraryIcon}>📚</Text>
+          <View style={dynamicStyles.libraryInfo}>
+            <Text style={dynamicStyles.libraryTitle}>Library</Text>
+            <Text style={dynamicStyles.librarySubtitle}>Read chapter by chapter, verse by verse</Text>
+          </View>
+          <Text style={dynamicStyles.libraryChevron}>›</Text>
+        </TouchableOpacity>
+
         {/* Streak Details Card */}
         {stats.currentStreak > 0 && (
           <View style={dynamicStyles.streakCard}>
@@ -435,6 +478,59 @@ const createStyles = (theme: any) => StyleSheet.create({
     gap: 12,
     flexWrap: 'wrap', // Allow wrapping on very small screens
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 16,
+    gap: 10,
+  },
+  searchBarIcon: {
+    fontSize: 16,
+  },
+  searchBarText: {
+    fontSize: 15,
+    color: theme.textTertiary,
+  },
+  libraryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.cardBackground,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    gap: 16,
+    shadowColor: theme.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  libraryIcon: {
+    fontSize: 32,
+  },
+  libraryInfo: {
+    flex: 1,
+  },
+  libraryTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.text,
+    marginBottom: 2,
+  },
+  librarySubtitle: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  libraryChevron: {
+    fontSize: 28,
+    color: theme.textTertiary,
+  },
   statCard: {
     flex: 1,
     minWidth: 100, // Minimum width to prevent too small cards
@@ -15,7 +15,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, CancelledError } from '../services/api';
 import { JourneyTimeline } from '../components/JourneyTimeline';
 import { ActivityCalendar } from '../components/ActivityCalendar';
 import { Skeleton, SkeletonStatCard } from '../components/Skeleton';
@@ -67,14 +67,14 @@ export const LearningStatsScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  const loadData = useCallback(async () => {
+  const loadData = useCallback(async (signal?: AbortSignal) => {
     if (!isAuthenticated) {
       setLoading(false);
       return;
     }
 
     try {
-      const statsData = await apiService.getUserStats();
+      const statsData = await apiService.getUserStats({ signal });
       setStats({
         totalShlokasRead: statsData.total_shlokas_read,
         totalBooksRead: statsData.total_books_read || 0,
@@ -91,13 +91,19 @@ export const LearningStatsScreen: React.FC = () => {
 
       // Load recent activity for calendar
       try {
-        const streakHistory = await apiService.getStreakHistory();
+        const streakHistory = await apiService.getStreakHistory({ signal });
         setRecentActivity(streakHistory.recent_activity || []);
       } catch (err) {
+        if (err instanceof CancelledError) {
+          return;
+        }
         console.error('Error loading streak history:', err);
         setRecentActivity([]);
       }
     } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
       console.error('Error loading stats:', err);
     } finally {
       setLoading(false);
@@ -106,7 +112,9 @@ export const LearningStatsScreen: React.FC = () => {
   }, [isAuthenticated]);
 
   useEffect(() => {
-    loadData();
+    const controller = new AbortController();
+    loadData(controller.signal);
+    return () => controller.abort();
   }, [loadData]);
 
   const onRefresh = useCallback(async () => {
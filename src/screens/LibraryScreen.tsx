@@ -0,0 +1,382 @@
+/**
+ * Library Screen - Browse shlokas by book, chapter and verse
+ *
+ * The same screen shows each level of the library: books, the chapters of a book
+ * (`bookName`), or the verses of a chapter (`bookName` + `chapterNumber`). Going a
+ * level deeper pushes another instance, so back returns to the previous level.
+ * Read verses are marked; the catalog is refetched on focus to pick up new readings.
+ * A chapter can also be read from start to end in the chapter reader.
+ */
+import React, { useState, useCallback, useLayoutEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, RefreshControl, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRoute, useNavigation, useFocusEffect, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTheme } from '../context/ThemeContext';
+import { apiService, CancelledError, ShlokaCatalog } from '../services/api';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+import { SkeletonCard } from '../components/Skeleton';
+import { findBook, findChapter } from '../utils/shlokaCatalog';
+import { getReadingPosition, ReadingPosition } from '../utils/readingPosition';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type LibraryScreenRouteProp = RouteProp<RootStackParamList, 'Library'>;
+type LibraryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Library'>;
+
+interface ProgressRowProps {
+  title: string;
+  subtitle: string;
+  readCount?: number;
+  total: number;
+  onPress: () => void;
+  accessibilityLabel: string;
+}
+
+const ProgressRow: React.FC<ProgressRowProps> = ({ title, subtitle, readCount, total, onPress, accessibilityLabel }) => {
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+  const progress = readCount !== undefined && total > 0 ? readCount / total : 0;
+
+  return (
+    <TouchableOpacity
+      style={dynamicStyles.row}
+      onPress={onPress}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+    >
+      <View style={dynamicStyles.rowHeader}>
+        <View style={dynamicStyles.rowInfo}>
+          <Text style={dynamicStyles.rowTitle}>{title}</Text>
+          <Text style={dynamicStyles.rowSubtitle}>{subtitle}</Text>
+        </View>
+        {readCount !== undefined && (
+          <Text style={[dynamicStyles.rowProgress, readCount === total && dynamicStyles.rowProgressComplete]}>
+            {readCount === total ? '✓ Read' : `${readCount}/${total}`}
+          </Text>
+        )}
+        <Text style={dynamicStyles.chevron}>›</Text>
+      </View>
+      {readCount !== undefined && (
+        <View style={dynamicStyles.progressTrack}>
+          <View style={[dynamicStyles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export const LibraryScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const route = useRoute<LibraryScreenRouteProp>();
+  const navigation = useNavigation<LibraryScreenNavigationProp>();
+  const dynamicStyles = createStyles(theme);
+
+  const bookName = route.params?.bookName;
+  const chapterNumber = route.params?.chapterNumber;
+
+  const [catalog, setCatalog] = useState<ShlokaCatalog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [readingPosition, setReadingPosition] = useState<ReadingPosition | null>(null);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      title: bookName ? (chapterNumber !== undefined ? `Chapter ${chapterNumber}` : bookName) : 'Library',
+    });
+  }, [navigation, bookName, chapterNumber]);
+
+  const loadCatalog = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      setCatalog(await apiService.getShlokaCatalog({ signal }));
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
+      console.error('Error loading library:', err);
+      setError(err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Read markers change while reading, so refresh whenever the screen is shown again
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      loadCatalog(controller.signal);
+      return () => controller.abort();
+    }, [loadCatalog])
+  );
+
+  // Where the chapter reader was left, to offer resuming there
+  useFocusEffect(
+    useCallback(() => {
+      if (!bookName || chapterNumber === undefined) return;
+      let active = true;
+      getReadingPosition(bookName, chapterNumber).then(position => {
+        if (active) setReadingPosition(position);
+      });
+      return () => {
+        active = false;
+      };
+    }, [bookName, chapterNumber])
+  );
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadCatalog();
+  }, [loadCatalog]);
+
+  const renderBooks = (data: ShlokaCatalog) =>
+    data.books.map(book => (
+      <ProgressRow
+        key={book.book_name}
+        title={book.book_name}
+        subtitle={`${book.chapters.length} ${book.chapters.length === 1 ? 'chapter' : 'chapters'} · ${book.verse_count} verses`}
+        readCount={book.read_count}
+        total={book.verse_count}
+        onPress={() => navigation.push('Library', { bookName: book.book_name })}
+        accessibilityLabel={`${book.book_name}, ${book.chapters.length} chapters`}
+      />
+    ));
+
+  const renderChapters = (data: ShlokaCatalog, name: string) => {
+    const book = findBook(data, name);
+    if (!book) return renderMissing('This book is not in the library.');
+    return book.chapters.map(chapter => (
+      <ProgressRow
+        key={chapter.chapter_number}
+        title={`Chapter ${chapter.chapter_number}`}
+        subtitle={`${chapter.verse_count} ${chapter.verse_count === 1 ? 'verse' : 'verses'}`}
+        readCount={chapter.read_count}
+        total={chapter.verse_count}
+        onPress={() => navigation.push('Library', { bookName: book.book_name, chapterNumber: chapter.chapter_number })}
+        accessibilityLabel={`Chapter ${chapter.chapter_number}, ${chapter.verse_count} verses${
+          chapter.read_count !== undefined ? `, ${chapter.read_count} read` : ''
+        }`}
+      />
+    ));
+  };
+
+  const renderVerses = (data: ShlokaCatalog, name: string, chapter: number) => {
+    const found = findChapter(data, name, chapter);
+    if (!found) return renderMissing('This chapter is not in the library.');
+    return (
+      <>
+        <TouchableOpacity
+          style={dynamicStyles.readButton}
+          onPress={() => navigation.navigate('ChapterReader', { bookName: name, chapterNumber: chapter })}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel={
+            readingPosition ? `Continue reading from verse ${readingPosition.verseNumber}` : 'Read this chapter'
+          }
+        >
+          <Text style={dynamicStyles.readButtonText}>
+            {readingPosition ? `▶ Continue reading · Verse ${readingPosition.verseNumber}` : '▶ Read chapter'}
+          </Text>
+        </TouchableOpacity>
+        <View style={dynamicStyles.verseGrid}>
+          {found.verses.map(verse => (
+            <TouchableOpacity
+              key={verse.id}
+              style={[dynamicStyles.verse, verse.is_read && dynamicStyles.verseRead]}
+              onPress={() =>
+                navigation.navigate('ShlokaDetail', { bookName: name, chapterNumber: chapter, verseNumber: verse.verse_number })
+              }
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={`Verse ${verse.verse_number}${verse.is_read ? ', read' : verse.is_read === false ? ', unread' : ''}`}
+            >
+              <Text style={[dynamicStyles.verseNumber, verse.is_read && dynamicStyles.verseNumberRead]}>
+                {verse.verse_number}
+              </Text>
+              {verse.is_read && <Text style={dynamicStyles.verseReadMark}>✓</Text>}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </>
+    );
+  };
+
+  const renderMissing = (message: string) => (
+    <View style={dynamicStyles.emptyContainer}>
+      <Text style={dynamicStyles.emptyIcon}>📚</Text>
+      <Text style={dynamicStyles.emptyText}>{message}</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={dynamicStyles.container} edges={[]}>
+        <ScrollView contentContainerStyle={dynamicStyles.scrollContent} showsVerticalScrollIndicator={false}>
+          {Array.from({ length: 4 }).map((_, index) => (
+            <SkeletonCard key={index} showTitle={true} showSubtitle={true} lines={0} />
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={dynamicStyles.container} edges={[]}>
+      <ScrollView
+        contentContainerStyle={dynamicStyles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} colors={[theme.primary]} />
+        }
+      >
+        {error && !catalog ? (
+          <ErrorDisplay error={error} onRetry={() => loadCatalog()} />
+        ) : catalog && catalog.books.length === 0 ? (
+          renderMissing('No books are available yet.')
+        ) : catalog ? (
+          <>
+            {bookName && chapterNumber !== undefined && (
+              <Text style={dynamicStyles.levelHeading}>{bookName}</Text>
+            )}
+            {!bookName
+              ? renderBooks(catalog)
+              : chapterNumber === undefined
+                ? renderChapters(catalog, bookName)
+                : renderVerses(catalog, bookName, chapterNumber)}
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  levelHeading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  row: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: theme.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: theme.text,
+    marginBottom: 2,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  rowProgress: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.textSecondary,
+  },
+  rowProgressComplete: {
+    color: theme.primary,
+  },
+  chevron: {
+    fontSize: 24,
+    color: theme.textTertiary,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.divider,
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: theme.primary,
+  },
+  readButton: {
+    backgroundColor: theme.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  readButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  verseGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  verse: {
+    width: 56,
+    height: 56,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.cardBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  verseRead: {
+    backgroundColor: theme.primary + '15',
+    borderColor: theme.primary,
+  },
+  verseNumber: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  verseNumberRead: {
+    color: theme.primary,
+  },
+  verseReadMark: {
+    position: 'absolute',
+    top: 3,
+    right: 6,
+    fontSize: 11,
+    color: theme.primary,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+});
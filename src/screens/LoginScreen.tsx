@@ -17,6 +17,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
+import { NetworkError, TimeoutError, ServerError, ValidationError } from '../services/api';
 
 interface LoginScreenProps {
   navigation: {
@@ -26,7 +27,7 @@ interface LoginScreenProps {
 
 export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const { theme } = useTheme();
-  const { login } = useAuth();
+  const { login, sessionExpired } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -64,17 +65,23 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
       await login(email.trim(), password);
       // Navigation will be handled by AppNavigator based on auth state
     } catch (error: any) {
-      // Show user-friendly error message inline
       const errorMessage = error?.message || 'Invalid email or password. Please try again.';
+
+      // Field-level problems go under the matching input
+      if (error instanceof ValidationError) {
+        const emailError = error.getFieldError('email');
+        const passwordError = error.getFieldError('password');
+        if (emailError || passwordError) {
+          setErrors(prev => ({ ...prev, email: emailError, password: passwordError }));
+          return;
+        }
+      }
+
+      // Show user-friendly error message inline
       setErrors(prev => ({ ...prev, general: errorMessage }));
       
       // Also show Alert for important errors (network issues, server errors)
-      const isNetworkError = errorMessage.toLowerCase().includes('network') || 
-                            errorMessage.toLowerCase().includes('connection') ||
-                            errorMessage.toLowerCase().includes('timeout') ||
-                            errorMessage.toLowerCase().includes('server');
-      
-      if (isNetworkError) {
+      if (error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError) {
         Alert.alert(
           'Connection Error',
           errorMessage,
@@ -108,6 +115,14 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
 
           {/* Form */}
           <View style={dynamicStyles.form}>
+            {sessionExpired && (
+              <View style={dynamicStyles.sessionNotice}>
+                <Text style={dynamicStyles.sessionNoticeText}>
+                  Your session has expired. Please sign in again.
+                </Text>
+              </View>
+            )}
+
             <View style={dynamicStyles.inputGroup}>
               <Text style={dynamicStyles.label}>Email</Text>
               <TextInput
@@ -183,6 +198,17 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
               <Text style={dynamicStyles.footerLink}>Sign Up</Text>
             </TouchableOpacity>
           </View>
+
+          {/* Backend switcher, so a dev build pointed at an unreachable server can recover */}
+          {__DEV__ && (
+            <TouchableOpacity
+              style={dynamicStyles.devSettingsLink}
+              onPress={() => navigation.navigate('DeveloperSettings')}
+              disabled={isLoading}
+            >
+              <Text style={dynamicStyles.devSettingsText}>Developer settings</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -252,6 +278,19 @@ const createStyles = (theme: any) =>
       color: '#FF4444',
       marginTop: 4,
     },
+    sessionNotice: {
+      backgroundColor: theme.surface,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: theme.primary,
+    },
+    sessionNoticeText: {
+      fontSize: 14,
+      color: theme.text,
+      textAlign: 'center',
+    },
     generalErrorContainer: {
       backgroundColor: '#FFF5F5',
       borderRadius: 8,
@@ -294,5 +333,14 @@ const createStyles = (theme: any) =>
       fontWeight: '600',
       color: theme.primary,
     },
+    devSettingsLink: {
+      alignSelf: 'center',
+      marginTop: 16,
+      padding: 4,
+    },
+    devSettingsText: {
+      fontSize: 12,
+      color: theme.textTertiary,
+    },
   });
 
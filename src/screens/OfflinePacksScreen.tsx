@@ -0,0 +1,377 @@
+/**
+ * Offline Packs Screen - Download whole books to read without a connection
+ *
+ * Lists the books available as content packs with what is on the device. Downloads show
+ * their progress, can be cancelled and resumed later, and an installed pack offers an
+ * update when the backend publishes a newer version.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../context/ThemeContext';
+import { CancelledError } from '../services/api';
+import { contentPacks, ContentPack, PackIntegrityError } from '../services/contentPacks';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface PackCardProps {
+  pack: ContentPack;
+  onChanged: () => void;
+}
+
+const PackCard: React.FC<PackCardProps> = ({ pack, onChanged }) => {
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+  const [includeAudio, setIncludeAudio] = useState(pack.includesAudio);
+  const progress = contentPacks.getProgress(pack.bookName);
+  const status = progress ? 'downloading' : pack.status;
+
+  const handleDownload = async () => {
+    try {
+      await contentPacks.download(pack.bookName, { includeAudio });
+    } catch (err) {
+      if (!(err instanceof CancelledError)) {
+        console.error('Error downloading pack:', err);
+        Alert.alert(
+          'Download Failed',
+          err instanceof PackIntegrityError
+            ? 'Part of the download was damaged in transit. Resume to fetch it again.'
+            : 'The download stopped. What has arrived is kept, so you can resume it later.'
+        );
+      }
+    } finally {
+      onChanged();
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert('Remove Pack', `Remove ${pack.bookName} from this device? You can download it again later.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () =>
+          contentPacks
+            .remove(pack.bookName)
+            .catch(err => console.error('Error removing pack:', err))
+            .finally(onChanged),
+      },
+    ]);
+  };
+
+  const describeStatus = (): string => {
+    switch (status) {
+      case 'downloading':
+        return progress && progress.totalBytes > 0
+          ? `Downloading · ${formatSize(progress.completedBytes)} of ${formatSize(progress.totalBytes)}`
+          : 'Preparing download…';
+      case 'incomplete':
+        return 'Download paused';
+      case 'update_available':
+        return `Version ${pack.installedVersion} · version ${pack.latestVersion} available`;
+      case 'installed':
+        return `Version ${pack.installedVersion} · available offline`;
+      default:
+        return `${formatSize(pack.size + (includeAudio ? pack.audioSize : 0))} download`;
+    }
+  };
+
+  const action = (): { label: string; onPress: () => void } | null => {
+    switch (status) {
+      case 'downloading':
+        return { label: 'Cancel', onPress: () => contentPacks.cancel(pack.bookName) };
+      case 'incomplete':
+        return { label: 'Resume', onPress: handleDownload };
+      case 'update_available':
+        return { label: 'Update', onPress: handleDownload };
+      case 'not_installed':
+        return pack.latestVersion !== null ? { label: 'Download', onPress: handleDownload } : null;
+      default:
+        return null;
+    }
+  };
+
+  const primary = action();
+  const percent =
+    progress && progress.totalBytes > 0 ? Math.round((progress.completedBytes / progress.totalBytes) * 100) : 0;
+
+  return (
+    <View style={dynamicStyles.packCard}>
+      <View style={dynamicStyles.packHeader}>
+        <View style={dynamicStyles.packInfo}>
+          <Text style={dynamicStyles.packTitle}>{pack.bookName}</Text>
+          <Text style={dynamicStyles.packMeta}>
+            {pack.shlokaCount} shlokas{pack.includesAudio ? ' · with recitation' : ''}
+          </Text>
+        </View>
+        {status === 'downloading' && <ActivityIndicator size="small" color={theme.primary} />}
+      </View>
+
+      <Text style={dynamicStyles.packStatus}>{describeStatus()}</Text>
+
+      {status === 'downloading' && (
+        <View
+          style={dynamicStyles.progressTrack}
+          accessibilityRole="progressbar"
+          accessibilityLabel={`${pack.bookName} download`}
+          accessibilityValue={{ min: 0, max: 100, now: percent }}
+        >
+          <View style={[dynamicStyles.progressFill, { width: `${percent}%` }]} />
+        </View>
+      )}
+
+      {status === 'not_installed' && pack.audioSize > 0 && (
+        <View style={dynamicStyles.audioRow}>
+          <Text style={dynamicStyles.audioLabel}>Include recitation audio (+{formatSize(pack.audioSize)})</Text>
+          <Switch
+            value={includeAudio}
+            onValueChange={setIncludeAudio}
+            trackColor={{ false: theme.border, true: theme.primary }}
+            thumbColor={theme.cardBackground}
+            ios_backgroundColor={theme.border}
+            accessibilityLabel="Include recitation audio"
+          />
+        </View>
+      )}
+
+      <View style={dynamicStyles.actions}>
+        {primary && (
+          <TouchableOpacity
+            style={dynamicStyles.primaryButton}
+            onPress={primary.onPress}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={`${primary.label} ${pack.bookName}`}
+          >
+            <Text style={dynamicStyles.primaryButtonText}>{primary.label}</Text>
+          </TouchableOpacity>
+        )}
+        {status !== 'not_installed' && status !== 'downloading' && (
+          <TouchableOpacity
+            style={dynamicStyles.secondaryButton}
+            onPress={handleRemove}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${pack.bookName}`}
+          >
+            <Text style={dynamicStyles.secondaryButtonText}>Remove</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+export const OfflinePacksScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const dynamicStyles = createStyles(theme);
+
+  const [packs, setPacks] = useState<ContentPack[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  // Re-render as downloads progress
+  const [, setRevision] = useState(0);
+
+  const loadPacks = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setError(null);
+      setPacks(await contentPacks.listPacks({ signal }));
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        return;
+      }
+      console.error('Error loading offline packs:', err);
+      setError(err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadPacks(controller.signal);
+    return () => controller.abort();
+  }, [loadPacks]);
+
+  useEffect(() => contentPacks.subscribe(() => setRevision(revision => revision + 1)), []);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    loadPacks();
+  }, [loadPacks]);
+
+  const reload = useCallback(() => {
+    loadPacks();
+  }, [loadPacks]);
+
+  if (loading) {
+    return (
+      <View style={dynamicStyles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+      <ScrollView
+        style={dynamicStyles.scrollView}
+        contentContainerStyle={dynamicStyles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+        }
+      >
+        <Text style={dynamicStyles.intro}>
+          Downloaded books open without a connection: verses, explanations and, if you choose, recitations.
+        </Text>
+
+        {error !== null && packs.length === 0 ? (
+          <ErrorDisplay error={error} onRetry={reload} />
+        ) : packs.length === 0 ? (
+          <View style={dynamicStyles.emptyContainer}>
+            <Text style={dynamicStyles.emptyIcon}>📥</Text>
+            <Text style={dynamicStyles.emptyText}>No books are available for download yet.</Text>
+          </View>
+        ) : (
+          packs.map(pack => <PackCard key={pack.bookName} pack={pack} onChanged={reload} />)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  intro: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  packCard: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+    padding: 16,
+    gap: 8,
+  },
+  packHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  packMeta: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  packStatus: {
+    fontSize: 13,
+    color: theme.primary,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: theme.primary,
+  },
+  audioRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  audioLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  primaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: theme.primary,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
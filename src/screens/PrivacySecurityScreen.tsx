@@ -17,7 +17,7 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, AuthError, NetworkError, TimeoutError, ValidationError } from '../services/api';
 import { CONTENT_BOTTOM_PADDING } from '../constants/layout';
 import { CustomAlert } from '../components/CustomAlert';
 import { useCustomAlert } from '../hooks/useCustomAlert';
@@ -75,13 +75,33 @@ export const PrivacySecurityScreen: React.FC = () => {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [passwordErrors, setPasswordErrors] = useState<{ currentPassword?: string; newPassword?: string }>({});
 
   // Privacy settings state
   const [dataCollection, setDataCollection] = useState(true);
   const [analytics, setAnalytics] = useState(true);
   const [crashReports, setCrashReports] = useState(true);
 
+  /**
+   * Show a failed request, branching on what went wrong
+   */
+  const showRequestError = (error: unknown, fallbackMessage: string) => {
+    // Token refresh already failed - AuthContext signs out and the login screen explains why
+    if (error instanceof AuthError && error.statusCode === 401) {
+      return;
+    }
+
+    const isConnectionError = error instanceof NetworkError || error instanceof TimeoutError;
+    showAlert({
+      title: isConnectionError ? 'Connection Error' : 'Error',
+      message: (error instanceof Error && error.message) || fallbackMessage,
+      buttons: [{ text: 'OK' }],
+    });
+  };
+
   const handleChangePassword = async () => {
+    setPasswordErrors({});
+
     if (!currentPassword || !newPassword || !confirmPassword) {
       showAlert({
         title: 'Validation Error',
@@ -128,12 +148,17 @@ export const PrivacySecurityScreen: React.FC = () => {
           },
         ],
       });
-    } catch (error: any) {
-      showAlert({
-        title: 'Error',
-        message: error.message || 'Failed to change password. Please check your current password and try again.',
-        buttons: [{ text: 'OK' }],
-      });
+    } catch (error) {
+      // e.g. wrong current password - show it under the field
+      if (error instanceof ValidationError) {
+        const currentPasswordError = error.getFieldError('current_password');
+        const newPasswordError = error.getFieldError('new_password');
+        if (currentPasswordError || newPasswordError) {
+          setPasswordErrors({ currentPassword: currentPasswordError, newPassword: newPasswordError });
+          return;
+        }
+      }
+      showRequestError(error, 'Failed to change password. Please check your current password and try again.');
     } finally {
       setIsChangingPassword(false);
     }
@@ -161,12 +186,8 @@ export const PrivacySecurityScreen: React.FC = () => {
                 message: 'Your account has been deactivated successfully. Contact support to reactivate it.',
                 buttons: [{ text: 'OK' }],
               });
-            } catch (error: any) {
-              showAlert({
-                title: 'Error',
-                message: error.message || 'Failed to deactivate account. Please try again.',
-                buttons: [{ text: 'OK' }],
-              });
+            } catch (error) {
+              showRequestError(error, 'Failed to deactivate account. Please try again.');
             }
           },
         },
@@ -207,12 +228,8 @@ export const PrivacySecurityScreen: React.FC = () => {
                         message: result.message || 'Your account has been deleted. Contact support within 30 days to restore it.',
                         buttons: [{ text: 'OK' }],
                       });
-                    } catch (error: any) {
-                      showAlert({
-                        title: 'Error',
-                        message: error.message || 'Failed to delete account. Please try again.',
-                        buttons: [{ text: 'OK' }],
-                      });
+                    } catch (error) {
+                      showRequestError(error, 'Failed to delete account. Please try again.');
                     }
                   },
                 },
@@ -246,12 +263,8 @@ export const PrivacySecurityScreen: React.FC = () => {
                         message: result.message || 'Your account and all data have been permanently deleted. This action cannot be undone.',
                         buttons: [{ text: 'OK' }],
                       });
-                    } catch (error: any) {
-                      showAlert({
-                        title: 'Error',
-                        message: error.message || 'Failed to delete account. Please try again.',
-                        buttons: [{ text: 'OK' }],
-                      });
+                    } catch (error) {
+                      showRequestError(error, 'Failed to delete account. Please try again.');
                     }
                   },
                 },
@@ -287,28 +300,40 @@ export const PrivacySecurityScreen: React.FC = () => {
                 <View style={dynamicStyles.inputGroup}>
                   <Text style={dynamicStyles.label}>Current Password</Text>
                   <TextInput
-                    style={dynamicStyles.input}
+                    style={[dynamicStyles.input, passwordErrors.currentPassword && dynamicStyles.inputError]}
                     value={currentPassword}
-                    onChangeText={setCurrentPassword}
+                    onChangeText={(text) => {
+                      setCurrentPassword(text);
+                      setPasswordErrors(prev => ({ ...prev, currentPassword: undefined }));
+                    }}
                     placeholder="Enter current password"
                     placeholderTextColor={theme.textTertiary}
                     secureTextEntry
                     autoCapitalize="none"
                     editable={!isChangingPassword}
                   />
+                  {passwordErrors.currentPassword && (
+                    <Text style={dynamicStyles.errorText}>{passwordErrors.currentPassword}</Text>
+                  )}
                 </View>
                 <View style={dynamicStyles.inputGroup}>
                   <Text style={dynamicStyles.label}>New Password</Text>
                   <TextInput
-                    style={dynamicStyles.input}
+                    style={[dynamicStyles.input, passwordErrors.newPassword && dynamicStyles.inputError]}
                     value={newPassword}
-                    onChangeText={setNewPassword}
+                    onChangeText={(text) => {
+                      setNewPassword(text);
+                      setPasswordErrors(prev => ({ ...prev, newPassword: undefined }));
+                    }}
                     placeholder="Enter new password (min. 8 characters)"
                     placeholderTextColor={theme.textTertiary}
                     secureTextEntry
                     autoCapitalize="none"
                     editable={!isChangingPassword}
                   />
+                  {passwordErrors.newPassword && (
+                    <Text style={dynamicStyles.errorText}>{passwordErrors.newPassword}</Text>
+                  )}
                 </View>
                 <View style={dynamicStyles.inputGroup}>
                   <Text style={dynamicStyles.label}>Confirm New Password</Text>
@@ -626,6 +651,14 @@ const createStyles = (theme: any, insets: any) => StyleSheet.create({
     borderWidth: 1,
     borderColor: theme.border,
   },
+  inputError: {
+    borderColor: '#FF4444',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF4444',
+    marginTop: 4,
+  },
   changePasswordButton: {
     backgroundColor: theme.primary,
     borderRadius: 8,
@@ -16,8 +16,11 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
+import { useScript } from '../context/ScriptContext';
 import { ProfileStackParamList } from '../navigation/ProfileStack';
+import { apiService } from '../services/api';
 import { CONTENT_BOTTOM_PADDING } from '../constants/layout';
+import { SANSKRIT_SCRIPTS } from '../utils/transliteration';
 
 interface ProfileItemProps {
   icon: string;
@@ -58,6 +61,7 @@ type ProfileScreenNavigationProp = StackNavigationProp<ProfileStackParamList, 'P
 
 export const ProfileScreen: React.FC = () => {
   const { theme, themeMode, toggleTheme } = useTheme();
+  const { script } = useScript();
   const { user, logout } = useAuth();
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const insets = useSafeAreaInsets();
@@ -162,6 +166,13 @@ export const ProfileScreen: React.FC = () => {
               subtitle="Your saved shlokas"
               onPress={() => navigation.navigate('Favorites')}
             />
+            <View style={dynamicStyles.divider} />
+            <ProfileItem
+              icon="📥"
+              title="Offline Packs"
+              subtitle="Download books to read without a connection"
+              onPress={() => navigation.navigate('OfflinePacks')}
+            />
           </View>
         </View>
 
@@ -183,6 +194,13 @@ export const ProfileScreen: React.FC = () => {
               }
             />
             <View style={dynamicStyles.divider} />
+            <ProfileItem
+              icon="🔤"
+              title="Sanskrit Script"
+              subtitle={SANSKRIT_SCRIPTS.find(option => option.id === script)?.label}
+              onPress={() => navigation.navigate('ScriptSettings')}
+            />
+            <View style={dynamicStyles.divider} />
             <ProfileItem
               icon="ℹ️"
               title="About"
@@ -208,6 +226,17 @@ export const ProfileScreen: React.FC = () => {
                 );
               }}
             />
+            {__DEV__ && (
+              <>
+                <View style={dynamicStyles.divider} />
+                <ProfileItem
+                  icon="🛠️"
+                  title="Developer Settings"
+                  subtitle={apiService.getBaseUrl()}
+                  onPress={() => navigation.navigate('DeveloperSettings')}
+                />
+              </>
+            )}
           </View>
         </View>
 
@@ -0,0 +1,119 @@
+/**
+ * Script Settings Screen - Choose the script Sanskrit verses are shown in
+ *
+ * Each option previews the opening of Bhagavad Gita 2.47 in that script.
+ */
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../context/ThemeContext';
+import { useScript } from '../context/ScriptContext';
+import { SANSKRIT_SCRIPTS, transliterate } from '../utils/transliteration';
+
+const PREVIEW = 'कर्मण्येवाधिकारस्ते मा फलेषु कदाचन ।';
+
+export const ScriptSettingsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { script, setScript } = useScript();
+  const dynamicStyles = createStyles(theme);
+
+  return (
+    <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={dynamicStyles.scrollContent}>
+        <Text style={dynamicStyles.intro}>
+          Verses and word meanings are shown in the script you choose. Romanized schemes replace the separate
+          transliteration.
+        </Text>
+
+        <View style={dynamicStyles.options}>
+          {SANSKRIT_SCRIPTS.map((option, index) => {
+            const isSelected = option.id === script;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[dynamicStyles.option, index > 0 && dynamicStyles.optionBorder]}
+                onPress={() => setScript(option.id)}
+                activeOpacity={0.7}
+                accessibilityRole="radio"
+                accessibilityLabel={option.label}
+                accessibilityState={{ checked: isSelected }}
+              >
+                <View style={dynamicStyles.optionText}>
+                  <Text style={dynamicStyles.optionLabel}>{option.label}</Text>
+                  <Text style={dynamicStyles.optionPreview}>{transliterate(PREVIEW, option.id)}</Text>
+                </View>
+                <View style={[dynamicStyles.radio, isSelected && dynamicStyles.radioSelected]}>
+                  {isSelected && <View style={dynamicStyles.radioDot} />}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  options: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  optionBorder: {
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  optionPreview: {
+    fontSize: 15,
+    color: theme.sanskritText,
+    marginTop: 4,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: theme.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  radioSelected: {
+    borderColor: theme.primary,
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: theme.primary,
+  },
+});
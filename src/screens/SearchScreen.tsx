@@ -0,0 +1,350 @@
+/**
+ * Search Screen - Full-text search over the shlokas on the device
+ *
+ * Searches the shlokas kept offline (downloaded books, and every one opened or shown
+ * before) through a local index, so it works without a connection. Results show where the query matched, and
+ * can be narrowed by book, chapter and theme.
+ */
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTheme } from '../context/ThemeContext';
+import { apiService, ShlokaWithExplanation } from '../services/api';
+import { contentPacks } from '../services/contentPacks';
+import { HighlightedText } from '../components/HighlightedText';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import {
+  ShlokaSearchIndex,
+  ShlokaSearchFilters,
+  ShlokaSearchField,
+  ShlokaSearchResult,
+  FacetCount,
+} from '../utils/shlokaSearch';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type SearchScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Search'>;
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const FIELD_LABELS: Record<ShlokaSearchField, string> = {
+  sanskrit: 'Sanskrit',
+  transliteration: 'Transliteration',
+  word_by_word: 'Word meanings',
+  summary: 'Summary',
+  detailed_explanation: 'Explanation',
+  themes: 'Themes',
+};
+
+export const SearchScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const dynamicStyles = createStyles(theme);
+
+  const [searchIndex, setSearchIndex] = useState<ShlokaSearchIndex | null>(null);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<ShlokaSearchFilters>({});
+
+  // Shlokas opened elsewhere since the last visit become searchable
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      Promise.all([contentPacks.getAllShlokas(), apiService.getCachedShlokas()])
+        .then(([downloaded, cached]) => {
+          const byId = new Map<string, ShlokaWithExplanation>();
+          [...cached, ...downloaded].forEach(item => byId.set(item.shloka.id, item));
+          if (active) setSearchIndex(new ShlokaSearchIndex(Array.from(byId.values())));
+        })
+        .catch(err => console.error('Error building search index:', err));
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  // Searching is synchronous, so wait for a pause in typing
+  const searchQuery = useDebouncedValue(query, SEARCH_DEBOUNCE_MS);
+  const { results, facets } = useMemo(
+    () => (searchIndex ? searchIndex.search(searchQuery, filters) : { results: [], facets: null }),
+    [searchIndex, searchQuery, filters]
+  );
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  const updateFilters = (next: ShlokaSearchFilters) => {
+    setFilters(previous => {
+      const updated = { ...previous, ...next };
+      // Chapters belong to a book, so changing the book clears the chapter
+      if ('bookName' in next) {
+        delete updated.chapterNumber;
+      }
+      return updated;
+    });
+  };
+
+  const renderFacet = <T extends string | number>(
+    label: string,
+    options: FacetCount<T>[],
+    selected: T | undefined,
+    describe: (value: T) => string,
+    select: (value: T | undefined) => void
+  ) => {
+    // Nothing to choose between unless a filter is already set
+    if (options.length < 2 && selected === undefined) return null;
+    // Keep a selection that no longer matches anything visible, so it can be cleared
+    const shown =
+      selected !== undefined && !options.some(option => option.value === selected)
+        ? [{ value: selected, count: 0 }, ...options]
+        : options;
+    return (
+      <View style={dynamicStyles.facet}>
+        <Text style={dynamicStyles.facetLabel}>{label}</Text>
+        <ScrollView
+          horizontal={true}
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={dynamicStyles.facetOptions}
+          keyboardShouldPersistTaps="handled"
+        >
+          {shown.map(option => {
+            const isSelected = option.value === selected;
+            return (
+              <TouchableOpacity
+                key={String(option.value)}
+                style={[dynamicStyles.chip, isSelected && dynamicStyles.chipSelected]}
+                onPress={() => select(isSelected ? undefined : option.value)}
+                activeOpacity={0.7}
+                accessibilityRole="button"
+                accessibilityLabel={`${label} ${describe(option.value)}, ${option.count} ${
+                  option.count === 1 ? 'result' : 'results'
+                }`}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[dynamicStyles.chipText, isSelected && dynamicStyles.chipTextSelected]}>
+                  {describe(option.value)} · {option.count}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  const renderResult = ({ item: result }: { item: ShlokaSearchResult }) => (
+    <TouchableOpacity
+      style={dynamicStyles.result}
+      onPress={() => navigation.navigate('ShlokaDetail', { shlokaId: result.shlokaId })}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={`${result.bookName} chapter ${result.chapterNumber} verse ${result.verseNumber}, matched in ${FIELD_LABELS[
+        result.field
+      ].toLowerCase()}`}
+      accessibilityHint="Double tap to open the shloka"
+    >
+      <View style={dynamicStyles.resultHeader}>
+        <Text style={dynamicStyles.resultTitle}>
+          {result.bookName} {result.chapterNumber}.{result.verseNumber}
+        </Text>
+        <Text style={dynamicStyles.resultField}>{FIELD_LABELS[result.field]}</Text>
+      </View>
+      <HighlightedText snippet={result.snippet} numberOfLines={3} />
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (!searchIndex) return null;
+    const [icon, message] =
+      searchIndex.size === 0
+        ? ['📚', 'Shlokas you open are kept on this device so you can search them offline. Open a few to get started.']
+        : !searchQuery.trim()
+          ? ['🔍', `Search ${searchIndex.size} ${searchIndex.size === 1 ? 'shloka' : 'shlokas'} in Sanskrit, transliteration or English.`]
+          : ['🙏', 'No shlokas match your search.'];
+    return (
+      <View style={dynamicStyles.emptyContainer}>
+        <Text style={dynamicStyles.emptyIcon}>{icon}</Text>
+        <Text style={dynamicStyles.emptyText}>{message}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+      <View style={dynamicStyles.searchContainer}>
+        <TextInput
+          style={dynamicStyles.searchInput}
+          placeholder="Search shlokas, e.g. karma or कर्म"
+          placeholderTextColor={theme.textTertiary}
+          value={query}
+          onChangeText={setQuery}
+          autoFocus={true}
+          autoCorrect={false}
+          autoCapitalize="none"
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+          accessibilityLabel="Search shlokas"
+        />
+      </View>
+
+      {facets && (results.length > 0 || hasFilters) && (
+        <View style={dynamicStyles.facets}>
+          {renderFacet('Book', facets.books, filters.bookName, value => value, value => updateFilters({ bookName: value }))}
+          {renderFacet(
+            'Chapter',
+            facets.chapters,
+            filters.chapterNumber,
+            value => `Chapter ${value}`,
+            value => updateFilters({ chapterNumber: value })
+          )}
+          {renderFacet('Theme', facets.themes, filters.theme, value => value, value => updateFilters({ theme: value }))}
+        </View>
+      )}
+
+      {!searchIndex ? (
+        <View style={dynamicStyles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={result => result.shlokaId}
+          renderItem={renderResult}
+          ListHeaderComponent={
+            results.length > 0 ? (
+              <Text style={dynamicStyles.resultCount}>
+                {results.length} {results.length === 1 ? 'match' : 'matches'}
+              </Text>
+            ) : null
+          }
+          ListEmptyComponent={renderEmpty}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          contentContainerStyle={dynamicStyles.listContent}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    backgroundColor: theme.cardBackground,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.border,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: theme.text,
+  },
+  facets: {
+    paddingBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  facet: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    paddingVertical: 4,
+  },
+  facetLabel: {
+    width: 64,
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    textTransform: 'uppercase',
+  },
+  facetOptions: {
+    gap: 8,
+    paddingRight: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.cardBackground,
+  },
+  chipSelected: {
+    backgroundColor: theme.primary + '15',
+    borderColor: theme.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.text,
+  },
+  chipTextSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  resultCount: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  result: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+    gap: 4,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  resultField: {
+    fontSize: 12,
+    color: theme.primary,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
@@ -1,22 +1,29 @@
 /**
  * Shloka Detail Screen - Display full shloka details
+ *
+ * Opened by shloka id or by book, chapter and verse. Previous / next buttons move
+ * through the book in reading order, using the library catalog to find the neighbours.
  */
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
+  Text,
   StyleSheet,
   ActivityIndicator,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, CancelledError, ShlokaCatalog } from '../services/api';
 import { KnowledgeCard } from '../components/KnowledgeCard';
+import { ScriptPicker } from '../components/ScriptPicker';
 import { convertShlokaToKnowledgeItem } from '../utils/shlokaConverter';
-import { RootStackParamList } from '../navigation/AppNavigator';
+import { getAdjacentVerses, VerseLocation } from '../utils/shlokaCatalog';
+import { RootStackParamList, ShlokaDetailParams } from '../navigation/AppNavigator';
 import { ProfileStackParamList } from '../navigation/ProfileStack';
 
 // Support both root stack and profile stack navigation
@@ -30,13 +37,21 @@ export const ShlokaDetailScreen: React.FC = () => {
   const navigation = useNavigation<ShlokaDetailScreenNavigationProp>();
   const dynamicStyles = createStyles(theme);
 
-  const { shlokaId } = route.params;
+  // The verse shown: the one opened, then wherever previous / next lead
+  const [target, setTarget] = useState<ShlokaDetailParams>(route.params);
+  const [location, setLocation] = useState<VerseLocation | null>(null);
+  const [catalog, setCatalog] = useState<ShlokaCatalog | null>(null);
   const [loading, setLoading] = useState(true);
   const [knowledgeItem, setKnowledgeItem] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const loadShloka = useCallback(async () => {
-    if (!isAuthenticated || !shlokaId) {
+  // Navigating here again with another shloka replaces the one shown
+  useEffect(() => {
+    setTarget(route.params);
+  }, [route.params]);
+
+  const loadShloka = useCallback(async (signal?: AbortSignal) => {
+    if (!isAuthenticated) {
       setError('Authentication required');
       setLoading(false);
       return;
@@ -45,10 +60,24 @@ export const ShlokaDetailScreen: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const shlokaData = await apiService.getShlokaById(shlokaId);
+      const shlokaData =
+        'shlokaId' in target
+          ? await apiService.getShlokaById(target.shlokaId, { signal })
+          : await apiService.getShlokaByChapterVerse(target.bookName, target.chapterNumber, target.verseNumber, {
+              signal,
+            });
       const converted = convertShlokaToKnowledgeItem(shlokaData);
       setKnowledgeItem(converted);
+      setLocation({
+        bookName: shlokaData.shloka.book_name,
+        chapterNumber: shlokaData.shloka.chapter_number,
+        verseNumber: shlokaData.shloka.verse_number,
+      });
     } catch (err) {
+      // Left the screen before the shloka arrived
+      if (err instanceof CancelledError) {
+        return;
+      }
       console.error('Error loading shloka:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to load shloka';
       setError(errorMessage);
@@ -61,12 +90,57 @@ export const ShlokaDetailScreen: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [isAuthenticated, shlokaId, navigation]);
+  }, [isAuthenticated, target, navigation]);
 
   useEffect(() => {
-    loadShloka();
+    const controller = new AbortController();
+    loadShloka(controller.signal);
+    return () => controller.abort();
   }, [loadShloka]);
 
+  // Previous / next need the catalog; without it the buttons just don't show
+  useEffect(() => {
+    const controller = new AbortController();
+    apiService
+      .getShlokaCatalog({ signal: controller.signal })
+      .then(setCatalog)
+      .catch(err => {
+        if (!(err instanceof CancelledError)) {
+          console.warn('Error loading library for verse navigation:', err);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  const adjacent = useMemo(
+    () => (catalog && location ? getAdjacentVerses(catalog, location) : { previous: null, next: null }),
+    [catalog, location]
+  );
+
+  const renderVerseButton = (verse: VerseLocation | null, direction: 'previous' | 'next') => (
+    <TouchableOpacity
+      style={[dynamicStyles.verseButton, direction === 'next' && dynamicStyles.nextVerseButton]}
+      onPress={() => verse && setTarget(verse)}
+      disabled={!verse}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={
+        verse
+          ? `${direction === 'previous' ? 'Previous' : 'Next'} verse, chapter ${verse.chapterNumber} verse ${verse.verseNumber}`
+          : `No ${direction} verse`
+      }
+      accessibilityState={{ disabled: !verse }}
+    >
+      {verse && (
+        <Text style={dynamicStyles.verseButtonText}>
+          {direction === 'previous' ? '‹ ' : ''}
+          {verse.chapterNumber}.{verse.verseNumber}
+          {direction === 'next' ? ' ›' : ''}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+
   if (loading) {
     return (
       <SafeAreaView style={dynamicStyles.container} edges={['top']}>
@@ -88,8 +162,22 @@ export const ShlokaDetailScreen: React.FC = () => {
   }
 
   return (
-    <SafeAreaView style={dynamicStyles.container} edges={[]}>
-      <KnowledgeCard item={knowledgeItem} />
+    <SafeAreaView style={dynamicStyles.container} edges={['bottom']}>
+      <ScriptPicker style={dynamicStyles.scriptPicker} />
+      <View style={dynamicStyles.cardContainer}>
+        <KnowledgeCard key={knowledgeItem.id} item={knowledgeItem} />
+      </View>
+      {(adjacent.previous || adjacent.next) && (
+        <View style={dynamicStyles.verseNavigation}>
+          {renderVerseButton(adjacent.previous, 'previous')}
+          {location && (
+            <Text style={dynamicStyles.verseNavigationLabel}>
+              Chapter {location.chapterNumber}, Verse {location.verseNumber}
+            </Text>
+          )}
+          {renderVerseButton(adjacent.next, 'next')}
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -104,5 +192,41 @@ const createStyles = (theme: any) => StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  scriptPicker: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  cardContainer: {
+    flex: 1,
+  },
+  verseNavigation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+    backgroundColor: theme.background,
+  },
+  verseNavigationLabel: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  verseButton: {
+    minWidth: 72,
+    minHeight: 40,
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+  },
+  nextVerseButton: {
+    alignItems: 'flex-end',
+  },
+  verseButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.primary,
+  },
 });
 
@@ -18,6 +18,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
+import { ValidationError } from '../services/api';
 
 interface SignupScreenProps {
   navigation: {
@@ -84,6 +85,20 @@ export const SignupScreen: React.FC<SignupScreenProps> = ({ navigation }) => {
       await signup(name.trim(), email.trim(), password, passwordConfirm);
       // Navigation will be handled by AppNavigator based on auth state
     } catch (error: any) {
+      // Show field errors from the backend under the matching inputs
+      if (error instanceof ValidationError) {
+        const fieldErrors = {
+          name: error.getFieldError('name'),
+          email: error.getFieldError('email'),
+          password: error.getFieldError('password'),
+          passwordConfirm: error.getFieldError('password_confirm'),
+        };
+        if (Object.values(fieldErrors).some(Boolean)) {
+          setErrors(fieldErrors);
+          return;
+        }
+      }
+
       Alert.alert(
         'Signup Failed',
         error.message || 'Unable to create account. Please try again.',
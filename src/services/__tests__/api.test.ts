@@ -1,7 +1,27 @@
 /**
  * Tests for API service
  */
-import { apiService, ShlokaWithExplanation, Explanation } from '../api';
+import {
+  apiService,
+  ShlokaWithExplanation,
+  Explanation,
+  SchemaValidationError,
+  withHeaders,
+  ValidationError,
+  AuthError,
+  ServerError,
+  TimeoutError,
+  CancelledError,
+} from '../api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+}));
 
 // Mock fetch globally
 declare const global: any;
@@ -10,8 +30,9 @@ global.fetch = jest.fn();
 describe('ApiService', () => {
   const mockBaseUrl = 'http://localhost:8000';
 
-  beforeEach(() => {
+  beforeEach(async () => {
     apiService.setBaseUrl(mockBaseUrl);
+    await apiService.clearCache();
     (global.fetch as jest.Mock).mockClear();
   });
 
@@ -271,6 +292,14 @@ describe('ApiService', () => {
         current_streak: 7,
         total_shlokas_read: 10,
         total_readings: 15,
+        total_books_read: 1,
+        longest_streak: 9,
+        total_streak_days: 12,
+        streak_freeze_available: true,
+        xp_in_current_level: 50,
+        xp_for_next_level: 100,
+        readings_this_week: 5,
+        readings_this_month: 15,
       };
 
       const mockResponse = {
@@ -409,6 +438,10 @@ describe('ApiService', () => {
             code: 'first_read',
             name: 'First Steps',
             description: 'Read your first shloka',
+            icon: '🌱',
+            condition_type: 'shlokas_read',
+            condition_value: 1,
+            xp_reward: 10,
           },
           unlocked_at: '2024-01-01T00:00:00Z',
         },
@@ -443,6 +476,7 @@ describe('ApiService', () => {
           title: 'Test Conversation',
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z',
+          messages: [],
         },
       ];
 
@@ -473,9 +507,11 @@ describe('ApiService', () => {
           conversation: {
             id: 'conv-1',
             title: 'Test',
+            created_at: '2024-01-01T00:00:00Z',
+            updated_at: '2024-01-01T00:00:00Z',
             messages: [
-              { role: 'user', content: 'Hello' },
-              { role: 'assistant', content: 'Hi there!' },
+              { id: 'msg-1', role: 'user', content: 'Hello', created_at: '2024-01-01T00:00:00Z' },
+              { id: 'msg-2', role: 'assistant', content: 'Hi there!', created_at: '2024-01-01T00:00:00Z' },
             ],
           },
           response: 'Hi there!',
@@ -498,6 +534,555 @@ describe('ApiService', () => {
     });
   });
 
+  describe('Response validation', () => {
+    it('should reject a shloka with a mistyped field and name its path', async () => {
+      const mockResponse = {
+        message: 'Shloka retrieved successfully',
+        data: {
+          shloka: {
+            id: 'shloka-id',
+            book_name: 'Bhagavad Gita',
+            chapter_number: '2',
+            verse_number: 47,
+            sanskrit_text: 'Test text',
+          },
+        },
+        errors: null,
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockResponse,
+        headers: new Headers(),
+      });
+
+      const error = await apiService.getShlokaById('shloka-id').catch(e => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.path).toBe('data.shloka.chapter_number');
+      expect(error.message).toContain('/api/shlokas/shloka-id');
+      // Validation failures are not retried
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a response without the envelope', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ level: 5 }),
+        headers: new Headers(),
+      });
+
+      await expect(apiService.getUserStats()).rejects.toMatchObject({
+        name: 'SchemaValidationError',
+        path: 'message',
+      });
+    });
+
+    it('should allow fields the client does not know about yet', async () => {
+      const mockResponse = {
+        message: 'Favorites retrieved successfully',
+        data: [
+          {
+            id: 'fav-1',
+            shloka: {
+              id: 'shloka-1',
+              book_name: 'Bhagavad Gita',
+              chapter_number: 1,
+              verse_number: 1,
+              sanskrit_text: 'Test',
+              audio_url: 'https://example.com/1.mp3',
+            },
+            created_at: '2024-01-01T00:00:00Z',
+          },
+        ],
+        errors: null,
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockResponse,
+        headers: new Headers(),
+      });
+
+      const result = await apiService.getFavorites();
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('Response cache', () => {
+    const shlokaResponse = (chapter: number) => ({
+      message: 'Shloka retrieved successfully',
+      data: {
+        shloka: {
+          id: 'cached-shloka',
+          book_name: 'Bhagavad Gita',
+          chapter_number: chapter,
+          verse_number: 47,
+          sanskrit_text: 'Test text',
+        },
+      },
+      errors: null,
+    });
+
+    const favoritesResponse = {
+      message: 'Favorites retrieved successfully',
+      data: [],
+      errors: null,
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should serve fresh entries without hitting the network', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => shlokaResponse(2),
+        headers: new Headers({ ETag: '"v1"' }),
+      });
+
+      await apiService.getShlokaById('cached-shloka');
+      const second = await apiService.getShlokaById('cached-shloka');
+
+      expect(second.shloka.chapter_number).toBe(2);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return stale entries and revalidate with If-None-Match', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => shlokaResponse(2),
+        headers: new Headers({ ETag: '"v1"' }),
+      });
+      await apiService.getShlokaById('cached-shloka');
+
+      // Past the 24h TTL but inside the stale-while-revalidate window
+      dateSpy.mockReturnValue(now + 25 * 60 * 60 * 1000);
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 304,
+        json: async () => ({}),
+        headers: new Headers(),
+      });
+
+      const stale = await apiService.getShlokaById('cached-shloka');
+      expect(stale.shloka.chapter_number).toBe(2);
+
+      await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        `${mockBaseUrl}/api/shlokas/cached-shloka`,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': '"v1"' }),
+        })
+      );
+
+      // 304 renewed the entry, so it is fresh again
+      await apiService.getShlokaById('cached-shloka');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate favorites when one is added', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => favoritesResponse,
+          headers: new Headers(),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 201,
+          json: async () => ({
+            message: 'Added to favorites',
+            data: {
+              id: 'fav-1',
+              shloka: shlokaResponse(2).data.shloka,
+              created_at: '2024-01-01T00:00:00Z',
+            },
+            errors: null,
+          }),
+          headers: new Headers(),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => favoritesResponse,
+          headers: new Headers(),
+        });
+
+      await apiService.getFavorites();
+      await apiService.addFavorite('cached-shloka');
+      await apiService.getFavorites();
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    describe('while a request is in flight', () => {
+      const addedResponse = {
+        ok: true,
+        status: 201,
+        json: async () => ({
+          message: 'Added to favorites',
+          data: { id: 'fav-1', shloka: shlokaResponse(2).data.shloka, created_at: '2024-01-01T00:00:00Z' },
+          errors: null,
+        }),
+        headers: new Headers(),
+      };
+
+      // A fetch that stays pending until answered with the given status
+      const deferredFetch = () => {
+        let answer: (status: number) => void = () => {};
+        (global.fetch as jest.Mock).mockImplementationOnce(
+          () =>
+            new Promise(resolve => {
+              answer = status =>
+                resolve({ ok: status < 300, status, json: async () => favoritesResponse, headers: new Headers() });
+            })
+        );
+        return (status: number) => answer(status);
+      };
+
+      const cacheFavorites = async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => favoritesResponse,
+          headers: new Headers({ ETag: '"v1"' }),
+        });
+        await apiService.getFavorites();
+      };
+
+      const nextTick = () => new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+
+      it('should not store a background refresh that a mutation invalidated', async () => {
+        const now = Date.now();
+        const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+        await cacheFavorites();
+
+        // Stale, so returned at once and refreshed in the background
+        dateSpy.mockReturnValue(now + 6 * 60 * 1000);
+        const answerRefresh = deferredFetch();
+        await apiService.getFavorites();
+        await nextTick();
+
+        (global.fetch as jest.Mock).mockResolvedValueOnce(addedResponse);
+        await apiService.addFavorite('cached-shloka');
+        // The refresh was sent before the favorite was added
+        answerRefresh(200);
+        await nextTick();
+
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => favoritesResponse,
+          headers: new Headers(),
+        });
+        await apiService.getFavorites();
+        expect(global.fetch).toHaveBeenCalledTimes(4);
+      });
+
+      it('should answer with the validated body when a 304 arrives after invalidation', async () => {
+        const now = Date.now();
+        const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+        await cacheFavorites();
+
+        // Expired, so revalidated before answering
+        dateSpy.mockReturnValue(now + 2 * 24 * 60 * 60 * 1000);
+        const answerRevalidation = deferredFetch();
+        const pending = apiService.getFavorites();
+        await nextTick();
+
+        (global.fetch as jest.Mock).mockResolvedValueOnce(addedResponse);
+        await apiService.addFavorite('cached-shloka');
+        answerRevalidation(304);
+
+        await expect(pending).resolves.toEqual([]);
+      });
+
+      it('should not restore entries from storage once the cache is cleared', async () => {
+        const AsyncStorage = require('@react-native-async-storage/async-storage');
+        let cache: typeof import('../responseCache').responseCache | undefined;
+        jest.isolateModules(() => {
+          cache = require('../responseCache').responseCache;
+        });
+        await AsyncStorage.setItem(
+          '@dharmasaar_http_cache',
+          JSON.stringify({ '/api/favorites': { body: favoritesResponse, storedAt: Date.now() } })
+        );
+
+        // Logging out while the cold start is still reading storage
+        const loading = cache!.load();
+        await cache!.clear();
+        await loading;
+
+        expect(cache!.get('/api/favorites')).toBeUndefined();
+        await cache!.load();
+        expect(cache!.get('/api/favorites')).toBeUndefined();
+      });
+    });
+
+    it('should not cache random shlokas', async () => {
+      const randomResponse = {
+        ok: true,
+        status: 200,
+        json: async () => shlokaResponse(1),
+        headers: new Headers(),
+      };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(randomResponse)
+        .mockResolvedValueOnce(randomResponse);
+
+      await apiService.getRandomShloka();
+      await apiService.getRandomShloka();
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Interceptors', () => {
+    it('should run registered middleware for every request', async () => {
+      const eject = apiService.use((request, next) =>
+        next(withHeaders(request, { 'X-Trace-Id': 'trace-1' }))
+      );
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ message: 'API is healthy' }),
+      });
+      await apiService.testConnection();
+      eject();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/health`,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Trace-Id': 'trace-1' }),
+        })
+      );
+    });
+
+    it('should let a middleware stand in for the network', async () => {
+      const eject = apiService.use(async () =>
+        ({
+          ok: true,
+          status: 200,
+          json: async () => ({ message: 'ok', data: [], errors: null }),
+          headers: new Headers(),
+        } as Response)
+      );
+
+      const favorites = await apiService.getFavorites();
+      eject();
+
+      expect(favorites).toEqual([]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should send raw requests such as TTS through the chain', async () => {
+      apiService.setAccessToken('test-token');
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+      });
+
+      await apiService.requestRaw('/api/tts/speak', {
+        method: 'POST',
+        body: JSON.stringify({ text: 'om' }),
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `${mockBaseUrl}/api/tts/speak`,
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer test-token' }),
+        })
+      );
+    });
+  });
+
+  describe('Typed errors', () => {
+    it('should expose field errors from a 400 response', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: async () => ({
+          message: 'Validation error',
+          data: null,
+          errors: { email: ['Email already exists'], password: ['Too common'] },
+        }),
+        headers: new Headers({ 'X-Request-ID': 'server-req-1' }),
+      });
+
+      const error = await apiService
+        .signup('Test', 'test@example.com', 'password123', 'password123')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.statusCode).toBe(400);
+      expect(error.getFieldError('email')).toBe('Email already exists');
+      expect(error.fieldErrors.password).toEqual(['Too common']);
+      expect(error.errors).toEqual({ email: ['Email already exists'], password: ['Too common'] });
+      expect(error.requestId).toBe('server-req-1');
+    });
+
+    it('should raise AuthError for 401 without a session to refresh', async () => {
+      apiService.setAccessToken(null);
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ message: 'Unauthorized', data: null, errors: { detail: 'Invalid email or password' } }),
+        headers: new Headers(),
+      });
+
+      const error = await apiService.login('test@example.com', 'wrong-pass').catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.userFriendlyMessage).toBe('Invalid email or password');
+    });
+
+    it('should raise ServerError once retries are exhausted', async () => {
+      jest.useFakeTimers();
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        json: async () => {
+          throw new Error('not json');
+        },
+        headers: new Headers(),
+      });
+
+      const pending = apiService.getRandomShloka().catch(e => e);
+      await jest.runAllTimersAsync();
+      const error = await pending;
+      jest.useRealTimers();
+      (global.fetch as jest.Mock).mockReset();
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.statusCode).toBe(502);
+      expect(error.message).toBe('The server is experiencing issues. Please try again in a moment.');
+    });
+
+    it('should raise TimeoutError when the request is aborted', async () => {
+      (global.fetch as jest.Mock).mockImplementationOnce(() => {
+        const abort = new Error('Aborted');
+        abort.name = 'AbortError';
+        return Promise.reject(abort);
+      });
+
+      const error = await apiService.getRandomShloka().catch(e => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.isNetworkError).toBe(true);
+      // Our own request id is attached so the failure can be traced
+      expect(error.requestId).toEqual(expect.any(String));
+    });
+  });
+
+  describe('Request coalescing and cancellation', () => {
+    const favoritesResponse = {
+      message: 'Favorites retrieved successfully',
+      data: [],
+      errors: null,
+    };
+
+    const nextTick = () => new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+
+    // A fetch that stays pending until resolved, and rejects like fetch does when aborted
+    const deferredFetch = () => {
+      let resolve: () => void = () => {};
+      (global.fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((res, rej) => {
+            resolve = () =>
+              res({ ok: true, status: 200, json: async () => favoritesResponse, headers: new Headers() });
+            init.signal?.addEventListener('abort', () => {
+              const abort = new Error('Aborted');
+              abort.name = 'AbortError';
+              rej(abort);
+            });
+          })
+      );
+      return { resolve: () => resolve(), init: () => (global.fetch as jest.Mock).mock.calls[0][1] };
+    };
+
+    it('should share one network call between identical concurrent GETs', async () => {
+      const pending = deferredFetch();
+
+      const first = apiService.getFavorites();
+      const second = apiService.getFavorites();
+      await nextTick();
+      pending.resolve();
+
+      await expect(Promise.all([first, second])).resolves.toEqual([[], []]);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only cancel the caller that aborted', async () => {
+      const pending = deferredFetch();
+      const controller = new AbortController();
+
+      const cancelled = apiService.getFavorites({ signal: controller.signal });
+      const kept = apiService.getFavorites();
+      await nextTick();
+      controller.abort();
+      pending.resolve();
+
+      await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+      await expect(kept).resolves.toEqual([]);
+      expect(pending.init().signal.aborted).toBe(false);
+    });
+
+    it('should abort the network call once every caller has cancelled', async () => {
+      const pending = deferredFetch();
+      const controller = new AbortController();
+
+      const request = apiService.getFavorites({ signal: controller.signal });
+      await nextTick();
+      controller.abort();
+
+      await expect(request).rejects.toBeInstanceOf(CancelledError);
+      expect(pending.init().signal.aborted).toBe(true);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(apiService.getUserStats({ signal: controller.signal })).rejects.toBeInstanceOf(
+        CancelledError
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should map an aborted write to CancelledError', async () => {
+      const controller = new AbortController();
+      (global.fetch as jest.Mock).mockImplementationOnce(() => {
+        controller.abort();
+        const abort = new Error('Aborted');
+        abort.name = 'AbortError';
+        return Promise.reject(abort);
+      });
+
+      const error = await apiService
+        .sendChatMessage('Hello', undefined, { signal: controller.signal })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(CancelledError);
+      expect(error.isNetworkError).toBe(false);
+    });
+  });
+
   describe('createReadingLog', () => {
     it('should create a reading log', async () => {
       const shlokaId = 'shloka-id';
@@ -0,0 +1,90 @@
+/**
+ * Tests for runtime API environment selection
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../api', () => {
+  let baseUrl = 'http://localhost:8000';
+  return {
+    apiService: {
+      getBaseUrl: jest.fn(() => baseUrl),
+      setBaseUrl: jest.fn((url: string) => {
+        baseUrl = url;
+      }),
+      setAccessToken: jest.fn(),
+      testConnection: jest.fn(),
+    },
+  };
+});
+
+const STORAGE_KEY = '@dharmasaar_api_environment';
+
+describe('apiEnvironment', () => {
+  // Fresh modules per test so the selection and load state don't leak between cases
+  let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+  let apiEnvironment: typeof import('../apiEnvironment').apiEnvironment;
+  let apiService: any;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    apiEnvironment = require('../apiEnvironment').apiEnvironment;
+    apiService = require('../api').apiService;
+    apiService.testConnection.mockResolvedValue(true);
+  });
+
+  it('should apply the stored environment on load', async () => {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ id: 'staging' }));
+
+    const selection = await apiEnvironment.load();
+
+    expect(selection).toEqual({ id: 'staging' });
+    expect(apiService.setBaseUrl).toHaveBeenCalledWith('https://staging-api.dharmasaar.gibberishtech.com');
+  });
+
+  it('should keep the default when nothing is stored', async () => {
+    await apiEnvironment.load();
+
+    expect(apiService.setBaseUrl).not.toHaveBeenCalled();
+  });
+
+  it('should persist, sign out and report reachability when switching', async () => {
+    const listener = jest.fn();
+    apiEnvironment.subscribe(listener);
+    apiService.testConnection.mockResolvedValueOnce(false);
+
+    const result = await apiEnvironment.switchTo({ id: 'custom', customUrl: ' http://192.168.1.20:8000/ ' });
+
+    expect(result).toEqual({ baseUrl: 'http://192.168.1.20:8000', reachable: false });
+    expect(apiService.setAccessToken).toHaveBeenCalledWith(null);
+    expect(apiService.setBaseUrl).toHaveBeenCalledWith('http://192.168.1.20:8000');
+    expect(listener).toHaveBeenCalledWith({ id: 'custom', customUrl: 'http://192.168.1.20:8000' });
+    expect(JSON.parse((await AsyncStorage.getItem(STORAGE_KEY))!)).toEqual({
+      id: 'custom',
+      customUrl: 'http://192.168.1.20:8000',
+    });
+  });
+
+  it('should not sign out when the URL is unchanged', async () => {
+    const listener = jest.fn();
+    apiEnvironment.subscribe(listener);
+
+    const result = await apiEnvironment.switchTo({ id: 'local' });
+
+    expect(result.reachable).toBe(true);
+    expect(apiService.setAccessToken).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid custom URL', async () => {
+    await expect(apiEnvironment.switchTo({ id: 'custom', customUrl: 'localhost:8000' })).rejects.toThrow(
+      'Enter a valid server URL'
+    );
+
+    expect(apiService.setBaseUrl).not.toHaveBeenCalled();
+    expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for the chat outbox
+ */
+import type { ChatResponse } from '../api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+}));
+
+jest.mock('../api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(() => 'test-token'),
+    sendChatMessage: jest.fn(),
+    streamChatMessage: jest.fn(),
+  },
+}));
+
+// Re-required per test alongside the outbox so they share module instances
+let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+let ApiRequestError: typeof import('../errors').ApiRequestError;
+let CancelledError: typeof import('../errors').CancelledError;
+
+const offlineError = () =>
+  new ApiRequestError('No internet connection. Please check your network settings.', {
+    isNetworkError: true,
+  });
+
+const savedResponse = (conversationId: string, content: string): ChatResponse => ({
+  conversation: {
+    id: conversationId,
+    title: content,
+    created_at: '2024-03-01T09:00:00Z',
+    updated_at: '2024-03-01T09:00:00Z',
+    messages: [],
+  },
+  response: 'Reply',
+});
+
+describe('chatOutbox', () => {
+  // Fresh module per test so in-memory state doesn't leak between cases
+  let outbox: typeof import('../chatOutbox');
+  let apiService: any;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    outbox = require('../chatOutbox');
+    ({ ApiRequestError, CancelledError } = require('../errors'));
+    apiService = require('../api').apiService;
+    apiService.getAccessToken.mockReturnValue('test-token');
+    apiService.sendChatMessage.mockReset();
+    apiService.streamChatMessage.mockReset();
+  });
+
+  it('should stream a message and drop it from the outbox once saved', async () => {
+    const { chatOutbox } = outbox;
+    apiService.streamChatMessage.mockResolvedValueOnce(savedResponse('conversation-1', 'What is dharma?'));
+    const onSent = jest.fn();
+    chatOutbox.onSent(onSent);
+    const onToken = jest.fn();
+
+    const entry = await chatOutbox.enqueue({ conversationKey: 'conversation-1', content: 'What is dharma?' });
+    await chatOutbox.send(entry.id, { onToken });
+
+    expect(apiService.streamChatMessage).toHaveBeenCalledWith('What is dharma?', 'conversation-1', {
+      signal: undefined,
+      shlokaContext: undefined,
+      parentId: undefined,
+      idempotencyKey: entry.idempotencyKey,
+      onToken: expect.any(Function),
+      onConversation: expect.any(Function),
+    });
+    expect(onSent).toHaveBeenCalledWith(entry, expect.objectContaining({ response: 'Reply' }));
+    expect(chatOutbox.getEntries()).toEqual([]);
+  });
+
+  it('should keep a failed message for retry, and send it on reconnect', async () => {
+    const { chatOutbox } = outbox;
+    apiService.streamChatMessage.mockRejectedValueOnce(offlineError());
+
+    const entry = await chatOutbox.enqueue({ conversationKey: 'conversation-1', content: 'Are you there?' });
+    await expect(chatOutbox.send(entry.id, { onToken: jest.fn() })).rejects.toBeInstanceOf(ApiRequestError);
+
+    expect(chatOutbox.getEntries()).toEqual([
+      expect.objectContaining({ id: entry.id, status: 'failed', retryOnReconnect: true, attempts: 1 }),
+    ]);
+    const stored = JSON.parse((await AsyncStorage.getItem('@dharmasaar_chat_outbox'))!);
+    expect(stored[0]).toMatchObject({ content: 'Are you there?', status: 'failed' });
+
+    apiService.sendChatMessage.mockResolvedValueOnce(savedResponse('conversation-1', 'Are you there?'));
+    await chatOutbox.flush();
+
+    // The retry reuses the idempotency key, so a lost response can't duplicate the message
+    expect(apiService.sendChatMessage).toHaveBeenCalledWith(
+      'Are you there?',
+      'conversation-1',
+      expect.objectContaining({ idempotencyKey: entry.idempotencyKey })
+    );
+    expect(chatOutbox.getEntries()).toEqual([]);
+  });
+
+  it('should send a rate-limited message again once Retry-After has passed', async () => {
+    jest.useFakeTimers();
+    try {
+      const { chatOutbox } = outbox;
+      const { RateLimitError } = require('../errors');
+      apiService.streamChatMessage.mockRejectedValueOnce(
+        new RateLimitError('Too many requests', { statusCode: 429, retryAt: Date.now() + 30000 })
+      );
+
+      const entry = await chatOutbox.enqueue({ conversationKey: 'conversation-1', content: 'Hello again' });
+      await expect(chatOutbox.send(entry.id, { onToken: jest.fn() })).rejects.toThrow('Too many requests');
+      expect(chatOutbox.getEntries()[0]).toMatchObject({ status: 'failed', retryOnReconnect: true });
+      await chatOutbox.flush();
+      expect(apiService.sendChatMessage).not.toHaveBeenCalled();
+
+      apiService.sendChatMessage.mockResolvedValueOnce(savedResponse('conversation-1', 'Hello again'));
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(apiService.sendChatMessage).toHaveBeenCalledTimes(1);
+      expect(chatOutbox.getEntries()).toEqual([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not resend a message the backend rejected until the user retries', async () => {
+    const { chatOutbox } = outbox;
+    apiService.streamChatMessage.mockRejectedValueOnce(new ApiRequestError('Message too long', { statusCode: 400 }));
+
+    const entry = await chatOutbox.enqueue({ conversationKey: 'conversation-1', content: 'Hello' });
+    await expect(chatOutbox.send(entry.id, { onToken: jest.fn() })).rejects.toThrow('Message too long');
+    await chatOutbox.flush();
+
+    expect(apiService.sendChatMessage).not.toHaveBeenCalled();
+    expect(chatOutbox.getEntries()[0]).toMatchObject({ status: 'failed', error: 'Message too long' });
+  });
+
+  it('should move later messages of a new conversation to the conversation the first one created', async () => {
+    const { chatOutbox, createLocalConversationKey } = outbox;
+    const localKey = createLocalConversationKey();
+    apiService.sendChatMessage
+      .mockResolvedValueOnce(savedResponse('conversation-9', 'First'))
+      .mockResolvedValueOnce(savedResponse('conversation-9', 'Second'));
+
+    const first = await chatOutbox.enqueue({ conversationKey: localKey, content: 'First' });
+    const second = await chatOutbox.enqueue({ conversationKey: localKey, content: 'Second' });
+    await expect(chatOutbox.send(second.id)).rejects.toThrow('Waiting for the earlier message');
+
+    await chatOutbox.flush();
+
+    expect(apiService.sendChatMessage.mock.calls.map((call: unknown[]) => call.slice(0, 2))).toEqual([
+      ['First', undefined],
+      ['Second', 'conversation-9'],
+    ]);
+    expect(chatOutbox.getEntries()).toEqual([]);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('should forget a message whose reply the user stopped', async () => {
+    const { chatOutbox } = outbox;
+    apiService.streamChatMessage.mockImplementationOnce(async (_message: string, _id: string, options: any) => {
+      options.onToken('Once');
+      throw new CancelledError();
+    });
+    const onToken = jest.fn();
+
+    const entry = await chatOutbox.enqueue({ conversationKey: 'conversation-1', content: 'Tell me a story' });
+    await expect(chatOutbox.send(entry.id, { onToken })).rejects.toBeInstanceOf(CancelledError);
+
+    expect(onToken).toHaveBeenCalledWith('Once');
+    expect(chatOutbox.getEntries()).toEqual([]);
+  });
+
+  it('should keep a message stopped before the backend had it', async () => {
+    const { chatOutbox } = outbox;
+    apiService.streamChatMessage.mockRejectedValueOnce(new CancelledError());
+
+    const entry = await chatOutbox.enqueue({ conversationKey: 'conversation-1', content: 'Tell me a story' });
+    await expect(chatOutbox.send(entry.id, { onToken: jest.fn() })).rejects.toBeInstanceOf(CancelledError);
+    await chatOutbox.flush();
+
+    expect(apiService.sendChatMessage).not.toHaveBeenCalled();
+    expect(chatOutbox.getEntries()).toEqual([
+      expect.objectContaining({ id: entry.id, status: 'failed', retryOnReconnect: false }),
+    ]);
+  });
+
+  it('should move later messages to the new conversation when the first reply is stopped', async () => {
+    const { chatOutbox, createLocalConversationKey } = outbox;
+    const localKey = createLocalConversationKey();
+    apiService.streamChatMessage.mockImplementationOnce(async (_message: string, _id: string, options: any) => {
+      options.onConversation('conversation-9');
+      throw new CancelledError();
+    });
+    const onConversation = jest.fn();
+
+    const first = await chatOutbox.enqueue({ conversationKey: localKey, content: 'First' });
+    await chatOutbox.enqueue({ conversationKey: localKey, content: 'Second' });
+    await expect(chatOutbox.send(first.id, { onToken: jest.fn(), onConversation })).rejects.toBeInstanceOf(
+      CancelledError
+    );
+
+    expect(onConversation).toHaveBeenCalledWith('conversation-9');
+    expect(chatOutbox.getEntries()).toEqual([
+      expect.objectContaining({ content: 'Second', conversationKey: 'conversation-9' }),
+    ]);
+  });
+
+  it('should restore unsent messages and drafts after a restart', async () => {
+    const { chatOutbox, NEW_CONVERSATION_DRAFT } = outbox;
+    // Saved by a previous run that closed while the message was being sent
+    await AsyncStorage.setItem(
+      '@dharmasaar_chat_outbox',
+      JSON.stringify([
+        {
+          id: 'outbox-1',
+          conversationKey: 'conversation-1',
+          content: 'Still here?',
+          createdAt: '2024-03-01T09:00:00Z',
+          idempotencyKey: 'key-1',
+          status: 'sending',
+          attempts: 1,
+        },
+      ])
+    );
+    await AsyncStorage.setItem('@dharmasaar_chat_drafts', JSON.stringify({ [NEW_CONVERSATION_DRAFT]: 'Half-typed question' }));
+
+    await chatOutbox.load();
+
+    expect(chatOutbox.getEntries()).toEqual([expect.objectContaining({ content: 'Still here?', status: 'pending' })]);
+    expect(chatOutbox.getDraft(NEW_CONVERSATION_DRAFT)).toBe('Half-typed question');
+
+    await chatOutbox.setDraft(NEW_CONVERSATION_DRAFT, '');
+    expect(JSON.parse((await AsyncStorage.getItem('@dharmasaar_chat_drafts'))!)).toEqual({});
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the per-host circuit breaker
+ */
+import { CircuitBreaker, CircuitBreakerRegistry } from '../circuitBreaker';
+import { CircuitOpenError } from '../errors';
+
+const OPTIONS = { failureThreshold: 3, cooldown: 15000, maxCooldown: 60000 };
+
+describe('CircuitBreaker', () => {
+  let clock: number;
+  let probe: jest.Mock;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    clock = 0;
+    probe = jest.fn();
+    breaker = new CircuitBreaker(OPTIONS, probe, () => clock);
+  });
+
+  const openCircuit = () => {
+    for (let i = 0; i < OPTIONS.failureThreshold; i++) {
+      breaker.recordFailure();
+    }
+  };
+
+  it('should stay closed below the failure threshold', async () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.acquire()).resolves.toBeUndefined();
+  });
+
+  it('should fail fast while open, with the time it reopens', async () => {
+    openCircuit();
+
+    expect(breaker.getState()).toBe('open');
+    const error = await breaker.acquire().catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAt).toBe(15000);
+    expect(probe).not.toHaveBeenCalled();
+  });
+
+  it('should open until Retry-After when the server asks for it', () => {
+    breaker.recordFailure(40000);
+
+    expect(breaker.getState()).toBe('open');
+    clock = 39999;
+    expect(breaker.getState()).toBe('open');
+    clock = 40000;
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('should close after a successful probe, shared by concurrent requests', async () => {
+    openCircuit();
+    clock = 15000;
+    probe.mockResolvedValueOnce(true);
+
+    await Promise.all([breaker.acquire(), breaker.acquire()]);
+
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reopen with a longer cooldown after a failed probe', async () => {
+    openCircuit();
+    clock = 15000;
+    probe.mockResolvedValueOnce(false);
+
+    await expect(breaker.acquire()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(breaker.getState()).toBe('open');
+
+    clock = 15000 + 29999;
+    expect(breaker.getState()).toBe('open');
+    clock = 15000 + 30000;
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('should keep one breaker per host', () => {
+    const registry = new CircuitBreakerRegistry(OPTIONS, probe, () => clock);
+
+    const api = registry.forUrl('https://api.example.com/api/user/stats');
+    expect(registry.forUrl('https://api.example.com/health')).toBe(api);
+    expect(registry.forUrl('http://localhost:8000/api/user/stats')).not.toBe(api);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Tests for offline content packs, downloaded from the mock backend into an in-memory
+ * file system
+ */
+import { MockBackend } from '../mockBackend';
+import { Next } from '../interceptors';
+import { mockShlokas } from '../../data/mockKnowledge';
+
+const { Buffer } = require('buffer');
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+}));
+
+// Path -> contents, kept across module resets to stand in for the device's storage
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('react-native-fs', () => {
+  const { createHash } = require('crypto');
+  const { Buffer: NodeBuffer } = require('buffer');
+  const within = (path: string, dir: string) => path.startsWith(`${dir}/`);
+  const read = (path: string): Uint8Array => {
+    const contents = mockFiles.get(path);
+    if (!contents) {
+      throw new Error(`ENOENT: no such file ${path}`);
+    }
+    return contents;
+  };
+  return {
+    DocumentDirectoryPath: '/documents',
+    exists: jest.fn(async (path: string) => mockFiles.has(path) || [...mockFiles.keys()].some(file => within(file, path))),
+    mkdir: jest.fn(async () => undefined),
+    writeFile: jest.fn(async (path: string, contents: string, encoding: string) => {
+      mockFiles.set(path, NodeBuffer.from(contents, encoding === 'base64' ? 'base64' : 'utf8'));
+    }),
+    readFile: jest.fn(async (path: string) => NodeBuffer.from(read(path)).toString('utf8')),
+    moveFile: jest.fn(async (from: string, to: string) => {
+      mockFiles.set(to, read(from));
+      mockFiles.delete(from);
+    }),
+    unlink: jest.fn(async (path: string) => {
+      [...mockFiles.keys()].filter(file => file === path || within(file, path)).forEach(file => mockFiles.delete(file));
+    }),
+    readDir: jest.fn(async (dir: string) => {
+      const names = new Set<string>();
+      mockFiles.forEach((_, file) => within(file, dir) && names.add(file.slice(dir.length + 1).split('/')[0]));
+      return [...names].map(name => ({
+        name,
+        path: `${dir}/${name}`,
+        isFile: () => mockFiles.has(`${dir}/${name}`),
+        isDirectory: () => !mockFiles.has(`${dir}/${name}`),
+      }));
+    }),
+    hash: jest.fn(async (path: string) => createHash('sha256').update(read(path)).digest('hex')),
+  };
+});
+
+// React Native reads blobs through FileReader, which Node doesn't have
+class MockFileReader {
+  result: string | null = null;
+  onloadend: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  readAsDataURL(blob: Blob): void {
+    new Response(blob)
+      .arrayBuffer()
+      .then(buffer => {
+        this.result = `data:audio/wav;base64,${Buffer.from(buffer).toString('base64')}`;
+        this.onloadend?.();
+      })
+      .catch(error => this.onerror?.(error));
+  }
+}
+
+const BOOK = 'Bhagavad Gita';
+const CHAPTER_COUNT = new Set(mockShlokas.map(item => item.shloka.chapter_number)).size;
+
+describe('contentPacks', () => {
+  let apiService: typeof import('../api').apiService;
+  let contentPacks: typeof import('../contentPacks').contentPacks;
+  let PackIntegrityError: typeof import('../contentPacks').PackIntegrityError;
+  let fileRequests: string[];
+
+  // Required per call, so it's the errors module the current ApiService was loaded with
+  const offline: Next = () => {
+    const { NetworkError } = require('../errors');
+    return Promise.reject(new NetworkError('No internet connection.', { isOffline: true }));
+  };
+
+  // Records every pack file requested before handing the request on
+  const recording = (transport: Next): Next => request => {
+    if (request.endpoint.includes('/files/')) {
+      fileRequests.push(request.endpoint.split('/files/')[1]);
+    }
+    return transport(request);
+  };
+
+  // A fresh app start: modules reload, the files on "disk" stay
+  const launch = (transport: Next) => {
+    jest.resetModules();
+    apiService = require('../api').apiService;
+    ({ contentPacks, PackIntegrityError } = require('../contentPacks'));
+    apiService.setTransport(recording(transport), { local: true });
+    apiService.setOfflineShlokaSource(contentPacks);
+  };
+
+  beforeAll(() => {
+    (globalThis as any).FileReader = MockFileReader;
+  });
+
+  beforeEach(() => {
+    mockFiles.clear();
+    fileRequests = [];
+    launch(new MockBackend().transport);
+  });
+
+  afterAll(() => {
+    delete (globalThis as any).FileReader;
+  });
+
+  it('should list the packs available for download', async () => {
+    const packs = await contentPacks.listPacks();
+    expect(packs).toEqual([
+      expect.objectContaining({
+        bookName: BOOK,
+        status: 'not_installed',
+        installedVersion: null,
+        latestVersion: 1,
+        shlokaCount: mockShlokas.length,
+      }),
+    ]);
+    expect(packs[0].size).toBeGreaterThan(0);
+    expect(packs[0].audioSize).toBeGreaterThan(0);
+  });
+
+  it('should serve shlokas from a downloaded book without the network', async () => {
+    await contentPacks.download(BOOK);
+    expect(fileRequests).toHaveLength(CHAPTER_COUNT);
+
+    launch(offline);
+    const byVerse = await apiService.getShlokaByChapterVerse(BOOK, 2, 47);
+    expect(byVerse.shloka.transliteration).toContain('karmaṇy evādhikāras te');
+    const byId = await apiService.getShlokaById('bg-18-66');
+    expect(byId.shloka.chapter_number).toBe(18);
+
+    const random = await contentPacks.getRandomShloka(new Set(mockShlokas.slice(1).map(item => item.shloka.id)));
+    expect(random?.shloka.id).toBe(mockShlokas[0].shloka.id);
+    expect(await contentPacks.getAllShlokas()).toHaveLength(mockShlokas.length);
+
+    // Offline, the list comes from the device
+    expect(await contentPacks.listPacks()).toEqual([
+      expect.objectContaining({ bookName: BOOK, status: 'installed', installedVersion: 1, latestVersion: null }),
+    ]);
+  });
+
+  it('should store recitation audio only when asked to', async () => {
+    await contentPacks.download(BOOK);
+    expect(await contentPacks.getAudioPath('bg-2-47')).toBeNull();
+
+    await contentPacks.download(BOOK, { includeAudio: true });
+    // The chapters were already there
+    expect(fileRequests.slice(CHAPTER_COUNT)).toHaveLength(mockShlokas.length);
+    expect(fileRequests.slice(CHAPTER_COUNT).every(path => path.startsWith('audio/'))).toBe(true);
+
+    const path = await contentPacks.getAudioPath('bg-2-47');
+    expect(path).not.toBeNull();
+    expect(Buffer.from(mockFiles.get(path!)!.subarray(0, 4)).toString('latin1')).toBe('RIFF');
+  });
+
+  it('should discard a file that fails its integrity check and fetch it again', async () => {
+    const backend = new MockBackend();
+    let tampered = false;
+    launch(request => {
+      if (!tampered && request.endpoint.endsWith('/files/chapters/4.json')) {
+        tampered = true;
+        return Promise.resolve(new Response('[]', { status: 200 }));
+      }
+      return backend.transport(request);
+    });
+
+    await expect(contentPacks.download(BOOK)).rejects.toBeInstanceOf(PackIntegrityError);
+    expect([...mockFiles.keys()].some(file => file.endsWith('.part'))).toBe(false);
+    expect(await contentPacks.getShlokaByChapterVerse(BOOK, 2, 47)).toBeNull();
+    expect((await contentPacks.listPacks())[0].status).toBe('incomplete');
+
+    const fetchedBefore = fileRequests.filter(path => path !== 'chapters/4.json');
+    fileRequests = [];
+    await contentPacks.download(BOOK);
+    expect(fileRequests).toContain('chapters/4.json');
+    expect(fileRequests.some(path => fetchedBefore.includes(path))).toBe(false);
+    expect((await contentPacks.getShlokaByChapterVerse(BOOK, 4, 7))?.shloka.id).toBe('bg-4-7');
+  });
+
+  it('should resume an interrupted download after a restart with the files it already has', async () => {
+    const backend = new MockBackend();
+    let served = 0;
+    launch(request => {
+      if (request.endpoint.includes('/files/') && ++served > 2) {
+        return offline(request);
+      }
+      return backend.transport(request);
+    });
+    await expect(contentPacks.download(BOOK)).rejects.toThrow();
+    const fetchedBefore = fileRequests.slice(0, 2);
+    fileRequests = [];
+
+    launch(backend.transport);
+    expect(await contentPacks.listPacks()).toEqual([expect.objectContaining({ status: 'incomplete' })]);
+    await contentPacks.download(BOOK);
+
+    expect(fileRequests).toHaveLength(CHAPTER_COUNT - 2);
+    expect(fileRequests.some(path => fetchedBefore.includes(path))).toBe(false);
+    expect(await contentPacks.listPacks()).toEqual([expect.objectContaining({ status: 'installed' })]);
+  });
+
+  it('should update to a new version by fetching only the files that changed', async () => {
+    await contentPacks.download(BOOK);
+    const storedBefore = [...mockFiles.keys()].filter(file => file.includes('/files/'));
+
+    const revised = mockShlokas.map(item =>
+      item.shloka.id === 'bg-2-47'
+        ? { ...item, explanation: item.explanation && { ...item.explanation, summary: 'Revised summary' } }
+        : item
+    );
+    launch(new MockBackend({ shlokas: revised, packVersion: 2 }).transport);
+    expect(await contentPacks.listPacks()).toEqual([
+      expect.objectContaining({ status: 'update_available', installedVersion: 1, latestVersion: 2 }),
+    ]);
+
+    fileRequests = [];
+    await contentPacks.download(BOOK);
+    expect(fileRequests).toEqual(['chapters/2.json']);
+
+    const updated = await apiService.getShlokaByChapterVerse(BOOK, 2, 47);
+    expect(updated.explanation?.summary).toBe('Revised summary');
+    // The replaced chapter file is cleaned up, the rest are kept
+    const storedAfter = [...mockFiles.keys()].filter(file => file.includes('/files/'));
+    expect(storedAfter).toHaveLength(storedBefore.length);
+    expect(storedAfter.filter(file => !storedBefore.includes(file))).toHaveLength(1);
+  });
+
+  it('should remove a pack and go back to the network', async () => {
+    await contentPacks.download(BOOK);
+    await contentPacks.remove(BOOK);
+
+    expect([...mockFiles.keys()]).toEqual([]);
+    expect(await contentPacks.getShlokaById('bg-2-47')).toBeNull();
+    expect((await contentPacks.listPacks())[0].status).toBe('not_installed');
+  });
+});
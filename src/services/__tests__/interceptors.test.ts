@@ -0,0 +1,340 @@
+/**
+ * Tests for the interceptor pipeline
+ */
+import {
+  ApiRequest,
+  Middleware,
+  compose,
+  createInterceptor,
+  withHeaders,
+  authInterceptor,
+  refreshInterceptor,
+  retryInterceptor,
+  errorMappingInterceptor,
+  circuitBreakerInterceptor,
+  parseRetryAfter,
+} from '../interceptors';
+import { ApiRequestError, CircuitOpenError } from '../errors';
+import { CircuitBreaker } from '../circuitBreaker';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+}));
+
+const makeRequest = (): ApiRequest => ({
+  endpoint: '/api/test',
+  url: 'http://localhost:8000/api/test',
+  init: { method: 'GET', headers: { 'Content-Type': 'application/json' } },
+  attempt: 0,
+});
+
+const makeResponse = (status: number, body: unknown = {}, headers: Record<string, string> = {}): Response =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    json: async () => body,
+    headers: new Headers(headers),
+  } as Response);
+
+describe('interceptors', () => {
+  describe('compose', () => {
+    it('should run middleware outermost first around the handler', async () => {
+      const order: string[] = [];
+      const track = (name: string): Middleware => async (request, next) => {
+        order.push(`${name}:before`);
+        const response = await next(request);
+        order.push(`${name}:after`);
+        return response;
+      };
+      const handler = jest.fn(async () => {
+        order.push('handler');
+        return makeResponse(200);
+      });
+
+      await compose([track('a'), track('b')], handler)(makeRequest());
+
+      expect(order).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+    });
+
+    it('should let middleware short-circuit as a test double', async () => {
+      const handler = jest.fn();
+      const stub: Middleware = async () => makeResponse(200, { stubbed: true });
+
+      const response = await compose([stub], handler)(makeRequest());
+
+      expect(await response.json()).toEqual({ stubbed: true });
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createInterceptor', () => {
+    it('should apply request and response hooks', async () => {
+      const handler = jest.fn(async (_request: ApiRequest) => makeResponse(200));
+      const onResponse = jest.fn(response => response);
+      const interceptor = createInterceptor({
+        onRequest: request => withHeaders(request, { 'Accept-Language': 'hi-IN' }),
+        onResponse,
+      });
+
+      await compose([interceptor], handler)(makeRequest());
+
+      expect(handler.mock.calls[0][0].init.headers['Accept-Language']).toBe('hi-IN');
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 200 }),
+        expect.objectContaining({ endpoint: '/api/test' })
+      );
+    });
+
+    it('should let the error hook recover', async () => {
+      const interceptor = createInterceptor({
+        onError: () => makeResponse(200, { recovered: true }),
+      });
+      const failing = jest.fn(async () => {
+        throw new TypeError('Network request failed');
+      });
+
+      const response = await compose([interceptor], failing)(makeRequest());
+
+      expect(await response.json()).toEqual({ recovered: true });
+    });
+  });
+
+  describe('authInterceptor', () => {
+    it('should add the bearer token only when present', async () => {
+      const handler = jest.fn(async (_request: ApiRequest) => makeResponse(200));
+      let token: string | null = null;
+      const chain = compose([authInterceptor(() => token)], handler);
+
+      await chain(makeRequest());
+      token = 'abc';
+      await chain(makeRequest());
+
+      expect(handler.mock.calls[0][0].init.headers.Authorization).toBeUndefined();
+      expect(handler.mock.calls[1][0].init.headers.Authorization).toBe('Bearer abc');
+    });
+  });
+
+  describe('refreshInterceptor', () => {
+    it('should refresh and replay once on 401', async () => {
+      let token = 'expired';
+      const handler = jest.fn(async (request: ApiRequest) =>
+        makeResponse(request.init.headers.Authorization === 'Bearer fresh' ? 200 : 401)
+      );
+      const refresh = jest.fn(async () => {
+        token = 'fresh';
+      });
+      const chain = compose(
+        [refreshInterceptor({ canRefresh: () => true, refresh }), authInterceptor(() => token)],
+        handler
+      );
+
+      const response = await chain(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the original 401 when refresh fails', async () => {
+      const handler = jest.fn(async () => makeResponse(401));
+      const refresh = jest.fn(async () => {
+        throw new Error('expired');
+      });
+
+      const response = await compose([refreshInterceptor({ canRefresh: () => true, refresh })], handler)(
+        makeRequest()
+      );
+
+      expect(response.status).toBe(401);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh before sending when the token is known to be expired', async () => {
+      let token = 'expired';
+      const handler = jest.fn(async (request: ApiRequest) =>
+        makeResponse(request.init.headers.Authorization === 'Bearer fresh' ? 200 : 401)
+      );
+      const refresh = jest.fn(async () => {
+        token = 'fresh';
+      });
+      const chain = compose(
+        [
+          refreshInterceptor({ canRefresh: () => true, refresh, isExpired: () => token === 'expired' }),
+          authInterceptor(() => token),
+        ],
+        handler
+      );
+
+      const response = await chain(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface a transient refresh failure instead of the 401', async () => {
+      const handler = jest.fn(async () => makeResponse(401));
+      const offline = new ApiRequestError('No internet connection', { isNetworkError: true });
+      const refresh = jest.fn(async () => {
+        throw offline;
+      });
+
+      await expect(
+        compose([refreshInterceptor({ canRefresh: () => true, refresh })], handler)(makeRequest())
+      ).rejects.toBe(offline);
+    });
+  });
+
+  describe('retryInterceptor', () => {
+    it('should retry server errors up to the limit', async () => {
+      const handler = jest.fn(async () => makeResponse(503));
+
+      const response = await compose([retryInterceptor({ maxAttempts: 2, delay: 0 })], handler)(
+        makeRequest()
+      );
+
+      expect(response.status).toBe(503);
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(handler.mock.calls.map(call => (call as unknown as [ApiRequest])[0].attempt)).toEqual([0, 1, 2]);
+    });
+
+    it('should retry network failures but not client errors', async () => {
+      const handler = jest
+        .fn()
+        .mockRejectedValueOnce(new TypeError('Network request failed'))
+        .mockResolvedValueOnce(makeResponse(404));
+
+      const response = await compose([retryInterceptor({ maxAttempts: 3, delay: 0 })], handler)(
+        makeRequest()
+      );
+
+      expect(response.status).toBe(404);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait for Retry-After instead of the backoff', async () => {
+      jest.useFakeTimers();
+      const handler = jest
+        .fn()
+        .mockResolvedValueOnce(makeResponse(429, {}, { 'Retry-After': '5' }))
+        .mockResolvedValueOnce(makeResponse(200));
+
+      const pending = compose([retryInterceptor({ maxAttempts: 3, delay: 0, maxRetryAfter: 10000 })], handler)(
+        makeRequest()
+      );
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(handler).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      jest.useRealTimers();
+
+      expect((await pending).status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up at once when Retry-After is too long to wait', async () => {
+      const handler = jest.fn(async () => makeResponse(503, {}, { 'Retry-After': '120' }));
+
+      const response = await compose(
+        [retryInterceptor({ maxAttempts: 3, delay: 0, maxRetryAfter: 10000 })],
+        handler
+      )(makeRequest());
+
+      expect(response.status).toBe(503);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse both forms of Retry-After', () => {
+      const now = Date.parse('2024-03-01T09:00:00Z');
+      expect(parseRetryAfter('30', now)).toBe(30000);
+      expect(parseRetryAfter('Fri, 01 Mar 2024 09:00:45 GMT', now)).toBe(45000);
+      expect(parseRetryAfter('soon', now)).toBeNull();
+      expect(parseRetryAfter(null, now)).toBeNull();
+    });
+  });
+
+  describe('circuitBreakerInterceptor', () => {
+    const options = { failureThreshold: 2, cooldown: 15000, maxCooldown: 60000 };
+
+    it('should open after repeated failures and then fail fast', async () => {
+      const breaker = new CircuitBreaker(options, jest.fn());
+      const handler = jest.fn(async () => makeResponse(500));
+      const chain = compose([circuitBreakerInterceptor(() => breaker)], handler);
+
+      await chain(makeRequest());
+      await chain(makeRequest());
+      await expect(chain(makeRequest())).rejects.toBeInstanceOf(CircuitOpenError);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should open until Retry-After on a 503', async () => {
+      const breaker = new CircuitBreaker(options, jest.fn());
+      const handler = jest.fn(async () => makeResponse(503, {}, { 'Retry-After': '60' }));
+      const chain = compose([circuitBreakerInterceptor(() => breaker)], handler);
+
+      await chain(makeRequest());
+      const error = await chain(makeRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error.retryAt - Date.now()).toBeGreaterThan(55000);
+    });
+
+    it('should not count failures of requests the caller cancelled', async () => {
+      const breaker = new CircuitBreaker({ ...options, failureThreshold: 1 }, jest.fn());
+      const controller = new AbortController();
+      controller.abort();
+      const request = { ...makeRequest(), init: { ...makeRequest().init, signal: controller.signal } };
+      const abort = new Error('Aborted');
+      abort.name = 'AbortError';
+
+      await expect(
+        compose([circuitBreakerInterceptor(() => breaker)], jest.fn().mockRejectedValue(abort))(request)
+      ).rejects.toBe(abort);
+
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+
+  describe('errorMappingInterceptor', () => {
+    it('should map error envelopes to ApiRequestError', async () => {
+      const handler = jest.fn(async () =>
+        makeResponse(400, { message: 'Bad request', data: null, errors: { detail: 'Email already exists' } })
+      );
+
+      const error = await compose([errorMappingInterceptor()], handler)(makeRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toBe('Email already exists');
+    });
+
+    it('should carry Retry-After as retryAt', async () => {
+      const handler = jest.fn(async () => makeResponse(429, { message: 'Slow down' }, { 'Retry-After': '30' }));
+
+      const error = await compose([errorMappingInterceptor()], handler)(makeRequest()).catch(e => e);
+
+      expect(error.statusCode).toBe(429);
+      expect(error.retryAt - Date.now()).toBeGreaterThan(25000);
+    });
+
+    it('should pass 304 through for the cache', async () => {
+      const handler = jest.fn(async () => makeResponse(304));
+
+      const response = await compose([errorMappingInterceptor()], handler)(makeRequest());
+
+      expect(response.status).toBe(304);
+    });
+
+    it('should flag transport failures as network errors', async () => {
+      const handler = jest.fn(async () => {
+        throw new TypeError('Network request failed');
+      });
+
+      const error = await compose([errorMappingInterceptor()], handler)(makeRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error.isNetworkError).toBe(true);
+    });
+  });
+});
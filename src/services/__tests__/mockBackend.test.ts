@@ -0,0 +1,407 @@
+/**
+ * Tests for the in-memory mock backend, driven through ApiService
+ */
+import { apiService, AuthError, CancelledError, ValidationError } from '../api';
+import { MockBackend } from '../mockBackend';
+import { mockShlokas } from '../../data/mockKnowledge';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: false })),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('MockBackend', () => {
+  let clock: number;
+  let backend: MockBackend;
+
+  // Signs up and keeps the session alive across simulated days, like AuthContext does
+  const signup = async () => {
+    const auth = await apiService.signup('Arjuna', 'arjuna@example.com', 'dhanurdhara', 'dhanurdhara');
+    let refresh = auth.tokens.refresh;
+    apiService.setAccessToken(auth.tokens.access);
+    apiService.setRefreshTokenCallback(async () => {
+      const tokens = await apiService.refreshToken(refresh);
+      refresh = tokens.refresh ?? refresh;
+      apiService.setAccessToken(tokens.access);
+    });
+    return auth;
+  };
+
+  beforeEach(async () => {
+    clock = Date.parse('2024-03-01T09:00:00Z');
+    // Token expiry is judged locally too, so the app's clock must match the backend's
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    backend = new MockBackend({ now: () => clock });
+    apiService.setTransport(backend.transport, { local: true });
+    apiService.setAccessToken(null);
+    apiService.setRefreshTokenCallback(null);
+    await apiService.clearCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    apiService.setTransport(null);
+  });
+
+  it('should serve requests while the device is offline', async () => {
+    // NetInfo reports no connection, but a local transport never needs one
+    await expect(apiService.testConnection()).resolves.toBe(true);
+    const shloka = await apiService.getShlokaByChapterVerse('Bhagavad Gita', 2, 47);
+    expect(shloka.shloka.transliteration).toContain('karmaṇy evādhikāras te');
+  });
+
+  it('should run signup → read → streak → achievement', async () => {
+    const auth = await signup();
+    expect(auth.user.email).toBe('arjuna@example.com');
+
+    const { shloka } = await apiService.getRandomShloka();
+    await apiService.logReading(shloka.id, 'summary');
+
+    let stats = await apiService.getUserStats();
+    expect(stats.total_shlokas_read).toBe(1);
+    expect(stats.current_streak).toBe(1);
+    expect((await apiService.getAchievements()).map(a => a.achievement.code)).toEqual(['first_step']);
+
+    // Two more consecutive days
+    for (const day of [1, 2]) {
+      clock += DAY;
+      await apiService.logReading(mockShlokas[day].shloka.id, 'detailed');
+    }
+
+    stats = await apiService.getUserStats();
+    expect(stats.current_streak).toBe(3);
+    expect(stats.total_readings).toBe(3);
+
+    const streak = await apiService.getUserStreak();
+    expect(streak.awarded_milestones).toEqual([3]);
+
+    const history = await apiService.getStreakHistory();
+    expect(history.milestones_reached.map(m => m.days)).toEqual([3]);
+    expect(history.recent_activity).toHaveLength(3);
+
+    const achievements = await apiService.getAchievements();
+    expect(achievements.map(a => a.achievement.code)).toEqual(['first_step', 'steady_practice']);
+  });
+
+  it('should break the streak after a missed day', async () => {
+    await signup();
+    await apiService.markShlokaAsRead(mockShlokas[0].shloka.id);
+
+    clock += 2 * DAY;
+
+    expect((await apiService.getUserStreak()).current_streak).toBe(0);
+    await apiService.logReading(mockShlokas[1].shloka.id, 'summary');
+    expect((await apiService.getUserStreak()).current_streak).toBe(1);
+  });
+
+  it('should apply an idempotent write only once', async () => {
+    await signup();
+    const shlokaId = mockShlokas[0].shloka.id;
+
+    await apiService.logReading(shlokaId, 'summary', { idempotencyKey: 'replayed-key' });
+    await apiService.logReading(shlokaId, 'summary', { idempotencyKey: 'replayed-key' });
+
+    expect((await apiService.getUserStats()).total_readings).toBe(1);
+  });
+
+  it('should keep shlokas that were opened or shown for offline search', async () => {
+    await signup();
+    const opened = await apiService.getShlokaByChapterVerse('Bhagavad Gita', 2, 47);
+    const shown = await apiService.getRandomShloka();
+    await apiService.getShlokaCatalog();
+
+    const cached = await apiService.getCachedShlokas();
+    expect(cached.map(item => item.shloka.id).sort()).toEqual([...new Set([opened.shloka.id, shown.shloka.id])].sort());
+    expect(cached.every(item => item.explanation)).toBe(true);
+  });
+
+  it('should keep favorites and reject duplicates', async () => {
+    await signup();
+    const shlokaId = mockShlokas[2].shloka.id;
+
+    await apiService.addFavorite(shlokaId);
+    await expect(apiService.addFavorite(shlokaId)).rejects.toBeInstanceOf(ValidationError);
+    expect((await apiService.getFavorites()).map(f => f.shloka.id)).toEqual([shlokaId]);
+
+    await apiService.removeFavorite(shlokaId);
+    expect(await apiService.getFavorites()).toEqual([]);
+  });
+
+  it('should list the library with read markers for the signed-in user', async () => {
+    const signedOut = await apiService.getShlokaCatalog();
+    expect(signedOut.books.length).toBeGreaterThan(0);
+    expect(signedOut.books[0].read_count).toBeUndefined();
+    expect(signedOut.books[0].chapters[0].verses[0].is_read).toBeUndefined();
+
+    await signup();
+    const [first] = mockShlokas;
+    await apiService.markShlokaAsRead(first.shloka.id);
+
+    const catalog = await apiService.getShlokaCatalog();
+    const book = catalog.books.find(b => b.book_name === first.shloka.book_name)!;
+    const chapter = book.chapters.find(c => c.chapter_number === first.shloka.chapter_number)!;
+    expect(book.read_count).toBe(1);
+    expect(chapter.read_count).toBe(1);
+    expect(chapter.verses.find(v => v.id === first.shloka.id)?.is_read).toBe(true);
+    expect(book.verse_count).toBe(book.chapters.reduce((sum, c) => sum + c.verse_count, 0));
+  });
+
+  it('should report field errors on signup', async () => {
+    await signup();
+
+    const error = await apiService.signup('Arjuna', 'arjuna@example.com', 'short', 'other').catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.getFieldError('email')).toBe('A user with this email already exists.');
+    expect(error.fieldErrors.password).toBeDefined();
+    expect(error.fieldErrors.password_confirm).toBeDefined();
+  });
+
+  it('should expire access tokens and accept the refresh token', async () => {
+    const auth = await signup();
+    apiService.setRefreshTokenCallback(null);
+
+    clock += 20 * 60 * 1000;
+    await expect(apiService.getUserStats()).rejects.toBeInstanceOf(AuthError);
+
+    const tokens = await apiService.refreshToken(auth.tokens.refresh);
+    apiService.setAccessToken(tokens.access);
+    await expect(apiService.getUserStats()).resolves.toMatchObject({ total_readings: 0 });
+  });
+
+  it('should refresh an expired token before sending instead of after a 401', async () => {
+    await signup();
+    const statuses: number[] = [];
+    const unsubscribe = apiService.use(async (request, next) => {
+      const response = await next(request);
+      statuses.push(response.status);
+      return response;
+    });
+
+    clock += 20 * 60 * 1000;
+    await expect(apiService.getUserStats()).resolves.toMatchObject({ total_readings: 0 });
+    unsubscribe();
+
+    // The refresh call, then the request itself - no failed round trip
+    expect(statuses).toEqual([200, 200]);
+  });
+
+  it('should not wait on itself when the refresh token is rejected', async () => {
+    await signup();
+    apiService.setRefreshTokenCallback(async () => {
+      await apiService.refreshToken('not-a-refresh-token');
+    });
+
+    clock += 20 * 60 * 1000;
+    await expect(apiService.getUserStats()).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('should answer chat messages with a cited verse', async () => {
+    await signup();
+
+    const first = await apiService.sendChatMessage('How do I stop worrying about results at work?');
+    expect(first.response).toMatch(/Chapter 2, Verse 47/);
+
+    const followUp = await apiService.sendChatMessage('Tell me more', first.conversation.id);
+    expect(followUp.conversation.messages).toHaveLength(4);
+
+    await apiService.deleteConversation(first.conversation.id);
+    expect(await apiService.getConversations()).toEqual([]);
+  });
+
+  it('should stream chat replies token by token', async () => {
+    await signup();
+    const tokens: string[] = [];
+    const onConversation = jest.fn();
+
+    const result = await apiService.streamChatMessage('How do I stop worrying about results at work?', undefined, {
+      onToken: token => tokens.push(token),
+      onConversation,
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(result.response);
+    expect(onConversation).toHaveBeenCalledWith(result.conversation.id);
+    expect(result.conversation.messages).toHaveLength(2);
+  });
+
+  it('should stop generating when aborted, keeping the tokens already received', async () => {
+    backend = new MockBackend({ now: () => clock, tokenInterval: 5 });
+    apiService.setTransport(backend.transport, { local: true });
+    await signup();
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const pending = apiService.streamChatMessage('What is dharma?', undefined, {
+      signal: controller.signal,
+      onToken: token => {
+        tokens.push(token);
+        if (tokens.length === 3) {
+          controller.abort();
+        }
+      },
+    });
+
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+    expect(tokens).toHaveLength(3);
+  });
+
+  it('should skip a malformed event in the stream', async () => {
+    await signup();
+    let injected = false;
+    // Garbles the stream with an event that isn't JSON ahead of the real ones
+    apiService.setTransport(
+      request =>
+        backend.transport(
+          request.onChunk
+            ? {
+                ...request,
+                onChunk: chunk => {
+                  if (!injected) {
+                    injected = true;
+                    request.onChunk!('event: token\ndata: {"content": "Dear\n\n');
+                  }
+                  request.onChunk!(chunk);
+                },
+              }
+            : request
+        ),
+      { local: true }
+    );
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const tokens: string[] = [];
+
+    const result = await apiService.streamChatMessage('What is dharma?', undefined, {
+      onToken: token => tokens.push(token),
+    });
+
+    expect(injected).toBe(true);
+    expect(tokens.join('')).toBe(result.response);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('malformed "token" event'));
+  });
+
+  it('should fall back to the regular endpoint when streaming is not supported', async () => {
+    backend = new MockBackend({ now: () => clock, streaming: false });
+    apiService.setTransport(backend.transport, { local: true });
+    await signup();
+    const onToken = jest.fn();
+
+    const result = await apiService.streamChatMessage('What is dharma?', undefined, { onToken });
+
+    expect(onToken).toHaveBeenCalledTimes(1);
+    expect(onToken).toHaveBeenCalledWith(result.response);
+    expect(result.conversation.messages).toHaveLength(2);
+  });
+
+  it('should keep a conversation about a shloka on that shloka', async () => {
+    await signup();
+    const { shloka } = mockShlokas[mockShlokas.length - 1];
+    const shlokaContext = {
+      shloka_id: shloka.id,
+      book_name: shloka.book_name,
+      chapter_number: shloka.chapter_number,
+      verse_number: shloka.verse_number,
+      text: shloka.sanskrit_text,
+    };
+
+    const result = await apiService.streamChatMessage('What does this mean?', undefined, {
+      onToken: () => {},
+      shlokaContext,
+    });
+
+    expect(result.conversation.shloka_context).toEqual(shlokaContext);
+    expect(result.response).toContain(`Chapter ${shloka.chapter_number}, Verse ${shloka.verse_number}`);
+    const [saved] = await apiService.getConversations();
+    expect(saved.shloka_context?.shloka_id).toBe(shloka.id);
+  });
+
+  it('should branch a conversation on edit and regenerate, and remember the active branch', async () => {
+    await signup();
+    const first = await apiService.sendChatMessage('How do I stop worrying about results at work?');
+    const conversationId = first.conversation.id;
+    const [question, reply] = first.conversation.messages;
+
+    const regenerated = await apiService.regenerateReply(conversationId, reply.id);
+    expect(regenerated.response).not.toBe(first.response);
+    const alternative = regenerated.conversation.messages[2];
+    expect(alternative.parent_id).toBe(question.id);
+    expect(regenerated.conversation.active_leaf_id).toBe(alternative.id);
+
+    // Editing the question starts a new branch from the beginning
+    const edited = await apiService.sendChatMessage('What is dharma?', conversationId, { parentId: null });
+    const editedQuestion = edited.conversation.messages[3];
+    expect(editedQuestion.parent_id).toBeNull();
+    expect(edited.conversation.messages).toHaveLength(5);
+
+    await apiService.setActiveBranch(conversationId, reply.id);
+    const followUp = await apiService.sendChatMessage('Tell me more', conversationId);
+    expect(followUp.conversation.messages[5].parent_id).toBe(reply.id);
+  });
+
+  it('should regenerate a reply saved before conversations could branch', async () => {
+    await signup();
+    const first = await apiService.sendChatMessage('How do I stop worrying about results at work?');
+    const [question, reply] = first.conversation.messages;
+    // Older conversations have no parent_id on their messages; each follows the previous one
+    const [user] = (backend as any).users.values();
+    user.conversations[0].messages.forEach((message: { parent_id?: string | null }) => delete message.parent_id);
+    delete user.conversations[0].active_leaf_id;
+
+    const regenerated = await apiService.regenerateReply(first.conversation.id, reply.id);
+
+    expect(regenerated.response).not.toBe(first.response);
+    expect(regenerated.conversation.messages[2].parent_id).toBe(question.id);
+  });
+
+  it('should keep soft-deleted conversations in the trash until restored or purged', async () => {
+    await signup();
+    const kept = await apiService.sendChatMessage('What is dharma?');
+    const discarded = await apiService.sendChatMessage('How do I stop worrying about results at work?');
+    await apiService.deleteConversation(kept.conversation.id);
+    clock += DAY;
+    await apiService.deleteConversation(discarded.conversation.id);
+
+    const trash = await apiService.getTrashedConversations();
+    expect(trash.map(conversation => conversation.id)).toEqual([discarded.conversation.id, kept.conversation.id]);
+    expect(trash[1].deleted_at).toBe('2024-03-01T09:00:00.000Z');
+
+    const restored = await apiService.restoreConversation(kept.conversation.id);
+    expect(restored.messages).toHaveLength(2);
+    expect((await apiService.getConversations()).map(conversation => conversation.id)).toEqual([kept.conversation.id]);
+
+    await expect(apiService.emptyTrash()).resolves.toMatchObject({ count: 1 });
+    expect(await apiService.getTrashedConversations()).toEqual([]);
+  });
+
+  it('should return audio for text to speech', async () => {
+    await signup();
+
+    const response = await apiService.requestRaw('/api/tts/speak', {
+      method: 'POST',
+      body: JSON.stringify({ shloka_id: mockShlokas[0].shloka.id }),
+    });
+
+    expect(response.headers.get('Content-Type')).toBe('audio/wav');
+    expect((await response.text()).startsWith('RIFF')).toBe(true);
+  });
+
+  it('should honour cancellation', async () => {
+    const slowBackend = new MockBackend({ now: () => clock, latency: 1000 });
+    apiService.setTransport(slowBackend.transport, { local: true });
+    const controller = new AbortController();
+
+    const pending = apiService.getShlokaById(mockShlokas[0].shloka.id, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Tests for the mock backend's SHA-256
+ */
+import { sha256, utf8Bytes } from '../mockSha256';
+
+const { createHash } = require('crypto');
+
+describe('sha256', () => {
+  it('should match the standard test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('should hash the UTF-8 bytes of text in any script, across block boundaries', () => {
+    const text = 'कर्मण्येवाधिकारस्ते मा फलेषु कदाचन — karmaṇy evādhikāras te 🙏 '.repeat(3);
+    expect(sha256(text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+  });
+
+  it('should encode text as UTF-8', () => {
+    expect(utf8Bytes('a')).toEqual([0x61]);
+    expect(utf8Bytes('ā')).toEqual([0xc4, 0x81]);
+    expect(utf8Bytes('क')).toEqual([0xe0, 0xa4, 0x95]);
+    expect(utf8Bytes('🙏')).toEqual([0xf0, 0x9f, 0x99, 0x8f]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for the offline mutation queue
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+}));
+
+jest.mock('../api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(() => 'test-token'),
+    logReading: jest.fn(),
+    markShlokaAsRead: jest.fn(),
+    addFavorite: jest.fn(),
+  },
+}));
+
+// Re-required per test alongside the queue so they share module instances
+let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+let ApiRequestError: typeof import('../errors').ApiRequestError;
+
+const offlineError = () =>
+  new ApiRequestError('No internet connection. Please check your network settings.', {
+    isNetworkError: true,
+  });
+
+describe('offlineQueue', () => {
+  // Fresh module per test so in-memory state doesn't leak between cases
+  let offlineQueue: typeof import('../offlineQueue').offlineQueue;
+  let apiService: any;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    offlineQueue = require('../offlineQueue').offlineQueue;
+    ApiRequestError = require('../errors').ApiRequestError;
+    apiService = require('../api').apiService;
+    apiService.getAccessToken.mockReturnValue('test-token');
+    apiService.logReading.mockReset();
+    apiService.markShlokaAsRead.mockReset();
+    apiService.addFavorite.mockReset();
+  });
+
+  it('should send immediately when online', async () => {
+    apiService.logReading.mockResolvedValueOnce(undefined);
+
+    const result = await offlineQueue.submit({
+      type: 'logReading',
+      shlokaId: 'shloka-1',
+      readingType: 'summary',
+    });
+
+    expect(result).toBe('sent');
+    expect(offlineQueue.getPendingCount()).toBe(0);
+    expect(apiService.logReading).toHaveBeenCalledWith('shloka-1', 'summary', {
+      idempotencyKey: expect.any(String),
+    });
+  });
+
+  it('should persist the mutation when offline', async () => {
+    apiService.markShlokaAsRead.mockRejectedValueOnce(offlineError());
+
+    const result = await offlineQueue.submit({
+      type: 'markShlokaAsRead',
+      shlokaId: 'shloka-1',
+      marked: true,
+    });
+
+    expect(result).toBe('queued');
+    expect(offlineQueue.getPendingCount()).toBe(1);
+    const stored = JSON.parse((await AsyncStorage.getItem('@dharmasaar_offline_queue'))!);
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ type: 'markShlokaAsRead', shlokaId: 'shloka-1', attempts: 1 });
+  });
+
+  it('should queue on server errors but rethrow client errors', async () => {
+    apiService.addFavorite
+      .mockRejectedValueOnce(new ApiRequestError('Server issues', { statusCode: 503 }))
+      .mockRejectedValueOnce(new ApiRequestError('Already favorited', { statusCode: 400 }));
+
+    await expect(offlineQueue.submit({ type: 'addFavorite', shlokaId: 'a' })).resolves.toBe('queued');
+
+    await offlineQueue.clear();
+    await expect(offlineQueue.submit({ type: 'addFavorite', shlokaId: 'b' })).rejects.toThrow(
+      'Already favorited'
+    );
+    expect(offlineQueue.getPendingCount()).toBe(0);
+  });
+
+  it('should replay in order with the original idempotency keys', async () => {
+    apiService.logReading.mockRejectedValueOnce(offlineError());
+    await offlineQueue.submit({ type: 'logReading', shlokaId: 'first', readingType: 'summary' });
+    const [queued] = offlineQueue.getEntries();
+
+    // Later writes wait behind pending ones even if the network is back
+    const calls: string[] = [];
+    apiService.logReading.mockImplementation(async (id: string) => {
+      calls.push(`log:${id}`);
+    });
+    apiService.addFavorite.mockImplementation(async (id: string) => {
+      calls.push(`fav:${id}`);
+    });
+
+    await offlineQueue.submit({ type: 'addFavorite', shlokaId: 'second' });
+    await offlineQueue.flush();
+
+    expect(calls).toEqual(['log:first', 'fav:second']);
+    expect(apiService.logReading).toHaveBeenLastCalledWith('first', 'summary', {
+      idempotencyKey: queued.idempotencyKey,
+    });
+    expect(offlineQueue.getPendingCount()).toBe(0);
+  });
+
+  it('should stop replaying at the first transient failure', async () => {
+    apiService.logReading.mockRejectedValue(offlineError());
+    await offlineQueue.submit({ type: 'logReading', shlokaId: 'one', readingType: 'summary' });
+    await offlineQueue.submit({ type: 'logReading', shlokaId: 'two', readingType: 'detailed' });
+    await offlineQueue.flush();
+
+    expect(offlineQueue.getPendingCount()).toBe(2);
+    expect(offlineQueue.getEntries()[0].shlokaId).toBe('one');
+  });
+
+  it('should keep rate-limited writes and replay them once Retry-After has passed', async () => {
+    jest.useFakeTimers();
+    try {
+      const { RateLimitError } = require('../errors');
+      apiService.logReading.mockRejectedValueOnce(
+        new RateLimitError('Too many requests', { statusCode: 429, retryAt: Date.now() + 60000 })
+      );
+
+      await expect(
+        offlineQueue.submit({ type: 'logReading', shlokaId: 'one', readingType: 'summary' })
+      ).resolves.toBe('queued');
+      // Reconnecting before then doesn't send it
+      await offlineQueue.flush();
+      expect(apiService.logReading).toHaveBeenCalledTimes(1);
+
+      apiService.logReading.mockResolvedValueOnce(undefined);
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(apiService.logReading).toHaveBeenCalledTimes(2);
+      expect(offlineQueue.getPendingCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not replay without a session', async () => {
+    apiService.logReading.mockRejectedValueOnce(offlineError());
+    await offlineQueue.submit({ type: 'logReading', shlokaId: 'one', readingType: 'summary' });
+
+    apiService.getAccessToken.mockReturnValue(null);
+    await offlineQueue.flush();
+
+    expect(apiService.logReading).toHaveBeenCalledTimes(1);
+    expect(offlineQueue.getPendingCount()).toBe(1);
+  });
+
+  it('should restore persisted entries and notify subscribers', async () => {
+    await AsyncStorage.setItem(
+      '@dharmasaar_offline_queue',
+      JSON.stringify([
+        {
+          id: 'x',
+          idempotencyKey: 'key-x',
+          createdAt: '2024-01-01T00:00:00Z',
+          attempts: 1,
+          type: 'addFavorite',
+          shlokaId: 'shloka-9',
+        },
+      ])
+    );
+    apiService.addFavorite.mockResolvedValueOnce({});
+
+    const counts: number[] = [];
+    offlineQueue.subscribe(count => counts.push(count));
+    await offlineQueue.flush();
+
+    expect(apiService.addFavorite).toHaveBeenCalledWith('shloka-9', { idempotencyKey: 'key-x' });
+    expect(counts).toEqual([1, 0]);
+  });
+});
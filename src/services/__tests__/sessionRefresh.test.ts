@@ -0,0 +1,99 @@
+/**
+ * Tests for proactive access-token refresh
+ */
+import { AppState } from 'react-native';
+import { sessionRefresh } from '../sessionRefresh';
+import { apiService } from '../api';
+import { ApiRequestError, AuthError } from '../errors';
+import { encodeBase64Url } from '../../utils/base64';
+
+jest.mock('../api', () => ({
+  apiService: {
+    getAccessToken: jest.fn(),
+    refreshSession: jest.fn(),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+
+const tokenExpiringIn = (ms: number) =>
+  `${encodeBase64Url('{"alg":"HS256"}')}.${encodeBase64Url(
+    JSON.stringify({ exp: Math.floor((Date.now() + ms) / 1000) })
+  )}.signature`;
+
+describe('sessionRefresh', () => {
+  const getAccessToken = apiService.getAccessToken as jest.Mock;
+  const refreshSession = apiService.refreshSession as jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    getAccessToken.mockReset();
+    refreshSession.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    sessionRefresh.cancel();
+    jest.useRealTimers();
+  });
+
+  it('should refresh a minute before the token expires', () => {
+    getAccessToken.mockReturnValue(tokenExpiringIn(15 * MINUTE));
+
+    sessionRefresh.schedule();
+    jest.advanceTimersByTime(13 * MINUTE);
+    expect(refreshSession).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1 * MINUTE);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh immediately when the token is already stale', () => {
+    getAccessToken.mockReturnValue(tokenExpiringIn(-MINUTE));
+
+    sessionRefresh.schedule();
+
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not schedule without a readable expiry', () => {
+    getAccessToken.mockReturnValue('opaque-token');
+
+    sessionRefresh.schedule();
+    jest.runOnlyPendingTimers();
+
+    expect(refreshSession).not.toHaveBeenCalled();
+  });
+
+  it('should retry later after a transient failure but not after a rejection', async () => {
+    getAccessToken.mockReturnValue(tokenExpiringIn(-MINUTE));
+    refreshSession.mockRejectedValueOnce(new ApiRequestError('offline', { isNetworkError: true }));
+
+    sessionRefresh.schedule();
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(refreshSession).toHaveBeenCalledTimes(2);
+
+    refreshSession.mockRejectedValueOnce(new AuthError('Token is invalid or expired', { statusCode: 401 }));
+    sessionRefresh.schedule();
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(refreshSession).toHaveBeenCalledTimes(3);
+  });
+
+  it('should refresh a stale token when the app returns to the foreground', async () => {
+    const addEventListener = jest.spyOn(AppState, 'addEventListener');
+    const stop = sessionRefresh.start();
+    const onChange = addEventListener.mock.calls[0][1];
+
+    getAccessToken.mockReturnValue(tokenExpiringIn(10 * MINUTE));
+    onChange('active');
+    expect(refreshSession).not.toHaveBeenCalled();
+
+    getAccessToken.mockReturnValue(tokenExpiringIn(30 * 1000));
+    onChange('background');
+    expect(refreshSession).not.toHaveBeenCalled();
+    onChange('active');
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+
+    stop();
+    addEventListener.mockRestore();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the speech queue
+ */
+import { speechQueue, getAutoReadReplies, setAutoReadReplies } from '../speechQueue';
+import { ttsService } from '../ttsService';
+import { SANSKRIT_LANGUAGE, ENGLISH_LANGUAGE } from '../../utils/speechChunks';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../ttsService', () => ({
+  ttsService: {
+    speak: jest.fn(() => Promise.resolve()),
+    stop: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+const speak = ttsService.speak as jest.Mock;
+
+/** Finish playing the chunk spoken last (finished = false: something else interrupted it) */
+const endPlayback = async (finished = true) => {
+  const options = speak.mock.calls[speak.mock.calls.length - 1][1];
+  options.onEnd(finished);
+  // Let the next chunk's speak call resolve
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const spokenTexts = () => speak.mock.calls.map(call => call[0]);
+
+const REPLY = 'Act without attachment. कर्मण्येवाधिकारस्ते मा फलेषु कदाचन । That is the teaching.';
+
+describe('speechQueue', () => {
+  beforeEach(async () => {
+    await speechQueue.stop();
+    jest.clearAllMocks();
+  });
+
+  it('should read a reply chunk by chunk, each in the voice for its language', async () => {
+    await speechQueue.play('message-1', REPLY);
+    expect(speechQueue.getState()).toEqual({ key: 'message-1', index: 0, total: 3, isLoading: false });
+
+    await endPlayback();
+    await endPlayback();
+
+    expect(speak.mock.calls.map(call => [call[0], call[1].language])).toEqual([
+      ['Act without attachment.', ENGLISH_LANGUAGE],
+      ['कर्मण्येवाधिकारस्ते मा फलेषु कदाचन', SANSKRIT_LANGUAGE],
+      ['That is the teaching.', ENGLISH_LANGUAGE],
+    ]);
+
+    await endPlayback();
+    expect(speechQueue.getState().key).toBeNull();
+  });
+
+  it('should skip to the next chunk and ignore the end of the skipped one', async () => {
+    await speechQueue.play('message-1', REPLY);
+    const skippedOptions = speak.mock.calls[0][1];
+
+    await speechQueue.skip();
+    // Starting the next chunk stops the skipped one
+    skippedOptions.onEnd(false);
+
+    expect(spokenTexts()).toEqual(['Act without attachment.', 'कर्मण्येवाधिकारस्ते मा फलेषु कदाचन']);
+    expect(speechQueue.getState()).toMatchObject({ key: 'message-1', index: 1 });
+  });
+
+  it('should stop reading and notify subscribers', async () => {
+    const listener = jest.fn();
+    const unsubscribe = speechQueue.subscribe(listener);
+
+    await speechQueue.play('message-1', REPLY);
+    await speechQueue.stop();
+    unsubscribe();
+
+    expect(ttsService.stop).toHaveBeenCalled();
+    expect(listener).toHaveBeenLastCalledWith({ key: null, index: 0, total: 0, isLoading: false });
+    expect(spokenTexts()).toEqual(['Act without attachment.']);
+  });
+
+  it('should give up when something else starts playing', async () => {
+    await speechQueue.play('message-1', REPLY);
+    await endPlayback(false);
+
+    expect(speechQueue.getState().key).toBeNull();
+    expect(speak).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject when the reply cannot be played', async () => {
+    speak.mockRejectedValueOnce(new Error('TTS unavailable'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(speechQueue.play('message-1', REPLY)).rejects.toThrow('TTS unavailable');
+    expect(speechQueue.getState().key).toBeNull();
+    consoleError.mockRestore();
+  });
+
+  it('should remember the auto-read setting', async () => {
+    expect(await getAutoReadReplies()).toBe(false);
+    await setAutoReadReplies(true);
+    expect(await getAutoReadReplies()).toBe(true);
+  });
+});
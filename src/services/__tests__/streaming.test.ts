@@ -0,0 +1,134 @@
+/**
+ * Tests for the streaming response parser
+ */
+import { createStreamParser, isStreamContentType, sendStreamingRequest, StreamEvent } from '../streaming';
+
+describe('createStreamParser', () => {
+  const collect = () => {
+    const events: StreamEvent[] = [];
+    const parser = createStreamParser(event => events.push(event));
+    return { events, parser };
+  };
+
+  it('should parse server-sent events split across chunks', () => {
+    const { events, parser } = collect();
+
+    parser.push('event: token\ndata: {"content":"Dear "}\n\nevent: tok');
+    expect(events).toEqual([{ event: 'token', data: '{"content":"Dear "}' }]);
+
+    parser.push('en\ndata: {"content":"Arjuna"}\n\n: keep-alive\n\n');
+    parser.push('data: plain');
+    parser.end();
+
+    expect(events).toEqual([
+      { event: 'token', data: '{"content":"Dear "}' },
+      { event: 'token', data: '{"content":"Arjuna"}' },
+      { event: 'message', data: 'plain' },
+    ]);
+  });
+
+  it('should join multi-line data fields', () => {
+    const { events, parser } = collect();
+
+    parser.push('data: first\r\ndata: second\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('should parse newline-delimited JSON by its type field', () => {
+    const { events, parser } = collect();
+
+    parser.push('{"type":"token","content":"Dear "}\n{"type":"to');
+    parser.push('ken","content":"Arjuna"}\n{"type":"done"}');
+    parser.end();
+
+    expect(events.map(event => event.event)).toEqual(['token', 'token', 'done']);
+    expect(JSON.parse(events[1].data).content).toBe('Arjuna');
+  });
+});
+
+describe('isStreamContentType', () => {
+  it('should recognise streaming content types', () => {
+    expect(isStreamContentType('text/event-stream; charset=utf-8')).toBe(true);
+    expect(isStreamContentType('application/x-ndjson')).toBe(true);
+    expect(isStreamContentType('application/json')).toBe(false);
+    expect(isStreamContentType(null)).toBe(false);
+  });
+});
+
+describe('sendStreamingRequest', () => {
+  // Just enough of XMLHttpRequest to stream a body in chunks
+  class FakeXhr {
+    static HEADERS_RECEIVED = 2;
+    static LOADING = 3;
+    static DONE = 4;
+    static last: FakeXhr;
+    readyState = 0;
+    status = 0;
+    responseText = '';
+    onreadystatechange: () => void = () => {};
+    onerror: () => void = () => {};
+    abort = jest.fn();
+    constructor() {
+      FakeXhr.last = this;
+    }
+    open() {}
+    setRequestHeader() {}
+    send() {}
+    getResponseHeader() {
+      return 'text/event-stream';
+    }
+    getAllResponseHeaders() {
+      return 'Content-Type: text/event-stream';
+    }
+    receive(text: string, readyState: number) {
+      this.status = 200;
+      this.responseText += text;
+      this.readyState = readyState;
+      this.onreadystatechange();
+    }
+  }
+
+  const originalXhr = globalThis.XMLHttpRequest;
+  beforeEach(() => {
+    (globalThis as any).XMLHttpRequest = FakeXhr;
+  });
+  afterEach(() => {
+    globalThis.XMLHttpRequest = originalXhr;
+  });
+
+  const request = (onChunk: (chunk: string) => void) => ({
+    endpoint: '/api/chat/message/stream',
+    url: 'http://localhost:8000/api/chat/message/stream',
+    init: { method: 'POST', headers: {} },
+    attempt: 0,
+    onChunk,
+  });
+
+  it('should pass chunks on as they arrive', async () => {
+    const chunks: string[] = [];
+    const pending = sendStreamingRequest(request(chunk => chunks.push(chunk)), 1000);
+
+    FakeXhr.last.receive('', FakeXhr.HEADERS_RECEIVED);
+    FakeXhr.last.receive('data: one\n\n', FakeXhr.LOADING);
+    FakeXhr.last.receive('data: two\n\n', FakeXhr.DONE);
+
+    await expect(pending).resolves.toMatchObject({ status: 200 });
+    expect(chunks).toEqual(['data: one\n\n', 'data: two\n\n']);
+  });
+
+  it('should fail the request when handling a chunk throws', async () => {
+    const pending = sendStreamingRequest(
+      request(() => {
+        throw new SyntaxError('Unexpected token');
+      }),
+      1000
+    );
+
+    FakeXhr.last.receive('', FakeXhr.HEADERS_RECEIVED);
+    FakeXhr.last.receive('data: {oops\n\n', FakeXhr.LOADING);
+
+    await expect(pending).rejects.toBeInstanceOf(SyntaxError);
+    expect(FakeXhr.last.abort).toHaveBeenCalled();
+  });
+});
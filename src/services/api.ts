@@ -2,72 +2,220 @@
  * API service for communicating with the backend
  */
 import { apiConfig } from '../config/api';
-import { getUserFriendlyError, calculateBackoffDelay, checkNetworkStatus, waitForNetwork } from '../utils/errorHandler';
-
-export interface Shloka {
-  id: string; // UUID as string from JSON
-  book_name: string;
-  chapter_number: number;
-  verse_number: number;
-  sanskrit_text: string;
-  transliteration?: string | null;
-  word_by_word?: WordByWordItem[] | null; // Word-by-word breakdown from shloka
-  created_at?: string | null; // ISO 8601 datetime string, optional
-  updated_at?: string | null; // ISO 8601 datetime string, optional
+import {
+  envelope,
+  ShlokaWithExplanationSchema,
+  ShlokaCatalogSchema,
+  PackListSchema,
+  PackManifestSchema,
+  AuthResponseSchema,
+  TokenRefreshSchema,
+  ReadingLogSchema,
+  UserStatsSchema,
+  UserStreakSchema,
+  StreakFreezeSchema,
+  StreakHistorySchema,
+  FavoriteSchema,
+  UserAchievementSchema,
+  MarkReadSchema,
+  ConversationSchema,
+  ChatResponseSchema,
+  UserProfileSchema,
+  DeleteAccountSchema,
+  DeleteConversationSchema,
+  DeleteAllConversationsSchema,
+  TrashedConversationSchema,
+  EmptyTrashSchema,
+  ShlokaWithExplanation,
+  ShlokaCatalog,
+  PackSummary,
+  PackManifest,
+  AuthResponse,
+  UserStats,
+  UserStreak,
+  StreakHistory,
+  Favorite,
+  UserAchievement,
+  MarkReadResult,
+  Conversation,
+  TrashedConversation,
+  ChatResponse,
+  ChatShlokaContext,
+  UserProfile,
+} from './apiSchemas';
+import { s, Schema, parse, SchemaValidationError } from '../utils/schema';
+import { isTransientError, CancelledError, ApiRequestError, ServerError } from './errors';
+import {
+  Middleware,
+  Next,
+  compose,
+  createFetchTransport,
+  errorMappingInterceptor,
+  connectivityInterceptor,
+  circuitBreakerInterceptor,
+  retryInterceptor,
+  refreshInterceptor,
+  authInterceptor,
+} from './interceptors';
+import { responseCache, CachePolicy } from './responseCache';
+import { CircuitBreakerRegistry } from './circuitBreaker';
+import { createStreamParser, isStreamContentType } from './streaming';
+import { isTokenExpiring } from '../utils/jwt';
+
+export type {
+  WordByWordItem,
+  Shloka,
+  ModernExample,
+  Explanation,
+  ShlokaWithExplanation,
+  CatalogVerse,
+  CatalogChapter,
+  CatalogBook,
+  ShlokaCatalog,
+  PackSummary,
+  PackChunk,
+  PackAudio,
+  PackManifest,
+  AuthUser,
+  AuthResponse,
+  UserStats,
+  UserStreak,
+  StreakHistory,
+  Favorite,
+  UserAchievement,
+  MarkReadResult,
+  ChatMessage,
+  Conversation,
+  TrashedConversation,
+  ChatResponse,
+  ChatShlokaContext,
+  UserProfile,
+} from './apiSchemas';
+export { SchemaValidationError } from '../utils/schema';
+export {
+  ApiRequestError,
+  NetworkError,
+  TimeoutError,
+  AuthError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  CircuitOpenError,
+  CancelledError,
+  isTransientError,
+} from './errors';
+export type { Middleware, Next, ApiRequest, InterceptorHooks } from './interceptors';
+export { createInterceptor, withHeaders } from './interceptors';
+
+export interface ApiError {
+  error: string;
+  detail?: string;
 }
 
-export interface WordByWordItem {
-  sanskrit: string;
-  transliteration: string;
-  meaning: string;
+/**
+ * Options accepted by every ApiService method
+ */
+export interface CallOptions {
+  /** Cancels the request (e.g. when the screen unmounts); rejects with CancelledError */
+  signal?: AbortSignal;
 }
 
-export interface ModernExample {
-  category: string;
-  description: string;
+/**
+ * Options accepted by write endpoints that may be replayed from the offline queue
+ */
+export interface MutationOptions extends CallOptions {
+  /** Sent as `Idempotency-Key` so the backend can ignore duplicate replays */
+  idempotencyKey?: string;
 }
 
-export interface Explanation {
-  id: string; // UUID as string from JSON
-  shloka_id: string; // UUID as string from JSON
-  // Structured fields
-  summary?: string | null;
-  detailed_meaning?: string | null;
-  detailed_explanation?: string | null;
-  context?: string | null;
-  why_this_matters?: string | null;
-  modern_examples?: ModernExample[] | null;
-  themes?: string[] | null;
-  reflection_prompt?: string | null;
-  // Quality tracking
-  quality_score?: number | null;
-  quality_checked_at?: string | null;
-  improvement_version?: number | null;
-  // Metadata
-  ai_model_used?: string | null;
-  generation_prompt?: string | null;
-  // Computed field (backward compatibility)
-  explanation_text?: string | null;
-  created_at?: string | null; // ISO 8601 datetime string, optional
-  updated_at?: string | null; // ISO 8601 datetime string, optional
+/**
+ * Options for sending a chat message
+ */
+export interface ChatSendOptions extends MutationOptions {
+  /** Start the new conversation about this shloka (ignored when continuing one) */
+  shlokaContext?: ChatShlokaContext;
+  /**
+   * Branch: follow this message instead of the end of the current branch (null to
+   * branch from the very start). Used to edit an earlier question.
+   */
+  parentId?: string | null;
 }
 
-export interface ShlokaWithExplanation {
-  shloka: Shloka;
-  explanation?: Explanation;
+/**
+ * Options for streamChatMessage
+ */
+export interface ChatStreamOptions extends ChatSendOptions {
+  /** Receives each piece of the reply as it is generated */
+  onToken: (token: string) => void;
+  /** Called as soon as the backend has created (or found) the conversation */
+  onConversation?: (conversationId: string) => void;
 }
 
-export interface ApiError {
-  error: string;
-  detail?: string;
+/**
+ * Shlokas stored on the device (see ./contentPacks), tried before the network.
+ * Each lookup resolves to null when the shloka isn't stored.
+ */
+export interface OfflineShlokaSource {
+  getShlokaById(shlokaId: string): Promise<ShlokaWithExplanation | null>;
+  getShlokaByChapterVerse(
+    bookName: string,
+    chapterNumber: number,
+    verseNumber: number
+  ): Promise<ShlokaWithExplanation | null>;
+}
+
+type SendOptions = RequestInit &
+  MutationOptions & {
+    /** Receive a streaming response body as it arrives (see ./streaming) */
+    onChunk?: (chunk: string) => void;
+  };
+
+type RequestOptions = SendOptions & {
+  /** Cached endpoints made stale by this request once it succeeds */
+  invalidates?: string[];
+};
+
+const generateRequestId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+interface RawResponse {
+  status: number;
+  body: unknown;
+  headers: Headers;
 }
 
+// Cached reads affected by reading progress
+const PROGRESS_ENDPOINTS = ['/api/user/stats', '/api/user/streak', '/api/achievements', '/api/shlokas/catalog'];
+
+// Cached responses holding a single shloka with its explanation
+const CACHED_SHLOKA_ENDPOINT = /^\/api\/shlokas\/(by-chapter-verse\?|(?!random$|mark-read$|catalog$)[^/?]+$)/;
+
+// Endpoints that issue tokens - a 401 from these means bad credentials, never a stale session
+const TOKEN_ENDPOINTS = ['/api/auth/login', '/api/auth/signup', '/api/auth/refresh'];
+
+// Treat tokens this close to expiry as expired, allowing for clock skew and latency
+const EXPIRY_LEEWAY_MS = 10 * 1000;
+
 class ApiService {
   private baseUrl: string;
   private accessToken: string | null = null;
   private refreshTokenCallback: (() => Promise<void>) | null = null;
-  private isRefreshing: boolean = false;
   private refreshPromise: Promise<void> | null = null;
+  private interceptors: Middleware[] = [];
+  private revalidating = new Set<string>();
+  private inFlight = new Map<string, InFlightRequest>();
+  private transport: Next = createFetchTransport(apiConfig.timeout);
+  private localTransport = false;
+  private circuitBreakers = new CircuitBreakerRegistry(apiConfig.circuitBreaker, () => this.testConnection());
+  // Cleared when the backend answers the streaming chat endpoint with "not supported"
+  private chatStreamingSupported = true;
+  private offlineShlokas: OfflineShlokaSource | null = null;
 
   constructor() {
     this.baseUrl = apiConfig.baseUrl;
@@ -89,12 +237,47 @@ class ApiService {
 
   /**
    * Set a callback function to refresh the access token
-   * This will be called automatically when a 401 error is encountered
+   * This will be called automatically when a 401 error is encountered, before sending
+   * with a token that has already expired, and by sessionRefresh ahead of expiry
    */
   setRefreshTokenCallback(callback: (() => Promise<void>) | null): void {
     this.refreshTokenCallback = callback;
   }
 
+  /**
+   * Register a middleware. Custom middleware runs after the built-in auth, refresh
+   * and retry interceptors, in registration order, right before the network call.
+   * Returns a function that removes it again.
+   */
+  use(middleware: Middleware): () => void {
+    this.interceptors.push(middleware);
+    return () => {
+      this.interceptors = this.interceptors.filter(m => m !== middleware);
+    };
+  }
+
+  /**
+   * Replace the network transport, e.g. with the in-memory mock backend.
+   * A `local` transport never touches the network, so the offline check is skipped.
+   * Pass null to go back to `fetch`.
+   */
+  setTransport(transport: Next | null, options: { local?: boolean } = {}): void {
+    this.transport = transport ?? createFetchTransport(apiConfig.timeout);
+    this.localTransport = !!transport && !!options.local;
+    // Cached responses, health and capabilities came from the previous transport
+    responseCache.clear();
+    this.circuitBreakers.reset();
+    this.chatStreamingSupported = true;
+  }
+
+  /**
+   * Serve single shlokas from content stored on the device when it has them.
+   * Pass null to always ask the backend.
+   */
+  setOfflineShlokaSource(source: OfflineShlokaSource | null): void {
+    this.offlineShlokas = source;
+  }
+
   /**
    * Get the current API base URL
    */
@@ -106,26 +289,29 @@ class ApiService {
    * Update the API base URL (useful for switching between environments)
    */
   setBaseUrl(url: string): void {
+    if (url !== this.baseUrl) {
+      // Cached responses, health and capabilities belong to the previous server
+      responseCache.clear();
+      this.circuitBreakers.reset();
+      this.chatStreamingSupported = true;
+    }
     this.baseUrl = url;
   }
 
+  /**
+   * Drop all cached responses (e.g. on logout, since most of them are per-user)
+   */
+  clearCache(): Promise<void> {
+    return responseCache.clear();
+  }
+
   /**
    * Test connection to the API
    */
-  async testConnection(): Promise<boolean> {
+  async testConnection(options: CallOptions = {}): Promise<boolean> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), apiConfig.timeout);
-      
-      const response = await fetch(`${this.baseUrl}/health`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
+      // A quick probe - custom interceptors apply, but no retries or offline grace period
+      const response = await this.dispatch('/health', { method: 'GET', signal: options.signal }, []);
       return response.ok;
     } catch (error) {
       console.error('API connection test failed:', error);
@@ -133,175 +319,319 @@ class ApiService {
     }
   }
 
+  /**
+   * Make a request and validate the response against `schema`.
+   * GET endpoints with a cache policy are served from the response cache when possible.
+   */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {},
-    retryCount: number = 0
+    schema: Schema<T>,
+    options: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    try {
-      // Check network status before making request
-      const isOnline = await checkNetworkStatus();
-      if (!isOnline && retryCount === 0) {
-        // Wait for network connection with timeout
-        const networkAvailable = await waitForNetwork(5000);
-        if (!networkAvailable) {
-          throw new Error('No internet connection. Please check your network settings.');
-        }
-      }
+    const { invalidates, ...sendOptions } = options;
+    const method = (sendOptions.method || 'GET').toUpperCase();
+
+    if (method === 'GET') {
+      // Components mounting together often ask for the same data - share one network call
+      return this.shareInFlight(endpoint, sendOptions.signal, signal => {
+        const getOptions = { ...sendOptions, signal };
+        const policy = responseCache.getPolicy(endpoint);
+        return policy
+          ? this.cachedRequest(endpoint, schema, getOptions, policy)
+          : this.send(endpoint, getOptions).then(({ body }) => this.validate(schema, body, endpoint));
+      });
+    }
 
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), apiConfig.timeout);
+    const { body } = await this.send(endpoint, sendOptions);
+    const result = this.validate(schema, body, endpoint);
 
-      // Build headers with authentication if token is available
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        ...(options.headers as Record<string, string>),
-      };
+    if (invalidates) {
+      responseCache.invalidate(...invalidates);
+    }
+    return result;
+  }
 
-      // Add authorization header if access token is available
-      if (this.accessToken) {
-        headers.Authorization = `Bearer ${this.accessToken}`;
-      }
+  /**
+   * Join an identical in-flight request, or start one. The shared request is only
+   * aborted once every caller that joined it has cancelled.
+   */
+  private shareInFlight<T>(
+    key: string,
+    signal: AbortSignal | null | undefined,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError());
+    }
 
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-        headers,
+    let entry = this.inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = { promise: Promise.resolve(), controller, subscribers: 0 };
+      created.promise = run(controller.signal).finally(() => {
+        if (this.inFlight.get(key) === created) {
+          this.inFlight.delete(key);
+        }
       });
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers += 1;
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        // Handle 401 Unauthorized - try to refresh token and retry
-        if (response.status === 401 && this.accessToken && this.refreshTokenCallback && retryCount === 0) {
-          // Check if we're already refreshing to avoid multiple simultaneous refresh attempts
-          if (this.isRefreshing && this.refreshPromise) {
-            // Wait for the ongoing refresh to complete
-            await this.refreshPromise;
-          } else if (!this.isRefreshing) {
-            // Start token refresh
-            this.isRefreshing = true;
-            this.refreshPromise = this.refreshTokenCallback().catch((error) => {
-              // If refresh fails, clear the promise so we can try again later
-              this.isRefreshing = false;
-              this.refreshPromise = null;
-              throw error;
-            });
-            
-            try {
-              await this.refreshPromise;
-              // Refresh successful, retry the original request
-              this.isRefreshing = false;
-              this.refreshPromise = null;
-              return this.request<T>(endpoint, options, retryCount + 1);
-            } catch {
-              // Refresh failed, throw the original 401 error
-              this.isRefreshing = false;
-              this.refreshPromise = null;
-              // Fall through to return 401 error
-            }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers -= 1;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
           }
         }
-        
-        const errorData: any = await response.json().catch(() => ({
-          error: 'Unknown error',
-          detail: `HTTP ${response.status}: ${response.statusText}`,
-        }));
-        
-        // Handle wrapped error response format: { message, data, errors }
-        const errorMessage = 
-          errorData.errors?.detail || 
-          errorData.errors?.error || 
-          errorData.detail || 
-          errorData.error || 
-          errorData.message ||
-          `HTTP ${response.status}: ${response.statusText}`;
-        
-        // Determine if we should retry based on status code
-        const shouldRetry = 
-          (response.status >= 500 || response.status === 0 || response.status === 429) &&
-          retryCount < apiConfig.retry.maxAttempts;
-        
-        if (shouldRetry) {
-          // Use exponential backoff
-          const delay = calculateBackoffDelay(retryCount, apiConfig.retry.delay);
-          await new Promise<void>(resolve => setTimeout(() => resolve(), delay));
-          return this.request<T>(endpoint, options, retryCount + 1);
-        }
-        
-        // Use user-friendly error message
-        const errorInfo = getUserFriendlyError(new Error(errorMessage));
-        throw new Error(errorInfo.userFriendlyMessage);
+        reject(new CancelledError());
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Stale-while-revalidate: fresh entries skip the network, stale ones are returned
+   * immediately and refreshed in the background, expired ones are revalidated first.
+   * If the network fails, any cached copy is better than an error.
+   */
+  private async cachedRequest<T>(
+    endpoint: string,
+    schema: Schema<T>,
+    options: SendOptions,
+    policy: CachePolicy
+  ): Promise<T> {
+    await responseCache.load();
+
+    const entry = responseCache.get(endpoint);
+    let cached: T | undefined;
+    if (entry) {
+      try {
+        cached = parse(schema, entry.body, endpoint);
+      } catch {
+        // Written by an older app version with a different shape
+        responseCache.delete(endpoint);
       }
+    }
+
+    if (entry && cached !== undefined) {
+      const freshness = responseCache.getFreshness(entry, policy);
+      if (freshness === 'fresh') {
+        return cached;
+      }
+      if (freshness === 'stale') {
+        // The refresh outlives this caller, so it must not share its signal
+        this.revalidate(endpoint, schema, { ...options, signal: undefined });
+        return cached;
+      }
+    }
 
-      return await response.json();
+    try {
+      return await this.fetchAndCache(endpoint, schema, options);
     } catch (error) {
-      // Handle abort (timeout)
-      if (error instanceof Error && error.name === 'AbortError') {
-        const errorInfo = getUserFriendlyError(new Error('Request timeout'));
-        throw new Error(errorInfo.userFriendlyMessage);
+      if (cached !== undefined && isTransientError(error)) {
+        console.warn(`[ApiService] Serving cached ${endpoint} after network failure`);
+        return cached;
       }
-      
-      // If it's already a user-friendly error, re-throw it
-      if (error instanceof Error && error.message.includes('No internet connection')) {
-        throw error;
+      throw error;
+    }
+  }
+
+  private revalidate<T>(endpoint: string, schema: Schema<T>, options: SendOptions): void {
+    if (this.revalidating.has(endpoint)) {
+      return;
+    }
+    this.revalidating.add(endpoint);
+    this.fetchAndCache(endpoint, schema, options)
+      .catch(error => {
+        console.warn(`[ApiService] Background refresh of ${endpoint} failed:`, error);
+      })
+      .finally(() => {
+        this.revalidating.delete(endpoint);
+      });
+  }
+
+  /**
+   * Fetch with the cached entry's validators and store the answer - unless the endpoint was
+   * invalidated (e.g. by a mutation) while the request was out, which makes the answer stale
+   */
+  private async fetchAndCache<T>(endpoint: string, schema: Schema<T>, options: SendOptions): Promise<T> {
+    const generation = responseCache.getGeneration(endpoint);
+    const validated = responseCache.get(endpoint);
+    const raw = await this.send(endpoint, {
+      ...options,
+      headers: {
+        ...(options.headers as Record<string, string>),
+        ...responseCache.getConditionalHeaders(endpoint),
+      },
+    });
+    const isCurrent = responseCache.getGeneration(endpoint) === generation;
+
+    if (raw.status === 304 && validated) {
+      // The server confirmed the entry we sent validators for, even if it's gone since
+      if (isCurrent) {
+        responseCache.touch(endpoint);
       }
-      
-      // Retry on network errors with exponential backoff
-      if (retryCount < apiConfig.retry.maxAttempts) {
-        const errorInfo = getUserFriendlyError(error);
-        if (errorInfo.canRetry && errorInfo.isNetworkError) {
-          const delay = calculateBackoffDelay(retryCount, apiConfig.retry.delay);
-          await new Promise<void>(resolve => setTimeout(() => resolve(), delay));
-          return this.request<T>(endpoint, options, retryCount + 1);
-        }
+      return this.validate(schema, validated.body, endpoint);
+    }
+
+    const result = this.validate(schema, raw.body, endpoint);
+    if (isCurrent) {
+      responseCache.set(endpoint, raw.body, raw.headers);
+    }
+    return result;
+  }
+
+  /**
+   * Validate the payload so shape mismatches surface here, not deep inside a screen
+   */
+  private validate<T>(schema: Schema<T>, body: unknown, endpoint: string): T {
+    try {
+      return parse(schema, body, endpoint);
+    } catch (error) {
+      // Schema mismatches are not transient - retrying won't help
+      if (error instanceof SchemaValidationError) {
+        console.error(`[ApiService] ${error.message}`);
       }
-      
-      // Use user-friendly error message
-      const errorInfo = getUserFriendlyError(error);
-      throw new Error(errorInfo.userFriendlyMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Perform the HTTP request through the interceptor chain.
+   * Resolves with the raw JSON body; 304 Not Modified resolves with no body.
+   */
+  private async send(endpoint: string, options: SendOptions = {}): Promise<RawResponse> {
+    const response = await this.requestRaw(endpoint, options);
+
+    // Our cached copy is still current
+    if (response.status === 304) {
+      return { status: 304, body: undefined, headers: response.headers };
+    }
+
+    const body = await response.json();
+    return { status: response.status, body, headers: response.headers };
+  }
+
+  /**
+   * Send a request through the interceptor chain and return the raw Response.
+   * For non-JSON endpoints (e.g. TTS audio); failures throw ApiRequestError.
+   */
+  requestRaw(endpoint: string, options: SendOptions = {}): Promise<Response> {
+    return this.dispatch(endpoint, options, this.builtInInterceptors());
+  }
+
+  /**
+   * The standard interceptor chain, outermost first
+   */
+  private builtInInterceptors({ retry = true }: { retry?: boolean } = {}): Middleware[] {
+    return [
+      errorMappingInterceptor(),
+      ...(this.localTransport ? [] : [connectivityInterceptor()]),
+      circuitBreakerInterceptor(request => this.circuitBreakers.forUrl(request.url)),
+      ...(retry ? [retryInterceptor(apiConfig.retry)] : []),
+      refreshInterceptor({
+        canRefresh: request =>
+          !!this.accessToken && !!this.refreshTokenCallback && !TOKEN_ENDPOINTS.includes(request.endpoint),
+        refresh: () => this.refreshSession(),
+        isExpired: () => !!this.accessToken && isTokenExpiring(this.accessToken, EXPIRY_LEEWAY_MS),
+      }),
+      authInterceptor(() => this.accessToken),
+    ];
+  }
+
+  /**
+   * Run a request through the given built-in interceptors, then any registered ones
+   */
+  private dispatch(endpoint: string, options: SendOptions, builtIns: Middleware[]): Promise<Response> {
+    const { idempotencyKey, onChunk, ...init } = options;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Request-ID': generateRequestId(),
+      ...(init.headers as Record<string, string>),
+    };
+
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const chain = compose([...builtIns, ...this.interceptors], this.transport);
+
+    return chain({
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      init: { ...init, headers },
+      attempt: 0,
+      onChunk,
+    });
+  }
+
+  /**
+   * Refresh the access token through the registered callback. Concurrent callers
+   * (parallel 401s, the expiry timer, returning to the foreground) share one refresh.
+   */
+  refreshSession(): Promise<void> {
+    if (!this.refreshTokenCallback) {
+      return Promise.reject(new Error('No refresh callback registered'));
+    }
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshTokenCallback().finally(() => {
+        this.refreshPromise = null;
+      });
     }
+    return this.refreshPromise;
   }
 
   /**
    * Get a random shloka with explanation
    */
-  async getRandomShloka(): Promise<ShlokaWithExplanation> {
-    const response = await this.request<{
-      message: string;
-      data: ShlokaWithExplanation;
-      errors: any;
-    }>('/api/shlokas/random');
+  async getRandomShloka(options: CallOptions = {}): Promise<ShlokaWithExplanation> {
+    const response = await this.request(
+      '/api/shlokas/random',
+      envelope(ShlokaWithExplanationSchema),
+      { signal: options.signal }
+    );
     
-    // Extract the data field from the wrapped response
     if (response.data) {
+      // Random picks aren't cached themselves; keep them by id so they can be reopened
+      // and searched offline
+      responseCache.set(`/api/shlokas/${response.data.shloka.id}`, response);
       return response.data;
     }
     
-    // Fallback: if response is already in the expected format
-    return response as unknown as ShlokaWithExplanation;
+    throw new Error(response.errors?.detail || 'Failed to get random shloka');
   }
 
   /**
    * Get a specific shloka by ID with explanation
    */
-  async getShlokaById(shlokaId: string): Promise<ShlokaWithExplanation> {
-    const response = await this.request<{
-      message: string;
-      data: ShlokaWithExplanation;
-      errors: any;
-    }>(`/api/shlokas/${shlokaId}`);
+  async getShlokaById(shlokaId: string, options: CallOptions = {}): Promise<ShlokaWithExplanation> {
+    const stored = await this.offlineShlokas?.getShlokaById(shlokaId);
+    if (stored) {
+      return stored;
+    }
+
+    const response = await this.request(
+      `/api/shlokas/${shlokaId}`,
+      envelope(ShlokaWithExplanationSchema),
+      { signal: options.signal }
+    );
     
-    // Extract the data field from the wrapped response
     if (response.data) {
       return response.data;
     }
     
-    // Fallback: if response is already in the expected format
-    return response as unknown as ShlokaWithExplanation;
+    throw new Error(response.errors?.detail || 'Failed to get shloka');
   }
 
   /**
@@ -310,21 +640,90 @@ class ApiService {
   async getShlokaByChapterVerse(
     bookName: string,
     chapterNumber: number,
-    verseNumber: number
+    verseNumber: number,
+    options: CallOptions = {}
   ): Promise<ShlokaWithExplanation> {
-    const response = await this.request<{
-      message: string;
-      data: ShlokaWithExplanation;
-      errors: any;
-    }>(`/api/shlokas/by-chapter-verse?book_name=${encodeURIComponent(bookName)}&chapter=${chapterNumber}&verse=${verseNumber}`);
+    const stored = await this.offlineShlokas?.getShlokaByChapterVerse(bookName, chapterNumber, verseNumber);
+    if (stored) {
+      return stored;
+    }
+
+    const response = await this.request(
+      `/api/shlokas/by-chapter-verse?book_name=${encodeURIComponent(bookName)}&chapter=${chapterNumber}&verse=${verseNumber}`,
+      envelope(ShlokaWithExplanationSchema),
+      { signal: options.signal }
+    );
     
-    // Extract the data field from the wrapped response
     if (response.data) {
       return response.data;
     }
     
-    // Fallback: if response is already in the expected format
-    return response as unknown as ShlokaWithExplanation;
+    throw new Error(response.errors?.detail || 'Failed to get shloka');
+  }
+
+  /**
+   * Shlokas kept in the response cache - every one opened or shown recently - for
+   * searching offline
+   */
+  async getCachedShlokas(): Promise<ShlokaWithExplanation[]> {
+    await responseCache.load();
+    const byId = new Map<string, ShlokaWithExplanation>();
+    responseCache.find(CACHED_SHLOKA_ENDPOINT).forEach(([endpoint, entry]) => {
+      try {
+        const data = parse(envelope(ShlokaWithExplanationSchema), entry.body, endpoint).data;
+        if (data) {
+          byId.set(data.shloka.id, data);
+        }
+      } catch {
+        // Written by an older app version with a different shape
+      }
+    });
+    return Array.from(byId.values());
+  }
+
+  /**
+   * Get the library catalog: books, their chapters and verses, with read markers
+   */
+  async getShlokaCatalog(options: CallOptions = {}): Promise<ShlokaCatalog> {
+    const response = await this.request('/api/shlokas/catalog', envelope(ShlokaCatalogSchema), {
+      signal: options.signal,
+    });
+
+    if (response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.errors?.detail || 'Failed to get library');
+  }
+
+  /**
+   * List the offline content packs available for download
+   */
+  async getContentPacks(options: CallOptions = {}): Promise<PackSummary[]> {
+    const response = await this.request('/api/packs', envelope(PackListSchema), { signal: options.signal });
+
+    if (response.data) {
+      return response.data.packs;
+    }
+
+    throw new Error(response.errors?.detail || 'Failed to get offline packs');
+  }
+
+  /**
+   * Get the manifest of the latest version of a book's content pack
+   */
+  async getPackManifest(bookName: string, options: CallOptions = {}): Promise<PackManifest> {
+    const response = await this.request(
+      `/api/packs/${encodeURIComponent(bookName)}/manifest`,
+      envelope(PackManifestSchema),
+      { signal: options.signal }
+    );
+
+    if (response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.errors?.detail || 'Failed to get offline pack');
   }
 
   /**
@@ -334,17 +733,12 @@ class ApiService {
     name: string,
     email: string,
     password: string,
-    passwordConfirm: string
-  ): Promise<{ user: { id: string; name: string; email: string; created_at?: string }; tokens: { access: string; refresh: string } }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        user: { id: string; name: string; email: string; created_at?: string };
-        tokens: { access: string; refresh: string };
-      };
-      errors: any;
-    }>('/api/auth/signup', {
+    passwordConfirm: string,
+    options: CallOptions = {}
+  ): Promise<AuthResponse> {
+    const response = await this.request('/api/auth/signup', envelope(AuthResponseSchema), {
       method: 'POST',
+      signal: options.signal,
       body: JSON.stringify({
         name,
         email,
@@ -365,18 +759,13 @@ class ApiService {
    */
   async login(
     email: string,
-    password: string
-  ): Promise<{ user: { id: string; name: string; email: string; created_at?: string }; tokens: { access: string; refresh: string } }> {
+    password: string,
+    options: CallOptions = {}
+  ): Promise<AuthResponse> {
     try {
-      const response = await this.request<{
-        message: string;
-        data: {
-          user: { id: string; name: string; email: string; created_at?: string };
-          tokens: { access: string; refresh: string };
-        };
-        errors: any;
-      }>('/api/auth/login', {
+      const response = await this.request('/api/auth/login', envelope(AuthResponseSchema), {
         method: 'POST',
+        signal: options.signal,
         body: JSON.stringify({
           email,
           password,
@@ -407,16 +796,13 @@ class ApiService {
    * Refresh access token
    * Returns both access and refresh tokens (refresh token is included when rotation is enabled)
    */
-  async refreshToken(refreshToken: string): Promise<{ access: string; refresh?: string }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        access: string;
-        refresh?: string; // New refresh token when rotation is enabled
-      };
-      errors: any;
-    }>('/api/auth/refresh', {
+  async refreshToken(
+    refreshToken: string,
+    options: CallOptions = {}
+  ): Promise<{ access: string; refresh?: string }> {
+    const response = await this.request('/api/auth/refresh', envelope(TokenRefreshSchema), {
       method: 'POST',
+      signal: options.signal,
       body: JSON.stringify({
         refresh: refreshToken,
       }),
@@ -435,22 +821,20 @@ class ApiService {
   /**
    * Log a reading of a shloka
    */
-  async logReading(shlokaId: string, readingType: 'summary' | 'detailed'): Promise<void> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        id: string;
-        shloka: string;
-        reading_type: string;
-        read_at: string;
-      };
-      errors: any;
-    }>('/api/reading-logs', {
+  async logReading(
+    shlokaId: string,
+    readingType: 'summary' | 'detailed',
+    options: MutationOptions = {}
+  ): Promise<void> {
+    const response = await this.request('/api/reading-logs', envelope(ReadingLogSchema), {
       method: 'POST',
+      signal: options.signal,
+      invalidates: PROGRESS_ENDPOINTS,
       body: JSON.stringify({
         shloka_id: shlokaId,
         reading_type: readingType,
       }),
+      idempotencyKey: options.idempotencyKey,
     });
 
     if (!response.data) {
@@ -461,40 +845,12 @@ class ApiService {
   /**
    * Get user statistics
    */
-  async getUserStats(): Promise<{
-    total_shlokas_read: number;
-    total_books_read: number;
-    total_readings: number;
-    current_streak: number;
-    longest_streak: number;
-    total_streak_days: number;
-    streak_freeze_available: boolean;
-    level: number;
-    experience: number;
-    xp_in_current_level: number;
-    xp_for_next_level: number;
-    readings_this_week: number;
-    readings_this_month: number;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        total_shlokas_read: number;
-        total_books_read: number;
-        total_readings: number;
-        current_streak: number;
-        longest_streak: number;
-        total_streak_days: number;
-        streak_freeze_available: boolean;
-        level: number;
-        experience: number;
-        xp_in_current_level: number;
-        xp_for_next_level: number;
-        readings_this_week: number;
-        readings_this_month: number;
-      };
-      errors: any;
-    }>('/api/user/stats');
+  async getUserStats(options: CallOptions = {}): Promise<UserStats> {
+    const response = await this.request(
+      '/api/user/stats',
+      envelope(UserStatsSchema),
+      { signal: options.signal }
+    );
 
     if (response.data) {
       return response.data;
@@ -506,34 +862,12 @@ class ApiService {
   /**
    * Get user streak details
    */
-  async getUserStreak(): Promise<{
-    id: string;
-    current_streak: number;
-    longest_streak: number;
-    streak_freeze_used_this_month: boolean;
-    last_streak_date: string | null;
-    total_streak_days: number;
-    streak_freeze_reset_date: string | null;
-    awarded_milestones: number[];
-    created_at: string;
-    updated_at: string;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        id: string;
-        current_streak: number;
-        longest_streak: number;
-        streak_freeze_used_this_month: boolean;
-        last_streak_date: string | null;
-        total_streak_days: number;
-        streak_freeze_reset_date: string | null;
-        awarded_milestones: number[];
-        created_at: string;
-        updated_at: string;
-      };
-      errors: any;
-    }>('/api/user/streak');
+  async getUserStreak(options: CallOptions = {}): Promise<UserStreak> {
+    const response = await this.request(
+      '/api/user/streak',
+      envelope(UserStreakSchema),
+      { signal: options.signal }
+    );
 
     if (response.data) {
       return response.data;
@@ -545,22 +879,16 @@ class ApiService {
   /**
    * Use streak freeze to protect streak from breaking
    */
-  async useStreakFreeze(): Promise<{
+  async useStreakFreeze(options: CallOptions = {}): Promise<{
     freeze_used: boolean;
     freeze_available: boolean;
     current_streak: number;
     message: string;
   }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        freeze_used: boolean;
-        freeze_available: boolean;
-        current_streak?: number;
-      };
-      errors: any;
-    }>('/api/user/streak/freeze', {
+    const response = await this.request('/api/user/streak/freeze', envelope(StreakFreezeSchema), {
       method: 'POST',
+      signal: options.signal,
+      invalidates: ['/api/user/stats', '/api/user/streak'],
     });
 
     if (response.data) {
@@ -577,42 +905,12 @@ class ApiService {
   /**
    * Get streak history and milestones
    */
-  async getStreakHistory(): Promise<{
-    current_streak: number;
-    longest_streak: number;
-    total_streak_days: number;
-    last_streak_date: string | null;
-    milestones_reached: Array<{
-      days: number;
-      bonus_xp: number;
-      name: string;
-      message: string;
-    }>;
-    recent_activity: Array<{
-      date: string;
-      count: number;
-    }>;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        current_streak: number;
-        longest_streak: number;
-        total_streak_days: number;
-        last_streak_date: string | null;
-        milestones_reached: Array<{
-          days: number;
-          bonus_xp: number;
-          name: string;
-          message: string;
-        }>;
-        recent_activity: Array<{
-          date: string;
-          count: number;
-        }>;
-      };
-      errors: any;
-    }>('/api/user/streak/history');
+  async getStreakHistory(options: CallOptions = {}): Promise<StreakHistory> {
+    const response = await this.request(
+      '/api/user/streak/history',
+      envelope(StreakHistorySchema),
+      { signal: options.signal }
+    );
 
     if (response.data) {
       return response.data;
@@ -624,20 +922,12 @@ class ApiService {
   /**
    * Get user's favorite shlokas
    */
-  async getFavorites(): Promise<Array<{
-    id: string;
-    shloka: Shloka;
-    created_at: string;
-  }>> {
-    const response = await this.request<{
-      message: string;
-      data: Array<{
-        id: string;
-        shloka: Shloka;
-        created_at: string;
-      }>;
-      errors: any;
-    }>('/api/favorites');
+  async getFavorites(options: CallOptions = {}): Promise<Favorite[]> {
+    const response = await this.request(
+      '/api/favorites',
+      envelope(s.array(FavoriteSchema)),
+      { signal: options.signal }
+    );
 
     if (response.data) {
       return response.data;
@@ -649,24 +939,15 @@ class ApiService {
   /**
    * Add a shloka to favorites
    */
-  async addFavorite(shlokaId: string): Promise<{
-    id: string;
-    shloka: Shloka;
-    created_at: string;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        id: string;
-        shloka: Shloka;
-        created_at: string;
-      };
-      errors: any;
-    }>('/api/favorites', {
+  async addFavorite(shlokaId: string, options: MutationOptions = {}): Promise<Favorite> {
+    const response = await this.request('/api/favorites', envelope(FavoriteSchema), {
       method: 'POST',
+      signal: options.signal,
+      invalidates: ['/api/favorites', '/api/achievements'],
       body: JSON.stringify({
         shloka_id: shlokaId,
       }),
+      idempotencyKey: options.idempotencyKey,
     });
 
     if (response.data) {
@@ -679,13 +960,11 @@ class ApiService {
   /**
    * Remove a shloka from favorites
    */
-  async removeFavorite(shlokaId: string): Promise<void> {
-    const response = await this.request<{
-      message: string;
-      data: any;
-      errors: any;
-    }>(`/api/favorites?shloka_id=${shlokaId}`, {
+  async removeFavorite(shlokaId: string, options: CallOptions = {}): Promise<void> {
+    const response = await this.request(`/api/favorites?shloka_id=${shlokaId}`, envelope(s.unknown()), {
       method: 'DELETE',
+      signal: options.signal,
+      invalidates: ['/api/favorites'],
     });
 
     if (response.errors) {
@@ -696,38 +975,12 @@ class ApiService {
   /**
    * Get user's achievements
    */
-  async getAchievements(): Promise<Array<{
-    id: string;
-    achievement: {
-      id: string;
-      code: string;
-      name: string;
-      description: string;
-      icon: string;
-      condition_type: string;
-      condition_value: number;
-      xp_reward: number;
-    };
-    unlocked_at: string;
-  }>> {
-    const response = await this.request<{
-      message: string;
-      data: Array<{
-        id: string;
-        achievement: {
-          id: string;
-          code: string;
-          name: string;
-          description: string;
-          icon: string;
-          condition_type: string;
-          condition_value: number;
-          xp_reward: number;
-        };
-        unlocked_at: string;
-      }>;
-      errors: any;
-    }>('/api/achievements');
+  async getAchievements(options: CallOptions = {}): Promise<UserAchievement[]> {
+    const response = await this.request(
+      '/api/achievements',
+      envelope(s.array(UserAchievementSchema)),
+      { signal: options.signal }
+    );
 
     if (response.data) {
       return response.data;
@@ -739,28 +992,23 @@ class ApiService {
   /**
    * Mark a shloka as read or unmark it
    */
-  async markShlokaAsRead(shlokaId: string, marked: boolean = true): Promise<{
-    shloka_id: string;
-    marked: boolean;
-    marked_at?: string;
-  }> {
+  async markShlokaAsRead(
+    shlokaId: string,
+    marked: boolean = true,
+    options: MutationOptions = {}
+  ): Promise<MarkReadResult> {
     console.log('[ApiService] markShlokaAsRead called:', { shlokaId, marked, hasToken: !!this.accessToken });
     
     try {
-      const response = await this.request<{
-        message: string;
-        data: {
-          shloka_id: string;
-          marked: boolean;
-          marked_at?: string;
-        };
-        errors: any;
-      }>('/api/shlokas/mark-read', {
+      const response = await this.request('/api/shlokas/mark-read', envelope(MarkReadSchema), {
         method: 'POST',
+        signal: options.signal,
+        invalidates: PROGRESS_ENDPOINTS,
         body: JSON.stringify({
           shloka_id: shlokaId,
           marked: marked,
         }),
+        idempotencyKey: options.idempotencyKey,
       });
 
       console.log('[ApiService] markShlokaAsRead response:', response);
@@ -779,34 +1027,12 @@ class ApiService {
   /**
    * Get user's chat conversations
    */
-  async getConversations(): Promise<Array<{
-    id: string;
-    title: string | null;
-    created_at: string;
-    updated_at: string;
-    messages: Array<{
-      id: string;
-      role: 'user' | 'assistant';
-      content: string;
-      created_at: string;
-    }>;
-  }>> {
-    const response = await this.request<{
-      message: string;
-      data: Array<{
-        id: string;
-        title: string | null;
-        created_at: string;
-        updated_at: string;
-        messages: Array<{
-          id: string;
-          role: 'user' | 'assistant';
-          content: string;
-          created_at: string;
-        }>;
-      }>;
-      errors: any;
-    }>('/api/chat/conversations');
+  async getConversations(options: CallOptions = {}): Promise<Conversation[]> {
+    const response = await this.request(
+      '/api/chat/conversations',
+      envelope(s.array(ConversationSchema)),
+      { signal: options.signal }
+    );
 
     if (response.data) {
       return response.data;
@@ -820,46 +1046,15 @@ class ApiService {
    */
   async sendChatMessage(
     message: string,
-    conversationId?: string
-  ): Promise<{
-    conversation: {
-      id: string;
-      title: string | null;
-      created_at: string;
-      updated_at: string;
-      messages: Array<{
-        id: string;
-        role: 'user' | 'assistant';
-        content: string;
-        created_at: string;
-      }>;
-    };
-    response: string;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        conversation: {
-          id: string;
-          title: string | null;
-          created_at: string;
-          updated_at: string;
-          messages: Array<{
-            id: string;
-            role: 'user' | 'assistant';
-            content: string;
-            created_at: string;
-          }>;
-        };
-        response: string;
-      };
-      errors: any;
-    }>('/api/chat/message', {
+    conversationId?: string,
+    options: ChatSendOptions = {}
+  ): Promise<ChatResponse> {
+    const response = await this.request('/api/chat/message', envelope(ChatResponseSchema), {
       method: 'POST',
-      body: JSON.stringify({
-        message,
-        conversation_id: conversationId || null,
-      }),
+      signal: options.signal,
+      idempotencyKey: options.idempotencyKey,
+      invalidates: ['/api/chat/conversations'],
+      body: this.chatMessageBody(message, conversationId, options),
     });
 
     if (response.data) {
@@ -869,28 +1064,123 @@ class ApiService {
     throw new Error(response.errors?.detail || 'Failed to send message');
   }
 
+  /**
+   * Send a chat message and stream the reply as it is generated (SSE or NDJSON).
+   * Resolves with the saved conversation, like sendChatMessage. Abort `signal` to stop
+   * generation - the promise then rejects with CancelledError and the tokens already
+   * delivered are all there is. Falls back to sendChatMessage when the backend can't stream.
+   */
+  async streamChatMessage(
+    message: string,
+    conversationId: string | undefined,
+    options: ChatStreamOptions
+  ): Promise<ChatResponse> {
+    if (!this.chatStreamingSupported) {
+      return this.sendChatFallback(message, conversationId, options);
+    }
+
+    let done: unknown;
+    let streamError: string | null = null;
+    const parser = createStreamParser(({ event, data }) => {
+      let payload: any;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        // One bad event shouldn't cost the whole reply
+        console.warn(`[ApiService] Skipping malformed "${event}" event in the chat stream`);
+        return;
+      }
+      if (event === 'conversation') {
+        options.onConversation?.(payload.conversation_id);
+      } else if (event === 'token') {
+        options.onToken(payload.content);
+      } else if (event === 'done') {
+        // Validated once the stream has ended, so a mismatch rejects instead of throwing mid-stream
+        done = payload.data ?? payload;
+      } else if (event === 'error') {
+        streamError = payload.detail || 'The reply was interrupted.';
+      }
+    });
+
+    let response: Response;
+    try {
+      // No retries: a replayed stream would repeat tokens the user has already seen
+      response = await this.dispatch(
+        '/api/chat/message/stream',
+        {
+          method: 'POST',
+          signal: options.signal,
+          headers: { Accept: 'text/event-stream' },
+          idempotencyKey: options.idempotencyKey,
+          body: this.chatMessageBody(message, conversationId, options),
+          onChunk: parser.push,
+        },
+        this.builtInInterceptors({ retry: false })
+      );
+    } catch (error) {
+      // 404/405/501: this backend has no streaming endpoint
+      if (error instanceof ApiRequestError && [404, 405, 501].includes(error.statusCode ?? 0)) {
+        console.log('[ApiService] Chat streaming not supported, falling back');
+        this.chatStreamingSupported = false;
+        return this.sendChatFallback(message, conversationId, options);
+      }
+      throw error;
+    }
+    parser.end();
+    responseCache.invalidate('/api/chat/conversations');
+
+    // The backend answered with a regular envelope instead of a stream
+    if (!isStreamContentType(response.headers.get('Content-Type'))) {
+      const body = this.validate(envelope(ChatResponseSchema), await response.json(), '/api/chat/message/stream');
+      if (!body.data) {
+        throw new Error(body.errors?.detail || 'Failed to send message');
+      }
+      options.onConversation?.(body.data.conversation.id);
+      options.onToken(body.data.response);
+      return body.data;
+    }
+
+    if (streamError || done === undefined) {
+      throw new ServerError(streamError || 'The reply was interrupted. Please try again.');
+    }
+    return this.validate(ChatResponseSchema, done, '/api/chat/message/stream');
+  }
+
+  private chatMessageBody(message: string, conversationId: string | undefined, options: ChatSendOptions): string {
+    return JSON.stringify({
+      message,
+      conversation_id: conversationId || null,
+      ...(options.shlokaContext && !conversationId ? { shloka_context: options.shlokaContext } : {}),
+      ...(options.parentId !== undefined ? { parent_id: options.parentId } : {}),
+    });
+  }
+
+  private async sendChatFallback(
+    message: string,
+    conversationId: string | undefined,
+    options: ChatStreamOptions
+  ): Promise<ChatResponse> {
+    const response = await this.sendChatMessage(message, conversationId, {
+      signal: options.signal,
+      shlokaContext: options.shlokaContext,
+      parentId: options.parentId,
+      idempotencyKey: options.idempotencyKey,
+    });
+    options.onConversation?.(response.conversation.id);
+    options.onToken(response.response);
+    return response;
+  }
+
   /**
    * Update user profile
    */
-  async updateProfile(data: { name?: string; email?: string }): Promise<{
-    id: string;
-    name: string;
-    email: string;
-    created_at?: string;
-    updated_at?: string;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        id: string;
-        name: string;
-        email: string;
-        created_at?: string;
-        updated_at?: string;
-      };
-      errors: any;
-    }>('/api/user/profile', {
+  async updateProfile(
+    data: { name?: string; email?: string },
+    options: CallOptions = {}
+  ): Promise<UserProfile> {
+    const response = await this.request('/api/user/profile', envelope(UserProfileSchema), {
       method: 'PATCH',
+      signal: options.signal,
       body: JSON.stringify(data),
     });
 
@@ -906,14 +1196,12 @@ class ApiService {
    */
   async changePassword(
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    options: CallOptions = {}
   ): Promise<{ message: string }> {
-    const response = await this.request<{
-      message: string;
-      data: any;
-      errors: any;
-    }>('/api/user/change-password', {
+    const response = await this.request('/api/user/change-password', envelope(s.unknown()), {
       method: 'POST',
+      signal: options.signal,
       body: JSON.stringify({
         current_password: currentPassword,
         new_password: newPassword,
@@ -930,13 +1218,10 @@ class ApiService {
   /**
    * Deactivate user account
    */
-  async deactivateAccount(): Promise<{ message: string }> {
-    const response = await this.request<{
-      message: string;
-      data: any;
-      errors: any;
-    }>('/api/user/deactivate-account', {
+  async deactivateAccount(options: CallOptions = {}): Promise<{ message: string }> {
+    const response = await this.request('/api/user/deactivate-account', envelope(s.unknown()), {
       method: 'POST',
+      signal: options.signal,
     });
 
     if (response.errors) {
@@ -950,17 +1235,17 @@ class ApiService {
    * Delete user account (soft or hard delete)
    * @param hardDelete - If true, permanently delete account. If false, soft delete (default: false)
    */
-  async deleteAccount(hardDelete: boolean = false): Promise<{ message: string; hard_delete: boolean }> {
+  async deleteAccount(
+    hardDelete: boolean = false,
+    options: CallOptions = {}
+  ): Promise<{ message: string; hard_delete: boolean }> {
     const url = hardDelete 
       ? '/api/user/delete-account?hard=true'
       : '/api/user/delete-account';
     
-    const response = await this.request<{
-      message: string;
-      data: { hard_delete: boolean };
-      errors: any;
-    }>(url, {
+    const response = await this.request(url, envelope(DeleteAccountSchema), {
       method: 'DELETE',
+      signal: options.signal,
     });
 
     if (response.errors) {
@@ -980,40 +1265,61 @@ class ApiService {
    */
   async updateConversation(
     conversationId: string,
-    title: string | null
-  ): Promise<{
-    id: string;
-    title: string | null;
-    created_at: string;
-    updated_at: string;
-    messages: Array<{
-      id: string;
-      role: 'user' | 'assistant';
-      content: string;
-      created_at: string;
-    }>;
-  }> {
-    const response = await this.request<{
-      message: string;
-      data: {
-        id: string;
-        title: string | null;
-        created_at: string;
-        updated_at: string;
-        messages: Array<{
-          id: string;
-          role: 'user' | 'assistant';
-          content: string;
-          created_at: string;
-        }>;
-      };
-      errors: any;
-    }>(`/api/chat/conversations/${conversationId}`, {
+    title: string | null,
+    options: CallOptions = {}
+  ): Promise<Conversation> {
+    const response = await this.request(`/api/chat/conversations/${conversationId}`, envelope(ConversationSchema), {
       method: 'PATCH',
+      signal: options.signal,
+      invalidates: ['/api/chat/conversations'],
       body: JSON.stringify({ title }),
     });
 
-    if (response.errors) {
+    if (response.errors || !response.data) {
+      throw new Error(response.errors?.detail || 'Failed to update conversation');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Generate another reply to the same question, as a sibling branch of `messageId`
+   * @param conversationId - ID of the conversation
+   * @param messageId - The assistant reply to regenerate
+   */
+  async regenerateReply(conversationId: string, messageId: string, options: CallOptions = {}): Promise<ChatResponse> {
+    const response = await this.request(
+      `/api/chat/conversations/${conversationId}/regenerate`,
+      envelope(ChatResponseSchema),
+      {
+        method: 'POST',
+        signal: options.signal,
+        invalidates: ['/api/chat/conversations'],
+        body: JSON.stringify({ message_id: messageId }),
+      }
+    );
+
+    if (response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.errors?.detail || 'Failed to regenerate reply');
+  }
+
+  /**
+   * Remember which branch of a conversation the user is viewing
+   * @param conversationId - ID of the conversation
+   * @param leafId - Last message of the selected branch
+   */
+  async setActiveBranch(conversationId: string, leafId: string, options: CallOptions = {}): Promise<Conversation> {
+    const response = await this.request(`/api/chat/conversations/${conversationId}`, envelope(ConversationSchema), {
+      method: 'PATCH',
+      signal: options.signal,
+      invalidates: ['/api/chat/conversations'],
+      body: JSON.stringify({ active_leaf_id: leafId }),
+    });
+
+    if (response.errors || !response.data) {
       throw new Error(response.errors?.detail || 'Failed to update conversation');
     }
 
@@ -1027,18 +1333,17 @@ class ApiService {
    */
   async deleteConversation(
     conversationId: string,
-    hardDelete: boolean = false
+    hardDelete: boolean = false,
+    options: CallOptions = {}
   ): Promise<{ message: string; conversation_id: string; hard_delete: boolean }> {
     const url = hardDelete
       ? `/api/chat/conversations/${conversationId}/delete?hard=true`
       : `/api/chat/conversations/${conversationId}/delete`;
     
-    const response = await this.request<{
-      message: string;
-      data: { conversation_id: string; hard_delete: boolean };
-      errors: any;
-    }>(url, {
+    const response = await this.request(url, envelope(DeleteConversationSchema), {
       method: 'DELETE',
+      signal: options.signal,
+      invalidates: ['/api/chat/conversations'],
     });
 
     if (response.errors) {
@@ -1056,17 +1361,18 @@ class ApiService {
    * Delete all chat conversations for the user (soft or hard delete)
    * @param hardDelete - If true, permanently delete all conversations. If false, soft delete (default: false)
    */
-  async deleteAllConversations(hardDelete: boolean = false): Promise<{ message: string; count: number; hard_delete: boolean }> {
+  async deleteAllConversations(
+    hardDelete: boolean = false,
+    options: CallOptions = {}
+  ): Promise<{ message: string; count: number; hard_delete: boolean }> {
     const url = hardDelete
       ? '/api/chat/conversations/all?hard=true'
       : '/api/chat/conversations/all';
     
-    const response = await this.request<{
-      message: string;
-      data: { count: number; hard_delete: boolean };
-      errors: any;
-    }>(url, {
+    const response = await this.request(url, envelope(DeleteAllConversationsSchema), {
       method: 'DELETE',
+      signal: options.signal,
+      invalidates: ['/api/chat/conversations'],
     });
 
     if (response.errors) {
@@ -1079,7 +1385,65 @@ class ApiService {
       hard_delete: response.data?.hard_delete || hardDelete,
     };
   }
+
+  /**
+   * Get soft-deleted conversations, most recently deleted first
+   */
+  async getTrashedConversations(options: CallOptions = {}): Promise<TrashedConversation[]> {
+    const response = await this.request(
+      '/api/chat/conversations/trash',
+      envelope(s.array(TrashedConversationSchema)),
+      { signal: options.signal }
+    );
+
+    if (response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.errors?.detail || 'Failed to get deleted conversations');
+  }
+
+  /**
+   * Move a soft-deleted conversation back to the conversation list
+   * @param conversationId - ID of the conversation to restore
+   */
+  async restoreConversation(conversationId: string, options: CallOptions = {}): Promise<Conversation> {
+    const response = await this.request(
+      `/api/chat/conversations/${conversationId}/restore`,
+      envelope(ConversationSchema),
+      {
+        method: 'POST',
+        signal: options.signal,
+        invalidates: ['/api/chat/conversations'],
+      }
+    );
+
+    if (response.errors || !response.data) {
+      throw new Error(response.errors?.detail || 'Failed to restore conversation');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Permanently delete every soft-deleted conversation
+   */
+  async emptyTrash(options: CallOptions = {}): Promise<{ message: string; count: number }> {
+    const response = await this.request('/api/chat/conversations/trash', envelope(EmptyTrashSchema), {
+      method: 'DELETE',
+      signal: options.signal,
+      invalidates: ['/api/chat/conversations'],
+    });
+
+    if (response.errors) {
+      throw new Error(response.errors?.detail || 'Failed to empty trash');
+    }
+
+    return {
+      message: response.message || 'Trash emptied successfully',
+      count: response.data?.count || 0,
+    };
+  }
 }
 
 export const apiService = new ApiService();
-
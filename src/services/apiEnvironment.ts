@@ -0,0 +1,128 @@
+/**
+ * Runtime API environment selection
+ *
+ * Remembers which backend (local, emulator, staging, production or a custom URL) the
+ * app talks to, and applies it to ApiService. Changing environments drops the access
+ * token immediately; AuthContext subscribes and signs the user out, so tokens issued
+ * by one backend are never sent to another.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_ENVIRONMENTS, ApiEnvironment, ApiEnvironmentId, getDefaultEnvironmentId } from '../config/api';
+import { apiService } from './api';
+
+const STORAGE_KEY = '@dharmasaar_api_environment';
+
+export interface EnvironmentSelection {
+  id: ApiEnvironmentId;
+  /** Only used by the `custom` environment */
+  customUrl?: string;
+}
+
+export interface SwitchResult {
+  baseUrl: string;
+  /** Whether `/health` answered on the new backend */
+  reachable: boolean;
+}
+
+type Listener = (selection: EnvironmentSelection) => void;
+
+/**
+ * Normalize a user-entered server URL, or return null if it isn't an http(s) URL
+ */
+export const normalizeBaseUrl = (url: string): string | null => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/?#]+(:\d+)?(\/[^\s?#]*)?$/i.test(trimmed) ? trimmed : null;
+};
+
+class ApiEnvironmentStore {
+  private selection: EnvironmentSelection = { id: getDefaultEnvironmentId() };
+  private loadPromise: Promise<EnvironmentSelection> | null = null;
+  private listeners = new Set<Listener>();
+
+  getEnvironments(): ApiEnvironment[] {
+    return API_ENVIRONMENTS;
+  }
+
+  getSelection(): EnvironmentSelection {
+    return this.selection;
+  }
+
+  /**
+   * Base URL for a selection, or null for a custom URL that isn't valid
+   */
+  resolveBaseUrl(selection: EnvironmentSelection): string | null {
+    if (selection.id === 'custom') {
+      return normalizeBaseUrl(selection.customUrl ?? '');
+    }
+    return API_ENVIRONMENTS.find(environment => environment.id === selection.id)?.baseUrl ?? null;
+  }
+
+  /**
+   * Restore the persisted environment and point ApiService at it (only reads storage once).
+   * Must finish before the stored session is used, so call it before restoring auth.
+   */
+  load(): Promise<EnvironmentSelection> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          if (stored) {
+            const parsed: EnvironmentSelection = JSON.parse(stored);
+            const baseUrl = this.resolveBaseUrl(parsed);
+            if (baseUrl) {
+              this.selection = parsed;
+              apiService.setBaseUrl(baseUrl);
+              console.log(`[API Config] Using ${parsed.id} environment: ${baseUrl}`);
+            }
+          }
+        } catch (error) {
+          console.error('Error loading API environment:', error);
+        }
+        return this.selection;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Switch to another backend, persist the choice and check that it is reachable.
+   * Throws if a custom URL is invalid.
+   */
+  async switchTo(selection: EnvironmentSelection): Promise<SwitchResult> {
+    const baseUrl = this.resolveBaseUrl(selection);
+    if (!baseUrl) {
+      throw new Error('Enter a valid server URL starting with http:// or https://');
+    }
+
+    const changed = baseUrl !== apiService.getBaseUrl();
+    this.selection = selection.id === 'custom' ? { id: 'custom', customUrl: baseUrl } : { id: selection.id };
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.selection));
+    } catch (error) {
+      console.error('Error saving API environment:', error);
+    }
+
+    if (changed) {
+      // The old backend's token means nothing to the new one
+      apiService.setAccessToken(null);
+      apiService.setBaseUrl(baseUrl);
+      this.listeners.forEach(listener => listener(this.selection));
+    }
+
+    const reachable = await apiService.testConnection();
+    return { baseUrl, reachable };
+  }
+
+  /**
+   * Called after the environment actually changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const apiEnvironment = new ApiEnvironmentStore();
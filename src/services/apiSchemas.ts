@@ -0,0 +1,361 @@
+/**
+ * Runtime schemas for every ApiService response
+ *
+ * These are the single source of truth for the shapes returned by the backend:
+ * the exported TypeScript types are inferred from them, and ApiService validates
+ * each `{ message, data, errors }` envelope against them before handing data to the UI.
+ */
+import { s, Schema, Infer } from '../utils/schema';
+
+/**
+ * Wrap a data schema in the backend's standard response envelope
+ */
+export const envelope = <T>(data: Schema<T>) =>
+  s.object({
+    message: s.string(),
+    data: s.nullish(data),
+    errors: s.any(),
+  });
+
+// Shlokas & explanations
+
+export const WordByWordItemSchema = s.object({
+  sanskrit: s.string(),
+  transliteration: s.string(),
+  meaning: s.string(),
+});
+
+export const ShlokaSchema = s.object({
+  id: s.string(), // UUID as string from JSON
+  book_name: s.string(),
+  chapter_number: s.number(),
+  verse_number: s.number(),
+  sanskrit_text: s.string(),
+  transliteration: s.nullish(s.string()),
+  word_by_word: s.nullish(s.array(WordByWordItemSchema)), // Word-by-word breakdown from shloka
+  created_at: s.nullish(s.string()), // ISO 8601 datetime string, optional
+  updated_at: s.nullish(s.string()), // ISO 8601 datetime string, optional
+});
+
+export const ModernExampleSchema = s.object({
+  category: s.string(),
+  description: s.string(),
+});
+
+export const ExplanationSchema = s.object({
+  id: s.string(), // UUID as string from JSON
+  shloka_id: s.string(), // UUID as string from JSON
+  // Structured fields
+  summary: s.nullish(s.string()),
+  detailed_meaning: s.nullish(s.string()),
+  detailed_explanation: s.nullish(s.string()),
+  context: s.nullish(s.string()),
+  why_this_matters: s.nullish(s.string()),
+  modern_examples: s.nullish(s.array(ModernExampleSchema)),
+  themes: s.nullish(s.array(s.string())),
+  reflection_prompt: s.nullish(s.string()),
+  // Quality tracking
+  quality_score: s.nullish(s.number()),
+  quality_checked_at: s.nullish(s.string()),
+  improvement_version: s.nullish(s.number()),
+  // Metadata
+  ai_model_used: s.nullish(s.string()),
+  generation_prompt: s.nullish(s.string()),
+  // Computed field (backward compatibility)
+  explanation_text: s.nullish(s.string()),
+  created_at: s.nullish(s.string()),
+  updated_at: s.nullish(s.string()),
+});
+
+export const ShlokaWithExplanationSchema = s.object({
+  shloka: ShlokaSchema,
+  explanation: s.optional(ExplanationSchema),
+});
+
+// Library catalog: every book, chapter and verse available, with the user's read markers
+
+export const CatalogVerseSchema = s.object({
+  id: s.string(),
+  verse_number: s.number(),
+  // Read or marked as read by the current user (absent when signed out)
+  is_read: s.optional(s.boolean()),
+});
+
+export const CatalogChapterSchema = s.object({
+  chapter_number: s.number(),
+  verse_count: s.number(),
+  read_count: s.optional(s.number()),
+  verses: s.array(CatalogVerseSchema),
+});
+
+export const CatalogBookSchema = s.object({
+  book_name: s.string(),
+  verse_count: s.number(),
+  read_count: s.optional(s.number()),
+  chapters: s.array(CatalogChapterSchema),
+});
+
+export const ShlokaCatalogSchema = s.object({
+  books: s.array(CatalogBookSchema),
+});
+
+// Offline content packs: a book's shlokas in one JSON file per chapter, plus optional
+// recitation audio per verse, each file listed with its size and SHA-256
+
+export const PackSummarySchema = s.object({
+  book_name: s.string(),
+  version: s.number(),
+  shloka_count: s.number(),
+  // Bytes of shlokas and explanations, and of the optional audio
+  size: s.number(),
+  audio_size: s.number(),
+});
+
+export const PackListSchema = s.object({
+  packs: s.array(PackSummarySchema),
+});
+
+export const PackChunkSchema = s.object({
+  path: s.string(),
+  sha256: s.string(),
+  size: s.number(),
+  chapter_number: s.number(),
+  shloka_ids: s.array(s.string()),
+});
+
+export const PackAudioSchema = s.object({
+  path: s.string(),
+  sha256: s.string(),
+  size: s.number(),
+  shloka_id: s.string(),
+});
+
+export const PackManifestSchema = s.object({
+  book_name: s.string(),
+  version: s.number(),
+  chunks: s.array(PackChunkSchema),
+  audio: s.array(PackAudioSchema),
+});
+
+// Auth
+
+export const AuthUserSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: s.string(),
+  created_at: s.optional(s.string()),
+});
+
+export const AuthResponseSchema = s.object({
+  user: AuthUserSchema,
+  tokens: s.object({
+    access: s.string(),
+    refresh: s.string(),
+  }),
+});
+
+export const TokenRefreshSchema = s.object({
+  access: s.string(),
+  refresh: s.optional(s.string()), // New refresh token when rotation is enabled
+});
+
+// Reading progress & gamification
+
+export const ReadingLogSchema = s.object({
+  id: s.string(),
+  shloka: s.string(),
+  reading_type: s.string(),
+  read_at: s.string(),
+});
+
+export const UserStatsSchema = s.object({
+  total_shlokas_read: s.number(),
+  total_books_read: s.number(),
+  total_readings: s.number(),
+  current_streak: s.number(),
+  longest_streak: s.number(),
+  total_streak_days: s.number(),
+  streak_freeze_available: s.boolean(),
+  level: s.number(),
+  experience: s.number(),
+  xp_in_current_level: s.number(),
+  xp_for_next_level: s.number(),
+  readings_this_week: s.number(),
+  readings_this_month: s.number(),
+});
+
+export const UserStreakSchema = s.object({
+  id: s.string(),
+  current_streak: s.number(),
+  longest_streak: s.number(),
+  streak_freeze_used_this_month: s.boolean(),
+  last_streak_date: s.nullable(s.string()),
+  total_streak_days: s.number(),
+  streak_freeze_reset_date: s.nullable(s.string()),
+  awarded_milestones: s.array(s.number()),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export const StreakFreezeSchema = s.object({
+  freeze_used: s.boolean(),
+  freeze_available: s.boolean(),
+  current_streak: s.optional(s.number()),
+});
+
+export const StreakHistorySchema = s.object({
+  current_streak: s.number(),
+  longest_streak: s.number(),
+  total_streak_days: s.number(),
+  last_streak_date: s.nullable(s.string()),
+  milestones_reached: s.array(
+    s.object({
+      days: s.number(),
+      bonus_xp: s.number(),
+      name: s.string(),
+      message: s.string(),
+    })
+  ),
+  recent_activity: s.array(
+    s.object({
+      date: s.string(),
+      count: s.number(),
+    })
+  ),
+});
+
+export const FavoriteSchema = s.object({
+  id: s.string(),
+  shloka: ShlokaSchema,
+  created_at: s.string(),
+});
+
+export const UserAchievementSchema = s.object({
+  id: s.string(),
+  achievement: s.object({
+    id: s.string(),
+    code: s.string(),
+    name: s.string(),
+    description: s.string(),
+    icon: s.string(),
+    condition_type: s.string(),
+    condition_value: s.number(),
+    xp_reward: s.number(),
+  }),
+  unlocked_at: s.string(),
+});
+
+export const MarkReadSchema = s.object({
+  shloka_id: s.string(),
+  marked: s.boolean(),
+  marked_at: s.optional(s.string()),
+});
+
+// Chat
+
+export const ChatMessageSchema = s.object({
+  id: s.string(),
+  role: s.literal('user', 'assistant'),
+  content: s.string(),
+  created_at: s.string(),
+  // Branching: the message this one follows (null for the first). Missing on older
+  // conversations, whose messages simply follow each other.
+  parent_id: s.nullish(s.string()),
+});
+
+/**
+ * The shloka a conversation was started about ("Ask about this shloka")
+ */
+export const ChatShlokaContextSchema = s.object({
+  shloka_id: s.string(),
+  book_name: s.string(),
+  chapter_number: s.number(),
+  verse_number: s.number(),
+  text: s.string(),
+});
+
+const conversationShape = {
+  id: s.string(),
+  title: s.nullable(s.string()),
+  created_at: s.string(),
+  updated_at: s.string(),
+  messages: s.array(ChatMessageSchema),
+  shloka_context: s.nullish(ChatShlokaContextSchema),
+  /** Last message of the branch the user is viewing */
+  active_leaf_id: s.nullish(s.string()),
+};
+
+export const ConversationSchema = s.object(conversationShape);
+
+/**
+ * A soft-deleted conversation, kept in the trash until restored or purged
+ */
+export const TrashedConversationSchema = s.object({
+  ...conversationShape,
+  deleted_at: s.string(),
+});
+
+export const ChatResponseSchema = s.object({
+  conversation: ConversationSchema,
+  response: s.string(),
+});
+
+export const DeleteConversationSchema = s.object({
+  conversation_id: s.string(),
+  hard_delete: s.boolean(),
+});
+
+export const DeleteAllConversationsSchema = s.object({
+  count: s.number(),
+  hard_delete: s.boolean(),
+});
+
+export const EmptyTrashSchema = s.object({
+  count: s.number(),
+});
+
+// Account
+
+export const UserProfileSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: s.string(),
+  created_at: s.optional(s.string()),
+  updated_at: s.optional(s.string()),
+});
+
+export const DeleteAccountSchema = s.object({
+  hard_delete: s.boolean(),
+});
+
+// Inferred types
+
+export type WordByWordItem = Infer<typeof WordByWordItemSchema>;
+export type Shloka = Infer<typeof ShlokaSchema>;
+export type ModernExample = Infer<typeof ModernExampleSchema>;
+export type Explanation = Infer<typeof ExplanationSchema>;
+export type ShlokaWithExplanation = Infer<typeof ShlokaWithExplanationSchema>;
+export type CatalogVerse = Infer<typeof CatalogVerseSchema>;
+export type CatalogChapter = Infer<typeof CatalogChapterSchema>;
+export type CatalogBook = Infer<typeof CatalogBookSchema>;
+export type ShlokaCatalog = Infer<typeof ShlokaCatalogSchema>;
+export type PackSummary = Infer<typeof PackSummarySchema>;
+export type PackChunk = Infer<typeof PackChunkSchema>;
+export type PackAudio = Infer<typeof PackAudioSchema>;
+export type PackManifest = Infer<typeof PackManifestSchema>;
+export type AuthUser = Infer<typeof AuthUserSchema>;
+export type AuthResponse = Infer<typeof AuthResponseSchema>;
+export type TokenRefresh = Infer<typeof TokenRefreshSchema>;
+export type ReadingLog = Infer<typeof ReadingLogSchema>;
+export type UserStats = Infer<typeof UserStatsSchema>;
+export type UserStreak = Infer<typeof UserStreakSchema>;
+export type StreakHistory = Infer<typeof StreakHistorySchema>;
+export type Favorite = Infer<typeof FavoriteSchema>;
+export type UserAchievement = Infer<typeof UserAchievementSchema>;
+export type MarkReadResult = Infer<typeof MarkReadSchema>;
+export type ChatMessage = Infer<typeof ChatMessageSchema>;
+export type ChatShlokaContext = Infer<typeof ChatShlokaContextSchema>;
+export type Conversation = Infer<typeof ConversationSchema>;
+export type TrashedConversation = Infer<typeof TrashedConversationSchema>;
+export type ChatResponse = Infer<typeof ChatResponseSchema>;
+export type UserProfile = Infer<typeof UserProfileSchema>;
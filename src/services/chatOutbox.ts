@@ -0,0 +1,388 @@
+/**
+ * Chat outbox - outgoing chat messages and unsent input drafts, persisted across restarts
+ *
+ * Every message the user sends is stored here first, so it can be shown straight away
+ * as pending, marked failed (tap to retry) when sending fails, and sent automatically
+ * once connectivity returns. A message leaves the outbox when the backend has saved it.
+ *
+ * Messages for a conversation that doesn't exist yet are keyed by a local conversation
+ * key; once the first one is sent, the rest are moved over to the new conversation id.
+ * Drafts are keyed by conversation id, or NEW_CONVERSATION_DRAFT before there is one.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { apiService, ChatResponse, ChatShlokaContext } from './api';
+import { isTransientError, ApiRequestError, CancelledError } from './errors';
+
+const OUTBOX_STORAGE_KEY = '@dharmasaar_chat_outbox';
+const DRAFTS_STORAGE_KEY = '@dharmasaar_chat_drafts';
+
+/** Conversation key for the draft of a conversation that hasn't been started */
+export const NEW_CONVERSATION_DRAFT = 'new';
+
+const LOCAL_KEY_PREFIX = 'local-';
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  /** Also used as the message id while it is shown locally */
+  id: string;
+  /** Server conversation id, or a local key for a conversation not created yet */
+  conversationKey: string;
+  content: string;
+  createdAt: string;
+  /** Branch to send on (see ChatSendOptions.parentId) */
+  parentId?: string | null;
+  shlokaContext?: ChatShlokaContext;
+  idempotencyKey: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** Why the last attempt failed */
+  error?: string;
+  /** The failure was transient (connectivity, server trouble, rate limiting), so send again later */
+  retryOnReconnect?: boolean;
+}
+
+export interface SendHandlers {
+  signal?: AbortSignal;
+  /** Stream the reply; without it the message is sent without streaming */
+  onToken?: (token: string) => void;
+  onConversation?: (conversationId: string) => void;
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+type SentListener = (entry: OutboxEntry, response: ChatResponse) => void;
+
+const generateKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createLocalConversationKey = (): string => `${LOCAL_KEY_PREFIX}${generateKey()}`;
+
+export const isLocalConversationKey = (key: string): boolean => key.startsWith(LOCAL_KEY_PREFIX);
+
+class ChatOutbox {
+  private entries: OutboxEntry[] = [];
+  private drafts: Record<string, string> = {};
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+  private sentListeners = new Set<SentListener>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+  /** The server asked us to wait until then (Retry-After) */
+  private retryAt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Load the outbox and send queued messages whenever the device comes back online.
+   * Returns a function that stops listening for connectivity changes.
+   */
+  start(): () => void {
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+        if (state.isConnected) {
+          this.flush();
+        }
+      });
+    }
+    this.load().then(() => this.flush());
+
+    return () => {
+      this.unsubscribeNetInfo?.();
+      this.unsubscribeNetInfo = null;
+    };
+  }
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [storedEntries, storedDrafts] = await Promise.all([
+            AsyncStorage.getItem(OUTBOX_STORAGE_KEY),
+            AsyncStorage.getItem(DRAFTS_STORAGE_KEY),
+          ]);
+          // A send interrupted by the app closing never finished - send it again
+          this.entries = (storedEntries ? (JSON.parse(storedEntries) as OutboxEntry[]) : []).map(entry =>
+            entry.status === 'sending' ? { ...entry, status: 'pending' } : entry
+          );
+          this.drafts = storedDrafts ? JSON.parse(storedDrafts) : {};
+          this.notify();
+        } catch (error) {
+          console.error('Error loading chat outbox:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Add an outgoing message as pending. Send it with `send`.
+   */
+  async enqueue(
+    message: Pick<OutboxEntry, 'conversationKey' | 'content' | 'parentId' | 'shlokaContext'>
+  ): Promise<OutboxEntry> {
+    await this.load();
+    const entry: OutboxEntry = {
+      ...message,
+      id: `outbox-${generateKey()}`,
+      createdAt: new Date().toISOString(),
+      idempotencyKey: generateKey(),
+      status: 'pending',
+      attempts: 0,
+    };
+    this.entries.push(entry);
+    await this.persistEntries();
+    return entry;
+  }
+
+  /**
+   * Send a queued message. Resolves with the saved conversation and removes the entry;
+   * on failure the entry is marked failed and the error rethrown. A CancelledError
+   * (the user stopped the reply) removes the entry too once the backend has acknowledged
+   * the message; stopped before that, it stays failed for the user to retry.
+   */
+  async send(id: string, handlers: SendHandlers = {}): Promise<ChatResponse> {
+    await this.load();
+    const entry = this.entries.find(item => item.id === id);
+    if (!entry) {
+      throw new Error('Message is no longer in the outbox');
+    }
+    if (entry.status === 'sending') {
+      throw new Error('Message is already being sent');
+    }
+    if (isLocalConversationKey(entry.conversationKey) && this.hasEarlierEntry(entry)) {
+      throw new Error('Waiting for the earlier message in this conversation');
+    }
+
+    this.update(entry.id, { status: 'sending', attempts: entry.attempts + 1, error: undefined });
+    await this.persistEntries();
+
+    const conversationId = isLocalConversationKey(entry.conversationKey) ? undefined : entry.conversationKey;
+    // The backend has the message once it names the conversation or starts replying
+    let acknowledged = false;
+    let savedConversationId = conversationId;
+    const options = {
+      signal: handlers.signal,
+      shlokaContext: entry.shlokaContext,
+      parentId: entry.parentId,
+      idempotencyKey: entry.idempotencyKey,
+    };
+    try {
+      const response = handlers.onToken
+        ? await apiService.streamChatMessage(entry.content, conversationId, {
+            ...options,
+            onToken: token => {
+              acknowledged = true;
+              handlers.onToken?.(token);
+            },
+            onConversation: createdId => {
+              acknowledged = true;
+              savedConversationId = createdId;
+              handlers.onConversation?.(createdId);
+            },
+          })
+        : await apiService.sendChatMessage(entry.content, conversationId, options);
+
+      this.settle(entry, response.conversation.id);
+      // Show the reply before the message drops out of the outbox, so it never disappears
+      this.sentListeners.forEach(listener => listener(entry, response));
+      await this.persistEntries();
+      // Anything queued behind it can go now
+      if (this.entries.some(item => item.status === 'pending')) {
+        this.flush();
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof CancelledError && acknowledged) {
+        this.settle(entry, savedConversationId);
+      } else if (error instanceof CancelledError) {
+        // Stopped before it reached the backend (e.g. while waiting to retry)
+        this.update(entry.id, { status: 'failed', error: 'Not sent', retryOnReconnect: false });
+      } else {
+        this.update(entry.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to send message',
+          retryOnReconnect: isTransientError(error),
+        });
+        this.deferReplay(error);
+      }
+      await this.persistEntries();
+      throw error;
+    }
+  }
+
+  /**
+   * Send queued messages in order: new ones and those that failed for lack of a connection.
+   * Stops at the first connectivity failure, so messages never arrive out of order.
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replay().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  /**
+   * Stop showing a message that won't be sent
+   */
+  async discard(id: string): Promise<void> {
+    await this.load();
+    this.entries = this.entries.filter(item => item.id !== id);
+    await this.persistEntries();
+  }
+
+  getEntries(conversationKey?: string): OutboxEntry[] {
+    return this.entries.filter(entry => conversationKey === undefined || entry.conversationKey === conversationKey);
+  }
+
+  getDraft(conversationKey: string): string {
+    return this.drafts[conversationKey] ?? '';
+  }
+
+  async setDraft(conversationKey: string, text: string): Promise<void> {
+    await this.load();
+    this.drafts = { ...this.drafts, [conversationKey]: text };
+    if (!text) {
+      delete this.drafts[conversationKey];
+    }
+    await this.persistDrafts();
+  }
+
+  /**
+   * Subscribe to outbox changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Be told when a queued message has been saved, e.g. to show the reply.
+   * Returns an unsubscribe function.
+   */
+  onSent(listener: SentListener): () => void {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop unsent messages and drafts (e.g. on logout, so they aren't sent for another account)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = [];
+    this.drafts = {};
+    this.retryAt = 0;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    await Promise.all([this.persistEntries(), this.persistDrafts()]);
+  }
+
+  private async replay(): Promise<void> {
+    await this.load();
+
+    // Without a session every attempt would fail with 401;
+    // while rate limited, deferReplay's timer flushes again when the wait is over
+    if (!apiService.getAccessToken() || Date.now() < this.retryAt) {
+      return;
+    }
+
+    const queued = () =>
+      this.entries.filter(
+        entry =>
+          (entry.status === 'pending' || (entry.status === 'failed' && entry.retryOnReconnect)) &&
+          !this.hasEarlierEntry(entry)
+      );
+    let next = queued()[0];
+    while (next) {
+      try {
+        await this.send(next.id);
+      } catch (error) {
+        if (isTransientError(error)) {
+          return;
+        }
+        // Rejected by the backend - it stays failed until the user retries or discards it
+        console.warn('[ChatOutbox] Message was not accepted:', error);
+      }
+      next = queued()[0];
+    }
+  }
+
+  /**
+   * Hold off sending queued messages until the time the server gave (Retry-After), then send them
+   */
+  private deferReplay(error: unknown): void {
+    const retryAt = error instanceof ApiRequestError ? error.retryAt : undefined;
+    if (retryAt === undefined || retryAt <= Date.now()) {
+      return;
+    }
+    this.retryAt = retryAt;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, retryAt - Date.now());
+  }
+
+  /**
+   * Drop a message the backend has saved. Later messages of a new conversation now
+   * belong to the one the backend created.
+   */
+  private settle(entry: OutboxEntry, conversationId: string | undefined): void {
+    this.entries = this.entries
+      .filter(item => item.id !== entry.id)
+      .map(item =>
+        conversationId && item.conversationKey === entry.conversationKey
+          ? { ...item, conversationKey: conversationId }
+          : item
+      );
+  }
+
+  /**
+   * A message for a conversation that doesn't exist yet has to wait for the one creating it
+   */
+  private hasEarlierEntry(entry: OutboxEntry): boolean {
+    if (!isLocalConversationKey(entry.conversationKey)) {
+      return false;
+    }
+    const first = this.entries.find(item => item.conversationKey === entry.conversationKey);
+    return first !== undefined && first.id !== entry.id;
+  }
+
+  private update(id: string, changes: Partial<OutboxEntry>): void {
+    this.entries = this.entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+  }
+
+  private async persistEntries(): Promise<void> {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Error saving chat outbox:', error);
+    }
+  }
+
+  private async persistDrafts(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(this.drafts));
+    } catch (error) {
+      console.error('Error saving chat drafts:', error);
+    }
+  }
+
+  private notify(): void {
+    const entries = [...this.entries];
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+export const chatOutbox = new ChatOutbox();
@@ -0,0 +1,128 @@
+/**
+ * Client-side circuit breaker, one per backend host
+ *
+ *   closed ──(repeated failures, or 503 + Retry-After)──▶ open
+ *   open ──(cooldown elapsed)──▶ half-open
+ *   half-open ──(/health probe ok)──▶ closed
+ *   half-open ──(probe fails)──▶ open, with a longer cooldown
+ *
+ * While open, requests fail fast with CircuitOpenError instead of piling onto a
+ * backend that is down. In half-open, the first request runs the probe and any
+ * others arriving meanwhile wait for its verdict.
+ */
+import { CircuitOpenError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed requests that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before probing (ms) */
+  cooldown: number;
+  /** Upper bound for the cooldown as it doubles after failed probes (ms) */
+  maxCooldown: number;
+}
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil: number | null = null;
+  private cooldown: number;
+  private probe: Promise<boolean> | null = null;
+
+  constructor(
+    private options: CircuitBreakerOptions,
+    private runProbe: () => Promise<boolean>,
+    private now: () => number = Date.now
+  ) {
+    this.cooldown = options.cooldown;
+  }
+
+  getState(): CircuitState {
+    if (this.openUntil === null) {
+      return 'closed';
+    }
+    return this.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * Resolve if a request may be sent, or throw CircuitOpenError
+   */
+  async acquire(): Promise<void> {
+    const state = this.getState();
+    if (state === 'closed') {
+      return;
+    }
+    if (state === 'open') {
+      throw new CircuitOpenError(undefined, { retryAt: this.openUntil ?? undefined });
+    }
+
+    if (!this.probe) {
+      this.probe = this.runProbe()
+        .catch(() => false)
+        .then(healthy => {
+          if (healthy) {
+            this.close();
+          } else {
+            this.cooldown = Math.min(this.cooldown * 2, this.options.maxCooldown);
+            this.openUntil = this.now() + this.cooldown;
+          }
+          return healthy;
+        })
+        .finally(() => {
+          this.probe = null;
+        });
+    }
+    if (!(await this.probe)) {
+      throw new CircuitOpenError(undefined, { retryAt: this.openUntil ?? undefined });
+    }
+  }
+
+  recordSuccess(): void {
+    this.close();
+  }
+
+  /**
+   * Count a failed request. `retryAt` (from Retry-After) opens the circuit until then.
+   */
+  recordFailure(retryAt?: number): void {
+    this.failures++;
+    if (retryAt !== undefined) {
+      this.openUntil = Math.max(retryAt, this.openUntil ?? 0);
+    } else if (this.failures >= this.options.failureThreshold) {
+      this.openUntil = this.now() + this.cooldown;
+    }
+  }
+
+  private close(): void {
+    this.failures = 0;
+    this.openUntil = null;
+    this.cooldown = this.options.cooldown;
+  }
+}
+
+/**
+ * Keeps one breaker per host, e.g. `https://api.dharmasaar.gibberishtech.com`
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private options: CircuitBreakerOptions,
+    private runProbe: () => Promise<boolean>,
+    private now: () => number = Date.now
+  ) {}
+
+  forUrl(url: string): CircuitBreaker {
+    const host = url.match(/^[a-z]+:\/\/[^/?#]+/i)?.[0] ?? url;
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options, this.runProbe, this.now);
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  reset(): void {
+    this.breakers.clear();
+  }
+}
@@ -0,0 +1,507 @@
+/**
+ * Offline content packs - whole books downloaded to the device
+ *
+ * A pack holds a book's shlokas and explanations (one JSON file per chapter) and,
+ * optionally, a recitation clip per verse. Files are stored by their SHA-256 under
+ * `packs/<book>/files/`, so every file is verified as it arrives, a download that was
+ * interrupted resumes with the files it already has, and an update only fetches the
+ * files whose hash changed. The installed version keeps serving until an update has
+ * fully arrived.
+ */
+import RNFS from 'react-native-fs';
+import { apiService, CallOptions, OfflineShlokaSource } from './api';
+import { CancelledError } from './errors';
+import {
+  PackManifest,
+  PackManifestSchema,
+  PackSummary,
+  ShlokaWithExplanation,
+  ShlokaWithExplanationSchema,
+} from './apiSchemas';
+import { blobToBase64 } from '../utils/base64';
+import { parse, s, Infer, Schema } from '../utils/schema';
+
+const PACKS_DIR = `${RNFS.DocumentDirectoryPath}/packs`;
+
+// Parsed chapter files kept in memory, most recently used last
+const MAX_CACHED_CHUNKS = 8;
+
+export type PackStatus =
+  | 'not_installed'
+  | 'downloading'
+  /** A download stopped part way; the files it fetched are kept for resuming */
+  | 'incomplete'
+  | 'installed'
+  | 'update_available';
+
+export interface ContentPack {
+  bookName: string;
+  status: PackStatus;
+  /** null until a version has been fully downloaded */
+  installedVersion: number | null;
+  /** null when the backend couldn't be reached */
+  latestVersion: number | null;
+  shlokaCount: number;
+  /** Bytes of shlokas and explanations */
+  size: number;
+  /** Bytes of recitation audio */
+  audioSize: number;
+  includesAudio: boolean;
+}
+
+export interface PackProgress {
+  completedBytes: number;
+  totalBytes: number;
+}
+
+export interface DownloadOptions {
+  /** Also download a recitation clip per verse */
+  includeAudio?: boolean;
+}
+
+/**
+ * A downloaded file didn't match the hash in the manifest. It is discarded, so
+ * downloading again fetches it afresh.
+ */
+export class PackIntegrityError extends Error {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Downloaded file ${path} is corrupt`);
+    this.name = 'PackIntegrityError';
+    this.path = path;
+  }
+}
+
+const InstalledPackSchema = s.object({
+  manifest: PackManifestSchema,
+  include_audio: s.boolean(),
+  installed_at: s.string(),
+});
+
+// Written when a download starts and removed once it completes
+const PendingDownloadSchema = s.object({
+  include_audio: s.boolean(),
+});
+
+type InstalledPack = Infer<typeof InstalledPackSchema>;
+
+interface PackFile {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+interface ActiveDownload {
+  controller: AbortController;
+  progress: PackProgress;
+  promise: Promise<void>;
+}
+
+type Listener = () => void;
+
+const slugify = (bookName: string): string =>
+  bookName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'book';
+
+const packDir = (bookName: string): string => `${PACKS_DIR}/${slugify(bookName)}`;
+
+const filePath = (bookName: string, file: PackFile): string => `${packDir(bookName)}/files/${file.sha256}`;
+
+const sumSizes = (files: PackFile[]): number => files.reduce((total, file) => total + file.size, 0);
+
+async function readJson<T>(path: string, schema: Schema<T>): Promise<T | null> {
+  if (!(await RNFS.exists(path))) {
+    return null;
+  }
+  try {
+    return parse(schema, JSON.parse(await RNFS.readFile(path, 'utf8')), path);
+  } catch (error) {
+    console.error(`Ignoring unreadable pack file ${path}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write through a temporary file so a crash never leaves half a JSON file behind
+ */
+async function writeJson(path: string, value: unknown): Promise<void> {
+  const part = `${path}.part`;
+  await RNFS.writeFile(part, JSON.stringify(value), 'utf8');
+  if (await RNFS.exists(path)) {
+    await RNFS.unlink(path);
+  }
+  await RNFS.moveFile(part, path);
+}
+
+class ContentPacks implements OfflineShlokaSource {
+  /** Installed packs by lowercased book name */
+  private installed = new Map<string, InstalledPack>();
+  /** Books with an interrupted download, by lowercased book name */
+  private pending = new Map<string, { bookName: string; includeAudio: boolean }>();
+  private downloads = new Map<string, ActiveDownload>();
+  private chunks = new Map<string, ShlokaWithExplanation[]>();
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+
+  /**
+   * Read the installed packs from disk (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readInstalled();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Packs available to download merged with the ones on the device. Offline, only the
+   * packs on the device are listed.
+   */
+  async listPacks(options: CallOptions = {}): Promise<ContentPack[]> {
+    await this.load();
+
+    let available: PackSummary[] = [];
+    try {
+      available = await apiService.getContentPacks(options);
+    } catch (error) {
+      if (this.installed.size === 0 && this.pending.size === 0) {
+        throw error;
+      }
+      console.warn('Listing offline packs from the device only:', error);
+    }
+
+    const packs = new Map<string, ContentPack>();
+    available.forEach(summary => {
+      packs.set(summary.book_name.toLowerCase(), {
+        bookName: summary.book_name,
+        status: 'not_installed',
+        installedVersion: null,
+        latestVersion: summary.version,
+        shlokaCount: summary.shloka_count,
+        size: summary.size,
+        audioSize: summary.audio_size,
+        includesAudio: false,
+      });
+    });
+    this.installed.forEach((pack, key) => {
+      const latest = packs.get(key);
+      packs.set(key, {
+        bookName: pack.manifest.book_name,
+        status: latest && latest.latestVersion! > pack.manifest.version ? 'update_available' : 'installed',
+        installedVersion: pack.manifest.version,
+        latestVersion: latest?.latestVersion ?? null,
+        shlokaCount: latest?.shlokaCount ?? pack.manifest.chunks.reduce((total, chunk) => total + chunk.shloka_ids.length, 0),
+        size: latest?.size ?? sumSizes(pack.manifest.chunks),
+        audioSize: latest?.audioSize ?? sumSizes(pack.manifest.audio),
+        includesAudio: pack.include_audio,
+      });
+    });
+    this.pending.forEach(({ bookName, includeAudio }, key) => {
+      if (!packs.has(key)) {
+        packs.set(key, {
+          bookName,
+          status: 'not_installed',
+          installedVersion: null,
+          latestVersion: null,
+          shlokaCount: 0,
+          size: 0,
+          audioSize: 0,
+          includesAudio: includeAudio,
+        });
+      }
+    });
+
+    return Array.from(packs.entries())
+      .map(([key, pack]) => ({
+        ...pack,
+        status: this.downloads.has(key) ? 'downloading' : this.pending.has(key) ? 'incomplete' : pack.status,
+      }))
+      .sort((a, b) => a.bookName.localeCompare(b.bookName));
+  }
+
+  /**
+   * Download (or update, or resume) a book's pack. Files already on the device are
+   * kept, so only new or changed ones are fetched. Calling it again while the book is
+   * downloading joins that download.
+   */
+  download(bookName: string, options: DownloadOptions = {}): Promise<void> {
+    const key = bookName.toLowerCase();
+    const active = this.downloads.get(key);
+    if (active) {
+      return active.promise;
+    }
+
+    const controller = new AbortController();
+    const download: ActiveDownload = {
+      controller,
+      progress: { completedBytes: 0, totalBytes: 0 },
+      promise: Promise.resolve(),
+    };
+    download.promise = this.runDownload(bookName, options, download).finally(() => {
+      this.downloads.delete(key);
+      this.notify();
+    });
+    this.downloads.set(key, download);
+    this.notify();
+    return download.promise;
+  }
+
+  /**
+   * Stop a download; what has arrived so far is kept for resuming
+   */
+  cancel(bookName: string): void {
+    this.downloads.get(bookName.toLowerCase())?.controller.abort();
+  }
+
+  getProgress(bookName: string): PackProgress | null {
+    return this.downloads.get(bookName.toLowerCase())?.progress ?? null;
+  }
+
+  /**
+   * Delete a book's pack, including any partial download
+   */
+  async remove(bookName: string): Promise<void> {
+    await this.load();
+    const key = bookName.toLowerCase();
+    const active = this.downloads.get(key);
+    if (active) {
+      active.controller.abort();
+      await active.promise.catch(() => undefined);
+    }
+
+    const dir = packDir(bookName);
+    if (await RNFS.exists(dir)) {
+      await RNFS.unlink(dir);
+    }
+    this.installed.delete(key);
+    this.pending.delete(key);
+    this.notify();
+  }
+
+  /**
+   * Listen for downloads starting, progressing and finishing, and packs being removed
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getShlokaById(shlokaId: string): Promise<ShlokaWithExplanation | null> {
+    await this.load();
+    for (const pack of this.installed.values()) {
+      const chunk = pack.manifest.chunks.find(candidate => candidate.shloka_ids.includes(shlokaId));
+      if (chunk) {
+        const items = await this.readChunk(pack.manifest.book_name, chunk);
+        return items.find(item => item.shloka.id === shlokaId) ?? null;
+      }
+    }
+    return null;
+  }
+
+  async getShlokaByChapterVerse(
+    bookName: string,
+    chapterNumber: number,
+    verseNumber: number
+  ): Promise<ShlokaWithExplanation | null> {
+    await this.load();
+    const pack = this.installed.get(bookName.toLowerCase());
+    if (!pack) {
+      return null;
+    }
+    for (const chunk of pack.manifest.chunks.filter(candidate => candidate.chapter_number === chapterNumber)) {
+      const items = await this.readChunk(pack.manifest.book_name, chunk);
+      const match = items.find(item => item.shloka.verse_number === verseNumber);
+      if (match) {
+        return match;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * A random stored shloka not in `excludeIds`, or null when there is none
+   */
+  async getRandomShloka(excludeIds: Set<string> = new Set()): Promise<ShlokaWithExplanation | null> {
+    await this.load();
+    const ids: string[] = [];
+    this.installed.forEach(pack =>
+      pack.manifest.chunks.forEach(chunk => chunk.shloka_ids.forEach(id => !excludeIds.has(id) && ids.push(id)))
+    );
+    if (ids.length === 0) {
+      return null;
+    }
+    return this.getShlokaById(ids[Math.floor(Math.random() * ids.length)]);
+  }
+
+  /**
+   * Every stored shloka, for searching offline
+   */
+  async getAllShlokas(): Promise<ShlokaWithExplanation[]> {
+    await this.load();
+    const all: ShlokaWithExplanation[] = [];
+    for (const pack of this.installed.values()) {
+      for (const chunk of pack.manifest.chunks) {
+        all.push(...(await this.readChunk(pack.manifest.book_name, chunk)));
+      }
+    }
+    return all;
+  }
+
+  /**
+   * Path of a shloka's downloaded recitation, or null when it wasn't downloaded
+   */
+  async getAudioPath(shlokaId: string): Promise<string | null> {
+    await this.load();
+    for (const pack of this.installed.values()) {
+      const audio = pack.include_audio && pack.manifest.audio.find(candidate => candidate.shloka_id === shlokaId);
+      if (audio) {
+        const path = filePath(pack.manifest.book_name, audio);
+        return (await RNFS.exists(path)) ? path : null;
+      }
+    }
+    return null;
+  }
+
+  private async readInstalled(): Promise<void> {
+    if (!(await RNFS.exists(PACKS_DIR))) {
+      return;
+    }
+    const dirs = (await RNFS.readDir(PACKS_DIR)).filter(item => item.isDirectory());
+    for (const dir of dirs) {
+      const pack = await readJson(`${dir.path}/pack.json`, InstalledPackSchema);
+      if (pack) {
+        this.installed.set(pack.manifest.book_name.toLowerCase(), pack);
+      }
+      const pending = await readJson(`${dir.path}/download.json`, PendingDownloadSchema);
+      const bookName = pack?.manifest.book_name ?? (await this.pendingBookName(dir.path));
+      if (pending && bookName) {
+        this.pending.set(bookName.toLowerCase(), { bookName, includeAudio: pending.include_audio });
+      }
+    }
+  }
+
+  /**
+   * Name of the book a first download was for, from the manifest it fetched
+   */
+  private async pendingBookName(dir: string): Promise<string | null> {
+    const manifest = await readJson(`${dir}/manifest.json`, PackManifestSchema);
+    return manifest?.book_name ?? null;
+  }
+
+  private async runDownload(bookName: string, options: DownloadOptions, download: ActiveDownload): Promise<void> {
+    await this.load();
+    const key = bookName.toLowerCase();
+    const { signal } = download.controller;
+    // Resuming keeps the choice made when the download started, unless it's given again
+    const includeAudio =
+      options.includeAudio ?? this.pending.get(key)?.includeAudio ?? this.installed.get(key)?.include_audio ?? false;
+
+    const dir = packDir(bookName);
+    await RNFS.mkdir(`${dir}/files`);
+    await writeJson(`${dir}/download.json`, { include_audio: includeAudio });
+
+    const manifest = await apiService.getPackManifest(bookName, { signal });
+    this.pending.set(key, { bookName: manifest.book_name, includeAudio });
+    await writeJson(`${dir}/manifest.json`, manifest);
+
+    const audio = new Set<PackFile>(includeAudio ? manifest.audio : []);
+    const files: PackFile[] = [...manifest.chunks, ...audio];
+    const missing: PackFile[] = [];
+    for (const file of files) {
+      if (!(await RNFS.exists(filePath(bookName, file)))) {
+        missing.push(file);
+      }
+    }
+    download.progress = { completedBytes: sumSizes(files) - sumSizes(missing), totalBytes: sumSizes(files) };
+    this.notify();
+
+    for (const file of missing) {
+      if (signal.aborted) {
+        throw new CancelledError('Download cancelled');
+      }
+      await this.fetchFile(manifest, file, audio.has(file), signal);
+      download.progress = { ...download.progress, completedBytes: download.progress.completedBytes + file.size };
+      this.notify();
+    }
+
+    await this.activate(manifest, includeAudio);
+  }
+
+  private async fetchFile(manifest: PackManifest, file: PackFile, binary: boolean, signal: AbortSignal): Promise<void> {
+    const target = filePath(manifest.book_name, file);
+    const part = `${target}.part`;
+    const response = await apiService.requestRaw(
+      `/api/packs/${encodeURIComponent(manifest.book_name)}/files/${file.path}`,
+      { signal }
+    );
+    if (binary) {
+      await RNFS.writeFile(part, await blobToBase64(await response.blob()), 'base64');
+    } else {
+      await RNFS.writeFile(part, await response.text(), 'utf8');
+    }
+
+    if ((await RNFS.hash(part, 'sha256')) !== file.sha256) {
+      await RNFS.unlink(part);
+      throw new PackIntegrityError(file.path);
+    }
+    await RNFS.moveFile(part, target);
+  }
+
+  /**
+   * Switch to a fully downloaded version and drop the files it no longer uses
+   */
+  private async activate(manifest: PackManifest, includeAudio: boolean): Promise<void> {
+    const dir = packDir(manifest.book_name);
+    const pack: InstalledPack = { manifest, include_audio: includeAudio, installed_at: new Date().toISOString() };
+    await writeJson(`${dir}/pack.json`, pack);
+    await RNFS.unlink(`${dir}/download.json`);
+    await RNFS.unlink(`${dir}/manifest.json`);
+
+    const key = manifest.book_name.toLowerCase();
+    this.installed.set(key, pack);
+    this.pending.delete(key);
+
+    const used = new Set([...manifest.chunks, ...(includeAudio ? manifest.audio : [])].map(file => file.sha256));
+    const stored = await RNFS.readDir(`${dir}/files`);
+    for (const item of stored) {
+      if (!used.has(item.name)) {
+        await RNFS.unlink(item.path);
+        this.chunks.delete(item.name);
+      }
+    }
+  }
+
+  private async readChunk(bookName: string, chunk: PackFile): Promise<ShlokaWithExplanation[]> {
+    const cached = this.chunks.get(chunk.sha256);
+    if (cached) {
+      // Move to the most recently used end
+      this.chunks.delete(chunk.sha256);
+      this.chunks.set(chunk.sha256, cached);
+      return cached;
+    }
+
+    const path = filePath(bookName, chunk);
+    let items: ShlokaWithExplanation[] = [];
+    try {
+      items = parse(s.array(ShlokaWithExplanationSchema), JSON.parse(await RNFS.readFile(path, 'utf8')), chunk.path);
+    } catch (error) {
+      // Lookups fall back to the network
+      console.error(`Error reading ${bookName} pack file ${chunk.path}:`, error);
+      return items;
+    }
+
+    this.chunks.set(chunk.sha256, items);
+    if (this.chunks.size > MAX_CACHED_CHUNKS) {
+      this.chunks.delete(this.chunks.keys().next().value!);
+    }
+    return items;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const contentPacks = new ContentPacks();
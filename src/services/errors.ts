@@ -0,0 +1,199 @@
+/**
+ * Error types thrown by ApiService
+ *
+ * Every failed request rejects with an ApiRequestError subclass so callers can branch on
+ * the kind of failure instead of matching message strings:
+ *
+ *   catch (error) {
+ *     if (error instanceof ValidationError) setFieldErrors(error.fieldErrors);
+ *     else if (error instanceof NetworkError) showOfflineBanner();
+ *   }
+ */
+export interface ApiErrorOptions {
+  statusCode?: number;
+  isNetworkError?: boolean;
+  /** Raw `errors` payload from the `{ message, data, errors }` envelope */
+  errors?: unknown;
+  /** Correlates the failure with backend logs (`X-Request-ID`) */
+  requestId?: string;
+  /** When the server said to try again (`Retry-After`), in ms since the epoch */
+  retryAt?: number;
+}
+
+/**
+ * A request that failed after ApiService's own retries.
+ * `message` is already user-friendly; the extra fields let callers decide
+ * whether the failure is transient (offline, timeout, 5xx) or permanent.
+ */
+export class ApiRequestError extends Error {
+  readonly statusCode?: number;
+  readonly isNetworkError: boolean;
+  readonly errors?: unknown;
+  readonly requestId?: string;
+  readonly retryAt?: number;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.statusCode = options.statusCode;
+    this.isNetworkError = options.isNetworkError ?? false;
+    this.errors = options.errors;
+    this.requestId = options.requestId;
+    this.retryAt = options.retryAt;
+  }
+
+  /**
+   * Message suitable for showing to the user as-is
+   */
+  get userFriendlyMessage(): string {
+    return this.message;
+  }
+}
+
+/**
+ * The device is offline or the server could not be reached
+ */
+export class NetworkError extends ApiRequestError {
+  readonly isOffline: boolean;
+
+  constructor(message: string, options: ApiErrorOptions & { isOffline?: boolean } = {}) {
+    super(message, { ...options, isNetworkError: true });
+    this.name = 'NetworkError';
+    this.isOffline = options.isOffline ?? false;
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends ApiRequestError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { ...options, isNetworkError: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 401/403 - the session is missing, expired or not allowed to do this
+ */
+export class AuthError extends ApiRequestError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 400/422 - the backend rejected the input. `fieldErrors` maps field names
+ * (e.g. `email`, `password_confirm`) to their messages.
+ */
+export class ValidationError extends ApiRequestError {
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = extractFieldErrors(options.errors);
+  }
+
+  /**
+   * First message for a field, for inline display under an input
+   */
+  getFieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+/**
+ * 429 - too many requests
+ */
+export class RateLimitError extends ApiRequestError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 5xx - the server failed to handle a valid request
+ */
+export class ServerError extends ApiRequestError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The backend has been failing, so the circuit breaker refused to send the request.
+ * `retryAt` is when the breaker will let a probe through again.
+ */
+export class CircuitOpenError extends ServerError {
+  constructor(message: string = 'Service temporarily unavailable.', options: ApiErrorOptions = {}) {
+    super(message, { statusCode: 503, ...options });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * The caller aborted the request via its AbortSignal - usually nothing to show the user
+ */
+export class CancelledError extends ApiRequestError {
+  constructor(message: string = 'Request cancelled', options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'CancelledError';
+  }
+}
+
+// Keys in the `errors` payload that describe the request as a whole, not a field
+const NON_FIELD_KEYS = ['detail', 'error', 'non_field_errors'];
+
+const extractFieldErrors = (errors: unknown): Record<string, string[]> => {
+  if (typeof errors !== 'object' || errors === null || Array.isArray(errors)) {
+    return {};
+  }
+  const fieldErrors: Record<string, string[]> = {};
+  Object.entries(errors as Record<string, unknown>).forEach(([field, value]) => {
+    if (NON_FIELD_KEYS.includes(field)) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      fieldErrors[field] = value.map(String);
+    } else if (typeof value === 'string') {
+      fieldErrors[field] = [value];
+    }
+  });
+  return fieldErrors;
+};
+
+/**
+ * Build the right error subclass for a failed HTTP response
+ */
+export const createHttpError = (status: number, message: string, options: ApiErrorOptions = {}): ApiRequestError => {
+  const errorOptions = { ...options, statusCode: status };
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, errorOptions);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, errorOptions);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, errorOptions);
+  }
+  if (status >= 500) {
+    return new ServerError(message, errorOptions);
+  }
+  return new ApiRequestError(message, errorOptions);
+};
+
+/**
+ * True for failures worth retrying later: no connectivity, timeouts, server errors and
+ * rate limiting (or anything else the server said to retry after)
+ */
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof ApiRequestError &&
+  (error.isNetworkError ||
+    error instanceof RateLimitError ||
+    error.retryAt !== undefined ||
+    (error.statusCode !== undefined && (error.statusCode >= 500 || error.statusCode === 429)));
@@ -0,0 +1,331 @@
+/**
+ * Interceptor (middleware) pipeline for ApiService
+ *
+ * Every request flows through a chain of middleware before reaching `fetch`:
+ *
+ *   errorMapping → connectivity → circuitBreaker → retry → refresh → auth → ...custom → transport
+ *
+ * A middleware receives the request and a `next` function, and may change the request,
+ * inspect or replace the response, or catch and recover from errors:
+ *
+ *   apiService.use(async (request, next) => {
+ *     const response = await next(withHeaders(request, { 'X-Trace-Id': traceId() }));
+ *     console.log(request.endpoint, response.status);
+ *     return response;
+ *   });
+ *
+ * `createInterceptor` builds one from separate request/response/error hooks.
+ */
+import { getUserFriendlyError, calculateBackoffDelay, checkNetworkStatus, waitForNetwork } from '../utils/errorHandler';
+import {
+  ApiRequestError,
+  NetworkError,
+  TimeoutError,
+  CancelledError,
+  createHttpError,
+  isTransientError,
+} from './errors';
+import { CircuitBreaker } from './circuitBreaker';
+import { sendStreamingRequest } from './streaming';
+
+export interface ApiRequest {
+  /** Path (and query) relative to the base URL, e.g. `/api/favorites` */
+  endpoint: string;
+  url: string;
+  init: Omit<RequestInit, 'headers'> & { headers: Record<string, string> };
+  /** 0 for the first try, incremented by the retry interceptor */
+  attempt: number;
+  /** Receive a 2xx streaming body (SSE or NDJSON) piece by piece as it arrives */
+  onChunk?: (chunk: string) => void;
+}
+
+export type Next = (request: ApiRequest) => Promise<Response>;
+
+export type Middleware = (request: ApiRequest, next: Next) => Promise<Response>;
+
+export interface InterceptorHooks {
+  /** Runs before the request is sent; return the (possibly modified) request */
+  onRequest?: (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+  /** Runs after a response arrives; return the (possibly replaced) response */
+  onResponse?: (response: Response, request: ApiRequest) => Response | Promise<Response>;
+  /** Runs when a later stage throws; return a response to recover, or throw */
+  onError?: (error: unknown, request: ApiRequest) => Response | Promise<Response>;
+}
+
+/**
+ * Build a middleware from per-phase hooks
+ */
+export const createInterceptor = (hooks: InterceptorHooks): Middleware => async (request, next) => {
+  const outgoing = hooks.onRequest ? await hooks.onRequest(request) : request;
+  let response: Response;
+  try {
+    response = await next(outgoing);
+  } catch (error) {
+    if (hooks.onError) {
+      return hooks.onError(error, outgoing);
+    }
+    throw error;
+  }
+  return hooks.onResponse ? hooks.onResponse(response, outgoing) : response;
+};
+
+/**
+ * Compose middleware (outermost first) around a final handler
+ */
+export const compose = (middleware: Middleware[], handler: Next): Next =>
+  middleware.reduceRight<Next>((next, current) => request => current(request, next), handler);
+
+/**
+ * Return a copy of the request with extra headers
+ */
+export const withHeaders = (request: ApiRequest, headers: Record<string, string>): ApiRequest => ({
+  ...request,
+  init: { ...request.init, headers: { ...request.init.headers, ...headers } },
+});
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms));
+
+const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Parse a `Retry-After` header (delay in seconds, or an HTTP date) into a delay in ms
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const getRetryAfter = (response: Response): number | null =>
+  response.status === 429 || response.status === 503 ? parseRetryAfter(response.headers?.get('Retry-After')) : null;
+
+/**
+ * Innermost handler - the actual network call, with a timeout.
+ * Streaming requests use XMLHttpRequest, with `timeout` as the longest gap between chunks.
+ */
+export const createFetchTransport = (timeout: number): Next => async request => {
+  if (request.onChunk) {
+    return sendStreamingRequest(request, timeout);
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  // The caller's signal aborts the same controller as the timeout
+  const callerSignal = request.init.signal;
+  const onAbort = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', onAbort);
+  }
+
+  try {
+    return await fetch(request.url, { ...request.init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Built-in interceptors
+
+/**
+ * Attach the bearer token when one is available
+ */
+export const authInterceptor = (getToken: () => string | null): Middleware => (request, next) => {
+  const token = getToken();
+  return next(token ? withHeaders(request, { Authorization: `Bearer ${token}` }) : request);
+};
+
+/**
+ * Refresh before sending when the access token is known to be expired, and on 401
+ * refresh once and replay the request. `refresh` is expected to be single-flight so
+ * parallel requests share one refresh.
+ */
+export const refreshInterceptor = (options: {
+  canRefresh: (request: ApiRequest) => boolean;
+  refresh: () => Promise<void>;
+  /** Whether the current token is already expired, judged locally */
+  isExpired?: () => boolean;
+}): Middleware => async (request, next) => {
+  if (options.isExpired?.() && options.canRefresh(request)) {
+    try {
+      await options.refresh();
+    } catch {
+      // Send anyway - the server's answer decides what the caller sees
+    }
+  }
+
+  const response = await next(request);
+  if (response.status !== 401 || !options.canRefresh(request)) {
+    return response;
+  }
+
+  try {
+    await options.refresh();
+  } catch (error) {
+    // Couldn't reach the server to refresh - the session may still be fine
+    if (isTransientError(error)) {
+      throw error;
+    }
+    // Refresh rejected - surface the original 401
+    return response;
+  }
+  return next(request);
+};
+
+/**
+ * Retry 5xx/429 responses and network failures with exponential backoff.
+ * A 429/503 `Retry-After` replaces the backoff; if it asks for longer than
+ * `maxRetryAfter`, the response is returned so the caller can show a countdown.
+ * Timeouts are not retried - the user has already waited long enough.
+ */
+export const retryInterceptor = (options: {
+  maxAttempts: number;
+  delay: number;
+  maxRetryAfter?: number;
+}): Middleware => async (request, next) => {
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < options.maxAttempts;
+    let retryAfter: number | null = null;
+    try {
+      const response = await next({ ...request, attempt });
+      const retryableStatus = response.status >= 500 || response.status === 0 || response.status === 429;
+      retryAfter = getRetryAfter(response);
+      const waitTooLong = retryAfter !== null && retryAfter > (options.maxRetryAfter ?? Infinity);
+      if (!retryableStatus || !canRetry || waitTooLong) {
+        return response;
+      }
+    } catch (error) {
+      const errorInfo = getUserFriendlyError(error);
+      const retryableError =
+        !isAbortError(error) &&
+        !(error instanceof ApiRequestError) &&
+        errorInfo.canRetry &&
+        errorInfo.isNetworkError;
+      if (!retryableError || !canRetry) {
+        throw error;
+      }
+    }
+    await sleep(retryAfter ?? calculateBackoffDelay(attempt, options.delay));
+    if (request.init.signal?.aborted) {
+      throw new CancelledError();
+    }
+  }
+};
+
+/**
+ * Fail fast with CircuitOpenError while the host's breaker is open, and feed it the
+ * outcome of every request. Sits outside retry, so one exhausted request counts once.
+ */
+export const circuitBreakerInterceptor = (getBreaker: (request: ApiRequest) => CircuitBreaker): Middleware => async (
+  request,
+  next
+) => {
+  const breaker = getBreaker(request);
+  await breaker.acquire();
+
+  let response: Response;
+  try {
+    response = await next(request);
+  } catch (error) {
+    // Typed errors (e.g. a deferred token refresh) were already counted by their own request
+    const unreachable = !(error instanceof ApiRequestError) && !request.init.signal?.aborted;
+    if (unreachable) {
+      breaker.recordFailure();
+    }
+    throw error;
+  }
+
+  const retryAfter = getRetryAfter(response);
+  if (retryAfter !== null) {
+    // The server said when to come back - don't send anything before then
+    breaker.recordFailure(Date.now() + retryAfter);
+  } else if (response.status >= 500 || response.status === 0) {
+    breaker.recordFailure();
+  } else {
+    breaker.recordSuccess();
+  }
+  return response;
+};
+
+/**
+ * Fail fast (after a short grace period) when the device is offline
+ */
+export const connectivityInterceptor = (gracePeriod: number = 5000): Middleware => async (request, next) => {
+  const isOnline = await checkNetworkStatus();
+  if (!isOnline) {
+    const networkAvailable = await waitForNetwork(gracePeriod);
+    if (!networkAvailable) {
+      throw new NetworkError('No internet connection. Please check your network settings.', {
+        isOffline: true,
+        requestId: request.init.headers['X-Request-ID'],
+      });
+    }
+  }
+  return next(request);
+};
+
+/**
+ * Turn failed responses and transport errors into typed ApiRequestError subclasses
+ * (AuthError, ValidationError, ServerError, ...) with a user-friendly message.
+ * 304 Not Modified passes through for the response cache.
+ */
+export const errorMappingInterceptor = (): Middleware => async (request, next) => {
+  const requestId = request.init.headers['X-Request-ID'];
+
+  let response: Response;
+  try {
+    response = await next(request);
+  } catch (error) {
+    if (error instanceof ApiRequestError) {
+      throw error;
+    }
+    // Aborted by the caller rather than by the timeout
+    if (request.init.signal?.aborted) {
+      throw new CancelledError('Request cancelled', { requestId });
+    }
+    if (isAbortError(error)) {
+      const errorInfo = getUserFriendlyError(new Error('Request timeout'));
+      throw new TimeoutError(errorInfo.userFriendlyMessage, { requestId });
+    }
+    const errorInfo = getUserFriendlyError(error);
+    if (errorInfo.isNetworkError) {
+      throw new NetworkError(errorInfo.userFriendlyMessage, { requestId });
+    }
+    throw new ApiRequestError(errorInfo.userFriendlyMessage, { statusCode: errorInfo.statusCode, requestId });
+  }
+
+  if (response.ok || response.status === 304) {
+    return response;
+  }
+
+  const errorData: any = await response.json().catch(() => ({
+    error: 'Unknown error',
+    detail: `HTTP ${response.status}: ${response.statusText}`,
+  }));
+
+  // Handle wrapped error response format: { message, data, errors }
+  const errorMessage =
+    errorData.errors?.detail ||
+    errorData.errors?.error ||
+    errorData.detail ||
+    errorData.error ||
+    errorData.message ||
+    `HTTP ${response.status}: ${response.statusText}`;
+
+  const errorInfo = getUserFriendlyError(new Error(errorMessage));
+  const retryAfter = getRetryAfter(response);
+  throw createHttpError(response.status, errorInfo.userFriendlyMessage, {
+    retryAt: retryAfter !== null ? Date.now() + retryAfter : undefined,
+    errors: errorData.errors,
+    // Prefer the id the backend logged the request under
+    requestId: response.headers?.get('X-Request-ID') || requestId,
+  });
+};
@@ -0,0 +1,1278 @@
+/**
+ * In-memory mock of the DharmaSaar backend
+ *
+ * Serves every `/api/*` route ApiService uses (auth, shlokas, reading progress, streaks,
+ * favorites, achievements, chat - including streamed replies - TTS and offline content
+ * packs) from a store seeded with real shloka fixtures.
+ * It plugs in as ApiService's transport, so the full interceptor chain still runs:
+ *
+ *   apiService.setTransport(mockBackend.transport, { local: true });
+ *
+ * Used for offline development (see `useMockBackend` in config/api.ts) and in tests,
+ * where a fresh `new MockBackend({ now })` gives each case its own users and clock.
+ */
+import { mockShlokas } from '../data/mockKnowledge';
+import {
+  ChatMessage,
+  Conversation,
+  PackManifest,
+  TrashedConversation,
+  ShlokaWithExplanation,
+  StreakHistory,
+  UserAchievement,
+  UserStats,
+  UserStreak,
+} from './apiSchemas';
+import { ApiRequest, Next } from './interceptors';
+import { sha256, utf8Bytes } from './mockSha256';
+import { encodeBase64Url, decodeBase64Url } from '../utils/base64';
+import { resolveParents } from '../utils/conversationTree';
+
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const XP_PER_LEVEL = 100;
+const READING_XP = { summary: 10, detailed: 20 };
+
+const STREAK_MILESTONES = [
+  { days: 3, bonus_xp: 25, name: 'Three Day Flame', message: 'Three days in a row - a habit is forming!' },
+  { days: 7, bonus_xp: 75, name: 'Week of Wisdom', message: 'A full week of daily reading.' },
+  { days: 30, bonus_xp: 300, name: 'Month of Dharma', message: 'Thirty days of steady practice.' },
+  { days: 100, bonus_xp: 1000, name: 'Century of Sadhana', message: 'One hundred days without a break.' },
+];
+
+type AchievementDefinition = UserAchievement['achievement'];
+
+const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'ach-first-step',
+    code: 'first_step',
+    name: 'First Step',
+    description: 'Read your first shloka',
+    icon: '📖',
+    condition_type: 'shlokas_read',
+    condition_value: 1,
+    xp_reward: 10,
+  },
+  {
+    id: 'ach-seeker',
+    code: 'seeker',
+    name: 'Seeker',
+    description: 'Read 5 different shlokas',
+    icon: '🪔',
+    condition_type: 'shlokas_read',
+    condition_value: 5,
+    xp_reward: 50,
+  },
+  {
+    id: 'ach-steady-practice',
+    code: 'steady_practice',
+    name: 'Steady Practice',
+    description: 'Read on 3 days in a row',
+    icon: '🔥',
+    condition_type: 'streak_days',
+    condition_value: 3,
+    xp_reward: 30,
+  },
+  {
+    id: 'ach-devoted',
+    code: 'devoted',
+    name: 'Devoted',
+    description: 'Read on 7 days in a row',
+    icon: '🕉️',
+    condition_type: 'streak_days',
+    condition_value: 7,
+    xp_reward: 70,
+  },
+  {
+    id: 'ach-treasured-verse',
+    code: 'treasured_verse',
+    name: 'Treasured Verse',
+    description: 'Save your first favorite',
+    icon: '⭐',
+    condition_type: 'favorites_count',
+    condition_value: 1,
+    xp_reward: 10,
+  },
+  {
+    id: 'ach-curious-mind',
+    code: 'curious_mind',
+    name: 'Curious Mind',
+    description: 'Ask your first question',
+    icon: '💬',
+    condition_type: 'chat_messages',
+    condition_value: 1,
+    xp_reward: 10,
+  },
+];
+
+interface ReadingRecord {
+  id: string;
+  shlokaId: string;
+  readingType: 'summary' | 'detailed';
+  readAt: number;
+}
+
+interface ConversationRecord extends Conversation {
+  deletedAt: number | null;
+}
+
+interface MockUser {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  isActive: boolean;
+  createdAt: number;
+  updatedAt: number;
+  readings: ReadingRecord[];
+  marked: Map<string, number>;
+  favorites: Array<{ id: string; shlokaId: string; createdAt: number }>;
+  experience: number;
+  streak: {
+    current: number;
+    longest: number;
+    lastDate: string | null;
+    totalDays: number;
+    freezeUsedMonth: string | null;
+    awardedMilestones: number[];
+    createdAt: number;
+    updatedAt: number;
+  };
+  achievements: Array<{ id: string; code: string; unlockedAt: number }>;
+  conversations: ConversationRecord[];
+  chatMessagesSent: number;
+}
+
+interface RouteContext {
+  params: string[];
+  query: Record<string, string>;
+  body: any;
+  user: MockUser;
+}
+
+interface RouteResult {
+  status?: number;
+  message?: string;
+  data?: unknown;
+  /** Raw (non-JSON) response, e.g. TTS audio */
+  raw?: Response;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  /** Public routes run without a bearer token */
+  public?: boolean;
+  handle: (context: RouteContext) => RouteResult;
+}
+
+export interface MockBackendOptions {
+  /** Clock used for tokens, streaks and timestamps (tests move it forward to simulate days) */
+  now?: () => number;
+  /** Artificial delay per request, so loading states are visible in development */
+  latency?: number;
+  /** Delay between streamed chat tokens */
+  tokenInterval?: number;
+  /** Serve the streaming chat endpoint; turn off to exercise the non-streaming fallback */
+  streaming?: boolean;
+  shlokas?: ShlokaWithExplanation[];
+  /** Version of every content pack; raise it along with changed `shlokas` to publish an update */
+  packVersion?: number;
+}
+
+interface MockPack {
+  manifest: PackManifest;
+  /** Contents by path */
+  files: Map<string, string>;
+}
+
+/**
+ * Thrown by route handlers; becomes an error envelope with the given status
+ */
+class MockHttpError extends Error {
+  constructor(readonly status: number, message: string, readonly errors: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+const dateKey = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const monthKey = (time: number): string => new Date(time).toISOString().slice(0, 7);
+
+const parseQuery = (queryString: string): Record<string, string> =>
+  Object.fromEntries(
+    queryString
+      .split('&')
+      .filter(Boolean)
+      .map(pair => {
+        const [key, value = ''] = pair.split('=');
+        return [decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' '))];
+      })
+  );
+
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const sseEvent = (event: string, data: unknown): string => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * A short silent 16-bit mono WAV clip. Every byte is below 0x80 so it survives being sent
+ * as a string body, which React Native's Blob implementation requires.
+ */
+const silentClip = (): string => {
+  const bytes = (value: number, size: number) =>
+    Array.from({ length: size }, (_, i) => String.fromCharCode(Math.floor(value / 256 ** i) % 256)).join('');
+  const sampleRate = 11025;
+  const dataSize = 4410; // 0.2s
+  return (
+    'RIFF' +
+    bytes(36 + dataSize, 4) +
+    'WAVEfmt ' +
+    bytes(16, 4) +
+    bytes(1, 2) + // PCM
+    bytes(1, 2) + // mono
+    bytes(sampleRate, 4) +
+    bytes(sampleRate * 2, 4) +
+    bytes(2, 2) +
+    bytes(16, 2) +
+    'data' +
+    bytes(dataSize, 4) +
+    '\0'.repeat(dataSize)
+  );
+};
+
+const abortError = (): Error => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export class MockBackend {
+  private users = new Map<string, MockUser>();
+  private idempotentResults = new Map<string, RouteResult>();
+  private shlokas: ShlokaWithExplanation[];
+  private now: () => number;
+  private latency: number;
+  private tokenInterval: number;
+  private streaming: boolean;
+  private packVersion: number;
+  private packs = new Map<string, MockPack>();
+  private sequence = 0;
+  private routes: Route[];
+
+  constructor(options: MockBackendOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.latency = options.latency ?? 0;
+    this.tokenInterval = options.tokenInterval ?? 0;
+    this.streaming = options.streaming ?? true;
+    this.shlokas = options.shlokas ?? mockShlokas;
+    this.packVersion = options.packVersion ?? 1;
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * ApiService transport: answers the request from the in-memory store
+   */
+  transport: Next = async request => {
+    if (this.latency > 0) {
+      await this.delay(this.latency, request.init.signal);
+    }
+    if (request.init.signal?.aborted) {
+      throw abortError();
+    }
+    const response = this.handle(request);
+    if (request.onChunk && response.headers.get('Content-Type') === 'text/event-stream') {
+      return this.replayStream(response, request);
+    }
+    return response;
+  };
+
+  /**
+   * Forget every user, session and idempotency key
+   */
+  reset(): void {
+    this.users.clear();
+    this.idempotentResults.clear();
+    this.sequence = 0;
+  }
+
+  private handle(request: ApiRequest): Response {
+    const [path, queryString = ''] = request.endpoint.split('?');
+    const method = (request.init.method || 'GET').toUpperCase();
+
+    if (path === '/health') {
+      return jsonResponse(200, { message: 'API is healthy', data: { status: 'ok' }, errors: null });
+    }
+
+    let route: Route | undefined;
+    let params: string[] = [];
+    for (const candidate of this.routes) {
+      const match = candidate.method === method ? candidate.pattern.exec(path) : null;
+      if (match) {
+        route = candidate;
+        params = match.slice(1);
+        break;
+      }
+    }
+
+    if (!route) {
+      return jsonResponse(404, { message: 'Not found', data: null, errors: { detail: `No route for ${method} ${path}` } });
+    }
+
+    const idempotencyKey = request.init.headers['Idempotency-Key'];
+    try {
+      const user = route.public ? this.findSessionUser(request) : this.authenticate(request);
+      const replayed = idempotencyKey ? this.idempotentResults.get(idempotencyKey) : undefined;
+      const result =
+        replayed ??
+        route.handle({
+          params,
+          query: parseQuery(queryString),
+          body: typeof request.init.body === 'string' ? JSON.parse(request.init.body) : {},
+          user: user as MockUser,
+        });
+      if (idempotencyKey) {
+        // Keep an unread copy of a raw (streamed) response so a replay can read it again
+        this.idempotentResults.set(idempotencyKey, result.raw ? { ...result, raw: result.raw.clone() } : result);
+      }
+      return (
+        (replayed?.raw ? replayed.raw.clone() : result.raw) ??
+        jsonResponse(result.status ?? 200, { message: result.message ?? 'Success', data: result.data ?? null, errors: null })
+      );
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return jsonResponse(error.status, {
+          message: error.message,
+          data: null,
+          errors: { detail: error.message, ...error.errors },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver an event-stream body to `onChunk` one event at a time, like a server generating it
+   */
+  private async replayStream(response: Response, request: ApiRequest): Promise<Response> {
+    const body = await response.text();
+    const events = body
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => `${event}\n\n`);
+    for (const event of events) {
+      await this.delay(this.tokenInterval, request.init.signal);
+      request.onChunk?.(event);
+    }
+    return new Response(body, { status: response.status, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  private createRoutes(): Route[] {
+    return [
+      // Auth
+      { method: 'POST', pattern: /^\/api\/auth\/signup$/, public: true, handle: ctx => this.signup(ctx.body) },
+      { method: 'POST', pattern: /^\/api\/auth\/login$/, public: true, handle: ctx => this.login(ctx.body) },
+      { method: 'POST', pattern: /^\/api\/auth\/refresh$/, public: true, handle: ctx => this.refresh(ctx.body) },
+
+      // Shlokas
+      { method: 'GET', pattern: /^\/api\/shlokas\/random$/, public: true, handle: ctx => this.randomShloka(ctx.user) },
+      { method: 'GET', pattern: /^\/api\/shlokas\/catalog$/, public: true, handle: ctx => this.catalog(ctx.user) },
+      {
+        method: 'GET',
+        pattern: /^\/api\/shlokas\/by-chapter-verse$/,
+        public: true,
+        handle: ctx => this.shlokaByChapterVerse(ctx.query),
+      },
+      { method: 'POST', pattern: /^\/api\/shlokas\/mark-read$/, handle: ctx => this.markRead(ctx.user, ctx.body) },
+      {
+        method: 'GET',
+        pattern: /^\/api\/shlokas\/([^/]+)$/,
+        public: true,
+        handle: ctx => ({ data: this.findShloka(ctx.params[0]) }),
+      },
+
+      // Reading progress
+      { method: 'POST', pattern: /^\/api\/reading-logs$/, handle: ctx => this.logReading(ctx.user, ctx.body) },
+      { method: 'GET', pattern: /^\/api\/user\/stats$/, handle: ctx => ({ data: this.stats(ctx.user) }) },
+      { method: 'GET', pattern: /^\/api\/user\/streak$/, handle: ctx => ({ data: this.streak(ctx.user) }) },
+      { method: 'POST', pattern: /^\/api\/user\/streak\/freeze$/, handle: ctx => this.useFreeze(ctx.user) },
+      {
+        method: 'GET',
+        pattern: /^\/api\/user\/streak\/history$/,
+        handle: ctx => ({ data: this.streakHistory(ctx.user) }),
+      },
+
+      // Favorites & achievements
+      { method: 'GET', pattern: /^\/api\/favorites$/, handle: ctx => ({ data: this.favorites(ctx.user) }) },
+      { method: 'POST', pattern: /^\/api\/favorites$/, handle: ctx => this.addFavorite(ctx.user, ctx.body) },
+      { method: 'DELETE', pattern: /^\/api\/favorites$/, handle: ctx => this.removeFavorite(ctx.user, ctx.query) },
+      { method: 'GET', pattern: /^\/api\/achievements$/, handle: ctx => ({ data: this.achievements(ctx.user) }) },
+
+      // Account
+      { method: 'PATCH', pattern: /^\/api\/user\/profile$/, handle: ctx => this.updateProfile(ctx.user, ctx.body) },
+      {
+        method: 'POST',
+        pattern: /^\/api\/user\/change-password$/,
+        handle: ctx => this.changePassword(ctx.user, ctx.body),
+      },
+      { method: 'POST', pattern: /^\/api\/user\/deactivate-account$/, handle: ctx => this.deactivate(ctx.user) },
+      {
+        method: 'DELETE',
+        pattern: /^\/api\/user\/delete-account$/,
+        handle: ctx => this.deleteAccount(ctx.user, ctx.query),
+      },
+
+      // Chat
+      { method: 'GET', pattern: /^\/api\/chat\/conversations$/, handle: ctx => ({ data: this.conversations(ctx.user) }) },
+      { method: 'POST', pattern: /^\/api\/chat\/message$/, handle: ctx => this.chat(ctx.user, ctx.body) },
+      ...(this.streaming
+        ? [
+            {
+              method: 'POST',
+              pattern: /^\/api\/chat\/message\/stream$/,
+              handle: (ctx: RouteContext) => this.chatStream(ctx.user, ctx.body),
+            },
+          ]
+        : []),
+      { method: 'GET', pattern: /^\/api\/chat\/conversations\/trash$/, handle: ctx => ({ data: this.trash(ctx.user) }) },
+      { method: 'DELETE', pattern: /^\/api\/chat\/conversations\/trash$/, handle: ctx => this.emptyTrash(ctx.user) },
+      {
+        method: 'POST',
+        pattern: /^\/api\/chat\/conversations\/([^/]+)\/restore$/,
+        handle: ctx => this.restoreConversation(ctx.user, ctx.params[0]),
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/api\/chat\/conversations\/all$/,
+        handle: ctx => this.deleteAllConversations(ctx.user, ctx.query),
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/api\/chat\/conversations\/([^/]+)$/,
+        handle: ctx => this.updateConversation(ctx.user, ctx.params[0], ctx.body),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/chat\/conversations\/([^/]+)\/regenerate$/,
+        handle: ctx => this.regenerateReply(ctx.user, ctx.params[0], ctx.body),
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/api\/chat\/conversations\/([^/]+)\/delete$/,
+        handle: ctx => this.deleteConversation(ctx.user, ctx.params[0], ctx.query),
+      },
+
+      // Text to speech
+      {
+        method: 'POST',
+        pattern: /^\/api\/tts\/speak$/,
+        handle: () => ({
+          raw: new Response(silentClip(), { status: 200, headers: { 'Content-Type': 'audio/wav' } }),
+        }),
+      },
+
+      // Offline content packs
+      { method: 'GET', pattern: /^\/api\/packs$/, public: true, handle: () => this.listPacks() },
+      {
+        method: 'GET',
+        pattern: /^\/api\/packs\/([^/]+)\/manifest$/,
+        public: true,
+        handle: ctx => ({ data: this.findPack(decodeURIComponent(ctx.params[0])).manifest }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/packs\/([^/]+)\/files\/(.+)$/,
+        public: true,
+        handle: ctx => this.packFile(decodeURIComponent(ctx.params[0]), ctx.params[1]),
+      },
+    ];
+  }
+
+  // Sessions
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}-${this.sequence}`;
+  }
+
+  private issueToken(user: MockUser, tokenType: 'access' | 'refresh'): string {
+    const ttl = tokenType === 'access' ? ACCESS_TOKEN_TTL : REFRESH_TOKEN_TTL;
+    const header = encodeBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+    const payload = encodeBase64Url(
+      JSON.stringify({
+        token_type: tokenType,
+        user_id: user.id,
+        exp: Math.floor((this.now() + ttl) / 1000),
+        jti: this.nextId('jti'),
+      })
+    );
+    return `${header}.${payload}.mock`;
+  }
+
+  private readToken(token: string, tokenType: 'access' | 'refresh'): MockUser | null {
+    try {
+      const payload = JSON.parse(decodeBase64Url(token.split('.')[1] ?? ''));
+      const user = this.users.get(payload.user_id);
+      if (payload.token_type !== tokenType || payload.exp * 1000 <= this.now() || !user?.isActive) {
+        return null;
+      }
+      return user;
+    } catch {
+      return null;
+    }
+  }
+
+  private findSessionUser(request: ApiRequest): MockUser | undefined {
+    const token = request.init.headers.Authorization?.replace(/^Bearer /, '');
+    return token ? this.readToken(token, 'access') ?? undefined : undefined;
+  }
+
+  private authenticate(request: ApiRequest): MockUser {
+    const user = this.findSessionUser(request);
+    if (!user) {
+      throw new MockHttpError(401, 'Authentication credentials were not provided or are invalid.');
+    }
+    return user;
+  }
+
+  private authResult(user: MockUser, status: number, message: string): RouteResult {
+    return {
+      status,
+      message,
+      data: {
+        user: { id: user.id, name: user.name, email: user.email, created_at: new Date(user.createdAt).toISOString() },
+        tokens: { access: this.issueToken(user, 'access'), refresh: this.issueToken(user, 'refresh') },
+      },
+    };
+  }
+
+  private findUserByEmail(email: string): MockUser | undefined {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find(user => user.email === normalized);
+  }
+
+  private signup(body: any): RouteResult {
+    const fieldErrors: Record<string, string[]> = {};
+    if (!body.name?.trim()) {
+      fieldErrors.name = ['This field may not be blank.'];
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email ?? '')) {
+      fieldErrors.email = ['Enter a valid email address.'];
+    } else if (this.findUserByEmail(body.email)) {
+      fieldErrors.email = ['A user with this email already exists.'];
+    }
+    if ((body.password ?? '').length < 8) {
+      fieldErrors.password = ['This password is too short. It must contain at least 8 characters.'];
+    }
+    if (body.password !== body.password_confirm) {
+      fieldErrors.password_confirm = ["Passwords don't match."];
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new MockHttpError(400, 'Validation error', fieldErrors);
+    }
+
+    const now = this.now();
+    const user: MockUser = {
+      id: this.nextId('user'),
+      name: body.name.trim(),
+      email: body.email.trim().toLowerCase(),
+      password: body.password,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      readings: [],
+      marked: new Map(),
+      favorites: [],
+      experience: 0,
+      streak: {
+        current: 0,
+        longest: 0,
+        lastDate: null,
+        totalDays: 0,
+        freezeUsedMonth: null,
+        awardedMilestones: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+      achievements: [],
+      conversations: [],
+      chatMessagesSent: 0,
+    };
+    this.users.set(user.id, user);
+    return this.authResult(user, 201, 'User created successfully');
+  }
+
+  private login(body: any): RouteResult {
+    const user = this.findUserByEmail(body.email ?? '');
+    if (!user || user.password !== body.password || !user.isActive) {
+      throw new MockHttpError(401, 'Invalid email or password');
+    }
+    return this.authResult(user, 200, 'Login successful');
+  }
+
+  private refresh(body: any): RouteResult {
+    const user = this.readToken(body.refresh ?? '', 'refresh');
+    if (!user) {
+      throw new MockHttpError(401, 'Token is invalid or expired');
+    }
+    return {
+      message: 'Token refreshed successfully',
+      data: { access: this.issueToken(user, 'access'), refresh: this.issueToken(user, 'refresh') },
+    };
+  }
+
+  // Shlokas
+
+  private findShloka(shlokaId: string): ShlokaWithExplanation {
+    const shloka = this.shlokas.find(item => item.shloka.id === shlokaId);
+    if (!shloka) {
+      throw new MockHttpError(404, 'Shloka not found');
+    }
+    return shloka;
+  }
+
+  private randomShloka(user?: MockUser): RouteResult {
+    // Prefer verses the user hasn't read yet, like the real feed
+    const readIds = new Set(user ? this.readShlokaIds(user) : []);
+    const unread = this.shlokas.filter(item => !readIds.has(item.shloka.id));
+    const pool = unread.length > 0 ? unread : this.shlokas;
+    return { data: pool[Math.floor(Math.random() * pool.length)] };
+  }
+
+  private catalog(user?: MockUser): RouteResult {
+    const readIds = user ? new Set(this.readShlokaIds(user)) : null;
+    const sorted = [...this.shlokas].sort(
+      (a, b) => a.shloka.chapter_number - b.shloka.chapter_number || a.shloka.verse_number - b.shloka.verse_number
+    );
+    const countRead = (verses: Array<{ is_read?: boolean }>) =>
+      readIds ? verses.filter(verse => verse.is_read).length : undefined;
+
+    const bookNames = Array.from(new Set(sorted.map(item => item.shloka.book_name)));
+    const books = bookNames.map(bookName => {
+      const inBook = sorted.filter(item => item.shloka.book_name === bookName);
+      const chapterNumbers = Array.from(new Set(inBook.map(item => item.shloka.chapter_number)));
+      const chapters = chapterNumbers.map(chapterNumber => {
+        const verses = inBook
+          .filter(item => item.shloka.chapter_number === chapterNumber)
+          .map(({ shloka }) => ({
+            id: shloka.id,
+            verse_number: shloka.verse_number,
+            ...(readIds && { is_read: readIds.has(shloka.id) }),
+          }));
+        return { chapter_number: chapterNumber, verse_count: verses.length, read_count: countRead(verses), verses };
+      });
+      const verses = chapters.flatMap(chapter => chapter.verses);
+      return { book_name: bookName, verse_count: verses.length, read_count: countRead(verses), chapters };
+    });
+    return { data: { books } };
+  }
+
+  // Content packs
+
+  private listPacks(): RouteResult {
+    const bookNames = Array.from(new Set(this.shlokas.map(item => item.shloka.book_name)));
+    const packs = bookNames.map(bookName => {
+      const { manifest } = this.findPack(bookName);
+      const total = (files: Array<{ size: number }>) => files.reduce((sum, file) => sum + file.size, 0);
+      return {
+        book_name: manifest.book_name,
+        version: manifest.version,
+        shloka_count: manifest.chunks.reduce((sum, chunk) => sum + chunk.shloka_ids.length, 0),
+        size: total(manifest.chunks),
+        audio_size: total(manifest.audio),
+      };
+    });
+    return { data: { packs } };
+  }
+
+  /**
+   * Build a book's pack: a JSON file per chapter and a recitation clip per verse
+   */
+  private findPack(bookName: string): MockPack {
+    const key = bookName.toLowerCase();
+    const existing = this.packs.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const inBook = this.shlokas
+      .filter(item => item.shloka.book_name.toLowerCase() === key)
+      .sort((a, b) => a.shloka.chapter_number - b.shloka.chapter_number || a.shloka.verse_number - b.shloka.verse_number);
+    if (inBook.length === 0) {
+      throw new MockHttpError(404, 'Pack not found');
+    }
+
+    const files = new Map<string, string>();
+    const describe = (path: string, content: string) => {
+      files.set(path, content);
+      return { path, sha256: sha256(content), size: utf8Bytes(content).length };
+    };
+    const chapterNumbers = Array.from(new Set(inBook.map(item => item.shloka.chapter_number)));
+    const pack: MockPack = {
+      manifest: {
+        book_name: inBook[0].shloka.book_name,
+        version: this.packVersion,
+        chunks: chapterNumbers.map(chapterNumber => {
+          const inChapter = inBook.filter(item => item.shloka.chapter_number === chapterNumber);
+          return {
+            ...describe(`chapters/${chapterNumber}.json`, JSON.stringify(inChapter)),
+            chapter_number: chapterNumber,
+            shloka_ids: inChapter.map(item => item.shloka.id),
+          };
+        }),
+        audio: inBook.map(({ shloka }) => ({
+          ...describe(`audio/${shloka.id}.wav`, silentClip()),
+          shloka_id: shloka.id,
+        })),
+      },
+      files,
+    };
+    this.packs.set(key, pack);
+    return pack;
+  }
+
+  private packFile(bookName: string, path: string): RouteResult {
+    const content = this.findPack(bookName).files.get(path);
+    if (content === undefined) {
+      throw new MockHttpError(404, 'File not found');
+    }
+    const contentType = path.endsWith('.json') ? 'application/json' : 'audio/wav';
+    return { raw: new Response(content, { status: 200, headers: { 'Content-Type': contentType } }) };
+  }
+
+  private shlokaByChapterVerse(query: Record<string, string>): RouteResult {
+    const bookName = (query.book_name ?? '').toLowerCase();
+    const chapter = Number(query.chapter);
+    const verse = Number(query.verse);
+    const shloka = this.shlokas.find(
+      item =>
+        item.shloka.book_name.toLowerCase() === bookName &&
+        item.shloka.chapter_number === chapter &&
+        item.shloka.verse_number === verse
+    );
+    if (!shloka) {
+      throw new MockHttpError(404, 'Shloka not found');
+    }
+    return { data: shloka };
+  }
+
+  private markRead(user: MockUser, body: any): RouteResult {
+    this.findShloka(body.shloka_id);
+    const marked = body.marked !== false;
+    const now = this.now();
+    if (marked) {
+      user.marked.set(body.shloka_id, now);
+      this.recordActivity(user);
+    } else {
+      user.marked.delete(body.shloka_id);
+    }
+    return {
+      message: marked ? 'Shloka marked as read' : 'Shloka unmarked',
+      data: { shloka_id: body.shloka_id, marked, marked_at: marked ? new Date(now).toISOString() : undefined },
+    };
+  }
+
+  // Reading progress
+
+  private readShlokaIds(user: MockUser): string[] {
+    return Array.from(new Set([...user.readings.map(reading => reading.shlokaId), ...user.marked.keys()]));
+  }
+
+  private logReading(user: MockUser, body: any): RouteResult {
+    this.findShloka(body.shloka_id);
+    if (body.reading_type !== 'summary' && body.reading_type !== 'detailed') {
+      throw new MockHttpError(400, 'Validation error', { reading_type: ['Must be "summary" or "detailed".'] });
+    }
+    const reading: ReadingRecord = {
+      id: this.nextId('reading'),
+      shlokaId: body.shloka_id,
+      readingType: body.reading_type,
+      readAt: this.now(),
+    };
+    user.readings.push(reading);
+    user.experience += READING_XP[reading.readingType];
+    this.recordActivity(user);
+    return {
+      status: 201,
+      message: 'Reading logged successfully',
+      data: {
+        id: reading.id,
+        shloka: reading.shlokaId,
+        reading_type: reading.readingType,
+        read_at: new Date(reading.readAt).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Extend the streak for today's activity, then award milestones and achievements
+   */
+  private recordActivity(user: MockUser): void {
+    const now = this.now();
+    const today = dateKey(now);
+    const { streak } = user;
+
+    if (streak.lastDate !== today) {
+      streak.current = streak.lastDate === dateKey(now - DAY) ? streak.current + 1 : 1;
+      streak.longest = Math.max(streak.longest, streak.current);
+      streak.totalDays += 1;
+      streak.lastDate = today;
+      streak.updatedAt = now;
+    }
+
+    STREAK_MILESTONES.forEach(milestone => {
+      if (streak.current >= milestone.days && !streak.awardedMilestones.includes(milestone.days)) {
+        streak.awardedMilestones.push(milestone.days);
+        user.experience += milestone.bonus_xp;
+      }
+    });
+
+    this.awardAchievements(user);
+  }
+
+  /**
+   * Current streak as the backend reports it: broken once a whole day is missed
+   */
+  private currentStreak(user: MockUser): number {
+    const { lastDate, current } = user.streak;
+    const now = this.now();
+    return lastDate === dateKey(now) || lastDate === dateKey(now - DAY) ? current : 0;
+  }
+
+  private awardAchievements(user: MockUser): void {
+    const progress: Record<string, number> = {
+      shlokas_read: this.readShlokaIds(user).length,
+      streak_days: user.streak.current,
+      favorites_count: user.favorites.length,
+      chat_messages: user.chatMessagesSent,
+    };
+    ACHIEVEMENTS.forEach(achievement => {
+      const unlocked = user.achievements.some(entry => entry.code === achievement.code);
+      if (!unlocked && (progress[achievement.condition_type] ?? 0) >= achievement.condition_value) {
+        user.achievements.push({ id: this.nextId('user-achievement'), code: achievement.code, unlockedAt: this.now() });
+        user.experience += achievement.xp_reward;
+      }
+    });
+  }
+
+  private stats(user: MockUser): UserStats {
+    const now = this.now();
+    const readIds = this.readShlokaIds(user);
+    const books = new Set(
+      readIds.map(id => this.shlokas.find(item => item.shloka.id === id)?.shloka.book_name).filter(Boolean)
+    );
+    return {
+      total_shlokas_read: readIds.length,
+      total_books_read: books.size,
+      total_readings: user.readings.length,
+      current_streak: this.currentStreak(user),
+      longest_streak: user.streak.longest,
+      total_streak_days: user.streak.totalDays,
+      streak_freeze_available: user.streak.freezeUsedMonth !== monthKey(now),
+      level: Math.floor(user.experience / XP_PER_LEVEL) + 1,
+      experience: user.experience,
+      xp_in_current_level: user.experience % XP_PER_LEVEL,
+      xp_for_next_level: XP_PER_LEVEL,
+      readings_this_week: user.readings.filter(reading => now - reading.readAt < 7 * DAY).length,
+      readings_this_month: user.readings.filter(reading => now - reading.readAt < 30 * DAY).length,
+    };
+  }
+
+  private streak(user: MockUser): UserStreak {
+    const { streak } = user;
+    return {
+      id: `streak-${user.id}`,
+      current_streak: this.currentStreak(user),
+      longest_streak: streak.longest,
+      streak_freeze_used_this_month: streak.freezeUsedMonth === monthKey(this.now()),
+      last_streak_date: streak.lastDate,
+      total_streak_days: streak.totalDays,
+      streak_freeze_reset_date: null,
+      awarded_milestones: [...streak.awardedMilestones],
+      created_at: new Date(streak.createdAt).toISOString(),
+      updated_at: new Date(streak.updatedAt).toISOString(),
+    };
+  }
+
+  private useFreeze(user: MockUser): RouteResult {
+    const now = this.now();
+    const { streak } = user;
+    if (streak.freezeUsedMonth === monthKey(now)) {
+      throw new MockHttpError(400, 'Streak freeze already used this month');
+    }
+    if (this.currentStreak(user) === 0) {
+      throw new MockHttpError(400, 'There is no active streak to protect');
+    }
+    // Counts today as covered without adding a reading day
+    streak.freezeUsedMonth = monthKey(now);
+    streak.lastDate = dateKey(now);
+    streak.updatedAt = now;
+    return {
+      message: 'Streak freeze used',
+      data: { freeze_used: true, freeze_available: false, current_streak: streak.current },
+    };
+  }
+
+  private streakHistory(user: MockUser): StreakHistory {
+    const now = this.now();
+    const counts = new Map<string, number>();
+    user.readings
+      .filter(reading => now - reading.readAt < 30 * DAY)
+      .forEach(reading => {
+        const key = dateKey(reading.readAt);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      });
+    return {
+      current_streak: this.currentStreak(user),
+      longest_streak: user.streak.longest,
+      total_streak_days: user.streak.totalDays,
+      last_streak_date: user.streak.lastDate,
+      milestones_reached: STREAK_MILESTONES.filter(milestone =>
+        user.streak.awardedMilestones.includes(milestone.days)
+      ),
+      recent_activity: Array.from(counts, ([date, count]) => ({ date, count })).sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    };
+  }
+
+  // Favorites & achievements
+
+  private favorites(user: MockUser) {
+    return user.favorites.map(favorite => ({
+      id: favorite.id,
+      shloka: this.findShloka(favorite.shlokaId).shloka,
+      created_at: new Date(favorite.createdAt).toISOString(),
+    }));
+  }
+
+  private addFavorite(user: MockUser, body: any): RouteResult {
+    const { shloka } = this.findShloka(body.shloka_id);
+    if (user.favorites.some(favorite => favorite.shlokaId === shloka.id)) {
+      throw new MockHttpError(400, 'Shloka is already in favorites');
+    }
+    const favorite = { id: this.nextId('favorite'), shlokaId: shloka.id, createdAt: this.now() };
+    user.favorites.push(favorite);
+    this.awardAchievements(user);
+    return {
+      status: 201,
+      message: 'Added to favorites',
+      data: { id: favorite.id, shloka, created_at: new Date(favorite.createdAt).toISOString() },
+    };
+  }
+
+  private removeFavorite(user: MockUser, query: Record<string, string>): RouteResult {
+    const shlokaId = query.shloka_id;
+    const index = user.favorites.findIndex(favorite => favorite.shlokaId === shlokaId);
+    if (index === -1) {
+      throw new MockHttpError(404, 'Favorite not found');
+    }
+    user.favorites.splice(index, 1);
+    return { message: 'Removed from favorites' };
+  }
+
+  private achievements(user: MockUser): UserAchievement[] {
+    return user.achievements.map(entry => ({
+      id: entry.id,
+      achievement: ACHIEVEMENTS.find(achievement => achievement.code === entry.code) as AchievementDefinition,
+      unlocked_at: new Date(entry.unlockedAt).toISOString(),
+    }));
+  }
+
+  // Account
+
+  private updateProfile(user: MockUser, body: any): RouteResult {
+    if (body.email !== undefined) {
+      const existing = this.findUserByEmail(body.email);
+      if (existing && existing !== user) {
+        throw new MockHttpError(400, 'Validation error', { email: ['A user with this email already exists.'] });
+      }
+      user.email = body.email.trim().toLowerCase();
+    }
+    if (body.name !== undefined) {
+      user.name = body.name.trim();
+    }
+    user.updatedAt = this.now();
+    return {
+      message: 'Profile updated successfully',
+      data: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        created_at: new Date(user.createdAt).toISOString(),
+        updated_at: new Date(user.updatedAt).toISOString(),
+      },
+    };
+  }
+
+  private changePassword(user: MockUser, body: any): RouteResult {
+    if (body.current_password !== user.password) {
+      throw new MockHttpError(400, 'Current password is incorrect', {
+        current_password: ['Current password is incorrect.'],
+      });
+    }
+    if ((body.new_password ?? '').length < 8) {
+      throw new MockHttpError(400, 'Validation error', {
+        new_password: ['This password is too short. It must contain at least 8 characters.'],
+      });
+    }
+    user.password = body.new_password;
+    return { message: 'Password changed successfully', data: {} };
+  }
+
+  private deactivate(user: MockUser): RouteResult {
+    user.isActive = false;
+    return { message: 'Account deactivated successfully' };
+  }
+
+  private deleteAccount(user: MockUser, query: Record<string, string>): RouteResult {
+    const hardDelete = query.hard === 'true';
+    if (hardDelete) {
+      this.users.delete(user.id);
+    } else {
+      user.isActive = false;
+    }
+    return { message: 'Account deleted successfully', data: { hard_delete: hardDelete } };
+  }
+
+  // Chat
+
+  private toConversation(record: ConversationRecord): Conversation {
+    return {
+      id: record.id,
+      title: record.title,
+      created_at: record.created_at,
+      updated_at: record.updated_at,
+      messages: [...record.messages],
+      shloka_context: record.shloka_context ?? null,
+      active_leaf_id: record.active_leaf_id ?? null,
+    };
+  }
+
+  private findConversation(user: MockUser, conversationId: string, includeDeleted = false): ConversationRecord {
+    const conversation = user.conversations.find(
+      item => item.id === conversationId && (includeDeleted || item.deletedAt === null)
+    );
+    if (!conversation) {
+      throw new MockHttpError(404, 'Conversation not found');
+    }
+    return conversation;
+  }
+
+  private conversations(user: MockUser): Conversation[] {
+    return user.conversations
+      .filter(conversation => conversation.deletedAt === null)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .map(conversation => this.toConversation(conversation));
+  }
+
+  /**
+   * Answer with the fixture whose themes and explanation best match the question,
+   * cited in the "Chapter X, Verse Y" form ShlokaLinkedText turns into links. A conversation
+   * started about a shloka keeps answering from that shloka. Regenerated replies use the
+   * `variant`-th best match, so each one differs.
+   */
+  private composeReply(message: string, contextShlokaId?: string, variant = 0): string {
+    const words = message.toLowerCase().match(/[a-z]{3,}/g) ?? [];
+    const scored = this.shlokas.map(item => {
+      if (item.shloka.id === contextShlokaId) {
+        return { item, score: Infinity };
+      }
+      const haystack = [
+        ...(item.explanation?.themes ?? []),
+        item.explanation?.summary ?? '',
+        item.explanation?.why_this_matters ?? '',
+      ]
+        .join(' ')
+        .toLowerCase();
+      return { item, score: words.filter(word => haystack.includes(word)).length };
+    });
+    const ranked = [...scored].sort((a, b) => b.score - a.score);
+    const { shloka, explanation } = ranked[variant % ranked.length].item;
+
+    return [
+      explanation?.summary,
+      `This is taught in the ${shloka.book_name}, Chapter ${shloka.chapter_number}, Verse ${shloka.verse_number}:`,
+      shloka.transliteration,
+      explanation?.why_this_matters,
+      explanation?.reflection_prompt ? `To reflect on: ${explanation.reflection_prompt}` : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private chat(user: MockUser, body: any): RouteResult {
+    const text = (body.message ?? '').trim();
+    if (!text) {
+      throw new MockHttpError(400, 'Validation error', { message: ['This field may not be blank.'] });
+    }
+
+    const now = new Date(this.now()).toISOString();
+    let conversation: ConversationRecord;
+    if (body.conversation_id) {
+      conversation = this.findConversation(user, body.conversation_id);
+    } else {
+      conversation = {
+        id: this.nextId('conversation'),
+        title: text.length > 50 ? `${text.slice(0, 47)}...` : text,
+        created_at: now,
+        updated_at: now,
+        messages: [],
+        shloka_context: body.shloka_context ?? null,
+        deletedAt: null,
+      };
+      user.conversations.push(conversation);
+    }
+
+    // Continue the branch being viewed unless the client branches off (editing a question)
+    const parentId: string | null =
+      body.parent_id !== undefined
+        ? body.parent_id
+        : conversation.active_leaf_id ?? conversation.messages[conversation.messages.length - 1]?.id ?? null;
+    if (parentId !== null && !conversation.messages.some(message => message.id === parentId)) {
+      throw new MockHttpError(400, 'Validation error', { parent_id: ['Message not found in this conversation.'] });
+    }
+
+    const reply = this.composeReply(text, conversation.shloka_context?.shloka_id);
+    const userMessage: ChatMessage = { id: this.nextId('message'), role: 'user', content: text, created_at: now, parent_id: parentId };
+    const assistantMessage: ChatMessage = {
+      id: this.nextId('message'),
+      role: 'assistant',
+      content: reply,
+      created_at: now,
+      parent_id: userMessage.id,
+    };
+    conversation.messages.push(userMessage, assistantMessage);
+    conversation.active_leaf_id = assistantMessage.id;
+    conversation.updated_at = now;
+    user.chatMessagesSent += 1;
+    this.awardAchievements(user);
+
+    return { data: { conversation: this.toConversation(conversation), response: reply } };
+  }
+
+  private chatStream(user: MockUser, body: any): RouteResult {
+    const result = this.chat(user, body).data as { conversation: Conversation; response: string };
+    const tokens = result.response.match(/\S+\s*|\s+/g) ?? [];
+    const stream = [
+      sseEvent('conversation', { conversation_id: result.conversation.id }),
+      ...tokens.map(content => sseEvent('token', { content })),
+      sseEvent('done', { data: result }),
+    ].join('');
+    return { raw: new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }) };
+  }
+
+  private updateConversation(user: MockUser, conversationId: string, body: any): RouteResult {
+    const conversation = this.findConversation(user, conversationId);
+    if ('title' in body) {
+      conversation.title = body.title ?? null;
+    }
+    if ('active_leaf_id' in body) {
+      if (!conversation.messages.some(message => message.id === body.active_leaf_id)) {
+        throw new MockHttpError(400, 'Validation error', { active_leaf_id: ['Message not found in this conversation.'] });
+      }
+      conversation.active_leaf_id = body.active_leaf_id;
+    }
+    conversation.updated_at = new Date(this.now()).toISOString();
+    return { message: 'Conversation updated', data: this.toConversation(conversation) };
+  }
+
+  private regenerateReply(user: MockUser, conversationId: string, body: any): RouteResult {
+    const conversation = this.findConversation(user, conversationId);
+    // Messages saved before branching have no parent_id and follow the previous message, as on the client
+    const parents = resolveParents(conversation.messages);
+    const original = conversation.messages.find(message => message.id === body.message_id);
+    const question = original && conversation.messages.find(message => message.id === parents.get(original.id));
+    if (!original || original.role !== 'assistant' || !question) {
+      throw new MockHttpError(400, 'Validation error', { message_id: ['Not an assistant reply in this conversation.'] });
+    }
+
+    const now = new Date(this.now()).toISOString();
+    const variant = conversation.messages.filter(message => parents.get(message.id) === question.id).length;
+    const reply = this.composeReply(question.content, conversation.shloka_context?.shloka_id, variant);
+    const message: ChatMessage = { id: this.nextId('message'), role: 'assistant', content: reply, created_at: now, parent_id: question.id };
+    conversation.messages.push(message);
+    conversation.active_leaf_id = message.id;
+    conversation.updated_at = now;
+
+    return { data: { conversation: this.toConversation(conversation), response: reply } };
+  }
+
+  private deleteConversation(user: MockUser, conversationId: string, query: Record<string, string>): RouteResult {
+    const hardDelete = query.hard === 'true';
+    // Conversations in the trash can still be deleted permanently
+    const conversation = this.findConversation(user, conversationId, hardDelete);
+    if (hardDelete) {
+      user.conversations = user.conversations.filter(item => item !== conversation);
+    } else {
+      conversation.deletedAt = this.now();
+    }
+    return {
+      message: 'Conversation deleted successfully',
+      data: { conversation_id: conversationId, hard_delete: hardDelete },
+    };
+  }
+
+  private deleteAllConversations(user: MockUser, query: Record<string, string>): RouteResult {
+    const hardDelete = query.hard === 'true';
+    const active = user.conversations.filter(conversation => conversation.deletedAt === null);
+    if (hardDelete) {
+      user.conversations = [];
+    } else {
+      active.forEach(conversation => {
+        conversation.deletedAt = this.now();
+      });
+    }
+    return {
+      message: 'Conversations deleted successfully',
+      data: { count: active.length, hard_delete: hardDelete },
+    };
+  }
+
+  private trash(user: MockUser): TrashedConversation[] {
+    return user.conversations
+      .filter(conversation => conversation.deletedAt !== null)
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+      .map(conversation => ({
+        ...this.toConversation(conversation),
+        deleted_at: new Date(conversation.deletedAt ?? 0).toISOString(),
+      }));
+  }
+
+  private restoreConversation(user: MockUser, conversationId: string): RouteResult {
+    const conversation = this.findConversation(user, conversationId, true);
+    if (conversation.deletedAt === null) {
+      throw new MockHttpError(400, 'Conversation is not deleted');
+    }
+    conversation.deletedAt = null;
+    return { message: 'Conversation restored', data: this.toConversation(conversation) };
+  }
+
+  private emptyTrash(user: MockUser): RouteResult {
+    const trashed = user.conversations.filter(conversation => conversation.deletedAt !== null);
+    user.conversations = user.conversations.filter(conversation => conversation.deletedAt === null);
+    return { message: 'Trash emptied successfully', data: { count: trashed.length } };
+  }
+
+  private delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+}
+
+export const mockBackend = new MockBackend({ latency: 250, tokenInterval: 30 });
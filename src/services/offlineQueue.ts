@@ -0,0 +1,242 @@
+/**
+ * Offline mutation queue - persists fire-and-forget writes that could not reach the backend
+ *
+ * Reading logs, "mark as read" and favorites are captured here when the device is offline
+ * or the server returns a 5xx or 429, then replayed in order once connectivity returns (and
+ * not before the server's Retry-After). Each entry
+ * keeps the idempotency key it was first sent with so a replay never double-counts XP.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { apiService } from './api';
+import { isTransientError, ApiRequestError } from './errors';
+
+const STORAGE_KEY = '@dharmasaar_offline_queue';
+
+export type QueuedMutation =
+  | { type: 'logReading'; shlokaId: string; readingType: 'summary' | 'detailed' }
+  | { type: 'markShlokaAsRead'; shlokaId: string; marked: boolean }
+  | { type: 'addFavorite'; shlokaId: string };
+
+export type QueuedEntry = QueuedMutation & {
+  id: string;
+  idempotencyKey: string;
+  createdAt: string;
+  attempts: number;
+};
+
+export type SubmitResult = 'sent' | 'queued';
+
+type Listener = (pendingCount: number) => void;
+
+const generateKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+class OfflineQueue {
+  private entries: QueuedEntry[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+  /** The server asked us to wait until then (Retry-After) */
+  private retryAt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Load persisted entries and replay them whenever the device comes back online.
+   * Returns a function that stops listening for connectivity changes.
+   */
+  start(): () => void {
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+        if (state.isConnected) {
+          this.flush();
+        }
+      });
+    }
+    this.load().then(() => this.flush());
+
+    return () => {
+      this.unsubscribeNetInfo?.();
+      this.unsubscribeNetInfo = null;
+    };
+  }
+
+  /**
+   * Send a mutation now, or queue it if it cannot reach the backend.
+   * Permanent failures (4xx, validation) are rethrown so the caller can react.
+   */
+  async submit(mutation: QueuedMutation): Promise<SubmitResult> {
+    await this.load();
+
+    const entry: QueuedEntry = {
+      ...mutation,
+      id: generateKey(),
+      idempotencyKey: generateKey(),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    // Keep ordering: anything submitted while older writes are pending waits behind them
+    if (this.entries.length > 0) {
+      await this.enqueue(entry);
+      this.flush();
+      return 'queued';
+    }
+
+    try {
+      await this.execute(entry);
+      return 'sent';
+    } catch (error) {
+      if (!isTransientError(error)) {
+        throw error;
+      }
+      entry.attempts += 1;
+      this.deferReplay(error);
+      await this.enqueue(entry);
+      return 'queued';
+    }
+  }
+
+  /**
+   * Replay queued entries in order. Stops at the first transient failure so
+   * later writes are never applied before earlier ones.
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replay().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  getPendingCount(): number {
+    return this.entries.length;
+  }
+
+  getEntries(): QueuedEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Subscribe to pending count changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop all pending writes (e.g. on logout, so they aren't replayed for another account)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = [];
+    this.retryAt = 0;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          this.entries = stored ? JSON.parse(stored) : [];
+          this.notify();
+        } catch (error) {
+          console.error('Error loading offline queue:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async replay(): Promise<void> {
+    await this.load();
+
+    // Without a session every replay would fail with 401 and be dropped;
+    // while rate limited, deferReplay's timer flushes again when the wait is over
+    if (!apiService.getAccessToken() || Date.now() < this.retryAt) {
+      return;
+    }
+
+    while (this.entries.length > 0) {
+      const entry = this.entries[0];
+      try {
+        await this.execute(entry);
+      } catch (error) {
+        if (isTransientError(error)) {
+          entry.attempts += 1;
+          this.deferReplay(error);
+          await this.persist();
+          return;
+        }
+        // The backend rejected it outright (e.g. already favorited) - retrying won't help
+        console.warn(`[OfflineQueue] Dropping ${entry.type} for ${entry.shlokaId}:`, error);
+      }
+      this.entries = this.entries.filter(e => e.id !== entry.id);
+      await this.persist();
+    }
+  }
+
+  /**
+   * Hold off replaying until the time the server gave (Retry-After), then replay
+   */
+  private deferReplay(error: unknown): void {
+    const retryAt = error instanceof ApiRequestError ? error.retryAt : undefined;
+    if (retryAt === undefined || retryAt <= Date.now()) {
+      return;
+    }
+    this.retryAt = retryAt;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, retryAt - Date.now());
+  }
+
+  private async execute(entry: QueuedEntry): Promise<void> {
+    const options = { idempotencyKey: entry.idempotencyKey };
+    switch (entry.type) {
+      case 'logReading':
+        await apiService.logReading(entry.shlokaId, entry.readingType, options);
+        break;
+      case 'markShlokaAsRead':
+        await apiService.markShlokaAsRead(entry.shlokaId, entry.marked, options);
+        break;
+      case 'addFavorite':
+        await apiService.addFavorite(entry.shlokaId, options);
+        break;
+    }
+  }
+
+  private async enqueue(entry: QueuedEntry): Promise<void> {
+    this.entries.push(entry);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Error saving offline queue:', error);
+    }
+  }
+
+  private notify(): void {
+    const count = this.entries.length;
+    this.listeners.forEach(listener => listener(count));
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
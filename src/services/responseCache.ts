@@ -0,0 +1,216 @@
+/**
+ * Persistent HTTP response cache used by ApiService
+ *
+ * Entries are keyed by endpoint and keep the validators (ETag / Last-Modified)
+ * needed for conditional requests. The cache is written to AsyncStorage so a
+ * cold start can render the last known data before the network answers.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiConfig } from '../config/api';
+
+const STORAGE_KEY = '@dharmasaar_http_cache';
+const PERSIST_DELAY = 1000;
+
+export interface CachePolicy {
+  ttl: number;
+  staleWhileRevalidate: number;
+}
+
+export interface CacheEntry {
+  body: unknown;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+}
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+// `endpoint` itself, its sub-paths and its query variants
+const covers = (endpoint: string, key: string): boolean =>
+  key === endpoint || key.startsWith(`${endpoint}/`) || key.startsWith(`${endpoint}?`);
+
+class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  // How often each endpoint passed to invalidate() has been invalidated, and the cache cleared
+  private invalidations = new Map<string, number>();
+  private clears = 0;
+
+  /**
+   * Cache policy for an endpoint, or undefined if it should not be cached
+   */
+  getPolicy(endpoint: string): CachePolicy | undefined {
+    return apiConfig.cache.policies.find(policy => policy.pattern.test(endpoint));
+  }
+
+  /**
+   * Restore persisted entries (only reads storage once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const clears = this.clears;
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          // Cleared meanwhile (logout) - what was on disk belongs to the previous session
+          if (stored && clears === this.clears) {
+            const parsed: Record<string, CacheEntry> = JSON.parse(stored);
+            Object.entries(parsed).forEach(([key, entry]) => {
+              // Entries written since startup are newer than what's on disk
+              if (!this.entries.has(key)) {
+                this.entries.set(key, entry);
+              }
+            });
+          }
+        } catch (error) {
+          console.error('Error loading response cache:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Changes whenever the endpoint is invalidated or the cache cleared. A response that was
+   * in flight across a change predates it and must not be stored.
+   */
+  getGeneration(endpoint: string): number {
+    let generation = this.clears;
+    this.invalidations.forEach((count, invalidated) => {
+      if (covers(invalidated, endpoint)) {
+        generation += count;
+      }
+    });
+    return generation;
+  }
+
+  get(endpoint: string): CacheEntry | undefined {
+    return this.entries.get(endpoint);
+  }
+
+  /**
+   * Every entry whose endpoint matches `pattern`
+   */
+  find(pattern: RegExp): Array<[string, CacheEntry]> {
+    return Array.from(this.entries.entries()).filter(([endpoint]) => pattern.test(endpoint));
+  }
+
+  getFreshness(entry: CacheEntry, policy: CachePolicy): CacheFreshness {
+    const age = Date.now() - entry.storedAt;
+    if (age < policy.ttl) {
+      return 'fresh';
+    }
+    return age < policy.ttl + policy.staleWhileRevalidate ? 'stale' : 'expired';
+  }
+
+  /**
+   * Store a response body along with its validators
+   */
+  set(endpoint: string, body: unknown, headers?: Headers): void {
+    // Re-insert so Map order doubles as least-recently-stored order for eviction
+    this.entries.delete(endpoint);
+    this.entries.set(endpoint, {
+      body,
+      etag: headers?.get('ETag') ?? undefined,
+      lastModified: headers?.get('Last-Modified') ?? undefined,
+      storedAt: Date.now(),
+    });
+    this.schedulePersist();
+  }
+
+  /**
+   * Mark an entry fresh again after the server answered 304 Not Modified
+   */
+  touch(endpoint: string): void {
+    const entry = this.entries.get(endpoint);
+    if (entry) {
+      this.entries.delete(endpoint);
+      this.entries.set(endpoint, { ...entry, storedAt: Date.now() });
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * Headers that let the server answer 304 instead of resending the body
+   */
+  getConditionalHeaders(endpoint: string): Record<string, string> {
+    const entry = this.entries.get(endpoint);
+    const headers: Record<string, string> = {};
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  delete(endpoint: string): void {
+    if (this.entries.delete(endpoint)) {
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * Drop every entry for the given endpoints, including their sub-paths and query variants
+   * (e.g. `/api/user/streak` also clears `/api/user/streak/history`)
+   */
+  invalidate(...endpoints: string[]): void {
+    endpoints.forEach(endpoint => {
+      this.invalidations.set(endpoint, (this.invalidations.get(endpoint) ?? 0) + 1);
+    });
+    let changed = false;
+    Array.from(this.entries.keys()).forEach(key => {
+      if (endpoints.some(endpoint => covers(endpoint, key))) {
+        this.entries.delete(key);
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.schedulePersist();
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.clears += 1;
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing response cache:', error);
+    }
+    // Read storage again next time rather than trust a load from before the clear
+    this.loadPromise = null;
+  }
+
+  // Batch writes - a screen often fills several entries at once
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY);
+  }
+
+  private async persist(): Promise<void> {
+    const keys = Array.from(this.entries.keys());
+    keys.slice(0, Math.max(0, keys.length - apiConfig.cache.maxEntries)).forEach(key => {
+      this.entries.delete(key);
+    });
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.entries)));
+    } catch (error) {
+      console.error('Error saving response cache:', error);
+    }
+  }
+}
+
+export const responseCache = new ResponseCache();
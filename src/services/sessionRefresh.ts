@@ -0,0 +1,103 @@
+/**
+ * Proactive access-token refresh
+ *
+ * Reads the access token's `exp` claim and refreshes shortly before it runs out, so
+ * requests don't have to fail with 401 first. JS timers don't run while the app is
+ * suspended, so the token is also checked whenever the app returns to the foreground.
+ * Every refresh goes through `apiService.refreshSession()`, which is single-flight.
+ */
+import { AppState, AppStateStatus } from 'react-native';
+import { apiService } from './api';
+import { isTransientError } from './errors';
+import { getTokenExpiry, isTokenExpiring } from '../utils/jwt';
+
+// Refresh this long before the token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Try again after this long when a refresh fails for a transient reason (offline, 5xx)
+const RETRY_DELAY_MS = 30 * 1000;
+
+// setTimeout overflows above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+class SessionRefreshScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  /**
+   * Refresh stale tokens when the app comes back to the foreground.
+   * Returns a function that stops listening and cancels any scheduled refresh.
+   */
+  start(): () => void {
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+        if (state === 'active') {
+          this.refreshIfStale();
+        }
+      });
+    }
+    return () => {
+      this.appStateSubscription?.remove();
+      this.appStateSubscription = null;
+      this.cancel();
+    };
+  }
+
+  /**
+   * (Re)schedule the refresh for the current access token. Call whenever it changes.
+   */
+  schedule(): void {
+    this.cancel();
+    const token = apiService.getAccessToken();
+    const expiry = token ? getTokenExpiry(token) : null;
+    if (expiry === null) {
+      // No session, or no readable expiry - the 401 path covers it
+      return;
+    }
+
+    const delay = Math.min(expiry - REFRESH_MARGIN_MS - Date.now(), MAX_TIMER_DELAY_MS);
+    if (delay <= 0) {
+      this.refresh();
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refresh();
+    }, delay);
+  }
+
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh now if the access token expires within the refresh margin
+   */
+  async refreshIfStale(): Promise<void> {
+    const token = apiService.getAccessToken();
+    if (token && isTokenExpiring(token, REFRESH_MARGIN_MS)) {
+      await this.refresh();
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      // The new token is picked up by AuthContext, which calls schedule() again
+      await apiService.refreshSession();
+    } catch (error) {
+      if (isTransientError(error)) {
+        this.cancel();
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.refreshIfStale();
+        }, RETRY_DELAY_MS);
+      }
+      // Anything else ended the session; AuthContext has already signed out
+    }
+  }
+}
+
+export const sessionRefresh = new SessionRefreshScheduler();
@@ -0,0 +1,157 @@
+/**
+ * Speech queue - reads chat replies aloud, one sentence-sized chunk at a time
+ *
+ * A reply is split into chunks (see utils/speechChunks) that are spoken in order through
+ * ttsService, each with the voice for its language. Only one reply is read at a time:
+ * playing another, or anything else using ttsService, ends the current one.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ttsService } from './ttsService';
+import { splitIntoSpeechChunks, SpeechChunk, SANSKRIT_LANGUAGE } from '../utils/speechChunks';
+
+const AUTO_READ_STORAGE_KEY = '@dharmasaar_auto_read_replies';
+
+// Sanskrit at the pace KnowledgeCard recites shlokas, prose a little faster
+const SANSKRIT_RATE = 0.45;
+const ENGLISH_RATE = 0.5;
+
+export interface SpeechState {
+  /** What is being read (e.g. a message id), or null when nothing is */
+  key: string | null;
+  /** Chunk being spoken, counting from 0 */
+  index: number;
+  total: number;
+  /** The audio for the chunk is still being fetched */
+  isLoading: boolean;
+}
+
+type Listener = (state: SpeechState) => void;
+
+const IDLE: SpeechState = { key: null, index: 0, total: 0, isLoading: false };
+
+class SpeechQueue {
+  private chunks: SpeechChunk[] = [];
+  private state: SpeechState = IDLE;
+  // Bumped whenever playback is redirected, so callbacks for older chunks are ignored
+  private generation = 0;
+  private listeners = new Set<Listener>();
+
+  /**
+   * Read `text` aloud from the start, replacing whatever is being read. Rejects if the
+   * first chunk can't be played; later failures just end the reading.
+   */
+  async play(key: string, text: string): Promise<void> {
+    this.generation += 1;
+    this.chunks = splitIntoSpeechChunks(text);
+    if (this.chunks.length === 0) {
+      await this.stop();
+      return;
+    }
+    await this.speakChunk(key, 0, this.generation);
+  }
+
+  /**
+   * Move on to the next chunk, or finish if this was the last one
+   */
+  async skip(): Promise<void> {
+    const { key, index, total } = this.state;
+    if (key === null) return;
+    if (index + 1 >= total) {
+      await this.stop();
+      return;
+    }
+    this.generation += 1;
+    await this.speakChunk(key, index + 1, this.generation).catch(() => {});
+  }
+
+  async stop(): Promise<void> {
+    this.generation += 1;
+    this.reset();
+    await ttsService.stop();
+  }
+
+  getState(): SpeechState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to playback changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async speakChunk(key: string, index: number, generation: number): Promise<void> {
+    const chunk = this.chunks[index];
+    this.setState({ key, index, total: this.chunks.length, isLoading: true });
+    try {
+      await ttsService.speak(chunk.text, {
+        language: chunk.language,
+        rate: chunk.language === SANSKRIT_LANGUAGE ? SANSKRIT_RATE : ENGLISH_RATE,
+        onEnd: finished => this.handleEnd(key, index, generation, finished),
+      });
+    } catch (error) {
+      if (generation !== this.generation) return;
+      console.error('Error reading aloud:', error);
+      this.reset();
+      throw error;
+    }
+
+    if (generation !== this.generation) {
+      // Stopped while the audio was being fetched - don't let it start playing anyway
+      if (this.state.key === null) {
+        await ttsService.stop();
+      }
+      return;
+    }
+    this.setState({ ...this.state, isLoading: false });
+  }
+
+  private handleEnd(key: string, index: number, generation: number, finished: boolean): void {
+    if (generation !== this.generation) return;
+    if (!finished || index + 1 >= this.chunks.length) {
+      // Done, or something else started playing in its place
+      this.reset();
+      return;
+    }
+    this.speakChunk(key, index + 1, generation).catch(() => {});
+  }
+
+  private reset(): void {
+    this.chunks = [];
+    this.setState(IDLE);
+  }
+
+  private setState(state: SpeechState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const speechQueue = new SpeechQueue();
+
+/**
+ * Check whether new chat replies should be read aloud as they arrive
+ */
+export const getAutoReadReplies = async (): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(AUTO_READ_STORAGE_KEY)) === 'true';
+  } catch (error) {
+    console.error('Error loading auto-read setting:', error);
+    return false;
+  }
+};
+
+/**
+ * Save whether new chat replies should be read aloud as they arrive
+ */
+export const setAutoReadReplies = async (enabled: boolean): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(AUTO_READ_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Error saving auto-read setting:', error);
+  }
+};
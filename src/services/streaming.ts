@@ -0,0 +1,208 @@
+/**
+ * Incremental response bodies for streaming endpoints (e.g. chat replies)
+ *
+ * React Native's fetch buffers the whole body, so streaming requests go through
+ * XMLHttpRequest, whose `responseText` grows as chunks arrive. Two body formats are
+ * understood and turned into the same `StreamEvent`s:
+ *
+ *   text/event-stream (SSE)          application/x-ndjson (chunked JSON lines)
+ *   event: token                     {"type":"token","content":"Dear "}
+ *   data: {"content":"Dear "}        {"type":"done","data":{...}}
+ *
+ *   event: done
+ *   data: {...}
+ */
+import { ApiRequest } from './interceptors';
+
+export interface StreamEvent {
+  /** SSE `event:` name, or the `type` of an NDJSON line ('message' if missing) */
+  event: string;
+  /** Raw `data:` payload, or the whole NDJSON line */
+  data: string;
+}
+
+export interface StreamParser {
+  push: (chunk: string) => void;
+  /** Flush whatever is left once the body is complete */
+  end: () => void;
+}
+
+const STREAM_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson'];
+
+export const isStreamContentType = (contentType: string | null | undefined): boolean =>
+  !!contentType && STREAM_CONTENT_TYPES.some(type => contentType.toLowerCase().startsWith(type));
+
+const parseSseBlock = (block: string): StreamEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+  block.split(/\r?\n/).forEach(line => {
+    if (!line || line.startsWith(':')) {
+      return; // blank or comment (keep-alive)
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  });
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+const parseNdjsonLine = (line: string): StreamEvent | null => {
+  if (!line.trim()) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(line);
+    return { event: typeof parsed?.type === 'string' ? parsed.type : 'message', data: line };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Split a streamed body into events. The format is sniffed from the first chunk:
+ * NDJSON lines start with `{`, anything else is treated as SSE.
+ */
+export function createStreamParser(onEvent: (event: StreamEvent) => void): StreamParser {
+  let buffer = '';
+  let format: 'sse' | 'ndjson' | null = null;
+
+  const drain = (final: boolean) => {
+    const separator = format === 'ndjson' ? /\r?\n/ : /\r?\n\r?\n/;
+    const parts = buffer.split(separator);
+    buffer = final ? '' : parts.pop() ?? '';
+    parts.forEach(part => {
+      const event = format === 'ndjson' ? parseNdjsonLine(part) : parseSseBlock(part);
+      if (event) {
+        onEvent(event);
+      }
+    });
+  };
+
+  return {
+    push: chunk => {
+      buffer += chunk;
+      if (!format) {
+        const start = buffer.trimStart();
+        if (!start) {
+          return;
+        }
+        format = start.startsWith('{') ? 'ndjson' : 'sse';
+      }
+      drain(false);
+    },
+    end: () => {
+      if (format && buffer) {
+        drain(true);
+      }
+    },
+  };
+}
+
+const parseHeaders = (raw: string): Record<string, string> =>
+  Object.fromEntries(
+    raw
+      .trim()
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map(line => {
+        const separator = line.indexOf(':');
+        return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+      })
+  );
+
+const abortError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Send a request with XMLHttpRequest, passing 2xx streaming bodies to `request.onChunk`
+ * as they arrive. Resolves with the complete Response, so the interceptor chain can
+ * still map error statuses. `idleTimeout` is the longest gap allowed between chunks.
+ */
+export const sendStreamingRequest = (request: ApiRequest, idleTimeout: number): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const signal = request.init.signal;
+    let delivered = 0;
+    let streaming = false;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanup = () => {
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const fail = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const resetIdleTimer = () => {
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+      }
+      idleTimer = setTimeout(() => {
+        xhr.abort();
+        fail(abortError('Request timeout'));
+      }, idleTimeout);
+    };
+    const onAbort = () => {
+      xhr.abort();
+      fail(abortError('Aborted'));
+    };
+    // False if the consumer threw, which fails the request rather than leave it to time out
+    const deliver = (): boolean => {
+      const text = xhr.responseText;
+      if (streaming && text.length > delivered) {
+        const chunk = text.slice(delivered);
+        delivered = text.length;
+        try {
+          request.onChunk?.(chunk);
+        } catch (error) {
+          xhr.abort();
+          fail(error instanceof Error ? error : new Error(String(error)));
+          return false;
+        }
+      }
+      return true;
+    };
+
+    xhr.open((request.init.method || 'GET').toUpperCase(), request.url);
+    Object.entries(request.init.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        streaming = xhr.status >= 200 && xhr.status < 300 && isStreamContentType(xhr.getResponseHeader('Content-Type'));
+      } else if (xhr.readyState === XMLHttpRequest.LOADING) {
+        resetIdleTimer();
+        deliver();
+      } else if (xhr.readyState === XMLHttpRequest.DONE && xhr.status !== 0) {
+        if (!deliver()) {
+          return;
+        }
+        cleanup();
+        resolve(
+          new Response(xhr.responseText, {
+            status: xhr.status,
+            headers: parseHeaders(xhr.getAllResponseHeaders() || ''),
+          })
+        );
+      }
+    };
+    xhr.onerror = () => fail(new TypeError('Network request failed'));
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+    resetIdleTimer();
+    xhr.send(typeof request.init.body === 'string' ? request.init.body : null);
+  });
@@ -6,94 +6,53 @@
  * Uses react-native-nitro-sound for audio playback (compatible with RN 0.82+)
  */
 import { apiService } from './api';
+import { contentPacks } from './contentPacks';
 import { Platform } from 'react-native';
 import Sound from 'react-native-nitro-sound';
 import RNFS from 'react-native-fs';
+import { blobToBase64 } from '../utils/base64';
 
 export interface TTSOptions {
   language?: string;
   rate?: number;
   voice?: string;
   shloka_id?: string; // Optional: Use shloka_id for caching (recommended)
+  // Called once playback ends: finished is false if it was stopped or replaced first
+  onEnd?: (finished: boolean) => void;
 }
 
 class TTSService {
   private currentFilePath: string | null = null;
   private isPlaying = false;
   private isPaused = false;
+  private onEnd: ((finished: boolean) => void) | null = null;
 
   /**
    * Convert text to speech using backend API
    * Backend uses Google TTS (free) which works great for transliteration
-   * If shloka_id is provided, uses cached audio (faster, saves API costs)
+   * If shloka_id is provided, uses cached audio (faster, saves API costs), or the
+   * recitation from a downloaded content pack when there is one
    */
   async speak(text: string, options?: TTSOptions): Promise<void> {
     try {
       // Stop any current playback
       await this.stop();
 
-      console.log('TTS: Requesting audio from backend...');
-      if (options?.shloka_id) {
-        console.log('TTS: Using shloka_id for caching:', options.shloka_id);
-      }
-      
-      // Call backend TTS endpoint
-      const baseUrl = apiService.getBaseUrl();
-      const requestBody: any = {
-        language: options?.language || 'hi-IN',
-        rate: options?.rate || 0.45,
-      };
-      
-      // Prioritize shloka_id for caching, fallback to text
-      if (options?.shloka_id) {
-        requestBody.shloka_id = options.shloka_id;
+      // A downloaded pack's recitation plays without a round trip
+      const packAudioPath = options?.shloka_id ? await contentPacks.getAudioPath(options.shloka_id) : null;
+      let filePath: string;
+      if (packAudioPath) {
+        console.log('TTS: Using offline pack audio:', packAudioPath);
+        filePath = packAudioPath;
       } else {
-        requestBody.text = text;
+        filePath = await this.downloadAudio(text, options);
+        this.currentFilePath = filePath;
       }
       
-      const response = await fetch(`${baseUrl}/api/tts/speak`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`TTS API error: ${response.status} - ${errorText}`);
-      }
-
-      // Get audio blob and convert to base64
-      const blob = await response.blob();
-      console.log('TTS: Received audio blob, size:', blob.size);
-      
-      // Convert blob to base64 using FileReader
-      const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const result = reader.result as string;
-          // Remove data URL prefix if present
-          const base64Data = result.includes(',') ? result.split(',')[1] : result;
-          resolve(base64Data);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-      });
-      
-      console.log('TTS: Converting to file...');
-      
-      // Save to temporary file
-      const tempFilePath = `${RNFS.CachesDirectoryPath}/tts_${Date.now()}.mp3`;
-      await RNFS.writeFile(tempFilePath, base64, 'base64');
-      console.log('TTS: Audio saved to:', tempFilePath);
-      
-      this.currentFilePath = tempFilePath;
-      
       // Convert file path to URI format for Android
       const fileUri = Platform.OS === 'android' 
-        ? `file://${tempFilePath}`
-        : tempFilePath;
+        ? `file://${filePath}`
+        : filePath;
 
       // Remove any existing listeners first to avoid duplicates
       Sound.removePlayBackListener();
@@ -101,6 +60,7 @@ class TTSService {
       
       this.isPlaying = true;
       this.isPaused = false;
+      this.onEnd = options?.onEnd ?? null;
       console.log('TTS: Playing audio...');
       
       // Set up listener for playback end (more reliable than checking position)
@@ -109,6 +69,7 @@ class TTSService {
         this.isPlaying = false;
         this.isPaused = false;
         this.cleanup();
+        this.endPlayback(true);
       });
       
       // Play the audio file
@@ -119,11 +80,56 @@ class TTSService {
       console.error('TTS Service error:', error);
       this.isPlaying = false;
       this.isPaused = false;
+      this.onEnd = null;
       await this.cleanup();
       throw error;
     }
   }
 
+  /**
+   * Fetch the audio from the backend into a temporary file and return its path
+   */
+  private async downloadAudio(text: string, options?: TTSOptions): Promise<string> {
+    console.log('TTS: Requesting audio from backend...');
+    if (options?.shloka_id) {
+      console.log('TTS: Using shloka_id for caching:', options.shloka_id);
+    }
+    
+    // Call backend TTS endpoint
+    const requestBody: any = {
+      language: options?.language || 'hi-IN',
+      rate: options?.rate || 0.45,
+    };
+    
+    // Prioritize shloka_id for caching, fallback to text
+    if (options?.shloka_id) {
+      requestBody.shloka_id = options.shloka_id;
+    } else {
+      requestBody.text = text;
+    }
+    
+    // Goes through the interceptor chain (auth, retry, error mapping) like every other call
+    const response = await apiService.requestRaw('/api/tts/speak', {
+      method: 'POST',
+      body: JSON.stringify(requestBody),
+    });
+
+    // Get audio blob and convert to base64
+    const blob = await response.blob();
+    console.log('TTS: Received audio blob, size:', blob.size);
+    
+    const base64 = await blobToBase64(blob);
+    
+    console.log('TTS: Converting to file...');
+    
+    // Save to temporary file
+    const tempFilePath = `${RNFS.CachesDirectoryPath}/tts_${Date.now()}.mp3`;
+    await RNFS.writeFile(tempFilePath, base64, 'base64');
+    console.log('TTS: Audio saved to:', tempFilePath);
+    
+    return tempFilePath;
+  }
+
   async stop(): Promise<void> {
     try {
       await Sound.stopPlayer();
@@ -135,6 +141,7 @@ class TTSService {
     }
     this.isPlaying = false;
     this.isPaused = false;
+    this.endPlayback(false);
   }
 
   async pause(): Promise<void> {
@@ -157,6 +164,12 @@ class TTSService {
     }
   }
 
+  private endPlayback(finished: boolean): void {
+    const onEnd = this.onEnd;
+    this.onEnd = null;
+    onEnd?.(finished);
+  }
+
   private async cleanup(): Promise<void> {
     if (this.currentFilePath) {
       try {
@@ -0,0 +1,98 @@
+/**
+ * Tests for conversation export
+ */
+import RNFS from 'react-native-fs';
+import { exportConversation, saveConversationExport } from '../conversationExport';
+import { Conversation } from '../../services/api';
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  writeFile: jest.fn(() => Promise.resolve()),
+}));
+
+const CONVERSATION: Conversation = {
+  id: 'conversation-1',
+  title: 'Worrying about results',
+  created_at: '2024-03-01T09:00:00Z',
+  updated_at: '2024-03-01T09:01:00Z',
+  shloka_context: null,
+  messages: [
+    {
+      id: 'm1',
+      role: 'user',
+      content: 'How do I stop worrying about results?',
+      created_at: '2024-03-01T09:00:00Z',
+      parent_id: null,
+    },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'Act without attachment, as taught in Chapter 2, Verse 47.',
+      created_at: '2024-03-01T09:01:00Z',
+      parent_id: 'm1',
+    },
+  ],
+};
+
+const EXPORTED_AT = new Date('2024-03-02T10:00:00Z');
+
+describe('exportConversation', () => {
+  it('should write Markdown with speakers, timestamps and linked verses', () => {
+    const exported = exportConversation(CONVERSATION, 'markdown', EXPORTED_AT);
+
+    expect(exported.fileName).toBe('dharmasaar-worrying-about-results-2024-03-02.md');
+    expect(exported.content.startsWith('# Worrying about results\n')).toBe(true);
+    expect(exported.content).toMatch(/\*\*You\*\* · Mar 1, 2024/);
+    expect(exported.content).toContain(
+      '[Chapter 2, Verse 47](https://www.holy-bhagavad-gita.org/chapter/2/verse/47)'
+    );
+  });
+
+  it('should write plain text without markup', () => {
+    const { content, mimeType } = exportConversation(CONVERSATION, 'text', EXPORTED_AT);
+
+    expect(mimeType).toBe('text/plain');
+    expect(content).toContain('] You:\nHow do I stop worrying about results?');
+    expect(content).toContain('taught in Chapter 2, Verse 47.');
+    expect(content).not.toContain('](');
+  });
+
+  it('should write only the active branch as text', () => {
+    const branched: Conversation = {
+      ...CONVERSATION,
+      messages: [
+        ...CONVERSATION.messages,
+        {
+          id: 'm3',
+          role: 'assistant',
+          content: 'Offer every action to the divine.',
+          created_at: '2024-03-01T09:02:00Z',
+          parent_id: 'm1',
+        },
+      ],
+      active_leaf_id: 'm2',
+    };
+
+    const { content } = exportConversation(branched, 'text', EXPORTED_AT);
+
+    expect(content).toContain('Act without attachment');
+    expect(content).not.toContain('Offer every action');
+  });
+
+  it('should write versioned JSON that round-trips the messages', () => {
+    const { content } = exportConversation(CONVERSATION, 'json', EXPORTED_AT);
+    const parsed = JSON.parse(content);
+
+    expect(parsed).toMatchObject({ format: 'dharmasaar.conversation', version: 1, exported_at: EXPORTED_AT.toISOString() });
+    expect(parsed.conversation.messages).toEqual(CONVERSATION.messages);
+  });
+
+  it('should save to the documents directory', async () => {
+    const exported = exportConversation(CONVERSATION, 'text', EXPORTED_AT);
+
+    const path = await saveConversationExport(exported);
+
+    expect(path).toBe('/documents/dharmasaar-worrying-about-results-2024-03-02.txt');
+    expect(RNFS.writeFile).toHaveBeenCalledWith(path, exported.content, 'utf8');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for local conversation search
+ */
+import { ConversationSearchIndex } from '../conversationSearch';
+import { buildSnippet, tokenize } from '../textSearch';
+import { Conversation } from '../../services/apiSchemas';
+
+const conversation = (id: string, updatedAt: string, title: string | null, contents: string[]): Conversation => ({
+  id,
+  title,
+  created_at: updatedAt,
+  updated_at: updatedAt,
+  messages: contents.map((content, i) => ({
+    id: `${id}-m${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content,
+    created_at: updatedAt,
+  })),
+});
+
+const CONVERSATIONS = [
+  conversation('old', '2024-01-01T00:00:00Z', 'Work stress', [
+    'How do I stop worrying about results at work?',
+    'Karma yoga teaches us to act without attachment to the fruits of action.',
+  ]),
+  conversation('new', '2024-03-01T00:00:00Z', null, [
+    'What is dharma?',
+    'Dharma is your sacred duty. Through yoga and devotion, karma loses its hold.',
+  ]),
+];
+
+describe('tokenize', () => {
+  it('should match regardless of case and diacritics, keeping original positions', () => {
+    const text = 'Karmaṇy evādhikāras te, mā phaleṣu.';
+    const tokens = tokenize(text);
+
+    expect(tokens.map(token => token.term)).toEqual(['karmany', 'evadhikaras', 'te', 'ma', 'phalesu']);
+    expect(text.slice(tokens[1].start, tokens[1].end)).toBe('evādhikāras');
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should cut a window around the first match and shift the highlights', () => {
+    const text = `${'lorem '.repeat(30)}karma yoga ${'ipsum '.repeat(30)}`;
+    const start = text.indexOf('karma');
+    const snippet = buildSnippet(text, [{ start, end: start + 5 }], 20);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end)).toBe('karma');
+  });
+});
+
+describe('ConversationSearchIndex', () => {
+  const index = new ConversationSearchIndex(CONVERSATIONS);
+
+  it('should rank the exact phrase above scattered terms', () => {
+    const [first, second] = index.search('karma yoga');
+
+    expect(first.messageId).toBe('old-m1');
+    expect(second.messageId).toBe('new-m1');
+    const highlighted = first.snippet.highlights.map(({ start, end }) => first.snippet.text.slice(start, end));
+    expect(highlighted).toEqual(['Karma', 'yoga']);
+  });
+
+  it('should require every term and prefix-match the last one', () => {
+    expect(index.search('dharma attachment')).toEqual([]);
+    expect(index.search('sacred du').map(hit => hit.messageId)).toEqual(['new-m1']);
+  });
+
+  it('should search titles', () => {
+    const [hit] = index.search('stress');
+
+    expect(hit).toMatchObject({ conversationId: 'old', messageId: null, role: 'title' });
+  });
+
+  it('should ignore empty queries', () => {
+    expect(index.search('  ,. ')).toEqual([]);
+  });
+});
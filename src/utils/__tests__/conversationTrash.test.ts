@@ -0,0 +1,92 @@
+/**
+ * Tests for trash retention and purging
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService, TrashedConversation } from '../../services/api';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getTrashRetentionDays,
+  purgeExpiredConversations,
+  purgeExpiredTrash,
+  setTrashRetentionDays,
+} from '../conversationTrash';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../services/api', () => ({
+  apiService: { deleteConversation: jest.fn(), getTrashedConversations: jest.fn() },
+}));
+
+const NOW = Date.parse('2024-03-31T12:00:00Z');
+
+const trashed = (id: string, deletedAt: string): TrashedConversation => ({
+  id,
+  title: id,
+  created_at: '2024-02-01T09:00:00Z',
+  updated_at: '2024-02-01T09:00:00Z',
+  messages: [],
+  deleted_at: deletedAt,
+});
+
+describe('conversationTrash', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.mocked(apiService.deleteConversation).mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count the days left before purging', () => {
+    expect(getDaysUntilPurge(trashed('a', '2024-03-30T12:00:00Z'), 7, NOW)).toBe(6);
+    expect(getDaysUntilPurge(trashed('b', '2024-03-01T12:00:00Z'), 30, NOW)).toBe(0);
+  });
+
+  it('should remember the retention period, ignoring unsupported values', async () => {
+    expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+
+    await setTrashRetentionDays(7);
+    expect(await getTrashRetentionDays()).toBe(7);
+
+    await AsyncStorage.setItem('@dharmasaar_trash_retention_days', '12');
+    expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it('should permanently delete only expired conversations', async () => {
+    jest
+      .mocked(apiService.deleteConversation)
+      .mockResolvedValueOnce({ message: 'Deleted', conversation_id: 'old', hard_delete: true })
+      .mockRejectedValueOnce(new Error('Network request failed'));
+    const trash = [
+      trashed('recent', '2024-03-29T12:00:00Z'),
+      trashed('old', '2024-03-01T12:00:00Z'),
+      trashed('failing', '2024-03-02T12:00:00Z'),
+    ];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const remaining = await purgeExpiredConversations(trash, 7, NOW);
+
+    expect(apiService.deleteConversation).toHaveBeenCalledWith('old', true);
+    expect(apiService.deleteConversation).toHaveBeenCalledWith('failing', true);
+    expect(remaining.map(conversation => conversation.id)).toEqual(['recent', 'failing']);
+  });
+
+  it('should purge the trash with the saved retention period', async () => {
+    jest
+      .mocked(apiService.getTrashedConversations)
+      .mockResolvedValueOnce([trashed('recent', '2024-03-29T12:00:00Z'), trashed('old', '2024-03-20T12:00:00Z')]);
+    jest
+      .mocked(apiService.deleteConversation)
+      .mockResolvedValue({ message: 'Deleted', conversation_id: 'old', hard_delete: true });
+    await setTrashRetentionDays(7);
+
+    await purgeExpiredTrash(NOW);
+
+    expect(apiService.deleteConversation).toHaveBeenCalledTimes(1);
+    expect(apiService.deleteConversation).toHaveBeenCalledWith('old', true);
+  });
+});
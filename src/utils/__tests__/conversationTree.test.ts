@@ -0,0 +1,54 @@
+/**
+ * Tests for branching conversations
+ */
+import { getActivePath, getSiblingsById, latestLeaf, resolveParents, BranchMessage } from '../conversationTree';
+
+// q1 → a1 → q2 → a2, with a regenerated a1b and an edited q1b → a3
+const MESSAGES: BranchMessage[] = [
+  { id: 'q1', parent_id: null },
+  { id: 'a1', parent_id: 'q1' },
+  { id: 'q2', parent_id: 'a1' },
+  { id: 'a2', parent_id: 'q2' },
+  { id: 'a1b', parent_id: 'q1' },
+  { id: 'q1b', parent_id: null },
+  { id: 'a3', parent_id: 'q1b' },
+];
+
+const ids = (messages: BranchMessage[]) => messages.map(message => message.id);
+
+describe('conversationTree', () => {
+  it('should treat messages without parents as one linear branch', () => {
+    const legacy = [{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }];
+
+    expect(resolveParents(legacy)).toEqual(
+      new Map([
+        ['m1', null],
+        ['m2', 'm1'],
+        ['m3', 'm2'],
+      ])
+    );
+    expect(ids(getActivePath(legacy, undefined))).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('should follow the path to the active leaf', () => {
+    expect(ids(getActivePath(MESSAGES, 'a2'))).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(ids(getActivePath(MESSAGES, 'a1b'))).toEqual(['q1', 'a1b']);
+  });
+
+  it('should fall back to the newest branch for an unknown leaf', () => {
+    expect(ids(getActivePath(MESSAGES, 'missing'))).toEqual(['q1b', 'a3']);
+  });
+
+  it('should list siblings in creation order', () => {
+    const siblings = getSiblingsById(MESSAGES);
+    expect(siblings.get('a1b')).toEqual({ ids: ['a1', 'a1b'], index: 1 });
+    expect(siblings.get('q1')).toEqual({ ids: ['q1', 'q1b'], index: 0 });
+    expect(siblings.get('q2')).toEqual({ ids: ['q2'], index: 0 });
+  });
+
+  it('should find the newest leaf below a message', () => {
+    expect(latestLeaf(MESSAGES, 'a1')).toBe('a2');
+    expect(latestLeaf(MESSAGES, 'q1')).toBe('a1b');
+    expect(latestLeaf(MESSAGES, 'a3')).toBe('a3');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for the dwell timer behind detailed reading logs
+ */
+import { DwellTimer } from '../dwellTimer';
+
+describe('DwellTimer', () => {
+  let clock: number;
+  let onDwell: jest.Mock;
+  let timer: DwellTimer;
+
+  const advance = (ms: number) => {
+    clock += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    clock = 0;
+    onDwell = jest.fn();
+    timer = new DwellTimer(20000, onDwell, () => clock);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should call back once the minimum dwell has passed', () => {
+    timer.resume();
+    advance(19999);
+    expect(onDwell).not.toHaveBeenCalled();
+
+    advance(1);
+    expect(onDwell).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count time while paused', () => {
+    timer.resume();
+    advance(15000);
+    timer.pause();
+    advance(60000);
+    expect(onDwell).not.toHaveBeenCalled();
+
+    // Carries on from 15s rather than starting over
+    timer.resume();
+    advance(5000);
+    expect(onDwell).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call back only once', () => {
+    timer.resume();
+    advance(20000);
+    timer.pause();
+    timer.resume();
+    advance(60000);
+    expect(onDwell).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never call back after being cancelled', () => {
+    timer.resume();
+    advance(10000);
+    timer.cancel();
+    timer.resume();
+    advance(60000);
+    expect(onDwell).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the markdown parser
+ */
+import { parseMarkdown, parseInline, tokenizeMarkdown } from '../markdown';
+
+const text = (value: string) => ({ type: 'text', text: value });
+
+describe('tokenizeMarkdown', () => {
+  it('should classify each line', () => {
+    expect(tokenizeMarkdown('## Karma\n- act\n  2. then rest\n> quoted\n---\n\nplain').map(token => token.type)).toEqual([
+      'heading',
+      'list_item',
+      'list_item',
+      'quote',
+      'divider',
+      'blank',
+      'text',
+    ]);
+  });
+
+  it('should keep lines inside fences as code', () => {
+    expect(tokenizeMarkdown('```\n# not a heading\n```')).toEqual([
+      { type: 'fence' },
+      { type: 'code_line', text: '# not a heading' },
+      { type: 'fence' },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('should parse bold, italic and both', () => {
+    expect(parseInline('**Dharma** is *duty*, ***always***')).toEqual([
+      { type: 'strong', children: [text('Dharma')] },
+      text(' is '),
+      { type: 'emphasis', children: [text('duty')] },
+      text(', '),
+      { type: 'strong', children: [{ type: 'emphasis', children: [text('always')] }] },
+    ]);
+  });
+
+  it('should nest emphasis inside bold', () => {
+    expect(parseInline('**act *without* attachment**')).toEqual([
+      {
+        type: 'strong',
+        children: [text('act '), { type: 'emphasis', children: [text('without')] }, text(' attachment')],
+      },
+    ]);
+  });
+
+  it('should parse inline code and links', () => {
+    expect(parseInline('Use `karma` - see [the Gita](https://example.com/gita).')).toEqual([
+      text('Use '),
+      { type: 'code', text: 'karma' },
+      text(' - see '),
+      { type: 'link', href: 'https://example.com/gita', children: [text('the Gita')] },
+      text('.'),
+    ]);
+  });
+
+  it('should leave stray markers and snake_case alone', () => {
+    expect(parseInline('2 * 3 * 4 and snake_case_name and **unclosed')).toEqual([
+      text('2 * 3 * 4 and snake_case_name and **unclosed'),
+    ]);
+  });
+
+  it('should keep line breaks', () => {
+    expect(parseInline('first\nsecond')).toEqual([text('first'), { type: 'break' }, text('second')]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('should parse headings and paragraphs', () => {
+    expect(parseMarkdown('# The Gita\n\nKrishna speaks.\nArjuna listens.')).toEqual([
+      { type: 'heading', level: 1, children: [text('The Gita')] },
+      { type: 'paragraph', children: [text('Krishna speaks.'), { type: 'break' }, text('Arjuna listens.')] },
+    ]);
+  });
+
+  it('should parse numbered lists with their start and nested bullets', () => {
+    const [list] = parseMarkdown('3. Karma yoga\n   - action\n   - duty\n4. Bhakti yoga\nwith devotion');
+
+    expect(list).toEqual({
+      type: 'list',
+      ordered: true,
+      start: 3,
+      items: [
+        {
+          children: [text('Karma yoga')],
+          sublist: {
+            type: 'list',
+            ordered: false,
+            start: 0,
+            items: [{ children: [text('action')] }, { children: [text('duty')] }],
+          },
+        },
+        { children: [text('Bhakti yoga'), { type: 'break' }, text('with devotion')] },
+      ],
+    });
+  });
+
+  it('should keep a loose list together across blank lines', () => {
+    const blocks = parseMarkdown('- one\n\n- two\n\nAfter the list');
+
+    expect(blocks.map(block => block.type)).toEqual(['list', 'paragraph']);
+    expect(blocks[0]).toMatchObject({ items: [{ children: [text('one')] }, { children: [text('two')] }] });
+  });
+
+  it('should parse blockquotes with blocks inside them', () => {
+    expect(parseMarkdown('> **Verse 2.47**\n> - act\ncontinued')).toEqual([
+      {
+        type: 'blockquote',
+        children: [
+          { type: 'paragraph', children: [{ type: 'strong', children: [text('Verse 2.47')] }] },
+          { type: 'list', ordered: false, start: 0, items: [{ children: [text('act'), { type: 'break' }, text('continued')] }] },
+        ],
+      },
+    ]);
+  });
+
+  it('should keep fenced code verbatim and parse rules', () => {
+    expect(parseMarkdown('```\n**not bold**\n  indented\n```\n***\nEnd')).toEqual([
+      { type: 'code_block', text: '**not bold**\n  indented' },
+      { type: 'divider' },
+      { type: 'paragraph', children: [text('End')] },
+    ]);
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Tests for remembering where each chapter was left off
+ */
+import { getReadingPosition, saveReadingPosition } from '../readingPosition';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('readingPosition', () => {
+  it('should have no position for a chapter that was never read', async () => {
+    expect(await getReadingPosition('Bhagavad Gita', 18)).toBeNull();
+  });
+
+  it('should remember the last verse per book and chapter', async () => {
+    await saveReadingPosition('Bhagavad Gita', 2, 14);
+    await saveReadingPosition('Bhagavad Gita', 2, 20);
+    await saveReadingPosition('Bhagavad Gita', 3, 8);
+    await saveReadingPosition('Yoga Sutras', 2, 1);
+
+    expect(await getReadingPosition('Bhagavad Gita', 2)).toMatchObject({ verseNumber: 20 });
+    expect(await getReadingPosition('bhagavad gita', 3)).toMatchObject({ verseNumber: 8 });
+    expect(await getReadingPosition('Yoga Sutras', 2)).toMatchObject({ verseNumber: 1 });
+  });
+});
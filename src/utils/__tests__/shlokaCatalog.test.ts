@@ -0,0 +1,69 @@
+/**
+ * Tests for library catalog lookups
+ */
+import { findChapter, getAdjacentVerses, getChapterVerses, getNextChapter } from '../shlokaCatalog';
+import { ShlokaCatalog } from '../../services/api';
+
+const verses = (...numbers: number[]) => numbers.map(number => ({ id: `v${number}`, verse_number: number }));
+
+// Chapters and verses deliberately out of order
+const CATALOG: ShlokaCatalog = {
+  books: [
+    {
+      book_name: 'Bhagavad Gita',
+      verse_count: 5,
+      chapters: [
+        { chapter_number: 3, verse_count: 2, verses: verses(35, 8) },
+        { chapter_number: 2, verse_count: 3, verses: verses(47, 14, 20) },
+      ],
+    },
+    {
+      book_name: 'Yoga Sutras',
+      verse_count: 1,
+      chapters: [{ chapter_number: 1, verse_count: 1, verses: verses(2) }],
+    },
+  ],
+};
+
+const at = (bookName: string, chapterNumber: number, verseNumber: number) => ({ bookName, chapterNumber, verseNumber });
+
+describe('shlokaCatalog', () => {
+  it('should find chapters regardless of the case of the book name', () => {
+    expect(findChapter(CATALOG, 'bhagavad gita', 2)?.verse_count).toBe(3);
+    expect(findChapter(CATALOG, 'Bhagavad Gita', 7)).toBeUndefined();
+  });
+
+  it('should list the verses of a chapter in order', () => {
+    expect(getChapterVerses(CATALOG, 'Bhagavad Gita', 2).map(verse => verse.verse_number)).toEqual([14, 20, 47]);
+    expect(getChapterVerses(CATALOG, 'Bhagavad Gita', 7)).toEqual([]);
+  });
+
+  it('should find the chapter that follows, up to the last one', () => {
+    expect(getNextChapter(CATALOG, 'Bhagavad Gita', 2)?.chapter_number).toBe(3);
+    expect(getNextChapter(CATALOG, 'Bhagavad Gita', 3)).toBeNull();
+    expect(getNextChapter(CATALOG, 'Mahabharata', 1)).toBeNull();
+  });
+
+  it('should step through a chapter in verse order', () => {
+    expect(getAdjacentVerses(CATALOG, at('Bhagavad Gita', 2, 20))).toEqual({
+      previous: at('Bhagavad Gita', 2, 14),
+      next: at('Bhagavad Gita', 2, 47),
+    });
+  });
+
+  it('should cross into the neighbouring chapter', () => {
+    expect(getAdjacentVerses(CATALOG, at('Bhagavad Gita', 2, 47)).next).toEqual(at('Bhagavad Gita', 3, 8));
+    expect(getAdjacentVerses(CATALOG, at('Bhagavad Gita', 3, 8)).previous).toEqual(at('Bhagavad Gita', 2, 47));
+  });
+
+  it('should stop at either end of a book', () => {
+    expect(getAdjacentVerses(CATALOG, at('Bhagavad Gita', 2, 14)).previous).toBeNull();
+    expect(getAdjacentVerses(CATALOG, at('Bhagavad Gita', 3, 35)).next).toBeNull();
+    expect(getAdjacentVerses(CATALOG, at('Yoga Sutras', 1, 2))).toEqual({ previous: null, next: null });
+  });
+
+  it('should have no neighbours for a verse that is not in the catalog', () => {
+    expect(getAdjacentVerses(CATALOG, at('Bhagavad Gita', 2, 99))).toEqual({ previous: null, next: null });
+    expect(getAdjacentVerses(CATALOG, at('Mahabharata', 1, 1))).toEqual({ previous: null, next: null });
+  });
+});
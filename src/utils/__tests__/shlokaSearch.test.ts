@@ -0,0 +1,83 @@
+/**
+ * Tests for offline shloka search
+ */
+import { ShlokaSearchIndex } from '../shlokaSearch';
+import { normalizeTerm } from '../textSearch';
+import { mockShlokas } from '../../data/mockKnowledge';
+
+// One verse from another book, to have something to facet on
+const YOGA_SUTRA = {
+  shloka: {
+    ...mockShlokas[0].shloka,
+    id: 'ys-1-2',
+    book_name: 'Yoga Sutras',
+    chapter_number: 1,
+    verse_number: 2,
+    sanskrit_text: 'योगश्चित्तवृत्तिनिरोधः',
+    transliteration: 'yogaś citta-vṛtti-nirodhaḥ',
+    word_by_word: null,
+  },
+  explanation: {
+    ...mockShlokas[0].explanation!,
+    summary: 'Yoga is the stilling of the movements of the mind.',
+    detailed_explanation: 'Meditation quiets the mind until the self is seen as it is.',
+    themes: ['Mind', 'Meditation'],
+  },
+};
+
+const index = new ShlokaSearchIndex([...mockShlokas, YOGA_SUTRA]);
+const ids = (query: string, filters = {}) => index.search(query, filters).results.map(result => result.shlokaId);
+
+describe('ShlokaSearchIndex', () => {
+  it('should fold Devanagari and IAST to the same plain letters', () => {
+    expect(normalizeTerm('कर्म')).toBe('karma');
+    expect(normalizeTerm('karmā')).toBe('karma');
+    expect(normalizeTerm('धर्मक्षेत्रे')).toBe(normalizeTerm('dharmakṣetre'));
+    expect(normalizeTerm('शीतोष्णसुखदुःखदाः')).toBe('sitosnasukhaduhkhadah');
+  });
+
+  it('should match across diacritics and scripts', () => {
+    expect(ids('karma')).toContain('bg-2-47');
+    expect(ids('karmā')).toContain('bg-2-47');
+    expect(ids('कर्म')).toContain('bg-2-47');
+    // "titiksa" is only in the transliteration and explanation as "titikṣ..."
+    expect(ids('titiksa')).toEqual(['bg-2-14']);
+  });
+
+  it('should search word-by-word meanings, summaries, explanations and themes', () => {
+    const [result] = index.search('stilling').results;
+    expect(result).toMatchObject({ shlokaId: 'ys-1-2', field: 'summary' });
+    expect(ids('impermanence')).toEqual(['bg-2-14']);
+    expect(index.search('impermanence').results[0].field).toBe('themes');
+  });
+
+  it('should require every term, the last one as a prefix', () => {
+    expect(ids('mind meditat').sort()).toEqual(['bg-6-5', 'ys-1-2']);
+    expect(ids('mind zebra')).toEqual([]);
+    expect(ids('   ')).toEqual([]);
+  });
+
+  it('should highlight the matches in the snippet', () => {
+    const [result] = index.search('stilling').results;
+    const { text, highlights } = result.snippet;
+    expect(highlights.map(range => text.slice(range.start, range.end))).toEqual(['stilling']);
+  });
+
+  it('should filter by book, chapter and theme, with counts for each', () => {
+    const { facets } = index.search('mind');
+    expect(facets.books.map(facet => facet.value)).toContain('Yoga Sutras');
+    expect(facets.chapters).toEqual([]);
+
+    expect(ids('mind', { bookName: 'yoga sutras' })).toEqual(['ys-1-2']);
+    expect(ids('mind', { theme: 'meditation' }).sort()).toEqual(['bg-6-5', 'ys-1-2']);
+
+    const inGita = index.search('karma', { bookName: 'Bhagavad Gita' });
+    expect(inGita.facets.chapters.map(facet => facet.value)).toEqual(
+      [...new Set(inGita.results.map(result => result.chapterNumber))].sort((a, b) => a - b)
+    );
+    const chapterThree = index.search('karma', { bookName: 'Bhagavad Gita', chapterNumber: 3 });
+    expect(chapterThree.results.map(result => result.shlokaId)).toEqual(['bg-3-30']);
+    // Facets ignore their own filter, so other chapters can still be picked
+    expect(chapterThree.facets.chapters.length).toBe(inGita.facets.chapters.length);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for splitting replies into chunks to read aloud
+ */
+import { splitIntoSpeechChunks, SANSKRIT_LANGUAGE, ENGLISH_LANGUAGE } from '../speechChunks';
+
+describe('splitIntoSpeechChunks', () => {
+  it('should split prose into sentences without breaking verse references', () => {
+    expect(splitIntoSpeechChunks('Krishna teaches detachment in Bhagavad Gita 2.47. Act without craving! Why? Peace.')).toEqual([
+      { text: 'Krishna teaches detachment in Bhagavad Gita 2.47.', language: ENGLISH_LANGUAGE },
+      { text: 'Act without craving!', language: ENGLISH_LANGUAGE },
+      { text: 'Why?', language: ENGLISH_LANGUAGE },
+      { text: 'Peace.', language: ENGLISH_LANGUAGE },
+    ]);
+  });
+
+  it('should speak Devanagari with the Sanskrit voice, one half-verse at a time', () => {
+    const reply = 'The verse says:\nकर्मण्येवाधिकारस्ते मा फलेषु कदाचन । मा कर्मफलहेतुर्भूर्मा ते सङ्गोऽस्त्वकर्मणि ॥ २-४७ ॥\nIt asks us to act.';
+
+    expect(splitIntoSpeechChunks(reply)).toEqual([
+      { text: 'The verse says:', language: ENGLISH_LANGUAGE },
+      { text: 'कर्मण्येवाधिकारस्ते मा फलेषु कदाचन', language: SANSKRIT_LANGUAGE },
+      { text: 'मा कर्मफलहेतुर्भूर्मा ते सङ्गोऽस्त्वकर्मणि', language: SANSKRIT_LANGUAGE },
+      { text: 'It asks us to act.', language: ENGLISH_LANGUAGE },
+    ]);
+  });
+
+  it('should switch voices for Sanskrit quoted within a sentence', () => {
+    expect(splitIntoSpeechChunks('As Krishna says, "karmaṇy evādhikāras te mā phaleṣu kadācana", act without attachment.')).toEqual([
+      { text: 'As Krishna says,', language: ENGLISH_LANGUAGE },
+      { text: 'karmaṇy evādhikāras te mā phaleṣu kadācana', language: SANSKRIT_LANGUAGE },
+      { text: 'act without attachment.', language: ENGLISH_LANGUAGE },
+    ]);
+  });
+
+  it('should keep a single transliterated name in the English sentence', () => {
+    expect(splitIntoSpeechChunks('Arjuna listened to Kṛṣṇa carefully.')).toEqual([
+      { text: 'Arjuna listened to Kṛṣṇa carefully.', language: ENGLISH_LANGUAGE },
+    ]);
+  });
+
+  it('should drop markdown and list markers', () => {
+    expect(splitIntoSpeechChunks('## Key points\n1. **Duty** comes first.\n- See [the verse](https://example.com).')).toEqual([
+      { text: 'Key points', language: ENGLISH_LANGUAGE },
+      { text: 'Duty comes first.', language: ENGLISH_LANGUAGE },
+      { text: 'See the verse.', language: ENGLISH_LANGUAGE },
+    ]);
+  });
+
+  it('should break overlong sentences at clause boundaries', () => {
+    const chunks = splitIntoSpeechChunks('One thing leads to another, and then another follows, until it all ends.', 40);
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      'One thing leads to another,',
+      'and then another follows,',
+      'until it all ends.',
+    ]);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(40));
+  });
+
+  it('should return nothing for a reply with nothing to say', () => {
+    expect(splitIntoSpeechChunks('  \n**  ** ॥ ')).toEqual([]);
+  });
+});
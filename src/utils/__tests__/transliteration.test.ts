@@ -0,0 +1,65 @@
+/**
+ * Tests for Sanskrit transliteration
+ */
+import { transliterate, isRomanScript } from '../transliteration';
+
+const VERSE = 'कर्मण्येवाधिकारस्ते मा फलेषु कदाचन ।';
+
+describe('transliterate', () => {
+  it('should romanize with the inherent vowel, vowel signs and virama', () => {
+    expect(transliterate(VERSE, 'iast')).toBe('karmaṇyevādhikāraste mā phaleṣu kadācana |');
+    expect(transliterate(VERSE, 'itrans')).toBe('karmaNyevAdhikAraste mA phaleShu kadAchana |');
+    expect(transliterate(VERSE, 'hk')).toBe('karmaNyevAdhikAraste mA phaleSu kadAcana |');
+    expect(transliterate('तद्ध्यानम्', 'iast')).toBe('taddhyānam');
+  });
+
+  it('should write anusvara, chandrabindu, visarga and avagraha in each scheme', () => {
+    expect(transliterate('रामः कृष्णं गँगा सोऽहम्', 'iast')).toBe("rāmaḥ kṛṣṇaṃ gam̐gā so'ham");
+    expect(transliterate('रामः कृष्णं गँगा सोऽहम्', 'itrans')).toBe('rAmaH kRRiShNaM ga.NgA so.aham');
+    expect(transliterate('रामः कृष्णं गँगा सोऽहम्', 'hk')).toBe("rAmaH kRSNaM ga~gA so'ham");
+  });
+
+  it('should read nukta letters, precomposed or not', () => {
+    expect(transliterate('क़ ज़ फ़', 'iast')).toBe('qa za fa');
+    expect(transliterate('क़ ज़', 'itrans')).toBe('qa za');
+    // Harvard-Kyoto has no nukta letters
+    expect(transliterate('ज़', 'hk')).toBe('ja');
+    expect(transliterate('ज़', 'bengali')).toBe('জ়');
+  });
+
+  it('should write Indic scripts letter for letter', () => {
+    expect(transliterate(VERSE, 'telugu')).toBe('కర్మణ్యేవాధికారస్తే మా ఫలేషు కదాచన ।');
+    expect(transliterate(VERSE, 'kannada')).toBe('ಕರ್ಮಣ್ಯೇವಾಧಿಕಾರಸ್ತೇ ಮಾ ಫಲೇಷು ಕದಾಚನ ।');
+    expect(transliterate(VERSE, 'gujarati')).toBe('કર્મણ્યેવાધિકારસ્તે મા ફલેષુ કદાચન ।');
+    expect(transliterate('धृतराष्ट्र उवाच', 'telugu')).toBe('ధృతరాష్ట్ర ఉవాచ');
+    expect(transliterate('सोऽहम् ॥२-४७॥', 'kannada')).toBe('ಸೋಽಹಮ್ ॥೨-೪೭॥');
+  });
+
+  it('should use the letters a script has where it lacks one', () => {
+    // Bengali writes va as ba
+    expect(transliterate('विद्या', 'bengali')).toBe('বিদ্যা');
+    expect(transliterate('ॐ', 'bengali')).toBe('ওঁ');
+    expect(transliterate('ॐ', 'telugu')).toBe('ఓం');
+  });
+
+  it('should mark Tamil stops with superscripts after the vowel sign or virama', () => {
+    expect(transliterate(VERSE, 'tamil')).toBe('கர்மண்யேவாதி⁴காரஸ்தே மா ப²லேஷு கதா³சந ।');
+    expect(transliterate('तद्ध्यानम्', 'tamil')).toBe('தத்³த்⁴யாநம்');
+    expect(transliterate('गृहं दुःखम्', 'tamil')).toBe('க்³ருஹம் து³ஃக²ம்');
+    expect(transliterate('सोऽहम्', 'tamil')).toBe('ஸோ(அ)ஹம்');
+  });
+
+  it('should leave Devanagari and anything that is not Devanagari as it is', () => {
+    expect(transliterate(VERSE, 'devanagari')).toBe(VERSE);
+    expect(transliterate('Chapter 2 — कर्म\n(2.47)', 'iast')).toBe('Chapter 2 — karma\n(2.47)');
+  });
+});
+
+describe('isRomanScript', () => {
+  it('should tell romanizations from scripts', () => {
+    expect(isRomanScript('iast')).toBe(true);
+    expect(isRomanScript('hk')).toBe(true);
+    expect(isRomanScript('devanagari')).toBe(false);
+    expect(isRomanScript('tamil')).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Base64url encoding for ASCII strings (JWT segments), and base64 for binary responses
+ *
+ * React Native's type definitions don't include atob/btoa, so this is done by hand.
+ */
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export function encodeBase64Url(value: string): string {
+  let output = '';
+  for (let i = 0; i < value.length; i += 3) {
+    const bytes = [0, 1, 2].map(offset => value.charCodeAt(i + offset) || 0);
+    const chunk = bytes[0] * 65536 + bytes[1] * 256 + bytes[2];
+    // 1 byte -> 2 characters, 2 -> 3, 3 -> 4 (no padding)
+    const length = Math.min(3, value.length - i) + 1;
+    for (let j = 0; j < length; j++) {
+      output += ALPHABET[Math.floor(chunk / 64 ** (3 - j)) % 64];
+    }
+  }
+  return output;
+}
+
+export function decodeBase64Url(value: string): string {
+  // Accept standard base64 too
+  const normalized = value.replace(/\+/g, '-').replace(/\//g, '_').replace(/[=]+$/, '');
+  let output = '';
+  for (let i = 0; i < normalized.length; i += 4) {
+    const group = normalized.slice(i, i + 4);
+    let chunk = 0;
+    for (let j = 0; j < 4; j++) {
+      const index = j < group.length ? ALPHABET.indexOf(group[j]) : 0;
+      if (index === -1) {
+        throw new Error('Invalid base64 input');
+      }
+      chunk = chunk * 64 + index;
+    }
+    for (let j = 0; j < group.length - 1; j++) {
+      output += String.fromCharCode(Math.floor(chunk / 256 ** (2 - j)) % 256);
+    }
+  }
+  return output;
+}
+
+/**
+ * Read a blob (e.g. an audio response) as standard base64, ready for RNFS.writeFile
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      // Remove data URL prefix if present
+      resolve(result.includes(',') ? result.split(',')[1] : result);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
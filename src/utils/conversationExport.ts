@@ -0,0 +1,160 @@
+/**
+ * Export a chat conversation as Markdown, plain text or JSON, then share it or save it
+ * to the app's documents directory
+ */
+import { Share } from 'react-native';
+import RNFS from 'react-native-fs';
+import { Conversation } from '../services/api';
+import { parseShlokaReferences } from './shlokaReferenceParser';
+import { getActivePath, resolveParents } from './conversationTree';
+
+export type ExportFormat = 'markdown' | 'text' | 'json';
+
+export interface ConversationExport {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+const EXPORT_VERSION = 1;
+
+const SPEAKERS = { user: 'You', assistant: 'Krishna' } as const;
+
+const formatTimestamp = (iso: string): string =>
+  new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Public page for a verse, so references stay useful outside the app
+ */
+const verseUrl = (bookName: string, chapter: number, verse: number): string | null =>
+  bookName === 'Bhagavad Gita' ? `https://www.holy-bhagavad-gita.org/chapter/${chapter}/verse/${verse}` : null;
+
+const linkVerseReferences = (text: string, bookName: string): string => {
+  let linked = text;
+  // Replace from the end so earlier indexes stay valid
+  [...parseShlokaReferences(text)].reverse().forEach(ref => {
+    const url = verseUrl(bookName, ref.chapter, ref.verse);
+    if (url) {
+      linked = `${linked.slice(0, ref.startIndex)}[${ref.fullText}](${url})${linked.slice(ref.endIndex)}`;
+    }
+  });
+  return linked;
+};
+
+export const getConversationTitle = (conversation: Conversation): string =>
+  conversation.title ||
+  conversation.messages.find(message => message.role === 'user')?.content.slice(0, 50) ||
+  'Conversation';
+
+const toMarkdown = (conversation: Conversation, exportedAt: Date): string => {
+  const bookName = conversation.shloka_context?.book_name ?? 'Bhagavad Gita';
+  const lines = [`# ${getConversationTitle(conversation)}`, '', `*Exported from DharmaSaar on ${formatTimestamp(exportedAt.toISOString())}*`];
+  const context = conversation.shloka_context;
+  if (context) {
+    lines.push('', `> About ${context.book_name}, Chapter ${context.chapter_number}, Verse ${context.verse_number}`);
+    if (context.text) {
+      lines.push('>', ...context.text.split('\n').map(line => `> ${line}`));
+    }
+  }
+  // Markdown and plain text read as one conversation: the branch being viewed
+  getActivePath(conversation.messages, conversation.active_leaf_id).forEach(message => {
+    lines.push(
+      '',
+      '---',
+      '',
+      `**${SPEAKERS[message.role]}** · ${formatTimestamp(message.created_at)}`,
+      '',
+      message.role === 'assistant' ? linkVerseReferences(message.content, bookName) : message.content
+    );
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const toPlainText = (conversation: Conversation, exportedAt: Date): string => {
+  const lines = [getConversationTitle(conversation), `Exported from DharmaSaar on ${formatTimestamp(exportedAt.toISOString())}`];
+  const context = conversation.shloka_context;
+  if (context) {
+    lines.push(`About ${context.book_name}, Chapter ${context.chapter_number}, Verse ${context.verse_number}`);
+  }
+  getActivePath(conversation.messages, conversation.active_leaf_id).forEach(message => {
+    lines.push('', `[${formatTimestamp(message.created_at)}] ${SPEAKERS[message.role]}:`, message.content);
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const toJson = (conversation: Conversation, exportedAt: Date): string => {
+  const parents = resolveParents(conversation.messages);
+  return JSON.stringify(
+    {
+      format: 'dharmasaar.conversation',
+      version: EXPORT_VERSION,
+      exported_at: exportedAt.toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+        shloka_context: conversation.shloka_context ?? null,
+        active_leaf_id: conversation.active_leaf_id ?? null,
+        // Every branch, so the export can be restored as it was
+        messages: conversation.messages.map(({ id, role, content, created_at }) => ({
+          id,
+          role,
+          content,
+          created_at,
+          parent_id: parents.get(id) ?? null,
+        })),
+      },
+    },
+    null,
+    2
+  );
+};
+
+const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'conversation';
+
+/**
+ * Serialise a conversation in the given format
+ */
+export function exportConversation(
+  conversation: Conversation,
+  format: ExportFormat,
+  exportedAt: Date = new Date()
+): ConversationExport {
+  const { extension, mimeType } = FORMATS[format];
+  const serialize = format === 'markdown' ? toMarkdown : format === 'text' ? toPlainText : toJson;
+  return {
+    fileName: `dharmasaar-${slugify(getConversationTitle(conversation))}-${exportedAt.toISOString().slice(0, 10)}.${extension}`,
+    mimeType,
+    content: serialize(conversation, exportedAt),
+  };
+}
+
+/**
+ * Hand the export to the system share sheet
+ */
+export async function shareConversationExport(exported: ConversationExport): Promise<void> {
+  await Share.share({ message: exported.content, title: exported.fileName });
+}
+
+/**
+ * Write the export to the app's documents directory and return its path
+ */
+export async function saveConversationExport(exported: ConversationExport): Promise<string> {
+  const path = `${RNFS.DocumentDirectoryPath}/${exported.fileName}`;
+  await RNFS.writeFile(path, exported.content, 'utf8');
+  return path;
+}
@@ -0,0 +1,157 @@
+/**
+ * Local full-text search over chat history
+ *
+ * Indexes conversation titles and message contents in memory, so past conversations
+ * can be searched without a round trip. Each query term must match (the last one as
+ * a prefix, for search-as-you-type), and hits are ranked by TF-IDF with boosts for
+ * titles, exact phrases and recent conversations.
+ */
+import { Conversation } from '../services/apiSchemas';
+import { tokenize, normalizeTerm, buildSnippet, Snippet, Token } from './textSearch';
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  /** The matching message, or null when only the title matched */
+  messageId: string | null;
+  role: 'user' | 'assistant' | 'title';
+  score: number;
+  snippet: Snippet;
+}
+
+interface IndexedDocument {
+  conversationId: string;
+  messageId: string | null;
+  role: ConversationSearchHit['role'];
+  text: string;
+  tokens: Token[];
+  /** term -> how often it occurs in the text */
+  frequencies: Map<string, number>;
+  /** 0 for the most recently updated conversation, growing with age */
+  recencyRank: number;
+}
+
+const TITLE_BOOST = 1.5;
+const PHRASE_BOOST = 2;
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+export class ConversationSearchIndex {
+  private documents: IndexedDocument[] = [];
+  /** term -> indexes into `documents` containing it */
+  private postings = new Map<string, Set<number>>();
+
+  constructor(conversations: Conversation[]) {
+    const byRecency = [...conversations].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    byRecency.forEach((conversation, recencyRank) => {
+      if (conversation.title) {
+        this.add({ conversationId: conversation.id, messageId: null, role: 'title', text: conversation.title, recencyRank });
+      }
+      conversation.messages.forEach(message => {
+        this.add({
+          conversationId: conversation.id,
+          messageId: message.id,
+          role: message.role,
+          text: message.content,
+          recencyRank,
+        });
+      });
+    });
+  }
+
+  /**
+   * Rank the titles and messages matching every term of `query`
+   */
+  search(query: string, limit = 50): ConversationSearchHit[] {
+    const queryTerms = tokenize(query).map(token => token.term);
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    // Every term must match; the last may still be being typed
+    const termMatches = queryTerms.map((term, i) => this.matchTerm(term, i === queryTerms.length - 1));
+    let candidates = [...this.documentsFor(termMatches[0])];
+    termMatches.slice(1).forEach(matches => {
+      const docs = this.documentsFor(matches);
+      candidates = candidates.filter(doc => docs.has(doc));
+    });
+
+    const phrase = normalizeTerm(query.trim()).replace(/\s+/g, ' ');
+    return candidates
+      .map(docIndex => this.score(this.documents[docIndex], termMatches, phrase))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private add(document: Omit<IndexedDocument, 'tokens' | 'frequencies'>): void {
+    const tokens = tokenize(document.text);
+    const frequencies = new Map<string, number>();
+    tokens.forEach(({ term }) => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+    const docIndex = this.documents.push({ ...document, tokens, frequencies }) - 1;
+    frequencies.forEach((_, term) => {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Set();
+        this.postings.set(term, docs);
+      }
+      docs.add(docIndex);
+    });
+  }
+
+  /**
+   * Indexed terms matching a query term, with their weight (exact beats prefix)
+   */
+  private matchTerm(term: string, allowPrefix: boolean): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(term)) {
+      matches.set(term, 1);
+    }
+    if (allowPrefix) {
+      this.postings.forEach((_, indexed) => {
+        if (indexed !== term && indexed.startsWith(term)) {
+          matches.set(indexed, PREFIX_MATCH_WEIGHT);
+        }
+      });
+    }
+    return matches;
+  }
+
+  private documentsFor(matches: Map<string, number>): Set<number> {
+    const docs = new Set<number>();
+    matches.forEach((_, term) => this.postings.get(term)?.forEach(docIndex => docs.add(docIndex)));
+    return docs;
+  }
+
+  private score(document: IndexedDocument, termMatches: Map<string, number>[], phrase: string): ConversationSearchHit {
+    let score = 0;
+    termMatches.forEach(matches => {
+      let best = 0;
+      // Go through the message's own terms, not every term a short prefix matched
+      document.frequencies.forEach((frequency, term) => {
+        const weight = matches.get(term);
+        if (weight !== undefined) {
+          const idf = Math.log(1 + this.documents.length / (this.postings.get(term)?.size ?? 1));
+          best = Math.max(best, weight * idf * (1 + Math.log(frequency)));
+        }
+      });
+      score += best;
+    });
+    // Shorter texts where the terms make up more of the content rank higher
+    score /= Math.sqrt(Math.max(1, document.tokens.length / 10));
+
+    if (document.role === 'title') {
+      score *= TITLE_BOOST;
+    }
+    if (termMatches.length > 1 && normalizeTerm(document.text).replace(/\s+/g, ' ').includes(phrase)) {
+      score *= PHRASE_BOOST;
+    }
+    score *= 1 / (1 + document.recencyRank * 0.05);
+
+    const matched = document.tokens.filter(token => termMatches.some(matches => matches.has(token.term)));
+    return {
+      conversationId: document.conversationId,
+      messageId: document.messageId,
+      role: document.role,
+      score,
+      snippet: buildSnippet(document.text, matched),
+    };
+  }
+}
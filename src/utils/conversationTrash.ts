@@ -0,0 +1,78 @@
+/**
+ * Trash for soft-deleted conversations: how long they are kept, and purging the ones
+ * that have been there longer
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService, TrashedConversation } from '../services/api';
+
+const RETENTION_STORAGE_KEY = '@dharmasaar_trash_retention_days';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention periods offered in the trash view, in days */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Get how many days deleted conversations stay in the trash
+ */
+export const getTrashRetentionDays = async (): Promise<number> => {
+  try {
+    const value = Number(await AsyncStorage.getItem(RETENTION_STORAGE_KEY));
+    return TRASH_RETENTION_OPTIONS.includes(value) ? value : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error) {
+    console.error('Error loading trash retention:', error);
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+};
+
+/**
+ * Save how many days deleted conversations stay in the trash
+ */
+export const setTrashRetentionDays = async (days: number): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+  } catch (error) {
+    console.error('Error saving trash retention:', error);
+  }
+};
+
+/**
+ * Whole days left before a trashed conversation is purged (0 once it's due)
+ */
+export const getDaysUntilPurge = (conversation: TrashedConversation, retentionDays: number, now: number = Date.now()): number => {
+  const purgeAt = Date.parse(conversation.deleted_at) + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now) / DAY_MS));
+};
+
+/**
+ * Permanently delete conversations kept past the retention period, returning the rest.
+ * Conversations that fail to delete stay in the trash for the next attempt.
+ */
+export async function purgeExpiredConversations(
+  trash: TrashedConversation[],
+  retentionDays: number,
+  now: number = Date.now()
+): Promise<TrashedConversation[]> {
+  const expired = trash.filter(conversation => getDaysUntilPurge(conversation, retentionDays, now) === 0);
+  const purged = new Set<string>();
+  for (const conversation of expired) {
+    try {
+      await apiService.deleteConversation(conversation.id, true);
+      purged.add(conversation.id);
+    } catch (error) {
+      console.error('Error purging deleted conversation:', error);
+    }
+  }
+  return trash.filter(conversation => !purged.has(conversation.id));
+}
+
+/**
+ * Purge the trash with the saved retention period. Run when the conversation history
+ * loads, so conversations don't outstay it just because the trash view isn't opened.
+ */
+export async function purgeExpiredTrash(now: number = Date.now()): Promise<void> {
+  const [trash, retentionDays] = await Promise.all([apiService.getTrashedConversations(), getTrashRetentionDays()]);
+  await purgeExpiredConversations(trash, retentionDays, now);
+}
@@ -0,0 +1,93 @@
+/**
+ * Branching conversations
+ *
+ * Editing a question or regenerating a reply adds a sibling message instead of
+ * replacing the old one, so a conversation's messages form a tree linked by
+ * `parent_id`. The user views one path through it at a time, ending at the
+ * conversation's active leaf.
+ */
+
+/** The part of a chat message the tree is built from */
+export interface BranchMessage {
+  id: string;
+  parent_id?: string | null;
+}
+
+export interface MessageSiblings {
+  /** Sibling message ids, oldest first (includes the message itself) */
+  ids: string[];
+  index: number;
+}
+
+/**
+ * Parent of every message. Messages saved before branching existed have no
+ * `parent_id` and follow the previous message.
+ */
+export function resolveParents(messages: BranchMessage[]): Map<string, string | null> {
+  const parents = new Map<string, string | null>();
+  messages.forEach((message, i) => {
+    const parent = message.parent_id !== undefined ? message.parent_id : i > 0 ? messages[i - 1].id : null;
+    parents.set(message.id, parent ?? null);
+  });
+  return parents;
+}
+
+/**
+ * Children of every message (null key for the first messages), in creation order
+ */
+export function getChildren<T extends BranchMessage>(messages: T[]): Map<string | null, T[]> {
+  const parents = resolveParents(messages);
+  const children = new Map<string | null, T[]>();
+  messages.forEach(message => {
+    const parent = parents.get(message.id) ?? null;
+    children.set(parent, [...(children.get(parent) ?? []), message]);
+  });
+  return children;
+}
+
+/**
+ * Follow the newest child from `messageId` down to the end of its branch
+ */
+export function latestLeaf(messages: BranchMessage[], messageId: string | null): string | null {
+  const children = getChildren(messages);
+  let current = messageId;
+  let next = children.get(current);
+  while (next && next.length > 0) {
+    current = next[next.length - 1].id;
+    next = children.get(current);
+  }
+  return current;
+}
+
+/**
+ * Messages from the root down to `leafId`. Falls back to the newest branch when the
+ * leaf is unknown.
+ */
+export function getActivePath<T extends BranchMessage>(messages: T[], leafId: string | null | undefined): T[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const parents = resolveParents(messages);
+  let current = leafId && byId.has(leafId) ? leafId : latestLeaf(messages, null);
+
+  const path: T[] = [];
+  const seen = new Set<string>();
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const message = byId.get(current);
+    if (!message) break;
+    path.push(message);
+    current = parents.get(current) ?? null;
+  }
+  return path.reverse();
+}
+
+/**
+ * The alternatives to every message (other edits or regenerations of it)
+ */
+export function getSiblingsById(messages: BranchMessage[]): Map<string, MessageSiblings> {
+  const siblings = new Map<string, MessageSiblings>();
+  getChildren(messages).forEach(children => {
+    const ids = children.map(message => message.id);
+    ids.forEach((id, index) => siblings.set(id, { ids, index }));
+  });
+  return siblings;
+}
@@ -0,0 +1,53 @@
+/**
+ * Dwell timer - calls back once something has been on screen for long enough
+ *
+ * Time only counts while the timer is running, so pausing it (e.g. while the app is in
+ * the background) and resuming carries on from where it was rather than starting over.
+ */
+export class DwellTimer {
+  private elapsed = 0;
+  private startedAt: number | null = null;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+  private done = false;
+
+  constructor(
+    private minDwell: number,
+    private onDwell: () => void,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Start counting, or carry on after pause(). Does nothing once the dwell was reached.
+   */
+  resume(): void {
+    if (this.done || this.startedAt !== null) return;
+    this.startedAt = this.now();
+    this.timeout = setTimeout(() => {
+      this.done = true;
+      this.startedAt = null;
+      this.timeout = null;
+      this.onDwell();
+    }, Math.max(0, this.minDwell - this.elapsed));
+  }
+
+  /**
+   * Stop counting, keeping the time viewed so far
+   */
+  pause(): void {
+    if (this.startedAt === null) return;
+    this.elapsed += this.now() - this.startedAt;
+    this.startedAt = null;
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+
+  /**
+   * Stop for good without calling back
+   */
+  cancel(): void {
+    this.pause();
+    this.done = true;
+  }
+}
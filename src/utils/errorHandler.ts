@@ -2,6 +2,12 @@
  * Error handling utilities for better user experience
  */
 import NetInfo from '@react-native-community/netinfo';
+import {
+  ApiRequestError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+} from '../services/errors';
 
 export interface ErrorInfo {
   message: string;
@@ -29,6 +35,18 @@ export const checkNetworkStatus = async (): Promise<boolean> => {
  * Get user-friendly error message from error
  */
 export const getUserFriendlyError = (error: any): ErrorInfo => {
+  // Typed API errors already know what went wrong - no need to parse the message
+  if (error instanceof ApiRequestError) {
+    return {
+      message: error.message,
+      userFriendlyMessage: error.userFriendlyMessage,
+      isNetworkError: error.isNetworkError,
+      isOffline: error instanceof NetworkError && error.isOffline,
+      statusCode: error.statusCode,
+      canRetry: error.isNetworkError || error instanceof RateLimitError || error instanceof ServerError,
+    };
+  }
+
   const errorMessage = error?.message || String(error) || 'An unknown error occurred';
   
   // Network errors
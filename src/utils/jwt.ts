@@ -0,0 +1,46 @@
+/**
+ * Local JWT inspection
+ *
+ * Only reads the payload (e.g. `exp`) to decide when to refresh - signatures are
+ * verified by the backend, never here.
+ */
+import { decodeBase64Url } from './base64';
+
+export interface JwtPayload {
+  /** Expiry, in seconds since the epoch */
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode a token's payload, or return null if it isn't a well-formed JWT
+ */
+export function decodeJwtPayload(token: string): JwtPayload | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(decodeBase64Url(segments[1]));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When the token expires (ms since the epoch), or null if it has no `exp` claim
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * True if the token expires within `marginMs`. Tokens without a readable expiry
+ * are treated as fresh - the server's 401 is the fallback for those.
+ */
+export function isTokenExpiring(token: string, marginMs = 0, now = Date.now()): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+}
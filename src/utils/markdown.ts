@@ -0,0 +1,319 @@
+/**
+ * Markdown parser for AI explanations and chat replies
+ *
+ * Covers the subset the backend's models actually write: headings, paragraphs,
+ * bulleted and numbered lists (nested by indentation), blockquotes, fenced code and
+ * horizontal rules, with bold, italic, inline code and links inside them.
+ *
+ * Parsing happens in two steps: the text is split into line tokens, which are then
+ * assembled into a tree of block nodes whose text is parsed into inline nodes.
+ * Anything that isn't valid markdown is kept as plain text rather than dropped.
+ */
+
+// Inline nodes
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+// Block nodes
+
+export interface ListItemNode {
+  children: InlineNode[];
+  /** A list nested under this item */
+  sublist?: ListNode;
+}
+
+export interface ListNode {
+  type: 'list';
+  ordered: boolean;
+  /** Number of the first item of an ordered list */
+  start: number;
+  items: ListItemNode[];
+}
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | ListNode
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'code_block'; text: string }
+  | { type: 'divider' };
+
+// Line tokens
+
+export type LineToken =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list_item'; indent: number; ordered: boolean; number: number; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'fence' }
+  | { type: 'code_line'; text: string }
+  | { type: 'divider' }
+  | { type: 'blank' }
+  | { type: 'text'; text: string };
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET_ITEM = /^(\s*)[-*+•]\s+(.*)$/;
+const ORDERED_ITEM = /^(\s*)(\d{1,9})[.)]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const FENCE = /^\s{0,3}(```|~~~)/;
+const DIVIDER = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+
+const WORD_CHARACTER = /[0-9A-Za-zÀ-ɏḀ-ỿऀ-ॿ]/;
+
+/**
+ * Split markdown into one token per line
+ */
+export function tokenizeMarkdown(markdown: string): LineToken[] {
+  let inFence = false;
+  return markdown.split(/\r?\n/).map((line): LineToken => {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      return { type: 'fence' };
+    }
+    // Code is kept verbatim
+    if (inFence) return { type: 'code_line', text: line };
+    if (!line.trim()) return { type: 'blank' };
+    // Checked before list items, so "- - -" and "***" are rules, not bullets
+    if (DIVIDER.test(line)) return { type: 'divider' };
+
+    const heading = line.match(HEADING);
+    if (heading) return { type: 'heading', level: heading[1].length, text: heading[2] };
+
+    const quote = line.match(QUOTE);
+    if (quote) return { type: 'quote', text: quote[1] };
+
+    const bullet = line.match(BULLET_ITEM);
+    if (bullet) return { type: 'list_item', indent: bullet[1].length, ordered: false, number: 0, text: bullet[2] };
+
+    const ordered = line.match(ORDERED_ITEM);
+    if (ordered) {
+      return { type: 'list_item', indent: ordered[1].length, ordered: true, number: Number(ordered[2]), text: ordered[3] };
+    }
+
+    return { type: 'text', text: line.trim() };
+  });
+}
+
+/**
+ * Parse inline markdown: **bold**, *italic* / _italic_, ***both***, `code` and [links](url).
+ * Line breaks inside the text are kept.
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) {
+      nodes.push({ type: 'text', text: plain });
+      plain = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = text.slice(i).match(/^\[([^\]\n]+)\]\(([^)\s]+)\)/);
+      if (link) {
+        flush();
+        nodes.push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const emphasis = matchEmphasis(text, i);
+      if (emphasis) {
+        flush();
+        nodes.push(emphasis.node);
+        i = emphasis.end;
+        continue;
+      }
+    }
+
+    plain += char;
+    i += 1;
+  }
+  flush();
+  return nodes;
+}
+
+/**
+ * Match emphasis opening at `start`: a run of 1-3 `*` or `_` closed by the same run
+ * later on. Underscores inside words (snake_case) don't count.
+ */
+function matchEmphasis(text: string, start: number): { node: InlineNode; end: number } | null {
+  const char = text[start];
+  let length = 0;
+  while (length < 3 && text[start + length] === char) length += 1;
+  const marker = char.repeat(length);
+
+  const opensWord = /\S/.test(text[start + length] ?? '');
+  const afterWord = start > 0 && WORD_CHARACTER.test(text[start - 1]);
+  if (!opensWord || (char === '_' && afterWord)) {
+    return null;
+  }
+
+  let close = text.indexOf(marker, start + length + 1);
+  // Skip closers that are really part of a longer run (the ** inside ***)
+  while (close !== -1 && (text[close + length] === char || /\s/.test(text[close - 1]))) {
+    close = text.indexOf(marker, close + 1);
+  }
+  if (close === -1) {
+    return null;
+  }
+
+  const children = parseInline(text.slice(start + length, close));
+  const node: InlineNode =
+    length === 1
+      ? { type: 'emphasis', children }
+      : length === 2
+        ? { type: 'strong', children }
+        : { type: 'strong', children: [{ type: 'emphasis', children }] };
+  return { node, end: close + length };
+}
+
+/**
+ * Parse markdown into a tree of block nodes
+ */
+export function parseMarkdown(markdown: string): BlockNode[] {
+  return parseBlocks(tokenizeMarkdown(markdown));
+}
+
+function parseBlocks(tokens: LineToken[]): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    switch (token.type) {
+      case 'blank':
+        i += 1;
+        break;
+
+      case 'divider':
+        blocks.push({ type: 'divider' });
+        i += 1;
+        break;
+
+      case 'heading':
+        blocks.push({ type: 'heading', level: token.level, children: parseInline(token.text) });
+        i += 1;
+        break;
+
+      case 'fence': {
+        const lines: string[] = [];
+        i += 1;
+        for (let current = tokens[i]; current?.type === 'code_line'; current = tokens[++i]) {
+          lines.push(current.text);
+        }
+        blocks.push({ type: 'code_block', text: lines.join('\n') });
+        // Past the closing fence (an unclosed block runs to the end)
+        i += 1;
+        break;
+      }
+
+      case 'code_line':
+        i += 1;
+        break;
+
+      case 'quote': {
+        const quoted: string[] = [];
+        while (i < tokens.length) {
+          const current = tokens[i];
+          if (current.type === 'quote') {
+            quoted.push(current.text);
+          } else if (current.type === 'text' && quoted.length > 0) {
+            // A line continuing a quoted paragraph without its own ">"
+            quoted.push(current.text);
+          } else {
+            break;
+          }
+          i += 1;
+        }
+        blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+        break;
+      }
+
+      case 'list_item': {
+        const { list, next } = parseList(tokens, i);
+        blocks.push(list);
+        i = next;
+        break;
+      }
+
+      case 'text': {
+        const lines: string[] = [];
+        while (i < tokens.length && tokens[i].type === 'text') {
+          lines.push((tokens[i] as { text: string }).text);
+          i += 1;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(lines.join('\n')) });
+        break;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse the list starting at tokens[start]. Items indented further than its first item
+ * form a sublist of the item before them; plain lines right after an item continue it.
+ */
+function parseList(tokens: LineToken[], start: number): { list: ListNode; next: number } {
+  const first = tokens[start] as Extract<LineToken, { type: 'list_item' }>;
+  const list: ListNode = { type: 'list', ordered: first.ordered, start: first.number, items: [] };
+  let i = start;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.type === 'list_item' && token.indent > first.indent && list.items.length > 0) {
+      const nested = parseList(tokens, i);
+      list.items[list.items.length - 1].sublist = nested.list;
+      i = nested.next;
+    } else if (token.type === 'list_item' && token.indent === first.indent && token.ordered === first.ordered) {
+      list.items.push({ children: parseInline(token.text) });
+      i += 1;
+    } else if (token.type === 'text' && list.items.length > 0 && !list.items[list.items.length - 1].sublist) {
+      const item = list.items[list.items.length - 1];
+      item.children = [...item.children, { type: 'break' }, ...parseInline(token.text)];
+      i += 1;
+    } else if (token.type === 'blank' && tokens[i + 1]?.type === 'list_item') {
+      // Loose lists separate their items with blank lines
+      const following = tokens[i + 1] as Extract<LineToken, { type: 'list_item' }>;
+      if (following.indent < first.indent || (following.indent === first.indent && following.ordered !== first.ordered)) {
+        break;
+      }
+      i += 1;
+    } else {
+      break;
+    }
+  }
+
+  return { list, next: i };
+}
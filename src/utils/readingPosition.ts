@@ -0,0 +1,45 @@
+/**
+ * Where reading was left off in each chapter, so the chapter reader can resume there
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const POSITIONS_STORAGE_KEY = '@dharmasaar_reading_positions';
+
+export interface ReadingPosition {
+  verseNumber: number;
+  /** ISO time the position was saved */
+  updatedAt: string;
+}
+
+const positionKey = (bookName: string, chapterNumber: number): string =>
+  `${bookName.toLowerCase()}::${chapterNumber}`;
+
+const loadPositions = async (): Promise<Record<string, ReadingPosition>> => {
+  const stored = await AsyncStorage.getItem(POSITIONS_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+/**
+ * Get the verse last read in a chapter, or null if it hasn't been opened in the reader
+ */
+export const getReadingPosition = async (bookName: string, chapterNumber: number): Promise<ReadingPosition | null> => {
+  try {
+    return (await loadPositions())[positionKey(bookName, chapterNumber)] ?? null;
+  } catch (error) {
+    console.error('Error loading reading position:', error);
+    return null;
+  }
+};
+
+/**
+ * Remember the verse being read in a chapter
+ */
+export const saveReadingPosition = async (bookName: string, chapterNumber: number, verseNumber: number): Promise<void> => {
+  try {
+    const positions = await loadPositions();
+    positions[positionKey(bookName, chapterNumber)] = { verseNumber, updatedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(POSITIONS_STORAGE_KEY, JSON.stringify(positions));
+  } catch (error) {
+    console.error('Error saving reading position:', error);
+  }
+};
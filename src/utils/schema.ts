@@ -0,0 +1,203 @@
+/**
+ * Minimal declarative schema library for validating JSON at runtime
+ *
+ * Schemas double as the source of truth for TypeScript types:
+ *   const UserSchema = s.object({ id: s.string(), age: s.optional(s.number()) });
+ *   type User = Infer<typeof UserSchema>; // { id: string; age?: number }
+ */
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * Thrown when a value does not match its schema.
+ * `path` points at the first offending field (e.g. `data.shloka.chapter_number`).
+ */
+export class SchemaValidationError extends Error {
+  readonly path: string;
+  readonly issues: SchemaIssue[];
+  readonly source?: string;
+
+  constructor(issues: SchemaIssue[], source?: string) {
+    const first = issues[0];
+    const location = first.path || '(root)';
+    super(
+      `${source ? `Invalid response from ${source}: ` : ''}` +
+      `expected ${first.expected} at ${location}, received ${first.received}` +
+      (issues.length > 1 ? ` (and ${issues.length - 1} more issue${issues.length > 2 ? 's' : ''})` : '')
+    );
+    this.name = 'SchemaValidationError';
+    this.path = first.path;
+    this.issues = issues;
+    this.source = source;
+  }
+}
+
+export interface Schema<T> {
+  readonly description: string;
+  readonly isOptional?: boolean;
+  /**
+   * Validate `value`, pushing problems onto `issues`.
+   * Returns the (possibly unchanged) value so schemas can be composed.
+   */
+  check(value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { readonly isOptional: true } ? K : never;
+}[keyof S];
+
+type Prettify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferShape<S extends Shape> = Prettify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+};
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const primitive = <T>(description: string, test: (value: unknown) => boolean): Schema<T> => ({
+  description,
+  check(value, path, issues) {
+    if (!test(value)) {
+      issues.push({ path, expected: description, received: describe(value) });
+    }
+    return value as T;
+  },
+});
+
+const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+
+const number = (): Schema<number> =>
+  primitive('number', value => typeof value === 'number' && !Number.isNaN(value));
+
+const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+/**
+ * Accepts anything - used for loosely specified payloads
+ */
+const unknown = (): Schema<unknown> => ({
+  description: 'unknown',
+  check: value => value,
+});
+
+/**
+ * Accepts anything and opts out of type checking, like `any` itself.
+ * Reserved for free-form payloads such as the envelope's `errors` field.
+ */
+const any = (): Schema<any> => ({
+  description: 'any',
+  check: value => value,
+});
+
+const literal = <T extends string | number | boolean>(...values: T[]): Schema<T> =>
+  primitive(values.map(v => JSON.stringify(v)).join(' | '), value => values.includes(value as T));
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  description: `${schema.description} | null`,
+  check(value, path, issues) {
+    if (value === null) return null;
+    return schema.check(value, path, issues);
+  },
+});
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> & { readonly isOptional: true } => ({
+  description: `${schema.description} | undefined`,
+  isOptional: true,
+  check(value, path, issues) {
+    if (value === undefined) return undefined;
+    return schema.check(value, path, issues);
+  },
+});
+
+/**
+ * Optional key whose value may also be null - the common shape for
+ * fields our backend omits or serializes as `null`
+ */
+const nullish = <T>(schema: Schema<T>) => optional(nullable(schema));
+
+const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  description: `${item.description}[]`,
+  check(value, path, issues) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describe(value) });
+      return value as T[];
+    }
+    value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    return value as T[];
+  },
+});
+
+/**
+ * Object schema. Unknown keys are allowed so additive backend changes don't break the app.
+ */
+const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+  description: 'object',
+  check(value, path, issues) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return value as InferShape<S>;
+    }
+    const record = value as Record<string, unknown>;
+    Object.keys(shape).forEach(key => {
+      shape[key].check(record[key], joinPath(path, key), issues);
+    });
+    return value as InferShape<S>;
+  },
+});
+
+const record = <T>(valueSchema: Schema<T>): Schema<Record<string, T>> => ({
+  description: `Record<string, ${valueSchema.description}>`,
+  check(value, path, issues) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return value as Record<string, T>;
+    }
+    Object.entries(value).forEach(([key, entry]) => {
+      valueSchema.check(entry, joinPath(path, key), issues);
+    });
+    return value as Record<string, T>;
+  },
+});
+
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  any,
+  literal,
+  nullable,
+  optional,
+  nullish,
+  array,
+  object,
+  record,
+};
+
+/**
+ * Validate `value` against `schema`, throwing SchemaValidationError on mismatch
+ * @param source - Optional label (e.g. the endpoint) included in the error message
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, source?: string): T {
+  const issues: SchemaIssue[] = [];
+  const result = schema.check(value, '', issues);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues, source);
+  }
+  return result;
+}
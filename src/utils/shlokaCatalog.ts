@@ -0,0 +1,74 @@
+/**
+ * Lookups in the library catalog (books → chapters → verses)
+ */
+import { ShlokaCatalog, CatalogBook, CatalogChapter, CatalogVerse } from '../services/api';
+
+export interface VerseLocation {
+  bookName: string;
+  chapterNumber: number;
+  verseNumber: number;
+}
+
+export interface AdjacentVerses {
+  previous: VerseLocation | null;
+  next: VerseLocation | null;
+}
+
+const sameBook = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+export const findBook = (catalog: ShlokaCatalog, bookName: string): CatalogBook | undefined =>
+  catalog.books.find(book => sameBook(book.book_name, bookName));
+
+export const findChapter = (
+  catalog: ShlokaCatalog,
+  bookName: string,
+  chapterNumber: number
+): CatalogChapter | undefined =>
+  findBook(catalog, bookName)?.chapters.find(chapter => chapter.chapter_number === chapterNumber);
+
+/**
+ * The verses of a chapter in reading order (none if it isn't in the catalog)
+ */
+export const getChapterVerses = (catalog: ShlokaCatalog, bookName: string, chapterNumber: number): CatalogVerse[] =>
+  [...(findChapter(catalog, bookName, chapterNumber)?.verses ?? [])].sort((a, b) => a.verse_number - b.verse_number);
+
+/**
+ * The chapter after `chapterNumber` in a book, or null at the last chapter
+ */
+export function getNextChapter(catalog: ShlokaCatalog, bookName: string, chapterNumber: number): CatalogChapter | null {
+  const following = (findBook(catalog, bookName)?.chapters ?? []).filter(chapter => chapter.chapter_number > chapterNumber);
+  return following.reduce<CatalogChapter | null>(
+    (nearest, chapter) => (!nearest || chapter.chapter_number < nearest.chapter_number ? chapter : nearest),
+    null
+  );
+}
+
+/**
+ * The verses before and after `location` in reading order, crossing into the
+ * neighbouring chapters at either end of a chapter (but not into other books)
+ */
+export function getAdjacentVerses(catalog: ShlokaCatalog, location: VerseLocation): AdjacentVerses {
+  const book = findBook(catalog, location.bookName);
+  if (!book) {
+    return { previous: null, next: null };
+  }
+
+  const ordered = [...book.chapters]
+    .sort((a, b) => a.chapter_number - b.chapter_number)
+    .flatMap(chapter =>
+      [...chapter.verses]
+        .sort((a, b) => a.verse_number - b.verse_number)
+        .map(verse => ({ bookName: book.book_name, chapterNumber: chapter.chapter_number, verseNumber: verse.verse_number }))
+    );
+  const index = ordered.findIndex(
+    verse => verse.chapterNumber === location.chapterNumber && verse.verseNumber === location.verseNumber
+  );
+  if (index === -1) {
+    return { previous: null, next: null };
+  }
+
+  return {
+    previous: ordered[index - 1] ?? null,
+    next: ordered[index + 1] ?? null,
+  };
+}
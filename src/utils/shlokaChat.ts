@@ -0,0 +1,51 @@
+/**
+ * "Ask about this shloka": the context a new chat is seeded with, and the starter
+ * questions suggested from the shloka's explanation
+ */
+import { KnowledgeItem } from '../data/mockKnowledge';
+import { ChatShlokaContext } from '../services/api';
+
+const THEME_QUESTIONS = [
+  (theme: string) => `What does this verse teach about ${theme}?`,
+  (theme: string) => `How can I practice ${theme} in my daily life?`,
+  (theme: string) => `Why does ${theme} still matter today?`,
+];
+
+/**
+ * Chat context for a shloka card, or null if it isn't a shloka (no book/chapter/verse)
+ */
+export function buildShlokaChatContext(item: KnowledgeItem): ChatShlokaContext | null {
+  const bookName = item.bookName || item.category;
+  if (!item.id || !bookName || !item.chapterNumber || !item.verseNumber) {
+    return null;
+  }
+  return {
+    shloka_id: item.id,
+    book_name: bookName,
+    chapter_number: item.chapterNumber,
+    verse_number: item.verseNumber,
+    text: item.sanskritText || item.transliteration || '',
+  };
+}
+
+/**
+ * Questions to offer before the first message, from the explanation's themes and
+ * reflection prompt
+ */
+export function getStarterQuestions(
+  themes: string[] | null | undefined,
+  reflectionPrompt: string | null | undefined,
+  limit = 4
+): string[] {
+  const questions = ['What does this verse mean in simple words?'];
+  if (reflectionPrompt?.trim()) {
+    questions.push(reflectionPrompt.trim());
+  }
+  (themes ?? [])
+    .map(theme => theme.trim())
+    .filter(Boolean)
+    .forEach((theme, i) => {
+      questions.push(THEME_QUESTIONS[i % THEME_QUESTIONS.length](theme.toLowerCase()));
+    });
+  return [...new Set(questions)].slice(0, limit);
+}
@@ -53,12 +53,11 @@ export function parseShlokaReferences(text: string): ShlokaReference[] {
     }
   }
   
-  // Remove duplicates (same chapter/verse at same position)
+  // Remove duplicates - a span matched by an earlier pattern wins over overlapping
+  // matches (e.g. "in Chapter 3, Verse 30" also matches as "Chapter 3, Verse 30")
   const uniqueReferences = references.filter((ref, index, self) =>
-    index === self.findIndex((r) =>
-      r.chapter === ref.chapter &&
-      r.verse === ref.verse &&
-      r.startIndex === ref.startIndex
+    !self.slice(0, index).some((r) =>
+      r.startIndex < ref.endIndex && ref.startIndex < r.endIndex
     )
   );
   
@@ -116,3 +115,19 @@ export function splitTextWithReferences(text: string): TextSegment[] {
   return segments;
 }
 
+/**
+ * Distinct verses referenced in text, in order of first mention
+ */
+export function getCitedVerses(text: string): { chapter: number; verse: number }[] {
+  const seen = new Set<string>();
+  return parseShlokaReferences(text)
+    .filter(ref => {
+      const key = `${ref.chapter}.${ref.verse}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .map(({ chapter, verse }) => ({ chapter, verse }));
+}
@@ -0,0 +1,309 @@
+/**
+ * Offline full-text search over shlokas and their explanations
+ *
+ * An inverted index over the Sanskrit text, transliteration, word-by-word meanings,
+ * summary, detailed explanation and themes of the shlokas on the device. Matching is
+ * diacritic-insensitive and works across scripts ("karma" finds "karmā" and "कर्म", see
+ * textSearch). Every query term must match somewhere in a shloka (the last one as a
+ * prefix, for search-as-you-type). Results can be narrowed by book, chapter and theme,
+ * with a count for each option.
+ */
+import { ShlokaWithExplanation } from '../services/api';
+import { tokenize, normalizeTerm, buildSnippet, Snippet, Token } from './textSearch';
+
+export type ShlokaSearchField =
+  | 'sanskrit'
+  | 'transliteration'
+  | 'word_by_word'
+  | 'summary'
+  | 'detailed_explanation'
+  | 'themes';
+
+export interface ShlokaSearchFilters {
+  bookName?: string;
+  /** Only applies together with `bookName` */
+  chapterNumber?: number;
+  theme?: string;
+}
+
+export interface ShlokaSearchResult {
+  shlokaId: string;
+  bookName: string;
+  chapterNumber: number;
+  verseNumber: number;
+  score: number;
+  /** The field the snippet comes from */
+  field: ShlokaSearchField;
+  snippet: Snippet;
+}
+
+export interface FacetCount<T> {
+  value: T;
+  count: number;
+}
+
+export interface ShlokaSearchFacets {
+  books: FacetCount<string>[];
+  /** Chapters of the selected book (none until a book is selected) */
+  chapters: FacetCount<number>[];
+  themes: FacetCount<string>[];
+}
+
+export interface ShlokaSearchResponse {
+  results: ShlokaSearchResult[];
+  /** Counts for the results matching the query, each ignoring its own filter */
+  facets: ShlokaSearchFacets;
+}
+
+interface IndexedShloka {
+  id: string;
+  bookName: string;
+  chapterNumber: number;
+  verseNumber: number;
+  themes: string[];
+  /** Indexes into `fields` */
+  fields: number[];
+}
+
+interface IndexedField {
+  shlokaIndex: number;
+  field: ShlokaSearchField;
+  text: string;
+  tokens: Token[];
+  /** term -> how often it occurs in the field */
+  frequencies: Map<string, number>;
+}
+
+// How much a match counts in each field: themes and the verse itself say most about it
+const FIELD_WEIGHTS: Record<ShlokaSearchField, number> = {
+  themes: 2,
+  sanskrit: 1.5,
+  transliteration: 1.5,
+  summary: 1.2,
+  word_by_word: 1,
+  detailed_explanation: 0.8,
+};
+
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+const EMPTY_RESPONSE: ShlokaSearchResponse = { results: [], facets: { books: [], chapters: [], themes: [] } };
+
+const sameText = (a: string, b: string): boolean => normalizeTerm(a) === normalizeTerm(b);
+
+export class ShlokaSearchIndex {
+  private shlokas: IndexedShloka[] = [];
+  private fields: IndexedField[] = [];
+  /** term -> indexes into `fields` containing it */
+  private postings = new Map<string, Set<number>>();
+
+  constructor(items: ShlokaWithExplanation[]) {
+    items.forEach(({ shloka, explanation }) => {
+      const shlokaIndex = this.shlokas.length;
+      const themes = explanation?.themes ?? [];
+      this.shlokas.push({
+        id: shloka.id,
+        bookName: shloka.book_name,
+        chapterNumber: shloka.chapter_number,
+        verseNumber: shloka.verse_number,
+        themes,
+        fields: [],
+      });
+
+      this.addField(shlokaIndex, 'sanskrit', shloka.sanskrit_text);
+      this.addField(shlokaIndex, 'transliteration', shloka.transliteration);
+      this.addField(
+        shlokaIndex,
+        'word_by_word',
+        shloka.word_by_word?.map(word => `${word.transliteration} (${word.sanskrit}) — ${word.meaning}`).join('; ')
+      );
+      this.addField(shlokaIndex, 'summary', explanation?.summary);
+      this.addField(shlokaIndex, 'detailed_explanation', explanation?.detailed_explanation);
+      this.addField(shlokaIndex, 'themes', themes.join(', '));
+    });
+  }
+
+  /** Number of shlokas indexed */
+  get size(): number {
+    return this.shlokas.length;
+  }
+
+  /**
+   * Rank the shlokas matching every term of `query` that pass `filters`
+   */
+  search(query: string, filters: ShlokaSearchFilters = {}, limit = 50): ShlokaSearchResponse {
+    const queryTerms = tokenize(query).map(token => token.term);
+    if (queryTerms.length === 0) {
+      return EMPTY_RESPONSE;
+    }
+
+    // Every term must match; the last may still be being typed
+    const termMatches = queryTerms.map((term, i) => this.matchTerm(term, i === queryTerms.length - 1));
+    let candidates = [...this.shlokasFor(termMatches[0])];
+    termMatches.slice(1).forEach(matches => {
+      const shlokas = this.shlokasFor(matches);
+      candidates = candidates.filter(shlokaIndex => shlokas.has(shlokaIndex));
+    });
+    const matching = candidates.map(shlokaIndex => this.shlokas[shlokaIndex]);
+
+    // Rarer terms say more about a shloka
+    const idf = new Map<string, number>();
+    termMatches.forEach(matches =>
+      matches.forEach((_, term) => {
+        if (!idf.has(term)) {
+          idf.set(term, Math.log(1 + this.shlokas.length / this.shlokasFor(new Map([[term, 1]])).size));
+        }
+      })
+    );
+
+    const results = matching
+      .filter(shloka => this.passes(shloka, filters))
+      .map(shloka => this.score(shloka, termMatches, idf))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return { results, facets: this.facets(matching, filters) };
+  }
+
+  private addField(shlokaIndex: number, field: ShlokaSearchField, text: string | null | undefined): void {
+    if (!text?.trim()) {
+      return;
+    }
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    tokens.forEach(({ term }) => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+    const fieldIndex = this.fields.push({ shlokaIndex, field, text, tokens, frequencies }) - 1;
+    this.shlokas[shlokaIndex].fields.push(fieldIndex);
+    frequencies.forEach((_, term) => {
+      let fields = this.postings.get(term);
+      if (!fields) {
+        fields = new Set();
+        this.postings.set(term, fields);
+      }
+      fields.add(fieldIndex);
+    });
+  }
+
+  /**
+   * Indexed terms matching a query term, with their weight (exact beats prefix)
+   */
+  private matchTerm(term: string, allowPrefix: boolean): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(term)) {
+      matches.set(term, 1);
+    }
+    if (allowPrefix) {
+      this.postings.forEach((_, indexed) => {
+        if (indexed !== term && indexed.startsWith(term)) {
+          matches.set(indexed, PREFIX_MATCH_WEIGHT);
+        }
+      });
+    }
+    return matches;
+  }
+
+  private shlokasFor(matches: Map<string, number>): Set<number> {
+    const shlokas = new Set<number>();
+    matches.forEach((_, term) =>
+      this.postings.get(term)?.forEach(fieldIndex => shlokas.add(this.fields[fieldIndex].shlokaIndex))
+    );
+    return shlokas;
+  }
+
+  private passes(shloka: IndexedShloka, filters: ShlokaSearchFilters, ignore?: keyof ShlokaSearchFilters): boolean {
+    if (ignore !== 'bookName' && filters.bookName && !sameText(shloka.bookName, filters.bookName)) {
+      return false;
+    }
+    if (
+      ignore !== 'chapterNumber' &&
+      ignore !== 'bookName' &&
+      filters.bookName &&
+      filters.chapterNumber !== undefined &&
+      shloka.chapterNumber !== filters.chapterNumber
+    ) {
+      return false;
+    }
+    if (ignore !== 'theme' && filters.theme && !shloka.themes.some(theme => sameText(theme, filters.theme!))) {
+      return false;
+    }
+    return true;
+  }
+
+  private facets(matching: IndexedShloka[], filters: ShlokaSearchFilters): ShlokaSearchFacets {
+    const books = new Map<string, FacetCount<string>>();
+    matching
+      .filter(shloka => this.passes(shloka, filters, 'bookName'))
+      .forEach(shloka => count(books, shloka.bookName.toLowerCase(), shloka.bookName));
+
+    const chapters = new Map<string, FacetCount<number>>();
+    if (filters.bookName) {
+      matching
+        .filter(shloka => this.passes(shloka, filters, 'chapterNumber'))
+        .forEach(shloka => count(chapters, String(shloka.chapterNumber), shloka.chapterNumber));
+    }
+
+    const themes = new Map<string, FacetCount<string>>();
+    matching
+      .filter(shloka => this.passes(shloka, filters, 'theme'))
+      .forEach(shloka => {
+        // A theme listed twice on one shloka still counts it once
+        new Set(shloka.themes.map(theme => normalizeTerm(theme))).forEach(key =>
+          count(themes, key, shloka.themes.find(theme => normalizeTerm(theme) === key)!)
+        );
+      });
+
+    const byCount = <T>(a: FacetCount<T>, b: FacetCount<T>) => b.count - a.count || String(a.value).localeCompare(String(b.value));
+    return {
+      books: Array.from(books.values()).sort(byCount),
+      chapters: Array.from(chapters.values()).sort((a, b) => a.value - b.value),
+      themes: Array.from(themes.values()).sort(byCount),
+    };
+  }
+
+  private score(shloka: IndexedShloka, termMatches: Map<string, number>[], idf: Map<string, number>): ShlokaSearchResult {
+    // Each term counts where it matches best; the snippet comes from the best field overall
+    const termScores = termMatches.map(() => 0);
+    let bestField = this.fields[shloka.fields[0]];
+    let bestFieldScore = -1;
+
+    shloka.fields.forEach(fieldIndex => {
+      const field = this.fields[fieldIndex];
+      let fieldScore = 0;
+      termMatches.forEach((matches, i) => {
+        let best = 0;
+        // Fields hold a handful of terms, while a one-letter prefix can match thousands
+        field.frequencies.forEach((frequency, term) => {
+          const weight = matches.get(term);
+          if (weight !== undefined) {
+            best = Math.max(best, weight * idf.get(term)! * (1 + Math.log(frequency)) * FIELD_WEIGHTS[field.field]);
+          }
+        });
+        termScores[i] = Math.max(termScores[i], best);
+        fieldScore += best;
+      });
+      if (fieldScore > bestFieldScore) {
+        bestField = field;
+        bestFieldScore = fieldScore;
+      }
+    });
+
+    const matched = bestField.tokens.filter(token => termMatches.some(matches => matches.has(token.term)));
+    return {
+      shlokaId: shloka.id,
+      bookName: shloka.bookName,
+      chapterNumber: shloka.chapterNumber,
+      verseNumber: shloka.verseNumber,
+      score: termScores.reduce((sum, termScore) => sum + termScore, 0),
+      field: bestField.field,
+      snippet: buildSnippet(bestField.text, matched),
+    };
+  }
+}
+
+function count<T>(facet: Map<string, FacetCount<T>>, key: string, value: T): void {
+  const existing = facet.get(key);
+  if (existing) {
+    existing.count += 1;
+  } else {
+    facet.set(key, { value, count: 1 });
+  }
+}
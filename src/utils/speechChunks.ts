@@ -0,0 +1,163 @@
+/**
+ * Splitting chat replies into sentence-sized chunks for reading aloud
+ *
+ * Each chunk carries the language of the voice that should speak it: Sanskrit quoted in
+ * a reply - in Devanagari, or transliterated with IAST diacritics - is spoken with the
+ * Hindi voice, which pronounces it properly, and the English prose around it with an
+ * English voice.
+ */
+
+export const SANSKRIT_LANGUAGE = 'hi-IN';
+export const ENGLISH_LANGUAGE = 'en-IN';
+
+/** Chunks longer than this are split at clause, then word boundaries */
+export const MAX_CHUNK_LENGTH = 200;
+
+export interface SpeechChunk {
+  text: string;
+  /** BCP-47 language of the voice to use */
+  language: string;
+}
+
+const DEVANAGARI = /[ऀ-ॿ]/;
+
+// Letters only IAST transliteration uses - plain English never has them
+const IAST_LETTERS = /[āīūṛṝḷḹṅñṭḍṇśṣṃṁḥĀĪŪṚṜḶḸṄÑṬḌṆŚṢṂṀḤ]/;
+
+// Verse numbers between double dandas (॥ २-४७ ॥) aren't worth reading out
+const VERSE_NUMBER = /॥\s*[०-९0-9.\-–\s]*॥/g;
+
+const QUOTED = /["“]([^"“”]+)["”]/g;
+
+// Letters and digits of the scripts replies are written in
+const WORD_CHARACTER = /[0-9A-Za-zÀ-ɏḀ-ỿऀ-ॣ०-ॿ]/;
+
+/**
+ * Remove markdown syntax that would otherwise be read out literally
+ */
+const stripMarkdown = (text: string): string =>
+  text
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]+/g, '')
+    .replace(/^\s*(#+|>|[-+•]|\d+[.)])\s+/gm, '');
+
+/**
+ * Latin text is transliterated Sanskrit when most of its words carry IAST diacritics
+ */
+const isTransliteratedSanskrit = (text: string): boolean => {
+  const words = text.split(/\s+/).filter(word => WORD_CHARACTER.test(word));
+  const marked = words.filter(word => IAST_LETTERS.test(word)).length;
+  return marked >= 2 && marked * 2 >= words.length;
+};
+
+/**
+ * Split a line into runs of one language: Devanagari words against the rest, with
+ * quoted transliterations and whole transliterated lines counted as Sanskrit
+ */
+function splitByLanguage(line: string): SpeechChunk[] {
+  const runs: SpeechChunk[] = [];
+  const append = (text: string, language: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.language === language) {
+      last.text += ` ${text}`;
+    } else {
+      runs.push({ text, language });
+    }
+  };
+
+  const words = line.split(/\s+/).filter(Boolean);
+  let latin: string[] = [];
+  const flushLatin = () => {
+    if (latin.length === 0) return;
+    const text = latin.join(' ');
+    latin = [];
+    if (isTransliteratedSanskrit(text)) {
+      append(text, SANSKRIT_LANGUAGE);
+      return;
+    }
+    let last = 0;
+    for (const match of text.matchAll(QUOTED)) {
+      if (!isTransliteratedSanskrit(match[1])) continue;
+      const before = text.slice(last, match.index).trim();
+      if (before) append(before, ENGLISH_LANGUAGE);
+      append(match[1].trim(), SANSKRIT_LANGUAGE);
+      last = match.index! + match[0].length;
+    }
+    // Punctuation left dangling after a quote would start the next chunk
+    const rest = text
+      .slice(last)
+      .replace(/^\s*[,;:]/, '')
+      .trim();
+    if (rest) append(rest, ENGLISH_LANGUAGE);
+  };
+
+  for (const word of words) {
+    if (DEVANAGARI.test(word)) {
+      flushLatin();
+      append(word, SANSKRIT_LANGUAGE);
+    } else if (!WORD_CHARACTER.test(word) && runs[runs.length - 1]?.language === SANSKRIT_LANGUAGE && latin.length === 0) {
+      // Punctuation after Devanagari (closing quotes, dashes) belongs to it
+      append(word, SANSKRIT_LANGUAGE);
+    } else {
+      latin.push(word);
+    }
+  }
+  flushLatin();
+  return runs;
+}
+
+/**
+ * Split a run into sentences: at dandas for Sanskrit, at sentence-ending punctuation
+ * followed by a space otherwise (so "2.47" stays whole)
+ */
+const splitSentences = (run: SpeechChunk): string[] =>
+  (run.language === SANSKRIT_LANGUAGE
+    ? run.text.replace(VERSE_NUMBER, '॥').split(/[।॥]+/)
+    : run.text.replace(/([.!?]+["'”’)]*)\s+/g, '$1\n').split('\n')
+  )
+    .map(sentence => sentence.trim())
+    .filter(sentence => WORD_CHARACTER.test(sentence));
+
+/**
+ * Break a sentence that's too long to speak as one chunk, preferring clause boundaries
+ */
+function splitLongSentence(sentence: string, maxLength: number): string[] {
+  if (sentence.length <= maxLength) {
+    return [sentence];
+  }
+  const chunks: string[] = [];
+  let current = '';
+  const add = (piece: string) => {
+    const candidate = current ? `${current} ${piece}` : piece;
+    if (candidate.length > maxLength && current) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  };
+  for (const clause of sentence.replace(/([,;:—])\s+/g, '$1\n').split('\n')) {
+    if (clause.length <= maxLength) {
+      add(clause);
+    } else {
+      clause.split(/\s+/).forEach(add);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Split a reply into chunks to speak one after another, each with the language to speak it in
+ */
+export function splitIntoSpeechChunks(text: string, maxLength: number = MAX_CHUNK_LENGTH): SpeechChunk[] {
+  return stripMarkdown(text)
+    .split(/\n+/)
+    .flatMap(splitByLanguage)
+    .flatMap(run =>
+      splitSentences(run).flatMap(sentence =>
+        splitLongSentence(sentence, maxLength).map(chunk => ({ text: chunk, language: run.language }))
+      )
+    );
+}
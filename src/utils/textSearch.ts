@@ -0,0 +1,103 @@
+/**
+ * Text helpers shared by the app's local search features
+ *
+ * Matching is case- and diacritic-insensitive ("Karmā" matches "karma"), and Devanagari
+ * is transliterated to IAST and folded the same way ("कर्म" matches "karma"), while every
+ * position reported back (tokens, highlights) refers to the original text so it can be
+ * highlighted as written.
+ */
+import { transliterate } from './transliteration';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface Token extends TextRange {
+  /** Normalized form used for matching */
+  term: string;
+}
+
+export interface Snippet {
+  text: string;
+  /** Ranges within `text` to highlight */
+  highlights: TextRange[];
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// IAST writes the avagraha as an apostrophe, which isn't part of the word
+const APOSTROPHES = /'/g;
+
+const DEVANAGARI = /[\u0900-\u097f]/;
+
+// Whitespace, ASCII punctuation, general punctuation and the Devanagari danda
+const SEPARATORS = /[\s!-/:-@[-`{-~\u2000-\u206f\u0964\u0965]/;
+
+/**
+ * Normalize text for matching: lowercase, without Latin diacritics, Devanagari in Latin letters
+ */
+export const normalizeTerm = (text: string): string =>
+  (DEVANAGARI.test(text) ? transliterate(text, 'iast').replace(APOSTROPHES, '') : text)
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .toLowerCase();
+
+/**
+ * Split text into normalized terms, keeping each one's position in the original text
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let start = -1;
+  for (let i = 0; i <= text.length; i++) {
+    const isSeparator = i === text.length || SEPARATORS.test(text[i]);
+    if (!isSeparator && start === -1) {
+      start = i;
+    } else if (isSeparator && start !== -1) {
+      const term = normalizeTerm(text.slice(start, i));
+      if (term) {
+        tokens.push({ term, start, end: i });
+      }
+      start = -1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Cut a window of `text` around its first match, snapped to word boundaries, with
+ * the matches inside it as highlights
+ */
+export function buildSnippet(text: string, matches: TextRange[], radius = 60): Snippet {
+  const sorted = [...matches].sort((a, b) => a.start - b.start);
+  if (sorted.length === 0) {
+    const end = text.length > radius * 2 ? text.lastIndexOf(' ', radius * 2) : text.length;
+    const cut = end > 0 ? end : Math.min(text.length, radius * 2);
+    return { text: text.slice(0, cut).trim() + (cut < text.length ? '…' : ''), highlights: [] };
+  }
+
+  let start = Math.max(0, sorted[0].start - radius);
+  let end = Math.min(text.length, sorted[0].end + radius);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < sorted[0].start ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > sorted[0].end ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const body = text.slice(start, end).replace(/\s+/g, ' ');
+  // Collapsing whitespace shifts offsets, so map them through the collapsed text
+  const shift = (offset: number) =>
+    prefix.length + text.slice(start, start + offset).replace(/\s+/g, ' ').length;
+
+  return {
+    text: prefix + body + suffix,
+    highlights: sorted
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: shift(match.start - start), end: shift(match.end - start) })),
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Rule-based transliteration of Devanagari Sanskrit into other scripts and romanizations
+ *
+ * Text is read as aksharas: a consonant (optionally with nukta) takes the vowel sign
+ * after it, or is left bare by a virama, or else carries the inherent "a". Romanizations
+ * spell each letter out; the Indic scripts follow Devanagari's Unicode layout, so most
+ * letters are a fixed offset away, with overrides where a script lacks a letter. Tamil
+ * has no aspirated or voiced stops, so those are written with the base letter and a
+ * superscript 2/3/4, as is usual for Sanskrit in Tamil script. Anything that isn't
+ * Devanagari (punctuation, Latin, line breaks) passes through untouched.
+ */
+
+export type SanskritScript =
+  | 'devanagari'
+  | 'iast'
+  | 'itrans'
+  | 'hk'
+  | 'telugu'
+  | 'kannada'
+  | 'tamil'
+  | 'bengali'
+  | 'gujarati';
+
+export const SANSKRIT_SCRIPTS: ReadonlyArray<{ id: SanskritScript; label: string }> = [
+  { id: 'devanagari', label: 'Devanagari' },
+  { id: 'iast', label: 'IAST' },
+  { id: 'itrans', label: 'ITRANS' },
+  { id: 'hk', label: 'Harvard-Kyoto' },
+  { id: 'telugu', label: 'Telugu' },
+  { id: 'kannada', label: 'Kannada' },
+  { id: 'tamil', label: 'Tamil' },
+  { id: 'bengali', label: 'Bengali' },
+  { id: 'gujarati', label: 'Gujarati' },
+];
+
+const VIRAMA = '्';
+const NUKTA = '़';
+const INHERENT_VOWEL = 'अ';
+
+const VOWELS = 'अआइईउऊऋॠऌॡएऐओऔ';
+const CONSONANTS = 'कखगघङचछजझञटठडढणतथदधनपफबभमयरलळवशषसह';
+// Vowel sign -> the vowel it writes
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'आ', 'ि': 'इ', 'ी': 'ई', 'ु': 'उ', 'ू': 'ऊ', 'ृ': 'ऋ', 'ॄ': 'ॠ', 'ॢ': 'ऌ', 'ॣ': 'ॡ',
+  'े': 'ए', 'ै': 'ऐ', 'ो': 'ओ', 'ौ': 'औ',
+};
+// Anusvara, chandrabindu, visarga, avagraha and om
+const MARKS = 'ंँःऽॐ';
+const DIGIT_ZERO = 0x0966;
+
+// Everything toIndic moves by the script's offset
+const DEVANAGARI_LETTERS = new Set([...VOWELS, ...CONSONANTS, ...Object.keys(VOWEL_SIGNS), ...MARKS, VIRAMA, NUKTA]);
+
+const isConsonant = (char: string | undefined): boolean => !!char && CONSONANTS.includes(char);
+const isDigit = (char: string): boolean => char.charCodeAt(0) >= DIGIT_ZERO && char.charCodeAt(0) <= DIGIT_ZERO + 9;
+
+interface RomanScheme {
+  /** Keyed by independent vowel; vowel signs are spelled the same */
+  vowels: Record<string, string>;
+  consonants: Record<string, string>;
+  /** Spelling of a consonant with nukta, when the scheme has one */
+  nukta: Record<string, string>;
+  marks: Record<string, string>;
+}
+
+/** Zip a string of Devanagari letters with their spellings */
+const spell = (letters: string, spellings: string[]): Record<string, string> =>
+  Object.fromEntries([...letters].map((letter, i) => [letter, spellings[i]]));
+
+const DANDAS = { '।': '|', '॥': '||' };
+
+const ROMAN_SCHEMES: Record<'iast' | 'itrans' | 'hk', RomanScheme> = {
+  iast: {
+    vowels: spell(VOWELS, ['a', 'ā', 'i', 'ī', 'u', 'ū', 'ṛ', 'ṝ', 'ḷ', 'ḹ', 'e', 'ai', 'o', 'au']),
+    consonants: spell(CONSONANTS, [
+      'k', 'kh', 'g', 'gh', 'ṅ', 'c', 'ch', 'j', 'jh', 'ñ', 'ṭ', 'ṭh', 'ḍ', 'ḍh', 'ṇ',
+      't', 'th', 'd', 'dh', 'n', 'p', 'ph', 'b', 'bh', 'm', 'y', 'r', 'l', 'ḷ', 'v', 'ś', 'ṣ', 's', 'h',
+    ]),
+    nukta: spell('कखगजडढफय', ['q', 'k͟h', 'ġ', 'z', 'ṛ', 'ṛh', 'f', 'ẏ']),
+    marks: { ...spell(MARKS, ['ṃ', 'm̐', 'ḥ', "'", 'oṃ']), ...DANDAS },
+  },
+  itrans: {
+    vowels: spell(VOWELS, ['a', 'A', 'i', 'I', 'u', 'U', 'RRi', 'RRI', 'LLi', 'LLI', 'e', 'ai', 'o', 'au']),
+    consonants: spell(CONSONANTS, [
+      'k', 'kh', 'g', 'gh', '~N', 'ch', 'Ch', 'j', 'jh', '~n', 'T', 'Th', 'D', 'Dh', 'N',
+      't', 'th', 'd', 'dh', 'n', 'p', 'ph', 'b', 'bh', 'm', 'y', 'r', 'l', 'L', 'v', 'sh', 'Sh', 's', 'h',
+    ]),
+    nukta: spell('कखगजडढफय', ['q', 'K', 'G', 'z', '.D', '.Dh', 'f', 'Y']),
+    marks: { ...spell(MARKS, ['M', '.N', 'H', '.a', 'OM']), ...DANDAS },
+  },
+  hk: {
+    vowels: spell(VOWELS, ['a', 'A', 'i', 'I', 'u', 'U', 'R', 'RR', 'lR', 'lRR', 'e', 'ai', 'o', 'au']),
+    consonants: spell(CONSONANTS, [
+      'k', 'kh', 'g', 'gh', 'G', 'c', 'ch', 'j', 'jh', 'J', 'T', 'Th', 'D', 'Dh', 'N',
+      't', 'th', 'd', 'dh', 'n', 'p', 'ph', 'b', 'bh', 'm', 'y', 'r', 'l', 'L', 'v', 'z', 'S', 's', 'h',
+    ]),
+    // Harvard-Kyoto has no nukta letters; they fall back to the plain consonant
+    nukta: {},
+    marks: { ...spell(MARKS, ['M', '~', 'H', "'", 'oM']), ...DANDAS },
+  },
+};
+
+interface IndicScript {
+  /** Distance from the Devanagari block */
+  offset: number;
+  /** Letters the script doesn't have at the offset position */
+  overrides: Record<string, string>;
+  /** Written after the akshara to tell apart stops the script spells alike */
+  superscripts?: Record<string, string>;
+}
+
+const INDIC_SCRIPTS: Record<'telugu' | 'kannada' | 'tamil' | 'bengali' | 'gujarati', IndicScript> = {
+  bengali: {
+    offset: 0x80,
+    overrides: { 'व': 'ব', 'ळ': 'ল', 'ॐ': 'ওঁ' },
+  },
+  gujarati: {
+    offset: 0x180,
+    overrides: {},
+  },
+  // Telugu's nukta is too recent for most fonts, so it's left out
+  telugu: {
+    offset: 0x300,
+    overrides: { [NUKTA]: '', 'ॐ': 'ఓం' },
+  },
+  kannada: {
+    offset: 0x380,
+    overrides: { 'ॐ': 'ಓಂ' },
+  },
+  tamil: {
+    offset: 0x280,
+    overrides: {
+      ...spell('खगघछझठडढथदधफबभ', [...'கககசஜடடடதததபபப']),
+      'ऋ': 'ரு', 'ॠ': 'ரூ', 'ऌ': 'லு', 'ॡ': 'லூ',
+      'ृ': '்ரு', 'ॄ': '்ரூ', 'ॢ': '்லு', 'ॣ': '்லூ',
+      'ं': 'ம்', 'ँ': 'ம்', 'ः': 'ஃ', 'ऽ': '(அ)', [NUKTA]: '',
+    },
+    superscripts: spell('खगघछझठडढथदधफबभ', [...'²³⁴²²²³⁴²³⁴²³⁴']),
+  },
+};
+
+export const isRomanScript = (script: SanskritScript): boolean => script in ROMAN_SCHEMES;
+
+function toRoman(text: string, scheme: RomanScheme): string {
+  let output = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (isConsonant(char)) {
+      let consonant = scheme.consonants[char];
+      if (text[i + 1] === NUKTA) {
+        consonant = scheme.nukta[char] ?? consonant;
+        i += 1;
+      }
+      const next = text[i + 1];
+      if (next === VIRAMA) {
+        output += consonant;
+        i += 1;
+      } else if (VOWEL_SIGNS[next]) {
+        output += consonant + scheme.vowels[VOWEL_SIGNS[next]];
+        i += 1;
+      } else {
+        output += consonant + scheme.vowels[INHERENT_VOWEL];
+      }
+    } else if (scheme.vowels[char] !== undefined) {
+      output += scheme.vowels[char];
+    } else if (VOWEL_SIGNS[char]) {
+      // A sign with no consonant before it (malformed input): write the vowel
+      output += scheme.vowels[VOWEL_SIGNS[char]];
+    } else if (scheme.marks[char] !== undefined) {
+      output += scheme.marks[char];
+    } else if (isDigit(char)) {
+      output += String(char.charCodeAt(0) - DIGIT_ZERO);
+    } else if (char !== VIRAMA && char !== NUKTA) {
+      output += char;
+    }
+  }
+  return output;
+}
+
+function toIndic(text: string, script: IndicScript): string {
+  const letter = (char: string): string => {
+    const override = script.overrides[char];
+    if (override !== undefined) {
+      return override;
+    }
+    return DEVANAGARI_LETTERS.has(char) || isDigit(char)
+      ? String.fromCharCode(char.charCodeAt(0) + script.offset)
+      : char;
+  };
+
+  let output = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    output += letter(char);
+
+    const superscript = script.superscripts?.[char];
+    if (superscript) {
+      if (text[i + 1] === NUKTA) {
+        output += letter(NUKTA);
+        i += 1;
+      }
+      // The superscript follows the vowel sign or virama (க² but கா², க்²)
+      const next = text[i + 1];
+      if (next === VIRAMA || VOWEL_SIGNS[next]) {
+        const sign = letter(next);
+        output += sign.slice(0, 1) + superscript + sign.slice(1);
+        i += 1;
+      } else {
+        output += superscript;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Write Devanagari text in another script or romanization
+ */
+export function transliterate(text: string, script: SanskritScript): string {
+  if (script === 'devanagari') {
+    return text;
+  }
+  // Decomposed, so precomposed nukta letters (क़) read as consonant + nukta
+  const decomposed = text.normalize('NFD');
+  const output =
+    script === 'iast' || script === 'itrans' || script === 'hk'
+      ? toRoman(decomposed, ROMAN_SCHEMES[script])
+      : toIndic(decomposed, INDIC_SCRIPTS[script]);
+  return output.normalize('NFC');
+}